@@ -1,3 +1,4 @@
+using BudgetTracker.Api.Features.Analytics.Charts;
 using BudgetTracker.Api.Features.Analytics.Insights;
 
 namespace BudgetTracker.Api.Features.Analytics;
@@ -7,6 +8,7 @@ public static class AnalyticsEndpoints
     public static IEndpointRouteBuilder MapAnalyticsEndpoints(this IEndpointRouteBuilder endpoints)
     {
         endpoints.MapInsightsEndpoints();
+        endpoints.MapChartsEndpoints();
         return endpoints;
     }
 }
\ No newline at end of file
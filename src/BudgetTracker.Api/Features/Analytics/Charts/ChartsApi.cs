@@ -0,0 +1,164 @@
+using System.Globalization;
+using System.Security.Claims;
+using BudgetTracker.Api.Auth;
+using BudgetTracker.Api.Features.Analytics.Insights;
+using BudgetTracker.Api.Features.Transactions;
+using BudgetTracker.Api.Features.Transactions.List;
+using BudgetTracker.Api.Infrastructure;
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Features.Analytics.Charts;
+
+public static class ChartsApi
+{
+    public static IEndpointRouteBuilder MapChartsEndpoints(this IEndpointRouteBuilder routes)
+    {
+        routes.MapGet("/insights/charts",
+                async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
+                    DateOnly? dateFrom = null, DateOnly? dateTo = null, string? account = null) =>
+                {
+                    if (dateFrom > dateTo)
+                    {
+                        return Results.BadRequest(new { error = "The start date must not be after the end date" });
+                    }
+
+                    var userId = claimsPrincipal.GetUserId();
+                    var period = new InsightsPeriod(dateFrom, dateTo,
+                        string.IsNullOrWhiteSpace(account) ? null : account.Trim());
+
+                    var transactions = await db.Transactions
+                        .Where(t => t.UserId == userId)
+                        .ApplyFilter(period.ToFilter())
+                        .Include(t => t.Splits)
+                        .ToListAsync();
+
+                    return Results.Ok(new SpendingChartsDto
+                    {
+                        Categories = SumByCategory(GetExpenseAllocations(transactions)),
+                        Months = GetMonths(transactions, period),
+                        Balance = await GetBalanceAsync(db, userId, period)
+                    });
+                })
+            .RequireAuthorization()
+            .WithName("GetSpendingCharts")
+            .WithSummary("Get chart data")
+            .WithDescription("Spending by category, monthly income and expenses, and the running balance for a date range and account")
+            .Produces<SpendingChartsDto>();
+
+        return routes;
+    }
+
+    // Split transactions count each allocation under its own category, as the budget breakdown does
+    private static List<(DateTime Date, string? Category, decimal Amount)> GetExpenseAllocations(
+        List<Transaction> transactions)
+    {
+        return transactions
+            .Where(t => t.Amount < 0)
+            .SelectMany(t => t.Splits.Count > 0
+                ? t.Splits.Select(s => (t.Date, Category: (string?)s.CategoryName, Amount: Math.Abs(s.Amount)))
+                : new[] { (t.Date, t.Category, Amount: Math.Abs(t.Amount)) })
+            .ToList();
+    }
+
+    private static List<CategoryAmountDto> SumByCategory(
+        IEnumerable<(DateTime Date, string? Category, decimal Amount)> allocations)
+    {
+        return allocations
+            .GroupBy(a => a.Category)
+            .Select(g => new CategoryAmountDto { Category = g.Key, Amount = g.Sum(a => a.Amount) })
+            .Where(c => c.Amount != 0)
+            .OrderByDescending(c => c.Amount)
+            .ToList();
+    }
+
+    /// <summary>
+    /// Every month of the period, including months without transactions so gaps show as such
+    /// </summary>
+    private static List<MonthlyFlowDto> GetMonths(List<Transaction> transactions, InsightsPeriod period)
+    {
+        if (transactions.Count == 0)
+        {
+            return [];
+        }
+
+        var first = period.DateFrom?.ToDateTime(TimeOnly.MinValue) ?? transactions.Min(t => t.Date);
+        var last = period.DateTo?.ToDateTime(TimeOnly.MinValue) ?? transactions.Max(t => t.Date);
+        var allocationsByMonth = GetExpenseAllocations(transactions).ToLookup(a => MonthKey(a.Date));
+        var transactionsByMonth = transactions.ToLookup(t => MonthKey(t.Date));
+
+        var months = new List<MonthlyFlowDto>();
+        for (var month = new DateTime(first.Year, first.Month, 1); month <= last; month = month.AddMonths(1))
+        {
+            var key = MonthKey(month);
+            var monthTransactions = transactionsByMonth[key];
+
+            months.Add(new MonthlyFlowDto
+            {
+                Month = key,
+                Income = monthTransactions.Where(t => t.Amount > 0).Sum(t => t.Amount),
+                Expenses = Math.Abs(monthTransactions.Where(t => t.Amount < 0).Sum(t => t.Amount)),
+                Categories = SumByCategory(allocationsByMonth[key])
+            });
+        }
+
+        return months;
+    }
+
+    /// <summary>
+    /// Each account keeps its last known balance until its next statement line. Accounts that have a
+    /// balance from before the period start from it, so the line doesn't jump when they first appear.
+    /// </summary>
+    private static async Task<List<BalancePointDto>> GetBalanceAsync(BudgetTrackerContext db, string userId,
+        InsightsPeriod period)
+    {
+        var rows = await db.Transactions
+            .Where(t => t.UserId == userId && t.Balance != null)
+            .ApplyFilter(period.ToFilter())
+            .OrderBy(t => t.Date)
+            .ThenBy(t => t.ImportedAt)
+            .Select(t => new { t.Account, t.Date, Balance = t.Balance!.Value })
+            .ToListAsync();
+
+        var balances = new Dictionary<string, decimal>();
+        var points = new List<BalancePointDto>();
+
+        if (period.DateFrom.HasValue)
+        {
+            var start = DateTime.SpecifyKind(period.DateFrom.Value.ToDateTime(TimeOnly.MinValue), DateTimeKind.Utc);
+            var opening = await db.Transactions
+                .Where(t => t.UserId == userId && t.Balance != null && t.Date < start)
+                .ApplyFilter(new InsightsPeriod(Account: period.Account).ToFilter())
+                .GroupBy(t => t.Account)
+                .Select(g => g
+                    .OrderByDescending(t => t.Date)
+                    .ThenByDescending(t => t.ImportedAt)
+                    .Select(t => new { t.Account, Balance = t.Balance!.Value })
+                    .First())
+                .ToListAsync();
+
+            foreach (var account in opening)
+            {
+                balances[account.Account] = account.Balance;
+            }
+
+            if (balances.Count > 0 && (rows.Count == 0 || DateOnly.FromDateTime(rows[0].Date) != period.DateFrom.Value))
+            {
+                points.Add(new BalancePointDto { Date = period.DateFrom.Value, Balance = balances.Values.Sum() });
+            }
+        }
+
+        foreach (var day in rows.GroupBy(r => DateOnly.FromDateTime(r.Date)))
+        {
+            foreach (var row in day)
+            {
+                balances[row.Account] = row.Balance;
+            }
+
+            points.Add(new BalancePointDto { Date = day.Key, Balance = balances.Values.Sum() });
+        }
+
+        return points;
+    }
+
+    private static string MonthKey(DateTime date) => date.ToString("yyyy-MM", CultureInfo.InvariantCulture);
+}
@@ -0,0 +1,34 @@
+namespace BudgetTracker.Api.Features.Analytics.Charts;
+
+public class SpendingChartsDto
+{
+    /// <summary>Expenses by category over the whole period, largest first</summary>
+    public List<CategoryAmountDto> Categories { get; set; } = new();
+    public List<MonthlyFlowDto> Months { get; set; } = new();
+    public List<BalancePointDto> Balance { get; set; } = new();
+}
+
+public class CategoryAmountDto
+{
+    /// <summary>Null for uncategorized spending</summary>
+    public string? Category { get; set; }
+    /// <summary>The amount spent, as a positive number</summary>
+    public decimal Amount { get; set; }
+}
+
+public class MonthlyFlowDto
+{
+    public string Month { get; set; } = string.Empty;
+    public decimal Income { get; set; }
+    public decimal Expenses { get; set; }
+    public List<CategoryAmountDto> Categories { get; set; } = new();
+}
+
+/// <summary>
+/// The combined balance of the accounts at the end of a day, from the balances on their statements
+/// </summary>
+public class BalancePointDto
+{
+    public DateOnly Date { get; set; }
+    public decimal Balance { get; set; }
+}
@@ -1,5 +1,7 @@
 using BudgetTracker.Api.Infrastructure;
+using BudgetTracker.Api.Features.Categories;
 using BudgetTracker.Api.Features.Transactions;
+using BudgetTracker.Api.Features.Transactions.List;
 using Microsoft.EntityFrameworkCore;
 
 namespace BudgetTracker.Api.Features.Analytics.Insights;
@@ -20,31 +22,48 @@ public class AzureAiInsightsService : IInsightsService
         _logger = logger;
     }
 
-    public async Task<BudgetInsights> GenerateInsightsAsync(string userId)
+    public async Task<BudgetInsights> GenerateInsightsAsync(string userId, InsightsPeriod period,
+        InsightsPeriod? comparisonPeriod = null)
     {
         try
         {
-            var transactions = await _context.Transactions
-                .Where(t => t.UserId == userId)
-                .ToListAsync();
+            var transactions = await LoadTransactionsAsync(userId, period);
+            var targets = await InsightsSettings.GetTargetsAsync(_context, userId);
+            var definitions = await InsightsSettings.GetDefinitionsAsync(_context, userId);
+
+            // The earlier period only needs its figures, so it skips the AI summary
+            var comparison = comparisonPeriod == null
+                ? null
+                : new BudgetComparison
+                {
+                    Period = comparisonPeriod,
+                    BudgetBreakdown = CalculateBudgetBreakdown(
+                        await LoadTransactionsAsync(userId, comparisonPeriod), definitions)
+                };
 
             if (transactions.Count == 0)
             {
                 return new BudgetInsights
                 {
+                    Period = period,
                     Summary = "No transactions available for analysis.",
-                    Health = new BudgetHealth { Status = "No Data", IsHealthy = false, Areas = [] }
+                    Health = new BudgetHealth { Status = "No Data", IsHealthy = false, Areas = [] },
+                    Targets = targets,
+                    Comparison = comparison
                 };
             }
 
-            var budgetBreakdown = CalculateBudgetBreakdown(transactions);
-            var summary = await GenerateAiSummaryAsync(budgetBreakdown, transactions);
+            var budgetBreakdown = CalculateBudgetBreakdown(transactions, definitions);
+            var summary = await GenerateAiSummaryAsync(budgetBreakdown, targets, transactions);
 
             return new BudgetInsights
             {
+                Period = period,
                 BudgetBreakdown = budgetBreakdown,
                 Summary = summary,
-                Health = budgetBreakdown.CalculateHealth()
+                Health = budgetBreakdown.CalculateHealth(targets),
+                Targets = targets,
+                Comparison = comparison
             };
         }
         catch (Exception ex)
@@ -52,13 +71,24 @@ public class AzureAiInsightsService : IInsightsService
             _logger.LogError(ex, "Failed to generate insights for user {UserId}", userId);
             return new BudgetInsights
             {
+                Period = period,
                 Summary = "Unable to generate insights at this time.",
                 Health = new BudgetHealth { Status = "Error", IsHealthy = false, Areas = [] }
             };
         }
     }
 
-    private BudgetBreakdown CalculateBudgetBreakdown(List<Transaction> transactions)
+    private async Task<List<Transaction>> LoadTransactionsAsync(string userId, InsightsPeriod period)
+    {
+        return await _context.Transactions
+            .Where(t => t.UserId == userId)
+            .ApplyFilter(period.ToFilter())
+            .Include(t => t.Splits)
+            .ToListAsync();
+    }
+
+    private static BudgetBreakdown CalculateBudgetBreakdown(List<Transaction> transactions,
+        IReadOnlyDictionary<string, CategoryDefinition> definitions)
     {
         var expenses = transactions.Where(t => t.Amount < 0).ToList();
         var totalExpenses = Math.Abs(expenses.Sum(t => t.Amount));
@@ -68,16 +98,21 @@ public class AzureAiInsightsService : IInsightsService
             return new BudgetBreakdown();
         }
 
-        var needsCategories = new[] { "Housing", "Transportation", "Groceries", "Healthcare", "Utilities", "Insurance" };
-        var savingsCategories = new[] { "Savings", "Investment", "Retirement" };
+        // Split transactions count each allocation under its own category instead of the primary one
+        var allocations = expenses
+            .SelectMany(t => t.Splits.Count > 0
+                ? t.Splits.Select(s => (Category: (string?)s.CategoryName, s.Amount))
+                : new[] { (Category: t.Category, t.Amount) })
+            .Select(a => (Bucket: BudgetBuckets.Resolve(a.Category, definitions).Bucket, a.Amount))
+            .ToList();
 
-        var needsAmount = Math.Abs(expenses
-            .Where(t => needsCategories.Contains(t.Category, StringComparer.OrdinalIgnoreCase))
-            .Sum(t => t.Amount));
+        var needsAmount = Math.Abs(allocations
+            .Where(a => a.Bucket == BudgetBucket.Needs)
+            .Sum(a => a.Amount));
 
-        var savingsAmount = Math.Abs(expenses
-            .Where(t => savingsCategories.Contains(t.Category, StringComparer.OrdinalIgnoreCase))
-            .Sum(t => t.Amount));
+        var savingsAmount = Math.Abs(allocations
+            .Where(a => a.Bucket == BudgetBucket.Savings)
+            .Sum(a => a.Amount));
 
         var wantsAmount = totalExpenses - needsAmount - savingsAmount;
 
@@ -94,26 +129,26 @@ public class AzureAiInsightsService : IInsightsService
     }
 
     private async Task<string> GenerateAiSummaryAsync(
-        BudgetBreakdown breakdown, List<Transaction> transactions)
+        BudgetBreakdown breakdown, BudgetTargetsDto targets, List<Transaction> transactions)
     {
-        var systemPrompt = CreateSystemPrompt();
+        var systemPrompt = CreateSystemPrompt(targets);
         var userPrompt = CreateUserPrompt(breakdown, transactions);
 
         var content = await _chatService.CompleteChatAsync(systemPrompt, userPrompt);
         return ParseAiResponse(content);
     }
 
-    private static string CreateSystemPrompt()
+    private static string CreateSystemPrompt(BudgetTargetsDto targets)
     {
-        return """
-               You are a financial analyst providing budget insights using the 50/20/30 budget method.
+        return $"""
+               You are a financial analyst providing budget insights using the needs/wants/savings budget method.
 
-               The 50/20/30 rule suggests:
-               - 50% of after-tax income for needs (housing, transportation, groceries, healthcare, utilities)
-               - 20% for savings and debt repayment
-               - 30% for wants (entertainment, dining out, hobbies, shopping)
+               The user has set these targets:
+               - {targets.NeedsPercentage:0.#}% for needs (housing, transportation, groceries, healthcare, utilities)
+               - {targets.SavingsPercentage:0.#}% for savings and debt repayment
+               - {targets.WantsPercentage:0.#}% for wants (entertainment, dining out, hobbies, shopping)
 
-               Provide a concise 2-3 sentence summary analyzing their spending breakdown compared to the 50/20/30 rule.
+               Provide a concise 2-3 sentence summary analyzing their spending breakdown compared to these targets.
                Focus on factual analysis, not recommendations.
 
                Return only the summary text, no JSON formatting.
@@ -141,6 +176,6 @@ public class AzureAiInsightsService : IInsightsService
     {
         return !string.IsNullOrWhiteSpace(content)
             ? content.Trim()
-            : "Your spending has been analyzed according to the 50/20/30 budget rule.";
+            : "Your spending has been analyzed against your needs, wants and savings targets.";
     }
 }
\ No newline at end of file
@@ -0,0 +1,58 @@
+using System.Text.Json.Serialization;
+using BudgetTracker.Api.Features.Categories;
+
+namespace BudgetTracker.Api.Features.Analytics.Insights;
+
+[JsonConverter(typeof(JsonStringEnumConverter))]
+public enum BudgetBucket
+{
+    Needs,
+    Wants,
+    Savings
+}
+
+/// <summary>
+/// Decides which bucket a category's spending counts toward
+/// </summary>
+internal static class BudgetBuckets
+{
+    private static readonly string[] DefaultNeeds =
+        ["Housing", "Transportation", "Groceries", "Healthcare", "Utilities", "Insurance"];
+
+    private static readonly string[] DefaultSavings = ["Savings", "Investment", "Retirement"];
+
+    /// <summary>
+    /// The user's choice for the category, then for its parent, then the built-in defaults for either.
+    /// Anything else, including uncategorized spending, is a want. IsDefault is false only when the
+    /// category has a bucket of its own.
+    /// </summary>
+    public static (BudgetBucket Bucket, bool IsDefault) Resolve(string? category,
+        IReadOnlyDictionary<string, CategoryDefinition> definitions)
+    {
+        if (category == null)
+        {
+            return (BudgetBucket.Wants, true);
+        }
+
+        definitions.TryGetValue(category, out var definition);
+        if (definition?.Bucket is { } bucket)
+        {
+            return (bucket, false);
+        }
+
+        var parentName = definition?.ParentName;
+        if (parentName != null && definitions.TryGetValue(parentName, out var parent) && parent.Bucket is { } parentBucket)
+        {
+            return (parentBucket, true);
+        }
+
+        return (GetDefault(category) ?? (parentName != null ? GetDefault(parentName) : null) ?? BudgetBucket.Wants, true);
+    }
+
+    private static BudgetBucket? GetDefault(string category)
+    {
+        if (DefaultNeeds.Contains(category, StringComparer.OrdinalIgnoreCase)) return BudgetBucket.Needs;
+        if (DefaultSavings.Contains(category, StringComparer.OrdinalIgnoreCase)) return BudgetBucket.Savings;
+        return null;
+    }
+}
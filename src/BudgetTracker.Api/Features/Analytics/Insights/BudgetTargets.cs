@@ -0,0 +1,56 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace BudgetTracker.Api.Features.Analytics.Insights;
+
+/// <summary>
+/// The share of spending the user aims to put toward needs, wants and savings. Users without a row
+/// are measured against the 50/30/20 rule.
+/// </summary>
+public class BudgetTargets
+{
+    public const decimal DefaultNeedsPercentage = 50;
+    public const decimal DefaultWantsPercentage = 30;
+    public const decimal DefaultSavingsPercentage = 20;
+
+    [Key]
+    public Guid Id { get; set; }
+
+    [Required]
+    public string UserId { get; set; } = string.Empty;
+
+    [Column(TypeName = "decimal(5,2)")]
+    public decimal NeedsPercentage { get; set; } = DefaultNeedsPercentage;
+
+    [Column(TypeName = "decimal(5,2)")]
+    public decimal WantsPercentage { get; set; } = DefaultWantsPercentage;
+
+    [Column(TypeName = "decimal(5,2)")]
+    public decimal SavingsPercentage { get; set; } = DefaultSavingsPercentage;
+
+    [Required]
+    [Column(TypeName = "timestamptz")]
+    public DateTime UpdatedAt { get; set; }
+}
+
+public class BudgetTargetsDto
+{
+    public decimal NeedsPercentage { get; set; } = BudgetTargets.DefaultNeedsPercentage;
+    public decimal WantsPercentage { get; set; } = BudgetTargets.DefaultWantsPercentage;
+    public decimal SavingsPercentage { get; set; } = BudgetTargets.DefaultSavingsPercentage;
+}
+
+public class CategoryBucketDto
+{
+    public string Category { get; set; } = string.Empty;
+    public string? ParentName { get; set; }
+    public BudgetBucket Bucket { get; set; }
+    /// <summary>Whether the category has no bucket of its own and follows its parent or the built-in defaults</summary>
+    public bool IsDefault { get; set; }
+}
+
+public class InsightsSettingsDto
+{
+    public BudgetTargetsDto Targets { get; set; } = new();
+    public List<CategoryBucketDto> Categories { get; set; } = new();
+}
@@ -1,5 +1,9 @@
 using System.Security.Claims;
 using BudgetTracker.Api.Auth;
+using BudgetTracker.Api.Features.Categories;
+using BudgetTracker.Api.Infrastructure;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
 
 namespace BudgetTracker.Api.Features.Analytics.Insights;
 
@@ -8,18 +12,125 @@ public static class InsightsApi
     public static IEndpointRouteBuilder MapInsightsEndpoints(this IEndpointRouteBuilder routes)
     {
         routes.MapGet("/insights",
-                async (IInsightsService insightsService, ClaimsPrincipal claimsPrincipal) =>
+                async (IInsightsService insightsService, ClaimsPrincipal claimsPrincipal,
+                    DateOnly? dateFrom = null, DateOnly? dateTo = null, string? account = null,
+                    DateOnly? compareFrom = null, DateOnly? compareTo = null) =>
                 {
+                    if (dateFrom > dateTo || compareFrom > compareTo)
+                    {
+                        return Results.BadRequest(new { error = "The start date must not be after the end date" });
+                    }
+
                     var userId = claimsPrincipal.GetUserId();
-                    var insights = await insightsService.GenerateInsightsAsync(userId);
+                    account = string.IsNullOrWhiteSpace(account) ? null : account.Trim();
+                    var period = new InsightsPeriod(dateFrom, dateTo, account);
+                    var comparisonPeriod = compareFrom.HasValue || compareTo.HasValue
+                        ? new InsightsPeriod(compareFrom, compareTo, account)
+                        : null;
+
+                    var insights = await insightsService.GenerateInsightsAsync(userId, period, comparisonPeriod);
                     return Results.Ok(insights);
                 })
             .RequireAuthorization()
             .WithName("GetInsights")
             .WithSummary("Get budget analytics")
-            .WithDescription("Analyzes spending patterns and provides budget breakdown with health assessment")
+            .WithDescription("Analyzes spending patterns for a date range and account and provides budget breakdown with health assessment, optionally next to an earlier period")
             .Produces<BudgetInsights>();
 
+        routes.MapGet("/insights/settings",
+                async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal) =>
+                {
+                    var userId = claimsPrincipal.GetUserId();
+                    return Results.Ok(await InsightsSettings.GetAsync(db, userId));
+                })
+            .RequireAuthorization()
+            .WithName("GetInsightsSettings")
+            .WithSummary("Get budget targets")
+            .WithDescription("Returns the needs/wants/savings targets and the bucket each category counts toward")
+            .Produces<InsightsSettingsDto>();
+
+        routes.MapPut("/insights/settings",
+                async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
+                    [FromBody] SaveInsightsSettingsRequest request) =>
+                {
+                    var userId = claimsPrincipal.GetUserId();
+
+                    var validationError = Validate(request);
+                    if (validationError != null)
+                    {
+                        return Results.BadRequest(new { error = validationError });
+                    }
+
+                    var targets = await db.BudgetTargets.FirstOrDefaultAsync(t => t.UserId == userId);
+                    if (targets == null)
+                    {
+                        targets = new BudgetTargets { UserId = userId };
+                        db.BudgetTargets.Add(targets);
+                    }
+
+                    targets.NeedsPercentage = request.NeedsPercentage;
+                    targets.WantsPercentage = request.WantsPercentage;
+                    targets.SavingsPercentage = request.SavingsPercentage;
+                    targets.UpdatedAt = DateTime.UtcNow;
+
+                    var definitions = await db.CategoryDefinitions
+                        .Where(d => d.UserId == userId)
+                        .ToListAsync();
+
+                    foreach (var assignment in request.Buckets ?? [])
+                    {
+                        var category = assignment.Category!.Trim();
+                        var definition = definitions.FirstOrDefault(d => d.Name == category);
+
+                        // Going back to the default needs no definition of its own
+                        if (definition == null && assignment.Bucket == null)
+                        {
+                            continue;
+                        }
+
+                        definition ??= CategoriesApi.FindOrCreate(db, definitions, userId, category);
+                        definition.Bucket = assignment.Bucket;
+                    }
+
+                    await db.SaveChangesAsync();
+
+                    return Results.Ok(await InsightsSettings.GetAsync(db, userId));
+                })
+            .RequireAuthorization()
+            .WithName("SaveInsightsSettings")
+            .WithSummary("Save budget targets")
+            .WithDescription("Sets the needs/wants/savings targets and assigns categories to buckets")
+            .Produces<InsightsSettingsDto>();
+
         return routes;
     }
-}
\ No newline at end of file
+
+    private static string? Validate(SaveInsightsSettingsRequest request)
+    {
+        var percentages = new[] { request.NeedsPercentage, request.WantsPercentage, request.SavingsPercentage };
+        if (percentages.Any(p => p < 0 || p > 100))
+        {
+            return "Targets must be between 0 and 100 percent";
+        }
+
+        if (percentages.Sum() != 100)
+        {
+            return "Targets must add up to 100 percent";
+        }
+
+        if (request.Buckets?.Any(b => string.IsNullOrWhiteSpace(b.Category) || b.Category.Trim().Length > 100) == true)
+        {
+            return "Category name must be between 1 and 100 characters";
+        }
+
+        return null;
+    }
+}
+
+public record CategoryBucketRequest(string? Category, BudgetBucket? Bucket);
+
+public record SaveInsightsSettingsRequest(
+    decimal NeedsPercentage,
+    decimal WantsPercentage,
+    decimal SavingsPercentage,
+    List<CategoryBucketRequest>? Buckets);
@@ -0,0 +1,57 @@
+using BudgetTracker.Api.Features.Categories;
+using BudgetTracker.Api.Infrastructure;
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Features.Analytics.Insights;
+
+internal static class InsightsSettings
+{
+    public static async Task<BudgetTargetsDto> GetTargetsAsync(BudgetTrackerContext db, string userId)
+    {
+        var targets = await db.BudgetTargets.FirstOrDefaultAsync(t => t.UserId == userId);
+
+        return targets == null
+            ? new BudgetTargetsDto()
+            : new BudgetTargetsDto
+            {
+                NeedsPercentage = targets.NeedsPercentage,
+                WantsPercentage = targets.WantsPercentage,
+                SavingsPercentage = targets.SavingsPercentage
+            };
+    }
+
+    public static async Task<Dictionary<string, CategoryDefinition>> GetDefinitionsAsync(BudgetTrackerContext db,
+        string userId)
+    {
+        return await db.CategoryDefinitions
+            .Where(d => d.UserId == userId)
+            .ToDictionaryAsync(d => d.Name);
+    }
+
+    /// <summary>
+    /// The targets, and the bucket of every category the user has
+    /// </summary>
+    public static async Task<InsightsSettingsDto> GetAsync(BudgetTrackerContext db, string userId)
+    {
+        var categories = await CategoriesApi.GetCategorySummariesAsync(db, userId);
+        var definitions = await GetDefinitionsAsync(db, userId);
+
+        return new InsightsSettingsDto
+        {
+            Targets = await GetTargetsAsync(db, userId),
+            Categories = categories
+                .Select(c =>
+                {
+                    var (bucket, isDefault) = BudgetBuckets.Resolve(c.Name, definitions);
+                    return new CategoryBucketDto
+                    {
+                        Category = c.Name,
+                        ParentName = c.ParentName,
+                        Bucket = bucket,
+                        IsDefault = isDefault
+                    };
+                })
+                .ToList()
+        };
+    }
+}
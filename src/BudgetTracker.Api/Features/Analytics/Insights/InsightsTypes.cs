@@ -1,15 +1,38 @@
+using BudgetTracker.Api.Features.Transactions.List;
+
 namespace BudgetTracker.Api.Features.Analytics.Insights;
 
 public interface IInsightsService
 {
-    Task<BudgetInsights> GenerateInsightsAsync(string userId);
+    Task<BudgetInsights> GenerateInsightsAsync(string userId, InsightsPeriod period,
+        InsightsPeriod? comparisonPeriod = null);
+}
+
+/// <summary>
+/// The transactions insights cover: an inclusive date range, open where a date is missing, and
+/// optionally a single account
+/// </summary>
+public record InsightsPeriod(DateOnly? DateFrom = null, DateOnly? DateTo = null, string? Account = null)
+{
+    public TransactionFilter ToFilter() =>
+        new(Accounts: Account == null ? null : new List<string> { Account }, DateFrom: DateFrom, DateTo: DateTo);
 }
 
 public class BudgetInsights
 {
+    public InsightsPeriod Period { get; set; } = new();
     public BudgetBreakdown BudgetBreakdown { get; set; } = new();
     public string Summary { get; set; } = string.Empty;
     public BudgetHealth Health { get; set; } = new();
+    public BudgetTargetsDto Targets { get; set; } = new();
+    /// <summary>The breakdown of an earlier period, when one was asked for</summary>
+    public BudgetComparison? Comparison { get; set; }
+}
+
+public class BudgetComparison
+{
+    public InsightsPeriod Period { get; set; } = new();
+    public BudgetBreakdown BudgetBreakdown { get; set; } = new();
 }
 
 public class BudgetBreakdown
@@ -32,16 +55,22 @@ public class BudgetHealth
 
 internal static class BudgetBreakdownExtensions
 {
-    public static BudgetHealth CalculateHealth(this BudgetBreakdown breakdown)
+    /// <summary>
+    /// Healthy means needs and wants stay at or under their targets and savings reach theirs
+    /// </summary>
+    public static BudgetHealth CalculateHealth(this BudgetBreakdown breakdown, BudgetTargetsDto targets)
     {
-        var isHealthy = breakdown.NeedsPercentage <= 50 &&
-                       breakdown.WantsPercentage <= 30 &&
-                       breakdown.SavingsPercentage >= 20;
+        var isHealthy = breakdown.NeedsPercentage <= targets.NeedsPercentage &&
+                       breakdown.WantsPercentage <= targets.WantsPercentage &&
+                       breakdown.SavingsPercentage >= targets.SavingsPercentage;
 
         var areas = new List<string>();
-        if (breakdown.NeedsPercentage > 50) areas.Add("Needs spending is high");
-        if (breakdown.WantsPercentage > 30) areas.Add("Discretionary spending is high");
-        if (breakdown.SavingsPercentage < 20) areas.Add("Savings rate is low");
+        if (breakdown.NeedsPercentage > targets.NeedsPercentage)
+            areas.Add($"Needs spending is high: {breakdown.NeedsPercentage:0.#}% of expenses against a target of at most {targets.NeedsPercentage:0.#}%");
+        if (breakdown.WantsPercentage > targets.WantsPercentage)
+            areas.Add($"Discretionary spending is high: {breakdown.WantsPercentage:0.#}% of expenses against a target of at most {targets.WantsPercentage:0.#}%");
+        if (breakdown.SavingsPercentage < targets.SavingsPercentage)
+            areas.Add($"Savings rate is low: {breakdown.SavingsPercentage:0.#}% of expenses against a target of at least {targets.SavingsPercentage:0.#}%");
 
         return new BudgetHealth
         {
@@ -0,0 +1,140 @@
+using BudgetTracker.Api.Infrastructure;
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Features.Budgets;
+
+/// <summary>
+/// Works out how each budget stands for a month: what was spent against it, what rolled over from
+/// earlier months and where spending is heading at the current pace.
+/// </summary>
+internal static class BudgetCalculator
+{
+    // Rollover is followed back this many months at most, so old budgets stay cheap to evaluate
+    private const int MaxRolloverMonths = 12;
+
+    private record Allocation(Guid TransactionId, string CategoryName, decimal Amount, DateTime Date, bool IsSplit);
+
+    public static async Task<BudgetMonthDto> GetMonthAsync(BudgetTrackerContext db, string userId, DateTime month,
+        DateTime now)
+    {
+        var monthStart = new DateTime(month.Year, month.Month, 1, 0, 0, 0, DateTimeKind.Utc);
+        var monthEnd = monthStart.AddMonths(1);
+        var daysInMonth = DateTime.DaysInMonth(month.Year, month.Month);
+        var daysElapsed = now >= monthEnd ? daysInMonth : now < monthStart ? 0 : now.Day;
+
+        var result = new BudgetMonthDto
+        {
+            Month = monthStart.ToString("yyyy-MM"),
+            DaysElapsed = daysElapsed,
+            DaysInMonth = daysInMonth
+        };
+
+        var budgets = await db.CategoryBudgets
+            .Where(b => b.UserId == userId)
+            .OrderBy(b => b.CategoryName)
+            .ToListAsync();
+
+        if (budgets.Count == 0) return result;
+
+        var rangeStart = budgets
+            .Select(b => GetRolloverStart(b, monthStart))
+            .Min();
+
+        var parents = await db.CategoryDefinitions
+            .Where(d => d.UserId == userId && d.ParentName != null)
+            .ToDictionaryAsync(d => d.Name, d => d.ParentName!);
+
+        var allocations = await GetAllocationsAsync(db, userId, rangeStart, monthEnd);
+        var spending = GetSpendingByBudget(allocations, budgets.Select(b => b.CategoryName).ToHashSet(), parents);
+
+        foreach (var budget in budgets)
+        {
+            decimal Spent(DateTime start) => spending.GetValueOrDefault((budget.CategoryName, start));
+
+            var rolloverAmount = 0m;
+            if (budget.Rollover)
+            {
+                // Only what's left over carries forward; an overspent month starts the next one from the plain limit
+                for (var start = GetRolloverStart(budget, monthStart); start < monthStart; start = start.AddMonths(1))
+                {
+                    rolloverAmount = Math.Max(0, budget.MonthlyLimit + rolloverAmount - Spent(start));
+                }
+            }
+
+            var available = budget.MonthlyLimit + rolloverAmount;
+            var spent = Spent(monthStart);
+            var projected = daysElapsed == 0 ? 0 : Math.Round(spent / daysElapsed * daysInMonth, 2);
+
+            result.Budgets.Add(new BudgetProgressDto
+            {
+                Id = budget.Id,
+                Category = budget.CategoryName,
+                MonthlyLimit = budget.MonthlyLimit,
+                Rollover = budget.Rollover,
+                RolloverAmount = rolloverAmount,
+                Available = available,
+                Spent = spent,
+                Remaining = available - spent,
+                ProjectedSpend = projected,
+                Status = spent > available ? BudgetStatus.Over
+                    : projected > available ? BudgetStatus.AtRisk
+                    : BudgetStatus.OnTrack
+            });
+        }
+
+        return result;
+    }
+
+    private static DateTime GetRolloverStart(CategoryBudget budget, DateTime monthStart)
+    {
+        if (!budget.Rollover) return monthStart;
+
+        var created = new DateTime(budget.CreatedAt.Year, budget.CreatedAt.Month, 1, 0, 0, 0, DateTimeKind.Utc);
+        var earliest = monthStart.AddMonths(-MaxRolloverMonths);
+        return created > monthStart ? monthStart : created < earliest ? earliest : created;
+    }
+
+    /// <summary>
+    /// Expenses by category in the range. Split transactions count each allocation under its own category.
+    /// </summary>
+    private static async Task<List<Allocation>> GetAllocationsAsync(BudgetTrackerContext db, string userId,
+        DateTime from, DateTime to)
+    {
+        var primary = await db.Transactions
+            .Where(t => t.UserId == userId && t.Date >= from && t.Date < to && t.Amount < 0 &&
+                        t.Category != null && !t.Splits.Any())
+            .Select(t => new Allocation(t.Id, t.Category!, t.Amount, t.Date, false))
+            .ToListAsync();
+
+        var tagged = await db.TransactionCategories
+            .Where(tc => tc.UserId == userId && tc.Transaction.DeletedAt == null &&
+                         tc.Transaction.Date >= from && tc.Transaction.Date < to && tc.Transaction.Amount < 0 &&
+                         !tc.Transaction.Splits.Any())
+            .Select(tc => new Allocation(tc.TransactionId, tc.CategoryName, tc.Transaction.Amount, tc.Transaction.Date, false))
+            .ToListAsync();
+
+        var split = await db.TransactionSplits
+            .Where(s => s.UserId == userId && s.Transaction.DeletedAt == null &&
+                        s.Transaction.Date >= from && s.Transaction.Date < to && s.Amount < 0)
+            .Select(s => new Allocation(s.TransactionId, s.CategoryName, s.Amount, s.Transaction.Date, true))
+            .ToListAsync();
+
+        return primary.Concat(tagged).Concat(split).ToList();
+    }
+
+    /// <summary>
+    /// Spending per budgeted category and month. A transaction filed under several categories of the same
+    /// budget, such as a parent and its child, counts once; split allocations add up.
+    /// </summary>
+    private static Dictionary<(string Category, DateTime Month), decimal> GetSpendingByBudget(
+        List<Allocation> allocations, HashSet<string> budgetedCategories, Dictionary<string, string> parents)
+    {
+        return allocations
+            .SelectMany(a => new[] { a.CategoryName, parents.GetValueOrDefault(a.CategoryName) }
+                .Where(category => category != null && budgetedCategories.Contains(category))
+                .Select(category => (Budget: category!, Allocation: a)))
+            .DistinctBy(x => (x.Budget, x.Allocation.TransactionId, x.Allocation.IsSplit ? x.Allocation.CategoryName : null))
+            .GroupBy(x => (x.Budget, new DateTime(x.Allocation.Date.Year, x.Allocation.Date.Month, 1, 0, 0, 0, DateTimeKind.Utc)))
+            .ToDictionary(g => g.Key, g => -g.Sum(x => x.Allocation.Amount));
+    }
+}
@@ -0,0 +1,147 @@
+using System.Globalization;
+using System.Security.Claims;
+using BudgetTracker.Api.Auth;
+using BudgetTracker.Api.Infrastructure;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Features.Budgets;
+
+public static class BudgetsApi
+{
+    private const decimal MaxMonthlyLimit = 1_000_000_000m;
+
+    public static IEndpointRouteBuilder MapBudgetsEndpoints(this IEndpointRouteBuilder routes)
+    {
+        var budgetsGroup = routes.MapGroup("/budgets")
+            .WithTags("Budgets")
+            .WithOpenApi()
+            .RequireAuthorization();
+
+        budgetsGroup.MapGet("/",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal, string? month = null) =>
+            {
+                var now = DateTime.UtcNow;
+                var selectedMonth = now;
+                if (!string.IsNullOrEmpty(month) &&
+                    !DateTime.TryParseExact(month, "yyyy-MM", CultureInfo.InvariantCulture, DateTimeStyles.None,
+                        out selectedMonth))
+                {
+                    return Results.BadRequest(new { error = "Month must be in the format yyyy-MM" });
+                }
+
+                var userId = claimsPrincipal.GetUserId();
+                return Results.Ok(await BudgetCalculator.GetMonthAsync(db, userId, selectedMonth, now));
+            });
+
+        budgetsGroup.MapPost("/",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal, [FromBody] SaveBudgetRequest request) =>
+            {
+                var userId = claimsPrincipal.GetUserId();
+                var category = request.Category?.Trim() ?? string.Empty;
+
+                var validationError = await ValidateAsync(db, userId, request, category, null);
+                if (validationError != null)
+                {
+                    return Results.BadRequest(new { error = validationError });
+                }
+
+                var now = DateTime.UtcNow;
+                var budget = new CategoryBudget
+                {
+                    UserId = userId,
+                    CategoryName = category,
+                    MonthlyLimit = request.MonthlyLimit,
+                    Rollover = request.Rollover,
+                    CreatedAt = now,
+                    UpdatedAt = now
+                };
+
+                db.CategoryBudgets.Add(budget);
+                await db.SaveChangesAsync();
+
+                return Results.Ok(new { id = budget.Id });
+            });
+
+        budgetsGroup.MapPut("/{budgetId:guid}",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal, Guid budgetId,
+                [FromBody] SaveBudgetRequest request) =>
+            {
+                var userId = claimsPrincipal.GetUserId();
+                var budget = await db.CategoryBudgets
+                    .FirstOrDefaultAsync(b => b.Id == budgetId && b.UserId == userId);
+
+                if (budget == null)
+                {
+                    return Results.NotFound(new { error = "Budget not found" });
+                }
+
+                var category = request.Category?.Trim() ?? string.Empty;
+                var validationError = await ValidateAsync(db, userId, request, category, budgetId);
+                if (validationError != null)
+                {
+                    return Results.BadRequest(new { error = validationError });
+                }
+
+                budget.CategoryName = category;
+                budget.MonthlyLimit = request.MonthlyLimit;
+                budget.Rollover = request.Rollover;
+                budget.UpdatedAt = DateTime.UtcNow;
+
+                await db.SaveChangesAsync();
+
+                return Results.Ok(new { id = budget.Id });
+            });
+
+        budgetsGroup.MapDelete("/{budgetId:guid}",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal, Guid budgetId) =>
+            {
+                var userId = claimsPrincipal.GetUserId();
+                var budget = await db.CategoryBudgets
+                    .FirstOrDefaultAsync(b => b.Id == budgetId && b.UserId == userId);
+
+                if (budget == null)
+                {
+                    return Results.NotFound(new { error = "Budget not found" });
+                }
+
+                db.CategoryBudgets.Remove(budget);
+                await db.SaveChangesAsync();
+
+                return Results.Ok(new { message = "Budget deleted successfully" });
+            });
+
+        return routes;
+    }
+
+    private static async Task<string?> ValidateAsync(BudgetTrackerContext db, string userId,
+        SaveBudgetRequest request, string category, Guid? budgetId)
+    {
+        if (string.IsNullOrEmpty(category))
+        {
+            return "Category is required";
+        }
+
+        if (category.Length > 100)
+        {
+            return "Category names must be 100 characters or fewer";
+        }
+
+        if (request.MonthlyLimit <= 0)
+        {
+            return "The monthly limit must be more than zero";
+        }
+
+        if (request.MonthlyLimit > MaxMonthlyLimit)
+        {
+            return "The monthly limit is too large";
+        }
+
+        var exists = await db.CategoryBudgets
+            .AnyAsync(b => b.UserId == userId && b.CategoryName == category && b.Id != budgetId);
+
+        return exists ? $"There is already a budget for {category}" : null;
+    }
+}
+
+public record SaveBudgetRequest(string? Category, decimal MonthlyLimit, bool Rollover);
@@ -0,0 +1,70 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+using System.Text.Json.Serialization;
+
+namespace BudgetTracker.Api.Features.Budgets;
+
+/// <summary>
+/// A monthly spending limit for a category. Spending under the category's children counts too.
+/// </summary>
+public class CategoryBudget
+{
+    [Key]
+    public Guid Id { get; set; }
+
+    [Required]
+    public string UserId { get; set; } = string.Empty;
+
+    [Required]
+    [MaxLength(100)]
+    public string CategoryName { get; set; } = string.Empty;
+
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal MonthlyLimit { get; set; }
+
+    /// <summary>
+    /// Whether what's left at the end of a month is added to the next month's limit
+    /// </summary>
+    public bool Rollover { get; set; }
+
+    [Required]
+    [Column(TypeName = "timestamptz")]
+    public DateTime CreatedAt { get; set; }
+
+    [Required]
+    [Column(TypeName = "timestamptz")]
+    public DateTime UpdatedAt { get; set; }
+}
+
+[JsonConverter(typeof(JsonStringEnumConverter))]
+public enum BudgetStatus
+{
+    OnTrack,
+    AtRisk,
+    Over
+}
+
+public class BudgetProgressDto
+{
+    public Guid Id { get; set; }
+    public string Category { get; set; } = string.Empty;
+    public decimal MonthlyLimit { get; set; }
+    public bool Rollover { get; set; }
+    /// <summary>Unspent amount carried over from earlier months</summary>
+    public decimal RolloverAmount { get; set; }
+    /// <summary>The limit plus any rollover</summary>
+    public decimal Available { get; set; }
+    public decimal Spent { get; set; }
+    public decimal Remaining { get; set; }
+    /// <summary>Month-end spend if the pace so far continues</summary>
+    public decimal ProjectedSpend { get; set; }
+    public BudgetStatus Status { get; set; }
+}
+
+public class BudgetMonthDto
+{
+    public string Month { get; set; } = string.Empty;
+    public int DaysElapsed { get; set; }
+    public int DaysInMonth { get; set; }
+    public List<BudgetProgressDto> Budgets { get; set; } = new();
+}
@@ -0,0 +1,302 @@
+using System.Security.Claims;
+using System.Text.RegularExpressions;
+using BudgetTracker.Api.Auth;
+using BudgetTracker.Api.Infrastructure;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Features.Categories;
+
+public static class CategoriesApi
+{
+    private static readonly Regex ColorPattern = new("^[a-z]{1,20}$", RegexOptions.Compiled);
+
+    public static IEndpointRouteBuilder MapCategoriesEndpoints(this IEndpointRouteBuilder routes)
+    {
+        var categoriesGroup = routes.MapGroup("/categories")
+            .WithTags("Categories")
+            .WithOpenApi()
+            .RequireAuthorization();
+
+        categoriesGroup.MapGet("/",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal) =>
+            {
+                var userId = claimsPrincipal.GetUserId();
+                return Results.Ok(await GetCategorySummariesAsync(db, userId));
+            });
+
+        // Only the chip settings, without the usage totals, for loading on every page
+        categoriesGroup.MapGet("/appearance",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal) =>
+            {
+                var userId = claimsPrincipal.GetUserId();
+                var appearances = await db.CategoryDefinitions
+                    .Where(d => d.UserId == userId && (d.Color != null || d.Icon != null || d.IsArchived))
+                    .OrderBy(d => d.Name)
+                    .Select(d => new CategoryAppearanceDto
+                    {
+                        Name = d.Name,
+                        Color = d.Color,
+                        Icon = d.Icon,
+                        IsArchived = d.IsArchived
+                    })
+                    .ToListAsync();
+
+                return Results.Ok(appearances);
+            });
+
+        categoriesGroup.MapPut("/",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
+                [FromBody] SaveCategoryRequest request) =>
+            {
+                var userId = claimsPrincipal.GetUserId();
+                var name = request.Name?.Trim() ?? string.Empty;
+                var parentName = string.IsNullOrWhiteSpace(request.ParentName) ? null : request.ParentName.Trim();
+
+                var definitions = await db.CategoryDefinitions
+                    .Where(d => d.UserId == userId)
+                    .ToListAsync();
+
+                var validationError = Validate(request, name, parentName, definitions);
+                if (validationError != null)
+                {
+                    return Results.BadRequest(new { error = validationError });
+                }
+
+                var definition = FindOrCreate(db, definitions, userId, name);
+                definition.ParentName = parentName;
+                definition.Color = string.IsNullOrWhiteSpace(request.Color) ? null : request.Color.Trim();
+                definition.Icon = string.IsNullOrWhiteSpace(request.Icon) ? null : request.Icon.Trim();
+                definition.IsArchived = request.IsArchived;
+
+                // A new parent name becomes a category of its own so it shows up in the list
+                if (parentName != null)
+                {
+                    FindOrCreate(db, definitions, userId, parentName);
+                }
+
+                await db.SaveChangesAsync();
+
+                return Results.Ok(await GetCategorySummariesAsync(db, userId));
+            });
+
+        categoriesGroup.MapPost("/rename",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
+                [FromBody] RenameCategoryRequest request) =>
+            {
+                var userId = claimsPrincipal.GetUserId();
+                var name = request.Name?.Trim() ?? string.Empty;
+                var newName = request.NewName?.Trim() ?? string.Empty;
+
+                if (string.IsNullOrEmpty(name) || string.IsNullOrEmpty(newName))
+                {
+                    return Results.BadRequest(new { error = "Both the current and the new name are required" });
+                }
+
+                if (newName.Length > 100)
+                {
+                    return Results.BadRequest(new { error = "Category name must be 100 characters or fewer" });
+                }
+
+                if (name == newName)
+                {
+                    return Results.Ok(await GetCategorySummariesAsync(db, userId));
+                }
+
+                var existing = await GetCategorySummariesAsync(db, userId);
+                if (existing.All(c => c.Name != name))
+                {
+                    return Results.NotFound(new { error = "Category not found" });
+                }
+
+                // Only a change of case may reuse an existing name, anything else is a merge
+                if (existing.Any(c => c.Name == newName ||
+                                      (c.Name != name && string.Equals(c.Name, newName, StringComparison.OrdinalIgnoreCase))))
+                {
+                    return Results.BadRequest(new { error = $"\"{newName}\" already exists. Merge the categories instead." });
+                }
+
+                var updatedCount = await CategoryRewriter.RewriteAsync(db, userId, name, newName);
+
+                return Results.Ok(new
+                {
+                    updatedCount,
+                    categories = await GetCategorySummariesAsync(db, userId)
+                });
+            });
+
+        categoriesGroup.MapPost("/merge",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
+                [FromBody] MergeCategoriesRequest request) =>
+            {
+                var userId = claimsPrincipal.GetUserId();
+                var source = request.Source?.Trim() ?? string.Empty;
+                var target = request.Target?.Trim() ?? string.Empty;
+
+                if (string.IsNullOrEmpty(source) || string.IsNullOrEmpty(target))
+                {
+                    return Results.BadRequest(new { error = "Both categories are required" });
+                }
+
+                if (source == target)
+                {
+                    return Results.BadRequest(new { error = "A category cannot be merged into itself" });
+                }
+
+                var existing = await GetCategorySummariesAsync(db, userId);
+                if (existing.All(c => c.Name != source) || existing.All(c => c.Name != target))
+                {
+                    return Results.NotFound(new { error = "Category not found" });
+                }
+
+                // The source's subcategories move to the target, which would nest them two levels deep under a
+                // subcategory. Merging a parent into its own child is fine, as the child becomes top-level.
+                var definitions = await db.CategoryDefinitions
+                    .Where(d => d.UserId == userId)
+                    .ToListAsync();
+                var targetParent = definitions.FirstOrDefault(d => d.Name == target)?.ParentName;
+                if (targetParent != null && targetParent != source &&
+                    definitions.Any(d => d.ParentName == source && d.Name != target))
+                {
+                    return Results.BadRequest(new
+                    {
+                        error = $"\"{source}\" has subcategories and \"{target}\" is a subcategory. Move the subcategories first."
+                    });
+                }
+
+                var updatedCount = await CategoryRewriter.RewriteAsync(db, userId, source, target);
+
+                return Results.Ok(new
+                {
+                    updatedCount,
+                    categories = await GetCategorySummariesAsync(db, userId)
+                });
+            });
+
+        return routes;
+    }
+
+    /// <summary>
+    /// Every category in use or defined by the user, with how many transactions use it and their total.
+    /// Split transactions count only the amount allocated to the category.
+    /// </summary>
+    internal static async Task<List<CategorySummaryDto>> GetCategorySummariesAsync(BudgetTrackerContext db, string userId)
+    {
+        var primary = await db.Transactions
+            .Where(t => t.UserId == userId && t.Category != null && !t.Splits.Any())
+            .Select(t => new { TransactionId = t.Id, CategoryName = t.Category!, t.Amount })
+            .ToListAsync();
+
+        var tagged = await db.TransactionCategories
+            .Where(tc => tc.UserId == userId && !tc.Transaction.Splits.Any())
+            .Select(tc => new { tc.TransactionId, tc.CategoryName, tc.Transaction.Amount })
+            .ToListAsync();
+
+        var split = await db.TransactionSplits
+            .Where(s => s.UserId == userId && s.Transaction.DeletedAt == null)
+            .Select(s => new { s.TransactionId, s.CategoryName, s.Amount })
+            .ToListAsync();
+
+        var usage = primary
+            .Concat(tagged)
+            .Concat(split)
+            .DistinctBy(u => (u.TransactionId, u.CategoryName))
+            .GroupBy(u => u.CategoryName)
+            .ToDictionary(g => g.Key, g => (Count: g.Count(), Total: g.Sum(u => u.Amount)));
+
+        var definitions = await db.CategoryDefinitions
+            .Where(d => d.UserId == userId)
+            .ToDictionaryAsync(d => d.Name);
+
+        return usage.Keys
+            .Union(definitions.Keys)
+            .Select(name =>
+            {
+                definitions.TryGetValue(name, out var definition);
+                usage.TryGetValue(name, out var categoryUsage);
+
+                return new CategorySummaryDto
+                {
+                    Name = name,
+                    ParentName = definition?.ParentName,
+                    Color = definition?.Color,
+                    Icon = definition?.Icon,
+                    IsArchived = definition?.IsArchived ?? false,
+                    TransactionCount = categoryUsage.Count,
+                    TotalAmount = categoryUsage.Total
+                };
+            })
+            .OrderBy(c => c.Name)
+            .ToList();
+    }
+
+    private static string? Validate(SaveCategoryRequest request, string name, string? parentName,
+        List<CategoryDefinition> definitions)
+    {
+        if (string.IsNullOrEmpty(name) || name.Length > 100)
+        {
+            return "Category name must be between 1 and 100 characters";
+        }
+
+        if (parentName != null)
+        {
+            if (parentName.Length > 100)
+            {
+                return "Parent category name must be 100 characters or fewer";
+            }
+
+            if (parentName == name)
+            {
+                return "A category cannot be its own parent";
+            }
+
+            // Nesting is kept to a single level: Food > Groceries, not Food > Groceries > Fruit
+            if (definitions.Any(d => d.Name == parentName && d.ParentName != null))
+            {
+                return $"\"{parentName}\" is already a subcategory and cannot have subcategories";
+            }
+
+            if (definitions.Any(d => d.ParentName == name))
+            {
+                return $"\"{name}\" has subcategories and cannot be nested";
+            }
+        }
+
+        if (!string.IsNullOrWhiteSpace(request.Color) && !ColorPattern.IsMatch(request.Color.Trim()))
+        {
+            return "Unknown category color";
+        }
+
+        if (request.Icon?.Trim().Length > 16)
+        {
+            return "Icon must be 16 characters or fewer";
+        }
+
+        return null;
+    }
+
+    internal static CategoryDefinition FindOrCreate(BudgetTrackerContext db, List<CategoryDefinition> definitions,
+        string userId, string name)
+    {
+        var definition = definitions.FirstOrDefault(d => d.Name == name);
+        if (definition != null)
+        {
+            return definition;
+        }
+
+        definition = new CategoryDefinition
+        {
+            UserId = userId,
+            Name = name,
+            CreatedAt = DateTime.UtcNow
+        };
+
+        db.CategoryDefinitions.Add(definition);
+        definitions.Add(definition);
+        return definition;
+    }
+}
+
+public record SaveCategoryRequest(string? Name, string? ParentName, string? Color, string? Icon, bool IsArchived);
+public record RenameCategoryRequest(string? Name, string? NewName);
+public record MergeCategoriesRequest(string? Source, string? Target);
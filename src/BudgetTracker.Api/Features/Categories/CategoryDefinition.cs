@@ -0,0 +1,62 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+using BudgetTracker.Api.Features.Analytics.Insights;
+
+namespace BudgetTracker.Api.Features.Categories;
+
+/// <summary>
+/// User settings for a category name. Transactions keep referencing categories by name,
+/// so a category without a definition simply uses the defaults.
+/// </summary>
+public class CategoryDefinition
+{
+    [Key]
+    public Guid Id { get; set; }
+
+    [Required]
+    public string UserId { get; set; } = string.Empty;
+
+    [Required]
+    [MaxLength(100)]
+    public string Name { get; set; } = string.Empty;
+
+    [MaxLength(100)]
+    public string? ParentName { get; set; }
+
+    [MaxLength(20)]
+    public string? Color { get; set; }
+
+    [MaxLength(16)]
+    public string? Icon { get; set; }
+
+    public bool IsArchived { get; set; }
+
+    /// <summary>
+    /// Which part of the needs/wants/savings split the category counts toward. Null falls back to
+    /// the parent's bucket and then to the built-in defaults.
+    /// </summary>
+    public BudgetBucket? Bucket { get; set; }
+
+    [Required]
+    [Column(TypeName = "timestamptz")]
+    public DateTime CreatedAt { get; set; }
+}
+
+public class CategorySummaryDto
+{
+    public string Name { get; set; } = string.Empty;
+    public string? ParentName { get; set; }
+    public string? Color { get; set; }
+    public string? Icon { get; set; }
+    public bool IsArchived { get; set; }
+    public int TransactionCount { get; set; }
+    public decimal TotalAmount { get; set; }
+}
+
+public class CategoryAppearanceDto
+{
+    public string Name { get; set; } = string.Empty;
+    public string? Color { get; set; }
+    public string? Icon { get; set; }
+    public bool IsArchived { get; set; }
+}
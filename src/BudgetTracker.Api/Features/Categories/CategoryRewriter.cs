@@ -0,0 +1,148 @@
+using BudgetTracker.Api.Features.Rules;
+using BudgetTracker.Api.Infrastructure;
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Features.Categories;
+
+/// <summary>
+/// Moves everything filed under one category name to another. Used for both renaming and merging,
+/// a rename being a merge into a name nothing uses yet.
+/// </summary>
+internal static class CategoryRewriter
+{
+    /// <returns>The number of transactions that were changed</returns>
+    public static async Task<int> RewriteAsync(BudgetTrackerContext db, string userId, string source, string target)
+    {
+        var changedTransactionIds = new HashSet<Guid>();
+
+        // Trashed transactions are rewritten too, so they come back under the new name if restored
+        var primaryMatches = await db.Transactions
+            .IgnoreQueryFilters()
+            .Where(t => t.UserId == userId && t.Category == source)
+            .ToListAsync();
+
+        foreach (var transaction in primaryMatches)
+        {
+            transaction.Category = target;
+            changedTransactionIds.Add(transaction.Id);
+        }
+
+        var tagMatches = await db.TransactionCategories
+            .IgnoreQueryFilters()
+            .Include(tc => tc.Transaction)
+            .ThenInclude(t => t.Categories)
+            .Where(tc => tc.UserId == userId && tc.CategoryName == source)
+            .ToListAsync();
+
+        foreach (var tag in tagMatches)
+        {
+            // A transaction already filed under the target keeps a single tag
+            var alreadyTagged = tag.Transaction.Category == target ||
+                                tag.Transaction.Categories.Any(c => c.Id != tag.Id && c.CategoryName == target);
+
+            if (alreadyTagged)
+            {
+                db.TransactionCategories.Remove(tag);
+            }
+            else
+            {
+                tag.CategoryName = target;
+            }
+
+            changedTransactionIds.Add(tag.TransactionId);
+        }
+
+        var splitMatches = await db.TransactionSplits
+            .IgnoreQueryFilters()
+            .Include(s => s.Transaction)
+            .ThenInclude(t => t.Splits)
+            .Where(s => s.UserId == userId && s.CategoryName == source)
+            .ToListAsync();
+
+        foreach (var split in splitMatches)
+        {
+            // Allocations to both categories are combined into one
+            var targetSplit = split.Transaction.Splits.FirstOrDefault(s => s.Id != split.Id && s.CategoryName == target);
+
+            if (targetSplit != null)
+            {
+                targetSplit.Amount += split.Amount;
+                db.TransactionSplits.Remove(split);
+            }
+            else
+            {
+                split.CategoryName = target;
+            }
+
+            changedTransactionIds.Add(split.TransactionId);
+        }
+
+        var definitions = await db.CategoryDefinitions
+            .Where(d => d.UserId == userId)
+            .ToListAsync();
+
+        var sourceDefinition = definitions.FirstOrDefault(d => d.Name == source);
+        var targetDefinition = definitions.FirstOrDefault(d => d.Name == target);
+
+        if (sourceDefinition != null)
+        {
+            if (targetDefinition == null)
+            {
+                sourceDefinition.Name = target;
+            }
+            else
+            {
+                db.CategoryDefinitions.Remove(sourceDefinition);
+            }
+        }
+
+        foreach (var child in definitions.Where(d => d.ParentName == source))
+        {
+            child.ParentName = child.Name == target ? null : target;
+        }
+
+        // Merging a parent into one of its own children would otherwise leave the child pointing at itself
+        if (targetDefinition?.ParentName == source)
+        {
+            targetDefinition.ParentName = null;
+        }
+
+        var budgets = await db.CategoryBudgets
+            .Where(b => b.UserId == userId && (b.CategoryName == source || b.CategoryName == target))
+            .ToListAsync();
+
+        var sourceBudget = budgets.FirstOrDefault(b => b.CategoryName == source);
+        var targetBudget = budgets.FirstOrDefault(b => b.CategoryName == target);
+
+        if (sourceBudget != null)
+        {
+            // The merged category gets both limits, as it now holds the spending of both
+            if (targetBudget == null)
+            {
+                sourceBudget.CategoryName = target;
+            }
+            else
+            {
+                targetBudget.MonthlyLimit += sourceBudget.MonthlyLimit;
+                targetBudget.UpdatedAt = DateTime.UtcNow;
+                db.CategoryBudgets.Remove(sourceBudget);
+            }
+        }
+
+        var rules = await db.CategorizationRules
+            .Where(r => r.UserId == userId)
+            .ToListAsync();
+
+        foreach (var rule in rules)
+        {
+            var categories = rule.GetCategories();
+            if (!categories.Contains(source)) continue;
+
+            rule.SetCategories(categories.Select(c => c == source ? target : c).Distinct());
+        }
+
+        await db.SaveChangesAsync();
+
+        return changedTransactionIds.Count;
+    }
+}
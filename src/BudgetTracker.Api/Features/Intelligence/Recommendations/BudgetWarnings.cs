@@ -0,0 +1,75 @@
+using BudgetTracker.Api.Features.Budgets;
+using BudgetTracker.Api.Infrastructure;
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Features.Intelligence.Recommendations;
+
+/// <summary>
+/// Budget warnings come from the user's own budgets rather than the AI. They are brought up to date
+/// whenever recommendations are read, one per budget, and expire when the month ends.
+/// </summary>
+internal static class BudgetWarnings
+{
+    public static async Task RefreshAsync(BudgetTrackerContext db, string userId)
+    {
+        var now = DateTime.UtcNow;
+        var month = await BudgetCalculator.GetMonthAsync(db, userId, now, now);
+        var monthEnd = new DateTime(now.Year, now.Month, 1, 0, 0, 0, DateTimeKind.Utc).AddMonths(1);
+
+        var previous = await db.Recommendations
+            .Where(r => r.UserId == userId &&
+                        r.Type == RecommendationType.BudgetWarning &&
+                        r.Status == RecommendationStatus.Active)
+            .ToListAsync();
+
+        var atRisk = month.Budgets
+            .Where(b => b.Status != BudgetStatus.OnTrack)
+            .ToDictionary(b => b.Id);
+
+        foreach (var recommendation in previous.Where(r => r.CategoryBudgetId == null ||
+                                                           !atRisk.ContainsKey(r.CategoryBudgetId.Value)))
+        {
+            recommendation.Status = RecommendationStatus.Expired;
+        }
+
+        foreach (var budget in atRisk.Values)
+        {
+            var recommendation = previous.FirstOrDefault(r => r.CategoryBudgetId == budget.Id);
+            if (recommendation == null)
+            {
+                recommendation = new Recommendation
+                {
+                    Id = Guid.NewGuid(),
+                    UserId = userId,
+                    Type = RecommendationType.BudgetWarning,
+                    Status = RecommendationStatus.Active,
+                    CategoryBudgetId = budget.Id
+                };
+                db.Recommendations.Add(recommendation);
+            }
+
+            var title = budget.Status == BudgetStatus.Over
+                ? $"{budget.Category} budget exceeded"
+                : $"{budget.Category} budget at risk";
+
+            // A warning that gets worse counts as new, so it moves back up the list
+            if (recommendation.Title != title)
+            {
+                recommendation.Title = title;
+                recommendation.GeneratedAt = now;
+            }
+
+            recommendation.Message = budget.Status == BudgetStatus.Over
+                ? $"You've spent ${budget.Spent:F2} of your ${budget.Available:F2} {budget.Category} budget this month, " +
+                  $"${budget.Spent - budget.Available:F2} over."
+                : $"At the current pace you'll spend about ${budget.ProjectedSpend:F2} on {budget.Category} this month, " +
+                  $"${budget.ProjectedSpend - budget.Available:F2} more than your ${budget.Available:F2} budget. ${budget.Remaining:F2} is left.";
+            recommendation.Priority = budget.Status == BudgetStatus.Over
+                ? RecommendationPriority.High
+                : RecommendationPriority.Medium;
+            recommendation.ExpiresAt = monthEnd;
+        }
+
+        await db.SaveChangesAsync();
+    }
+}
@@ -36,6 +36,17 @@ public class Recommendation
 
     [Required]
     public RecommendationStatus Status { get; set; } = RecommendationStatus.Active;
+
+    /// <summary>
+    /// The confirmed subscription a savings opportunity is about. These come from the recurring payments
+    /// rather than the AI and are refreshed by <see cref="SubscriptionSavings"/>.
+    /// </summary>
+    public Guid? RecurringPaymentId { get; set; }
+
+    /// <summary>
+    /// The budget a budget warning is about, so <see cref="BudgetWarnings"/> can update it in place
+    /// </summary>
+    public Guid? CategoryBudgetId { get; set; }
 }
 
 public enum RecommendationType
@@ -41,6 +41,9 @@ public class RecommendationAgent : IRecommendationRepository
 
     public async Task<List<Recommendation>> GetActiveRecommendationsAsync(string userId)
     {
+        // Budget warnings depend on every transaction change, so they are brought up to date on each read
+        await BudgetWarnings.RefreshAsync(_context, userId);
+
         return await _context.Recommendations
             .Where(r => r.UserId == userId &&
                        r.Status == RecommendationStatus.Active &&
@@ -55,9 +58,14 @@ public class RecommendationAgent : IRecommendationRepository
     {
         try
         {
+            // Subscription savings follow the calendar as well as new data, so they are refreshed on every run
+            await SubscriptionSavings.RefreshAsync(_context, userId);
+
             // 1. Check if we need to regenerate
             var lastGenerated = await _context.Recommendations
-                .Where(r => r.UserId == userId)
+                .Where(r => r.UserId == userId &&
+                            r.Type != RecommendationType.BudgetWarning &&
+                            r.RecurringPaymentId == null)
                 .MaxAsync(r => (DateTime?)r.GeneratedAt);
 
             var lastImported = await _context.Transactions
@@ -141,7 +149,7 @@ public class RecommendationAgent : IRecommendationRepository
                 {
                   "title": "Brief, attention-grabbing title",
                   "message": "Actionable recommendation based on the statistics provided",
-                  "type": "SpendingAlert|SavingsOpportunity|BehavioralInsight|BudgetWarning",
+                  "type": "SpendingAlert|SavingsOpportunity|BehavioralInsight",
                   "priority": "Low|Medium|High|Critical"
                 }
               ]
@@ -198,7 +206,10 @@ public class RecommendationAgent : IRecommendationRepository
                         {
                             Title = title.GetString() ?? "",
                             Message = message.GetString() ?? "",
-                            Type = Enum.TryParse<RecommendationType>(type.GetString(), out var t) ? t : RecommendationType.BehavioralInsight,
+                            // Budget warnings are only raised from the user's actual budgets
+                            Type = Enum.TryParse<RecommendationType>(type.GetString(), out var t) && t != RecommendationType.BudgetWarning
+                                ? t
+                                : RecommendationType.BehavioralInsight,
                             Priority = Enum.TryParse<RecommendationPriority>(priority.GetString(), out var p) ? p : RecommendationPriority.Medium
                         });
                     }
@@ -218,9 +229,12 @@ public class RecommendationAgent : IRecommendationRepository
     {
         if (!aiRecommendations.Any()) return;
 
-        // Expire old active recommendations
+        // Expire old active recommendations, leaving budget warnings and subscription savings to their own refresh
         var oldRecommendations = await _context.Recommendations
-            .Where(r => r.UserId == userId && r.Status == RecommendationStatus.Active)
+            .Where(r => r.UserId == userId &&
+                        r.Status == RecommendationStatus.Active &&
+                        r.Type != RecommendationType.BudgetWarning &&
+                        r.RecurringPaymentId == null)
             .ToListAsync();
 
         foreach (var old in oldRecommendations)
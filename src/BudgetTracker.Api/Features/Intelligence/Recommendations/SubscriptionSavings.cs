@@ -0,0 +1,62 @@
+using BudgetTracker.Api.Features.Recurring;
+using BudgetTracker.Api.Infrastructure;
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Features.Intelligence.Recommendations;
+
+/// <summary>
+/// Savings opportunities for the subscriptions the user has confirmed, most expensive first. They are
+/// replaced whenever a subscription is confirmed or dismissed and on each recommendation run.
+/// </summary>
+internal static class SubscriptionSavings
+{
+    // Leaves room on the dashboard for other recommendations
+    private const int MaxRecommendations = 3;
+
+    public static async Task RefreshAsync(BudgetTrackerContext db, string userId)
+    {
+        var now = DateTime.UtcNow;
+        var recurring = await RecurringDetector.DetectAsync(db, userId);
+
+        var confirmed = await db.RecurringPayments
+            .Where(r => r.UserId == userId && r.Status == RecurringPaymentStatus.Confirmed)
+            .ToDictionaryAsync(r => r.MerchantKey, r => r.Id);
+
+        var previous = await db.Recommendations
+            .Where(r => r.UserId == userId &&
+                        r.RecurringPaymentId != null &&
+                        r.Status == RecommendationStatus.Active)
+            .ToListAsync();
+
+        foreach (var recommendation in previous)
+        {
+            recommendation.Status = RecommendationStatus.Expired;
+        }
+
+        var savings = recurring.Payments
+            .Where(p => confirmed.ContainsKey(p.MerchantKey))
+            .OrderByDescending(p => p.AnnualizedCost)
+            .Take(MaxRecommendations)
+            .Select(p => new Recommendation
+            {
+                Id = Guid.NewGuid(),
+                UserId = userId,
+                Title = p.AmountChangePercentage > 0
+                    ? $"{p.Name} went up {p.AmountChangePercentage:0.#}%"
+                    : $"Review your {p.Name} subscription",
+                Message = $"{p.Name} costs ${p.Amount:F2} {p.Frequency.ToString().ToLowerInvariant()}, " +
+                          $"about ${p.AnnualizedCost:F2} a year. Cancelling or switching to a cheaper plan " +
+                          $"would save up to that much.",
+                Type = RecommendationType.SavingsOpportunity,
+                Priority = p.AmountChangePercentage > 0 ? RecommendationPriority.Medium : RecommendationPriority.Low,
+                GeneratedAt = now,
+                ExpiresAt = now.AddDays(7),
+                Status = RecommendationStatus.Active,
+                RecurringPaymentId = confirmed[p.MerchantKey]
+            })
+            .ToList();
+
+        db.Recommendations.AddRange(savings);
+        await db.SaveChangesAsync();
+    }
+}
@@ -39,10 +39,11 @@ public class EmbeddingBackgroundService : BackgroundService
             var context = scope.ServiceProvider.GetRequiredService<BudgetTrackerContext>();
             var embeddingService = scope.ServiceProvider.GetRequiredService<IAzureEmbeddingService>();
 
-            // Find recently imported transactions without embeddings (last 24 hours)
+            // Find recently imported transactions without embeddings (last 24 hours), plus any whose
+            // description was edited since its embedding was made
             var cutoffTime = DateTime.UtcNow.AddHours(-24);
             var transactionsWithoutEmbeddings = await context.Transactions
-                .Where(t => t.Embedding == null && t.ImportedAt >= cutoffTime)
+                .Where(t => t.Embedding == null && (t.ImportedAt >= cutoffTime || t.IsEmbeddingStale))
                 .OrderByDescending(t => t.ImportedAt) // Process newest first
                 .Take(BatchSize)
                 .ToListAsync(cancellationToken);
@@ -74,6 +75,7 @@ public class EmbeddingBackgroundService : BackgroundService
 
                     // Update transaction with embedding
                     transaction.Embedding = embedding;
+                    transaction.IsEmbeddingStale = false;
                     successCount++;
 
                     _logger.LogDebug("Generated embedding for transaction {Id}: {Description}",
@@ -44,6 +44,7 @@ public class SemanticSearchService : ISemanticSearchService
                     SELECT *
                     FROM ""Transactions""
                     WHERE ""Embedding"" IS NOT NULL
+                    AND ""DeletedAt"" IS NULL
                     AND ""UserId"" = {0}
                     ORDER BY cosine_distance(""Embedding"", {1}::vector) ASC
                     LIMIT {2}", userId, vectorString, maxResults)
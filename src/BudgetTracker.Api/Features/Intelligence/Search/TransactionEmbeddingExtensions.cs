@@ -0,0 +1,15 @@
+using BudgetTracker.Api.Features.Transactions;
+
+namespace BudgetTracker.Api.Features.Intelligence.Search;
+
+internal static class TransactionEmbeddingExtensions
+{
+    /// <summary>
+    /// Drops an embedding made from the old description and queues the transaction for a new one
+    /// </summary>
+    public static void InvalidateEmbedding(this Transaction transaction)
+    {
+        transaction.Embedding = null;
+        transaction.IsEmbeddingStale = true;
+    }
+}
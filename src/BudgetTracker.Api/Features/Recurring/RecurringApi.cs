@@ -0,0 +1,82 @@
+using System.Security.Claims;
+using BudgetTracker.Api.Auth;
+using BudgetTracker.Api.Features.Intelligence.Recommendations;
+using BudgetTracker.Api.Infrastructure;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Features.Recurring;
+
+public static class RecurringApi
+{
+    public static IEndpointRouteBuilder MapRecurringEndpoints(this IEndpointRouteBuilder routes)
+    {
+        var recurringGroup = routes.MapGroup("/recurring")
+            .WithTags("Recurring")
+            .WithOpenApi()
+            .RequireAuthorization();
+
+        recurringGroup.MapGet("/",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal) =>
+            {
+                var userId = claimsPrincipal.GetUserId();
+                return Results.Ok(await RecurringDetector.DetectAsync(db, userId));
+            });
+
+        // Suggested clears an earlier decision, so the series shows up for review again
+        recurringGroup.MapPut("/status",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
+                [FromBody] SetRecurringStatusRequest request) =>
+            {
+                var userId = claimsPrincipal.GetUserId();
+                var merchantKey = request.MerchantKey?.Trim() ?? string.Empty;
+
+                if (string.IsNullOrEmpty(merchantKey))
+                {
+                    return Results.BadRequest(new { error = "Merchant is required" });
+                }
+
+                if (merchantKey.Length > 200)
+                {
+                    return Results.BadRequest(new { error = "Merchant must be 200 characters or fewer" });
+                }
+
+                var payment = await db.RecurringPayments
+                    .FirstOrDefaultAsync(r => r.UserId == userId && r.MerchantKey == merchantKey);
+
+                var now = DateTime.UtcNow;
+                if (request.Status == RecurringPaymentStatus.Suggested)
+                {
+                    if (payment != null)
+                    {
+                        db.RecurringPayments.Remove(payment);
+                    }
+                }
+                else if (payment == null)
+                {
+                    db.RecurringPayments.Add(new RecurringPayment
+                    {
+                        UserId = userId,
+                        MerchantKey = merchantKey,
+                        Status = request.Status,
+                        CreatedAt = now,
+                        UpdatedAt = now
+                    });
+                }
+                else
+                {
+                    payment.Status = request.Status;
+                    payment.UpdatedAt = now;
+                }
+
+                await db.SaveChangesAsync();
+                await SubscriptionSavings.RefreshAsync(db, userId);
+
+                return Results.Ok(new { merchantKey, status = request.Status });
+            });
+
+        return routes;
+    }
+}
+
+public record SetRecurringStatusRequest(string? MerchantKey, RecurringPaymentStatus Status);
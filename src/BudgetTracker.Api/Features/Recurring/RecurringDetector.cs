@@ -0,0 +1,190 @@
+using System.Text.RegularExpressions;
+using BudgetTracker.Api.Features.Transactions;
+using BudgetTracker.Api.Infrastructure;
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Features.Recurring;
+
+/// <summary>
+/// Finds series of expenses that repeat at a steady interval: charges from the same merchant, of roughly
+/// the same amount, about a week, a month or a year apart.
+/// </summary>
+internal static class RecurringDetector
+{
+    // Charges further than this from the series' typical amount are one-off purchases at the same merchant
+    private const decimal AmountTolerance = 0.3m;
+
+    // A latest charge that differs from the previous one by at least this much is flagged as a jump
+    private const decimal AmountJumpThreshold = 0.1m;
+
+    // Smaller differences, like a utility bill moving by a few cents, aren't listed as price changes
+    private const decimal PriceChangeThreshold = 0.02m;
+
+    // Share of the gaps between charges that have to fit the frequency
+    private const double RegularityThreshold = 0.75;
+
+    // A series with no charge for this many periods is taken to be cancelled and left out
+    private const int CancelledAfterPeriods = 3;
+
+    private record FrequencyRule(RecurringFrequency Frequency, int MinDays, int MaxDays, int MinOccurrences,
+        int PerYear, int GraceDays);
+
+    private static readonly FrequencyRule[] Rules =
+    {
+        new(RecurringFrequency.Weekly, 5, 9, 4, 52, 3),
+        new(RecurringFrequency.Monthly, 26, 35, 3, 12, 7),
+        new(RecurringFrequency.Yearly, 350, 380, 2, 1, 30)
+    };
+
+    public static async Task<RecurringPaymentsDto> DetectAsync(BudgetTrackerContext db, string userId)
+    {
+        var expenses = await db.Transactions
+            .Where(t => t.UserId == userId && t.Amount < 0)
+            .OrderBy(t => t.Date)
+            .ToListAsync();
+
+        var decisions = await db.RecurringPayments
+            .Where(r => r.UserId == userId)
+            .ToDictionaryAsync(r => r.MerchantKey, r => r.Status);
+
+        var latest = await db.Transactions
+            .Where(t => t.UserId == userId)
+            .MaxAsync(t => (DateTime?)t.Date);
+
+        var result = new RecurringPaymentsDto
+        {
+            AsOf = latest.HasValue ? DateOnly.FromDateTime(latest.Value) : null
+        };
+
+        if (result.AsOf is not { } asOf) return result;
+
+        foreach (var group in expenses.GroupBy(t => GetMerchantKey(t.Description)).Where(g => g.Key.Length > 0))
+        {
+            var payment = DetectSeries(group.Key, group.ToList(), asOf);
+            if (payment == null) continue;
+
+            payment.Status = decisions.GetValueOrDefault(group.Key, RecurringPaymentStatus.Suggested);
+            result.Payments.Add(payment);
+        }
+
+        result.Payments = result.Payments
+            .OrderBy(p => p.Status == RecurringPaymentStatus.Dismissed)
+            .ThenByDescending(p => p.AnnualizedCost)
+            .ToList();
+
+        return result;
+    }
+
+    /// <summary>
+    /// Lower-cased description without digits or punctuation, so reference numbers and dates in the text
+    /// don't split one merchant into many
+    /// </summary>
+    public static string GetMerchantKey(string description)
+    {
+        var key = Regex.Replace(description.ToLowerInvariant(), @"[^\p{L}]+", " ").Trim();
+        return key.Length > 200 ? key[..200] : key;
+    }
+
+    private static RecurringPaymentDto? DetectSeries(string merchantKey, List<Transaction> transactions,
+        DateOnly asOf)
+    {
+        var typicalAmount = Median(transactions.Select(t => Math.Abs(t.Amount)).ToList());
+        var charges = transactions
+            .Where(t => Math.Abs(Math.Abs(t.Amount) - typicalAmount) <= typicalAmount * AmountTolerance)
+            .ToList();
+
+        if (charges.Count < 2) return null;
+
+        var gaps = charges
+            .Zip(charges.Skip(1), (previous, next) => (next.Date.Date - previous.Date.Date).Days)
+            .ToList();
+        var medianGap = Median(gaps.Select(g => (decimal)g).ToList());
+
+        var rule = Rules.FirstOrDefault(r => medianGap >= r.MinDays && medianGap <= r.MaxDays);
+        if (rule == null || charges.Count < rule.MinOccurrences) return null;
+
+        var regularGaps = gaps.Count(g => FitsFrequency(g, rule));
+        if (regularGaps < gaps.Count * RegularityThreshold) return null;
+
+        // A price rise beyond the tolerance would leave the newest charges out of the series and the jump
+        // would never be flagged, so charges that follow the series on schedule count whatever their amount
+        while (FindNextOnSchedule(transactions, charges[^1], rule) is { } next)
+        {
+            charges.Add(next);
+        }
+
+        var last = charges[^1];
+        var lastDate = DateOnly.FromDateTime(last.Date);
+        var nextExpected = GetNextDate(lastDate, rule.Frequency);
+
+        if (asOf > GetNextDate(lastDate, rule.Frequency, CancelledAfterPeriods)) return null;
+
+        var amount = Math.Abs(last.Amount);
+        var priceHistory = new List<PriceChangeDto>();
+        for (var i = 1; i < charges.Count; i++)
+        {
+            var previousAmount = Math.Abs(charges[i - 1].Amount);
+            var currentAmount = Math.Abs(charges[i].Amount);
+            if (Math.Abs(currentAmount - previousAmount) > previousAmount * PriceChangeThreshold)
+            {
+                priceHistory.Add(new PriceChangeDto
+                {
+                    Date = DateOnly.FromDateTime(charges[i].Date),
+                    PreviousAmount = previousAmount,
+                    Amount = currentAmount
+                });
+            }
+        }
+
+        var previous = Math.Abs(charges[^2].Amount);
+        var change = (amount - previous) / previous;
+
+        return new RecurringPaymentDto
+        {
+            MerchantKey = merchantKey,
+            Name = last.Description,
+            Category = last.Category,
+            Account = last.Account,
+            Frequency = rule.Frequency,
+            Occurrences = charges.Count,
+            FirstDate = DateOnly.FromDateTime(charges[0].Date),
+            LastDate = lastDate,
+            NextExpectedDate = nextExpected,
+            Amount = amount,
+            AnnualizedCost = amount * rule.PerYear,
+            PriceHistory = priceHistory,
+            IsMissed = asOf > nextExpected.AddDays(rule.GraceDays),
+            AmountChangePercentage = Math.Abs(change) >= AmountJumpThreshold ? Math.Round(change * 100, 1) : null
+        };
+    }
+
+    private static bool FitsFrequency(int gapDays, FrequencyRule rule)
+    {
+        return gapDays >= rule.MinDays && gapDays <= rule.MaxDays;
+    }
+
+    private static Transaction? FindNextOnSchedule(List<Transaction> transactions, Transaction previous,
+        FrequencyRule rule)
+    {
+        return transactions.FirstOrDefault(t => t.Date > previous.Date &&
+                                                FitsFrequency((t.Date.Date - previous.Date.Date).Days, rule));
+    }
+
+    // Monthly and yearly charges keep their day of the month rather than drifting by a fixed number of days
+    private static DateOnly GetNextDate(DateOnly date, RecurringFrequency frequency, int periods = 1)
+    {
+        return frequency switch
+        {
+            RecurringFrequency.Weekly => date.AddDays(7 * periods),
+            RecurringFrequency.Monthly => date.AddMonths(periods),
+            _ => date.AddYears(periods)
+        };
+    }
+
+    private static decimal Median(List<decimal> values)
+    {
+        var sorted = values.Order().ToList();
+        var middle = sorted.Count / 2;
+        return sorted.Count % 2 == 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+    }
+}
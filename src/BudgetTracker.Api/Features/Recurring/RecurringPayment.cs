@@ -0,0 +1,93 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+using System.Text.Json.Serialization;
+
+namespace BudgetTracker.Api.Features.Recurring;
+
+/// <summary>
+/// The user's decision about a detected series of payments. Series themselves are detected from the
+/// transactions on every request, so only confirmed and dismissed ones are stored.
+/// </summary>
+public class RecurringPayment
+{
+    [Key]
+    public Guid Id { get; set; }
+
+    [Required]
+    public string UserId { get; set; } = string.Empty;
+
+    /// <summary>
+    /// The normalized merchant the series was grouped by
+    /// </summary>
+    [Required]
+    [MaxLength(200)]
+    public string MerchantKey { get; set; } = string.Empty;
+
+    [Required]
+    public RecurringPaymentStatus Status { get; set; }
+
+    [Required]
+    [Column(TypeName = "timestamptz")]
+    public DateTime CreatedAt { get; set; }
+
+    [Required]
+    [Column(TypeName = "timestamptz")]
+    public DateTime UpdatedAt { get; set; }
+}
+
+[JsonConverter(typeof(JsonStringEnumConverter))]
+public enum RecurringFrequency
+{
+    Weekly,
+    Monthly,
+    Yearly
+}
+
+[JsonConverter(typeof(JsonStringEnumConverter))]
+public enum RecurringPaymentStatus
+{
+    /// <summary>Detected but not yet reviewed; never stored</summary>
+    Suggested,
+    Confirmed,
+    Dismissed
+}
+
+public class PriceChangeDto
+{
+    public DateOnly Date { get; set; }
+    public decimal PreviousAmount { get; set; }
+    public decimal Amount { get; set; }
+}
+
+public class RecurringPaymentDto
+{
+    public string MerchantKey { get; set; } = string.Empty;
+    /// <summary>The description of the latest charge</summary>
+    public string Name { get; set; } = string.Empty;
+    public string? Category { get; set; }
+    public string Account { get; set; } = string.Empty;
+    public RecurringFrequency Frequency { get; set; }
+    public RecurringPaymentStatus Status { get; set; }
+    public int Occurrences { get; set; }
+    public DateOnly FirstDate { get; set; }
+    public DateOnly LastDate { get; set; }
+    public DateOnly NextExpectedDate { get; set; }
+    /// <summary>The latest charge, as a positive amount</summary>
+    public decimal Amount { get; set; }
+    public decimal AnnualizedCost { get; set; }
+    public List<PriceChangeDto> PriceHistory { get; set; } = new();
+    /// <summary>Whether the next charge is overdue by more than the frequency's grace period</summary>
+    public bool IsMissed { get; set; }
+    /// <summary>How much the latest charge differs from the one before, when the jump is large enough to flag</summary>
+    public decimal? AmountChangePercentage { get; set; }
+}
+
+public class RecurringPaymentsDto
+{
+    /// <summary>
+    /// The date of the user's latest transaction. Missed charges are judged against it rather than today,
+    /// so a statement that hasn't been imported yet doesn't look like a missed payment.
+    /// </summary>
+    public DateOnly? AsOf { get; set; }
+    public List<RecurringPaymentDto> Payments { get; set; } = new();
+}
@@ -0,0 +1,173 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+using System.Text.Json;
+using System.Text.Json.Serialization;
+
+namespace BudgetTracker.Api.Features.Rules;
+
+/// <summary>
+/// Files transactions matching every condition that is set under the rule's categories.
+/// Rules are evaluated by position and the first match wins.
+/// </summary>
+public class CategorizationRule
+{
+    [Key]
+    public Guid Id { get; set; }
+
+    [Required]
+    public string UserId { get; set; } = string.Empty;
+
+    [Required]
+    [MaxLength(100)]
+    public string Name { get; set; } = string.Empty;
+
+    public int Position { get; set; }
+
+    public bool IsEnabled { get; set; } = true;
+
+    [MaxLength(500)]
+    public string? DescriptionPattern { get; set; }
+
+    [Required]
+    public RuleMatchType MatchType { get; set; } = RuleMatchType.Contains;
+
+    /// <summary>
+    /// Amount bounds apply to the absolute amount, the direction is checked by <see cref="AmountSign"/>
+    /// </summary>
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal? MinAmount { get; set; }
+
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal? MaxAmount { get; set; }
+
+    [Required]
+    public RuleAmountSign AmountSign { get; set; } = RuleAmountSign.Any;
+
+    [MaxLength(100)]
+    public string? Account { get; set; }
+
+    /// <summary>
+    /// JSON array of category names, the first one becoming the primary category
+    /// </summary>
+    [Required]
+    [MaxLength(1000)]
+    public string Categories { get; set; } = "[]";
+
+    [Required]
+    [Column(TypeName = "timestamptz")]
+    public DateTime CreatedAt { get; set; }
+
+    [Required]
+    [Column(TypeName = "timestamptz")]
+    public DateTime UpdatedAt { get; set; }
+}
+
+[JsonConverter(typeof(JsonStringEnumConverter))]
+public enum RuleMatchType
+{
+    Contains,
+    StartsWith,
+    Equals,
+    Regex
+}
+
+[JsonConverter(typeof(JsonStringEnumConverter))]
+public enum RuleAmountSign
+{
+    Any,
+    Positive,
+    Negative
+}
+
+public class CategorizationRuleDto
+{
+    public Guid Id { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public int Position { get; set; }
+    public bool IsEnabled { get; set; }
+    public string? DescriptionPattern { get; set; }
+    public RuleMatchType MatchType { get; set; }
+    public decimal? MinAmount { get; set; }
+    public decimal? MaxAmount { get; set; }
+    public RuleAmountSign AmountSign { get; set; }
+    public string? Account { get; set; }
+    public List<string> Categories { get; set; } = new();
+    public DateTime UpdatedAt { get; set; }
+}
+
+public class RulePreviewDto
+{
+    public int MatchCount { get; set; }
+    public int ChangeCount { get; set; }
+    public List<RulePreviewItemDto> Changes { get; set; } = new();
+}
+
+public class RulePreviewItemDto
+{
+    public Guid TransactionId { get; set; }
+    public DateTime Date { get; set; }
+    public string Description { get; set; } = string.Empty;
+    public decimal Amount { get; set; }
+    public string Account { get; set; } = string.Empty;
+    public List<string> CurrentCategories { get; set; } = new();
+    public List<string> NewCategories { get; set; } = new();
+}
+
+public record SaveRuleRequest(
+    string Name,
+    bool IsEnabled,
+    string? DescriptionPattern,
+    RuleMatchType MatchType,
+    decimal? MinAmount,
+    decimal? MaxAmount,
+    RuleAmountSign AmountSign,
+    string? Account,
+    List<string> Categories);
+
+public record ReorderRulesRequest(List<Guid> RuleIds);
+
+internal static class CategorizationRuleExtensions
+{
+    public static List<string> GetCategories(this CategorizationRule rule)
+    {
+        return JsonSerializer.Deserialize<List<string>>(rule.Categories) ?? new List<string>();
+    }
+
+    public static void SetCategories(this CategorizationRule rule, IEnumerable<string> categories)
+    {
+        rule.Categories = JsonSerializer.Serialize(categories.ToList());
+    }
+
+    public static CategorizationRuleDto MapToDto(this CategorizationRule rule)
+    {
+        return new CategorizationRuleDto
+        {
+            Id = rule.Id,
+            Name = rule.Name,
+            Position = rule.Position,
+            IsEnabled = rule.IsEnabled,
+            DescriptionPattern = rule.DescriptionPattern,
+            MatchType = rule.MatchType,
+            MinAmount = rule.MinAmount,
+            MaxAmount = rule.MaxAmount,
+            AmountSign = rule.AmountSign,
+            Account = rule.Account,
+            Categories = rule.GetCategories(),
+            UpdatedAt = rule.UpdatedAt
+        };
+    }
+
+    public static void ApplyRequest(this CategorizationRule rule, SaveRuleRequest request)
+    {
+        rule.Name = request.Name.Trim();
+        rule.IsEnabled = request.IsEnabled;
+        rule.DescriptionPattern = string.IsNullOrWhiteSpace(request.DescriptionPattern) ? null : request.DescriptionPattern.Trim();
+        rule.MatchType = request.MatchType;
+        rule.MinAmount = request.MinAmount;
+        rule.MaxAmount = request.MaxAmount;
+        rule.AmountSign = request.AmountSign;
+        rule.Account = string.IsNullOrWhiteSpace(request.Account) ? null : request.Account.Trim();
+        rule.SetCategories(request.Categories.Select(c => c.Trim()).Distinct());
+        rule.UpdatedAt = DateTime.UtcNow;
+    }
+}
@@ -0,0 +1,138 @@
+using System.Text.RegularExpressions;
+using BudgetTracker.Api.Features.Transactions;
+using BudgetTracker.Api.Features.Transactions.Category;
+using BudgetTracker.Api.Infrastructure;
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Features.Rules;
+
+/// <summary>
+/// Evaluates categorization rules against transactions, both for new imports and for history.
+/// Split transactions are left alone since their categories come from the allocations.
+/// </summary>
+internal static class CategorizationRuleEngine
+{
+    private static readonly TimeSpan RegexTimeout = TimeSpan.FromMilliseconds(100);
+
+    public static bool IsValidPattern(RuleMatchType matchType, string pattern)
+    {
+        if (matchType != RuleMatchType.Regex) return true;
+
+        try
+        {
+            _ = new Regex(pattern, RegexOptions.IgnoreCase, RegexTimeout);
+            return true;
+        }
+        catch (ArgumentException)
+        {
+            return false;
+        }
+    }
+
+    public static bool Matches(CategorizationRule rule, Transaction transaction)
+    {
+        if (rule.Account != null && !string.Equals(rule.Account, transaction.Account, StringComparison.OrdinalIgnoreCase))
+        {
+            return false;
+        }
+
+        if ((rule.AmountSign == RuleAmountSign.Positive && transaction.Amount <= 0) ||
+            (rule.AmountSign == RuleAmountSign.Negative && transaction.Amount >= 0))
+        {
+            return false;
+        }
+
+        var amount = Math.Abs(transaction.Amount);
+        if (amount < rule.MinAmount || amount > rule.MaxAmount)
+        {
+            return false;
+        }
+
+        return rule.DescriptionPattern == null || MatchesDescription(rule, transaction.Description);
+    }
+
+    /// <summary>
+    /// Runs the user's enabled rules over transactions that have not been saved yet
+    /// </summary>
+    /// <returns>Ids of the transactions a rule categorized</returns>
+    public static async Task<HashSet<Guid>> ApplyToNewTransactionsAsync(
+        BudgetTrackerContext db, string userId, IEnumerable<Transaction> transactions)
+    {
+        var rules = await db.CategorizationRules
+            .Where(r => r.UserId == userId && r.IsEnabled)
+            .OrderBy(r => r.Position)
+            .ToListAsync();
+
+        var categorized = new HashSet<Guid>();
+        if (rules.Count == 0) return categorized;
+
+        var rulesWithCategories = rules.Select(r => (Rule: r, Categories: r.GetCategories())).ToList();
+
+        foreach (var transaction in transactions)
+        {
+            var match = rulesWithCategories.FirstOrDefault(r => Matches(r.Rule, transaction));
+            if (match.Rule == null) continue;
+
+            transaction.ReplaceCategories(db, match.Categories);
+            categorized.Add(transaction.Id);
+        }
+
+        return categorized;
+    }
+
+    /// <summary>
+    /// Existing transactions matched by a single rule, newest first, with their categories loaded
+    /// </summary>
+    public static async Task<List<Transaction>> FindMatchesAsync(
+        BudgetTrackerContext db, string userId, CategorizationRule rule)
+    {
+        var query = db.Transactions
+            .Include(t => t.Categories)
+            .Where(t => t.UserId == userId && !t.Splits.Any());
+
+        if (rule.AmountSign == RuleAmountSign.Positive)
+        {
+            query = query.Where(t => t.Amount > 0);
+        }
+        else if (rule.AmountSign == RuleAmountSign.Negative)
+        {
+            query = query.Where(t => t.Amount < 0);
+        }
+
+        if (rule.Account != null)
+        {
+            var account = rule.Account.ToLower();
+            query = query.Where(t => t.Account.ToLower() == account);
+        }
+
+        var candidates = await query
+            .OrderByDescending(t => t.Date)
+            .ToListAsync();
+
+        return candidates.Where(t => Matches(rule, t)).ToList();
+    }
+
+    private static bool MatchesDescription(CategorizationRule rule, string description)
+    {
+        var pattern = rule.DescriptionPattern!;
+
+        switch (rule.MatchType)
+        {
+            case RuleMatchType.StartsWith:
+                return description.StartsWith(pattern, StringComparison.OrdinalIgnoreCase);
+            case RuleMatchType.Equals:
+                return string.Equals(description.Trim(), pattern, StringComparison.OrdinalIgnoreCase);
+            case RuleMatchType.Regex:
+                try
+                {
+                    return Regex.IsMatch(description, pattern, RegexOptions.IgnoreCase, RegexTimeout);
+                }
+                catch (RegexMatchTimeoutException)
+                {
+                    return false;
+                }
+            default:
+                return description.Contains(pattern, StringComparison.OrdinalIgnoreCase);
+        }
+    }
+}
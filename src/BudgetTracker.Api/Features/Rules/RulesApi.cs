@@ -0,0 +1,259 @@
+using System.Security.Claims;
+using BudgetTracker.Api.Auth;
+using BudgetTracker.Api.Features.Transactions.Category;
+using BudgetTracker.Api.Infrastructure;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Features.Rules;
+
+public static class RulesApi
+{
+    private const int MaxPreviewItems = 100;
+    private const int MaxCategories = 5;
+
+    public static IEndpointRouteBuilder MapRulesEndpoints(this IEndpointRouteBuilder routes)
+    {
+        var rulesGroup = routes.MapGroup("/rules")
+            .WithTags("Rules")
+            .WithOpenApi()
+            .RequireAuthorization();
+
+        rulesGroup.MapGet("/",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal) =>
+            {
+                var userId = claimsPrincipal.GetUserId();
+                return Results.Ok(await GetRulesAsync(db, userId));
+            });
+
+        rulesGroup.MapPost("/",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
+                [FromBody] SaveRuleRequest request) =>
+            {
+                var validationError = Validate(request);
+                if (validationError != null)
+                {
+                    return Results.BadRequest(new { error = validationError });
+                }
+
+                var userId = claimsPrincipal.GetUserId();
+                var lastPosition = await db.CategorizationRules
+                    .Where(r => r.UserId == userId)
+                    .MaxAsync(r => (int?)r.Position) ?? -1;
+
+                var rule = new CategorizationRule
+                {
+                    UserId = userId,
+                    Position = lastPosition + 1,
+                    CreatedAt = DateTime.UtcNow
+                };
+                rule.ApplyRequest(request);
+
+                db.CategorizationRules.Add(rule);
+                await db.SaveChangesAsync();
+
+                return Results.Ok(rule.MapToDto());
+            });
+
+        rulesGroup.MapPut("/{ruleId:guid}",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
+                Guid ruleId, [FromBody] SaveRuleRequest request) =>
+            {
+                var validationError = Validate(request);
+                if (validationError != null)
+                {
+                    return Results.BadRequest(new { error = validationError });
+                }
+
+                var userId = claimsPrincipal.GetUserId();
+                var rule = await db.CategorizationRules
+                    .FirstOrDefaultAsync(r => r.Id == ruleId && r.UserId == userId);
+
+                if (rule == null)
+                {
+                    return Results.NotFound(new { error = "Rule not found" });
+                }
+
+                rule.ApplyRequest(request);
+                await db.SaveChangesAsync();
+
+                return Results.Ok(rule.MapToDto());
+            });
+
+        rulesGroup.MapDelete("/{ruleId:guid}",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal, Guid ruleId) =>
+            {
+                var userId = claimsPrincipal.GetUserId();
+                var rule = await db.CategorizationRules
+                    .FirstOrDefaultAsync(r => r.Id == ruleId && r.UserId == userId);
+
+                if (rule == null)
+                {
+                    return Results.NotFound(new { error = "Rule not found" });
+                }
+
+                db.CategorizationRules.Remove(rule);
+                await db.SaveChangesAsync();
+
+                return Results.Ok(new { message = "Rule deleted successfully" });
+            });
+
+        rulesGroup.MapPut("/order",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
+                [FromBody] ReorderRulesRequest request) =>
+            {
+                var userId = claimsPrincipal.GetUserId();
+                var rules = await db.CategorizationRules
+                    .Where(r => r.UserId == userId)
+                    .ToListAsync();
+
+                var ruleIds = request.RuleIds ?? new List<Guid>();
+                if (ruleIds.Count != rules.Count || !rules.All(r => ruleIds.Contains(r.Id)))
+                {
+                    return Results.BadRequest(new { error = "The new order must list every rule exactly once" });
+                }
+
+                foreach (var rule in rules)
+                {
+                    rule.Position = ruleIds.IndexOf(rule.Id);
+                }
+
+                await db.SaveChangesAsync();
+
+                return Results.Ok(await GetRulesAsync(db, userId));
+            });
+
+        // Previews an unsaved rule so the editor can show its effect before anything is stored
+        rulesGroup.MapPost("/preview",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
+                [FromBody] SaveRuleRequest request) =>
+            {
+                var validationError = Validate(request);
+                if (validationError != null)
+                {
+                    return Results.BadRequest(new { error = validationError });
+                }
+
+                var rule = new CategorizationRule();
+                rule.ApplyRequest(request);
+
+                var categories = rule.GetCategories();
+                var matches = await CategorizationRuleEngine.FindMatchesAsync(db, claimsPrincipal.GetUserId(), rule);
+                var changes = matches
+                    .Where(t => !t.HasCategories(categories))
+                    .ToList();
+
+                return Results.Ok(new RulePreviewDto
+                {
+                    MatchCount = matches.Count,
+                    ChangeCount = changes.Count,
+                    Changes = changes
+                        .Take(MaxPreviewItems)
+                        .Select(t => new RulePreviewItemDto
+                        {
+                            TransactionId = t.Id,
+                            Date = t.Date,
+                            Description = t.Description,
+                            Amount = t.Amount,
+                            Account = t.Account,
+                            CurrentCategories = t.GetCategoryNames(),
+                            NewCategories = categories
+                        })
+                        .ToList()
+                });
+            });
+
+        rulesGroup.MapPost("/{ruleId:guid}/apply",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal, Guid ruleId) =>
+            {
+                var userId = claimsPrincipal.GetUserId();
+                var rule = await db.CategorizationRules
+                    .FirstOrDefaultAsync(r => r.Id == ruleId && r.UserId == userId);
+
+                if (rule == null)
+                {
+                    return Results.NotFound(new { error = "Rule not found" });
+                }
+
+                var categories = rule.GetCategories();
+                var matches = await CategorizationRuleEngine.FindMatchesAsync(db, userId, rule);
+                var updatedCount = matches.Count(t => t.ReplaceCategories(db, categories));
+
+                await db.SaveChangesAsync();
+
+                return Results.Ok(new { updatedCount });
+            });
+
+        return routes;
+    }
+
+    private static async Task<List<CategorizationRuleDto>> GetRulesAsync(BudgetTrackerContext db, string userId)
+    {
+        var rules = await db.CategorizationRules
+            .Where(r => r.UserId == userId)
+            .OrderBy(r => r.Position)
+            .ToListAsync();
+
+        return rules.Select(r => r.MapToDto()).ToList();
+    }
+
+    private static string? Validate(SaveRuleRequest request)
+    {
+        if (string.IsNullOrWhiteSpace(request.Name) || request.Name.Trim().Length > 100)
+        {
+            return "Rule name must be between 1 and 100 characters";
+        }
+
+        var hasPattern = !string.IsNullOrWhiteSpace(request.DescriptionPattern);
+        if (!hasPattern && request.MinAmount == null && request.MaxAmount == null &&
+            request.AmountSign == RuleAmountSign.Any && string.IsNullOrWhiteSpace(request.Account))
+        {
+            return "A rule needs at least one condition";
+        }
+
+        if (hasPattern)
+        {
+            if (request.DescriptionPattern!.Trim().Length > 500)
+            {
+                return "Description pattern must be 500 characters or fewer";
+            }
+
+            if (!CategorizationRuleEngine.IsValidPattern(request.MatchType, request.DescriptionPattern.Trim()))
+            {
+                return "Description pattern is not a valid regular expression";
+            }
+        }
+
+        if (request.MinAmount < 0 || request.MaxAmount < 0)
+        {
+            return "Amount bounds apply to the amount without its sign and cannot be negative";
+        }
+
+        if (request.MinAmount > request.MaxAmount)
+        {
+            return "Minimum amount cannot be greater than the maximum";
+        }
+
+        if (request.Account?.Trim().Length > 100)
+        {
+            return "Account must be 100 characters or fewer";
+        }
+
+        if (request.Categories == null || request.Categories.Count == 0)
+        {
+            return "Choose at least one category";
+        }
+
+        if (request.Categories.Count > MaxCategories)
+        {
+            return $"A rule can assign at most {MaxCategories} categories";
+        }
+
+        if (request.Categories.Any(c => string.IsNullOrWhiteSpace(c) || c.Trim().Length > 100))
+        {
+            return "Category names must be between 1 and 100 characters";
+        }
+
+        return null;
+    }
+}
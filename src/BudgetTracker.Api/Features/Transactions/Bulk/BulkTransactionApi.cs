@@ -0,0 +1,389 @@
+using System.Security.Claims;
+using BudgetTracker.Api.Auth;
+using BudgetTracker.Api.Features.Transactions.Category;
+using BudgetTracker.Api.Features.Transactions.Edit;
+using BudgetTracker.Api.Features.Transactions.List;
+using BudgetTracker.Api.Infrastructure;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Features.Transactions.Bulk;
+
+/// <summary>
+/// Changes applied to many selected transactions at once. Adding categories and deleting
+/// live with their single-transaction counterparts.
+/// </summary>
+public static class BulkTransactionApi
+{
+    private const int MaxLabelsLength = 200;
+
+    /// <summary>
+    /// The most transactions a bulk change returns snapshots for, which bounds the restore request too
+    /// </summary>
+    internal const int MaxSnapshotCount = 5000;
+
+    public static IEndpointRouteBuilder MapBulkTransactionEndpoints(this IEndpointRouteBuilder routes)
+    {
+        routes.MapPost("/bulk/count",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
+                [FromBody] BulkSelectionRequest request) =>
+            {
+                if (!request.HasSelection())
+                {
+                    return Results.BadRequest(new { error = "No transactions selected" });
+                }
+
+                var count = await db.Transactions
+                    .WhereSelected(claimsPrincipal.GetUserId(), request)
+                    .CountAsync();
+
+                return Results.Ok(new { count });
+            });
+
+        // Undoes a bulk change from the snapshots the change returned
+        routes.MapPut("/bulk/restore",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
+                [FromBody] RestoreSnapshotsRequest request) =>
+            {
+                if (request.Snapshots == null || request.Snapshots.Count == 0)
+                {
+                    return Results.BadRequest(new { error = "Nothing to restore" });
+                }
+
+                if (request.Snapshots.Count > MaxSnapshotCount)
+                {
+                    return Results.BadRequest(new { error = $"Only {MaxSnapshotCount} transactions or fewer can be restored at once" });
+                }
+
+                var validationError = request.Snapshots.Select(ValidateSnapshot).FirstOrDefault(e => e != null);
+                if (validationError != null)
+                {
+                    return Results.BadRequest(new { error = validationError });
+                }
+
+                var userId = claimsPrincipal.GetUserId();
+                var ids = request.Snapshots.Select(s => s.Id).Distinct().ToList();
+                var transactions = await db.Transactions
+                    .Include(t => t.Categories)
+                    .Where(t => t.UserId == userId && ids.Contains(t.Id))
+                    .ToDictionaryAsync(t => t.Id);
+
+                // Rows deleted since the snapshot was taken are skipped
+                var updatedCount = 0;
+                foreach (var snapshot in request.Snapshots)
+                {
+                    if (!transactions.TryGetValue(snapshot.Id, out var transaction)) continue;
+
+                    RestoreSnapshot(db, transaction, snapshot);
+                    updatedCount++;
+                }
+
+                await db.SaveChangesAsync();
+
+                return Results.Ok(new { updatedCount });
+            });
+
+        routes.MapPut("/bulk-categories",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
+                [FromBody] BulkCategoriesRequest request) =>
+            {
+                var validationError = ValidateCategories(request);
+                if (validationError != null)
+                {
+                    return Results.BadRequest(new { error = validationError });
+                }
+
+                var transactions = await FindTransactionsAsync(db, claimsPrincipal.GetUserId(), request);
+                if (transactions == null)
+                {
+                    return Results.BadRequest(new { error = "Some transactions not found or do not belong to user" });
+                }
+
+                var snapshots = TakeSnapshots(transactions);
+
+                var categories = request.CategoryNames.Select(c => c.Trim()).Distinct().ToList();
+                var (updatedCount, skippedCount) = UpdateUnsplit(transactions, t => t.ReplaceCategories(db, categories));
+                await db.SaveChangesAsync();
+
+                return Results.Ok(new { updatedCount, skippedCount, snapshots });
+            });
+
+        routes.MapPost("/bulk-categories/remove",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
+                [FromBody] BulkCategoriesRequest request) =>
+            {
+                var validationError = ValidateCategories(request);
+                if (validationError != null)
+                {
+                    return Results.BadRequest(new { error = validationError });
+                }
+
+                var transactions = await FindTransactionsAsync(db, claimsPrincipal.GetUserId(), request);
+                if (transactions == null)
+                {
+                    return Results.BadRequest(new { error = "Some transactions not found or do not belong to user" });
+                }
+
+                var snapshots = TakeSnapshots(transactions);
+
+                var categories = request.CategoryNames.Select(c => c.Trim()).ToHashSet();
+                var (updatedCount, skippedCount) = UpdateUnsplit(transactions, t => t.RemoveCategories(db, categories));
+                await db.SaveChangesAsync();
+
+                return Results.Ok(new { updatedCount, skippedCount, snapshots });
+            });
+
+        routes.MapPut("/bulk-account",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
+                [FromBody] BulkAccountRequest request) =>
+            {
+                if (!request.HasSelection())
+                {
+                    return Results.BadRequest(new { error = "No transactions selected" });
+                }
+
+                var account = request.Account?.Trim() ?? string.Empty;
+                if (account.Length == 0 || account.Length > 100)
+                {
+                    return Results.BadRequest(new { error = "Account must be between 1 and 100 characters" });
+                }
+
+                var transactions = await FindTransactionsAsync(db, claimsPrincipal.GetUserId(), request);
+                if (transactions == null)
+                {
+                    return Results.BadRequest(new { error = "Some transactions not found or do not belong to user" });
+                }
+
+                var snapshots = TakeSnapshots(transactions);
+
+                var updatedCount = 0;
+                foreach (var transaction in transactions.Where(t => t.Account != account))
+                {
+                    TransactionEditApi.ApplyUpdate(transaction, ToUpdateRequest(transaction) with { Account = account });
+                    updatedCount++;
+                }
+
+                await db.SaveChangesAsync();
+
+                return Results.Ok(new { updatedCount, snapshots });
+            });
+
+        routes.MapPost("/bulk-labels",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
+                [FromBody] BulkLabelsRequest request) =>
+            {
+                if (!request.HasSelection())
+                {
+                    return Results.BadRequest(new { error = "No transactions selected" });
+                }
+
+                var labels = SplitLabels(request.Labels);
+                if (labels.Count == 0)
+                {
+                    return Results.BadRequest(new { error = "Enter at least one label" });
+                }
+
+                var transactions = await FindTransactionsAsync(db, claimsPrincipal.GetUserId(), request);
+                if (transactions == null)
+                {
+                    return Results.BadRequest(new { error = "Some transactions not found or do not belong to user" });
+                }
+
+                var snapshots = TakeSnapshots(transactions);
+
+                var updatedCount = 0;
+                var skippedCount = 0;
+                foreach (var transaction in transactions)
+                {
+                    var combined = AddLabels(transaction.Labels, labels);
+                    if (combined == transaction.Labels) continue;
+
+                    if (combined.Length > MaxLabelsLength)
+                    {
+                        skippedCount++;
+                        continue;
+                    }
+
+                    TransactionEditApi.ApplyUpdate(transaction, ToUpdateRequest(transaction) with { Labels = combined });
+                    updatedCount++;
+                }
+
+                await db.SaveChangesAsync();
+
+                return Results.Ok(new { updatedCount, skippedCount, snapshots });
+            });
+
+        routes.MapPut("/bulk-reviewed",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
+                [FromBody] BulkReviewedRequest request) =>
+            {
+                if (!request.HasSelection())
+                {
+                    return Results.BadRequest(new { error = "No transactions selected" });
+                }
+
+                var transactions = await FindTransactionsAsync(db, claimsPrincipal.GetUserId(), request);
+                if (transactions == null)
+                {
+                    return Results.BadRequest(new { error = "Some transactions not found or do not belong to user" });
+                }
+
+                var snapshots = TakeSnapshots(transactions);
+
+                var updatedCount = 0;
+                foreach (var transaction in transactions.Where(t => t.IsReviewed != request.IsReviewed))
+                {
+                    transaction.IsReviewed = request.IsReviewed;
+                    updatedCount++;
+                }
+
+                await db.SaveChangesAsync();
+
+                return Results.Ok(new { updatedCount, snapshots });
+            });
+
+        return routes;
+    }
+
+    /// <returns>The transactions with their categories and splits, or null when any listed id is missing or someone else's</returns>
+    internal static async Task<List<Transaction>?> FindTransactionsAsync(BudgetTrackerContext db, string userId,
+        IBulkTransactionRequest request)
+    {
+        var transactions = await db.Transactions
+            .WhereSelected(userId, request)
+            .Include(t => t.Categories)
+            .Include(t => t.Splits)
+            .ToListAsync();
+
+        return request.IsComplete(transactions.Count) ? transactions : null;
+    }
+
+    /// <summary>
+    /// Applies a category change to the transactions that aren't split. A split transaction's
+    /// categories come from its allocations, so those are skipped rather than changed underneath them.
+    /// </summary>
+    private static (int UpdatedCount, int SkippedCount) UpdateUnsplit(List<Transaction> transactions,
+        Func<Transaction, bool> update)
+    {
+        var skippedCount = transactions.Count(t => t.Splits.Count > 0);
+        var updatedCount = transactions.Where(t => t.Splits.Count == 0).Count(update);
+
+        return (updatedCount, skippedCount);
+    }
+
+    private static UpdateTransactionRequest ToUpdateRequest(Transaction transaction)
+    {
+        return new UpdateTransactionRequest(DateOnly.FromDateTime(transaction.Date), transaction.Description,
+            transaction.Amount, transaction.Account, transaction.Labels);
+    }
+
+    /// <summary>
+    /// The selected rows as they were before a change, returned with it so it can be undone with /bulk/restore.
+    /// Taking them while the change is made means rows that start matching a filter afterwards aren't missed.
+    /// Null when there are too many rows to undo.
+    /// </summary>
+    internal static List<TransactionSnapshot>? TakeSnapshots(List<Transaction> transactions)
+    {
+        return transactions.Count > MaxSnapshotCount ? null : transactions.Select(ToSnapshot).ToList();
+    }
+
+    private static TransactionSnapshot ToSnapshot(Transaction transaction)
+    {
+        return new TransactionSnapshot(transaction.Id, transaction.GetCategoryNames(), transaction.Account,
+            transaction.Labels, transaction.IsReviewed);
+    }
+
+    private static string? ValidateSnapshot(TransactionSnapshot snapshot)
+    {
+        if (snapshot.Categories == null || snapshot.Categories.Any(c => string.IsNullOrWhiteSpace(c) || c.Length > 100))
+        {
+            return "Category names must be between 1 and 100 characters";
+        }
+
+        if (string.IsNullOrWhiteSpace(snapshot.Account) || snapshot.Account.Trim().Length > 100)
+        {
+            return "Account must be between 1 and 100 characters";
+        }
+
+        return snapshot.Labels?.Trim().Length > MaxLabelsLength ? "Labels must be 200 characters or fewer" : null;
+    }
+
+    private static void RestoreSnapshot(BudgetTrackerContext db, Transaction transaction, TransactionSnapshot snapshot)
+    {
+        if (snapshot.Categories.Count > 0)
+        {
+            transaction.ReplaceCategories(db, snapshot.Categories);
+        }
+        else
+        {
+            transaction.Category = null;
+            foreach (var tag in transaction.Categories.ToList())
+            {
+                transaction.Categories.Remove(tag);
+                db.TransactionCategories.Remove(tag);
+            }
+        }
+
+        TransactionEditApi.ApplyUpdate(transaction,
+            ToUpdateRequest(transaction) with { Account = snapshot.Account, Labels = snapshot.Labels });
+        transaction.IsReviewed = snapshot.IsReviewed;
+    }
+
+    private static List<string> SplitLabels(string? labels)
+    {
+        return (labels ?? string.Empty)
+            .Split(',', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries)
+            .Distinct(StringComparer.OrdinalIgnoreCase)
+            .ToList();
+    }
+
+    /// <summary>
+    /// Appends the labels that are not there yet, keeping the existing text as it is
+    /// </summary>
+    private static string AddLabels(string? existing, List<string> labels)
+    {
+        var current = SplitLabels(existing);
+        var missing = labels.Where(l => !current.Contains(l, StringComparer.OrdinalIgnoreCase)).ToList();
+
+        if (missing.Count == 0) return existing ?? string.Empty;
+
+        return string.IsNullOrWhiteSpace(existing)
+            ? string.Join(", ", missing)
+            : $"{existing.Trim()}, {string.Join(", ", missing)}";
+    }
+
+    private static string? ValidateCategories(BulkCategoriesRequest request)
+    {
+        if (!request.HasSelection())
+        {
+            return "No transactions selected";
+        }
+
+        if (request.CategoryNames == null || request.CategoryNames.Count == 0)
+        {
+            return "Choose at least one category";
+        }
+
+        if (request.CategoryNames.Any(c => string.IsNullOrWhiteSpace(c) || c.Trim().Length > 100))
+        {
+            return "Category names must be between 1 and 100 characters";
+        }
+
+        return null;
+    }
+}
+
+public record BulkCategoriesRequest(List<Guid>? TransactionIds, List<string> CategoryNames,
+    TransactionFilter? Filter = null) : IBulkTransactionRequest;
+public record BulkAccountRequest(List<Guid>? TransactionIds, string Account,
+    TransactionFilter? Filter = null) : IBulkTransactionRequest;
+public record BulkLabelsRequest(List<Guid>? TransactionIds, string Labels,
+    TransactionFilter? Filter = null) : IBulkTransactionRequest;
+public record BulkReviewedRequest(List<Guid>? TransactionIds, bool IsReviewed,
+    TransactionFilter? Filter = null) : IBulkTransactionRequest;
+
+/// <summary>
+/// The state bulk actions can change, with categories listed primary first
+/// </summary>
+public record TransactionSnapshot(Guid Id, List<string> Categories, string Account, string? Labels, bool IsReviewed);
+public record RestoreSnapshotsRequest(List<TransactionSnapshot> Snapshots);
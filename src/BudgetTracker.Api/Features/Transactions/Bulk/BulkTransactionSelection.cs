@@ -0,0 +1,47 @@
+using BudgetTracker.Api.Features.Transactions.List;
+
+namespace BudgetTracker.Api.Features.Transactions.Bulk;
+
+/// <summary>
+/// A bulk request picks its transactions either by id or, for "select all matching",
+/// by the list filter. Ids win when both are sent.
+/// </summary>
+public interface IBulkTransactionRequest
+{
+    List<Guid>? TransactionIds { get; }
+    TransactionFilter? Filter { get; }
+}
+
+public static class BulkTransactionSelection
+{
+    public static bool HasSelection(this IBulkTransactionRequest request)
+    {
+        return request.TransactionIds is { Count: > 0 } || request.Filter != null;
+    }
+
+    public static IQueryable<Transaction> WhereSelected(this IQueryable<Transaction> query, string userId,
+        IBulkTransactionRequest request)
+    {
+        query = query.Where(t => t.UserId == userId);
+
+        if (request.TransactionIds is { Count: > 0 })
+        {
+            var ids = request.TransactionIds.Distinct().ToList();
+            return query.Where(t => ids.Contains(t.Id));
+        }
+
+        return query.ApplyFilter(request.Filter!);
+    }
+
+    /// <summary>
+    /// Whether every listed id was found. A filter selects whatever currently matches, so it is always complete.
+    /// </summary>
+    public static bool IsComplete(this IBulkTransactionRequest request, int foundCount)
+    {
+        return request.TransactionIds is not { Count: > 0 } ||
+               request.TransactionIds.Distinct().Count() == foundCount;
+    }
+}
+
+public record BulkSelectionRequest(List<Guid>? TransactionIds, TransactionFilter? Filter = null)
+    : IBulkTransactionRequest;
@@ -1,5 +1,7 @@
 using System.Security.Claims;
 using BudgetTracker.Api.Auth;
+using BudgetTracker.Api.Features.Transactions.Bulk;
+using BudgetTracker.Api.Features.Transactions.List;
 using BudgetTracker.Api.Infrastructure;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
@@ -78,32 +80,35 @@ public static class CategoryApi
             {
                 var userId = claimsPrincipal.GetUserId();
 
-                // Verify all transactions exist and belong to user
-                var transactions = await db.Transactions
-                    .Where(t => request.TransactionIds.Contains(t.Id) && t.UserId == userId)
-                    .Select(t => t.Id)
-                    .ToListAsync();
+                if (!request.HasSelection())
+                {
+                    return Results.BadRequest(new { error = "No transactions selected" });
+                }
 
-                if (transactions.Count != request.TransactionIds.Count)
+                // Verify all transactions exist and belong to user
+                var transactions = await BulkTransactionApi.FindTransactionsAsync(db, userId, request);
+                if (transactions == null)
                 {
                     return Results.BadRequest(new { error = "Some transactions not found or do not belong to user" });
                 }
 
+                var snapshots = BulkTransactionApi.TakeSnapshots(transactions);
+
+                // Split transactions get their categories from their allocations, so they are skipped
+                var unsplit = transactions.Where(t => t.Splits.Count == 0).ToList();
+                var skippedCount = transactions.Count - unsplit.Count;
+
                 var categoriesToAdd = new List<TransactionCategory>();
 
-                foreach (var transactionId in request.TransactionIds)
+                foreach (var transaction in unsplit)
                 {
                     foreach (var categoryName in request.CategoryNames)
                     {
-                        // Check if category already exists
-                        var exists = await db.TransactionCategories
-                            .AnyAsync(tc => tc.TransactionId == transactionId && tc.CategoryName == categoryName);
-
-                        if (!exists)
+                        if (transaction.Categories.All(c => c.CategoryName != categoryName))
                         {
                             categoriesToAdd.Add(new TransactionCategory
                             {
-                                TransactionId = transactionId,
+                                TransactionId = transaction.Id,
                                 CategoryName = categoryName,
                                 UserId = userId
                             });
@@ -120,7 +125,9 @@ public static class CategoryApi
                 return Results.Ok(new
                 {
                     addedCount = categoriesToAdd.Count,
-                    message = $"Added {categoriesToAdd.Count} categories to {request.TransactionIds.Count} transactions"
+                    skippedCount,
+                    snapshots,
+                    message = $"Added {categoriesToAdd.Count} categories to {unsplit.Count} transactions"
                 });
             });
 
@@ -129,4 +136,5 @@ public static class CategoryApi
 }
 
 public record AddCategoryRequest(string CategoryName);
-public record BulkAddCategoriesRequest(List<Guid> TransactionIds, List<string> CategoryNames);
+public record BulkAddCategoriesRequest(List<Guid>? TransactionIds, List<string> CategoryNames,
+    TransactionFilter? Filter = null) : IBulkTransactionRequest;
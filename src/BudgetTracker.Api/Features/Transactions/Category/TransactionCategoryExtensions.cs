@@ -0,0 +1,79 @@
+using BudgetTracker.Api.Infrastructure;
+
+namespace BudgetTracker.Api.Features.Transactions.Category;
+
+/// <summary>
+/// Treats the primary category and the additional ones as a single list, the primary one first.
+/// The additional categories must be loaded.
+/// </summary>
+internal static class TransactionCategoryExtensions
+{
+    public static List<string> GetCategoryNames(this Transaction transaction)
+    {
+        var categories = new List<string>();
+        if (!string.IsNullOrEmpty(transaction.Category))
+        {
+            categories.Add(transaction.Category);
+        }
+
+        categories.AddRange(transaction.Categories
+            .Select(c => c.CategoryName)
+            .Where(c => !categories.Contains(c)));
+
+        return categories;
+    }
+
+    public static bool HasCategories(this Transaction transaction, IReadOnlyList<string> categories)
+    {
+        var current = transaction.GetCategoryNames();
+
+        return current.FirstOrDefault() == categories[0] &&
+               current.Skip(1).ToHashSet().SetEquals(categories.Skip(1));
+    }
+
+    /// <summary>
+    /// Files the transaction under exactly these categories, the first becoming the primary one
+    /// </summary>
+    /// <returns>Whether anything changed</returns>
+    public static bool ReplaceCategories(this Transaction transaction, BudgetTrackerContext db,
+        IReadOnlyList<string> categories)
+    {
+        if (transaction.HasCategories(categories)) return false;
+
+        var additional = categories.Skip(1).ToList();
+        transaction.Category = categories[0];
+
+        foreach (var tag in transaction.Categories.Where(c => !additional.Contains(c.CategoryName)).ToList())
+        {
+            transaction.Categories.Remove(tag);
+            db.TransactionCategories.Remove(tag);
+        }
+
+        foreach (var categoryName in additional.Where(c => transaction.Categories.All(tc => tc.CategoryName != c)))
+        {
+            transaction.Categories.Add(new TransactionCategory
+            {
+                TransactionId = transaction.Id,
+                CategoryName = categoryName,
+                UserId = transaction.UserId
+            });
+        }
+
+        return true;
+    }
+
+    /// <summary>
+    /// Removes the named categories. When the primary one goes, the next category takes its place,
+    /// falling back to "Uncategorized" like imports do.
+    /// </summary>
+    /// <returns>Whether anything changed</returns>
+    public static bool RemoveCategories(this Transaction transaction, BudgetTrackerContext db,
+        IReadOnlyCollection<string> categoryNames)
+    {
+        var remaining = transaction.GetCategoryNames()
+            .Where(c => !categoryNames.Contains(c))
+            .ToList();
+
+        return transaction.ReplaceCategories(db, remaining.Count > 0 ? remaining : new List<string> { "Uncategorized" });
+    }
+}
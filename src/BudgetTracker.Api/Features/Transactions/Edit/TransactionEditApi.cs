@@ -0,0 +1,217 @@
+using System.Security.Claims;
+using BudgetTracker.Api.Auth;
+using BudgetTracker.Api.Features.Intelligence.Search;
+using BudgetTracker.Api.Infrastructure;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Features.Transactions.Edit;
+
+public static class TransactionEditApi
+{
+    private static readonly string[] RevertableFields = { "date", "description", "amount", "account", "labels" };
+
+    public static IEndpointRouteBuilder MapTransactionEditEndpoints(this IEndpointRouteBuilder routes)
+    {
+        routes.MapPut("/{transactionId:guid}",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
+                Guid transactionId, [FromBody] UpdateTransactionRequest request) =>
+            {
+                var validationError = ValidateFields(request.Date, request.Description, request.Amount,
+                    request.Account, request.Labels);
+                if (validationError != null)
+                {
+                    return Results.BadRequest(new { error = validationError });
+                }
+
+                var userId = claimsPrincipal.GetUserId();
+                var transaction = await db.Transactions
+                    .Include(t => t.Categories)
+                    .Include(t => t.Splits)
+                    .FirstOrDefaultAsync(t => t.Id == transactionId && t.UserId == userId);
+
+                if (transaction == null)
+                {
+                    return Results.NotFound(new { error = "Transaction not found" });
+                }
+
+                ApplyUpdate(transaction, request);
+                RemoveStaleSplits(db, transaction);
+                await db.SaveChangesAsync();
+
+                return Results.Ok(transaction.MapToDto());
+            });
+
+        routes.MapPost("/{transactionId:guid}/revert",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
+                Guid transactionId, [FromBody] RevertTransactionFieldRequest request) =>
+            {
+                var field = request.Field?.Trim().ToLowerInvariant();
+                if (field == null || !RevertableFields.Contains(field))
+                {
+                    return Results.BadRequest(new { error = $"Field must be one of: {string.Join(", ", RevertableFields)}" });
+                }
+
+                var userId = claimsPrincipal.GetUserId();
+                var transaction = await db.Transactions
+                    .Include(t => t.Categories)
+                    .Include(t => t.Splits)
+                    .FirstOrDefaultAsync(t => t.Id == transactionId && t.UserId == userId);
+
+                if (transaction == null)
+                {
+                    return Results.NotFound(new { error = "Transaction not found" });
+                }
+
+                RevertField(transaction, field);
+                RemoveStaleSplits(db, transaction);
+                await db.SaveChangesAsync();
+
+                return Results.Ok(transaction.MapToDto());
+            });
+
+        return routes;
+    }
+
+    /// <summary>
+    /// Checks user-entered values against the Transaction column limits, shared by edits and manual entry
+    /// </summary>
+    internal static string? ValidateFields(DateOnly date, string? description, decimal amount, string? account,
+        string? labels)
+    {
+        if (string.IsNullOrWhiteSpace(description))
+        {
+            return "Description is required";
+        }
+
+        if (description.Trim().Length > 500)
+        {
+            return "Description must be 500 characters or fewer";
+        }
+
+        if (string.IsNullOrWhiteSpace(account))
+        {
+            return "Account is required";
+        }
+
+        if (account.Trim().Length > 100)
+        {
+            return "Account must be 100 characters or fewer";
+        }
+
+        if (labels?.Trim().Length > 200)
+        {
+            return "Labels must be 200 characters or fewer";
+        }
+
+        if (Math.Abs(amount) >= 10_000_000_000_000_000m)
+        {
+            return "Amount is too large";
+        }
+
+        if (date > DateOnly.FromDateTime(DateTime.UtcNow).AddYears(1))
+        {
+            return "Date cannot be more than a year in the future";
+        }
+
+        return null;
+    }
+
+    /// <summary>
+    /// Applies changed fields, remembering the imported value on the first edit of each field.
+    /// Setting a field back to its imported value clears the stored original.
+    /// </summary>
+    internal static void ApplyUpdate(Transaction transaction, UpdateTransactionRequest request)
+    {
+        if (DateOnly.FromDateTime(transaction.Date) != request.Date)
+        {
+            transaction.OriginalDate ??= transaction.Date;
+            transaction.Date = request.Date.ToDateTime(TimeOnly.MinValue, DateTimeKind.Utc);
+        }
+
+        var description = request.Description.Trim();
+        if (transaction.Description != description)
+        {
+            transaction.OriginalDescription ??= transaction.Description;
+            transaction.Description = description;
+            transaction.InvalidateEmbedding();
+        }
+
+        var amount = Math.Round(request.Amount, 2);
+        if (transaction.Amount != amount)
+        {
+            transaction.OriginalAmount ??= transaction.Amount;
+            transaction.Amount = amount;
+        }
+
+        var account = request.Account.Trim();
+        if (transaction.Account != account)
+        {
+            transaction.OriginalAccount ??= transaction.Account;
+            transaction.Account = account;
+        }
+
+        var labels = string.IsNullOrWhiteSpace(request.Labels) ? null : request.Labels.Trim();
+        if (transaction.Labels != labels)
+        {
+            transaction.OriginalLabels ??= transaction.Labels ?? string.Empty;
+            transaction.Labels = labels;
+        }
+
+        if (transaction.OriginalDate.HasValue && DateOnly.FromDateTime(transaction.OriginalDate.Value) == request.Date)
+        {
+            transaction.Date = transaction.OriginalDate.Value;
+            transaction.OriginalDate = null;
+        }
+
+        if (transaction.OriginalDescription == transaction.Description) transaction.OriginalDescription = null;
+        if (transaction.OriginalAmount == transaction.Amount) transaction.OriginalAmount = null;
+        if (transaction.OriginalAccount == transaction.Account) transaction.OriginalAccount = null;
+        if (transaction.OriginalLabels == (transaction.Labels ?? string.Empty)) transaction.OriginalLabels = null;
+    }
+
+    /// <summary>
+    /// A split only holds for the amount it was made for, so changing the amount removes it
+    /// </summary>
+    private static void RemoveStaleSplits(BudgetTrackerContext db, Transaction transaction)
+    {
+        if (transaction.Splits.Count == 0 || transaction.Splits.Sum(s => s.Amount) == transaction.Amount)
+        {
+            return;
+        }
+
+        db.TransactionSplits.RemoveRange(transaction.Splits);
+        transaction.Splits.Clear();
+    }
+
+    private static void RevertField(Transaction transaction, string field)
+    {
+        switch (field)
+        {
+            case "date" when transaction.OriginalDate.HasValue:
+                transaction.Date = transaction.OriginalDate.Value;
+                transaction.OriginalDate = null;
+                break;
+            case "description" when transaction.OriginalDescription != null:
+                transaction.Description = transaction.OriginalDescription;
+                transaction.OriginalDescription = null;
+                transaction.InvalidateEmbedding();
+                break;
+            case "amount" when transaction.OriginalAmount.HasValue:
+                transaction.Amount = transaction.OriginalAmount.Value;
+                transaction.OriginalAmount = null;
+                break;
+            case "account" when transaction.OriginalAccount != null:
+                transaction.Account = transaction.OriginalAccount;
+                transaction.OriginalAccount = null;
+                break;
+            case "labels" when transaction.OriginalLabels != null:
+                transaction.Labels = transaction.OriginalLabels.Length == 0 ? null : transaction.OriginalLabels;
+                transaction.OriginalLabels = null;
+                break;
+        }
+    }
+}
+
+public record UpdateTransactionRequest(DateOnly Date, string Description, decimal Amount, string Account, string? Labels);
+public record RevertTransactionFieldRequest(string? Field);
@@ -5,6 +5,8 @@ public class CsvStructureDetectionResult
     public string Delimiter { get; set; } = ",";
     public Dictionary<string, string> ColumnMappings { get; set; } = new();
     public string CultureCode { get; set; } = "en-US";
+    public string? DateFormat { get; set; }
+    public string? DecimalSeparator { get; set; }
     public double ConfidenceScore { get; set; }
     public DetectionMethod DetectionMethod { get; set; }
 }
@@ -12,5 +14,6 @@ public class CsvStructureDetectionResult
 public enum DetectionMethod
 {
     RuleBased,
-    AI
+    AI,
+    Manual
 }
\ No newline at end of file
@@ -0,0 +1,45 @@
+using System.Text.Json;
+
+namespace BudgetTracker.Api.Features.Transactions.Import.Detection;
+
+public static class ManualCsvStructure
+{
+    private static readonly string[] RequiredColumns = ["Date", "Description", "Amount"];
+
+    public static CsvStructureDetectionResult? FromForm(
+        string? columnMappings, string? delimiter, string? decimalSeparator, string? dateFormat)
+    {
+        if (string.IsNullOrWhiteSpace(columnMappings))
+        {
+            return null;
+        }
+
+        var mappings = JsonSerializer.Deserialize<Dictionary<string, string>>(columnMappings)
+            ?? throw new InvalidOperationException("Column mappings could not be read.");
+
+        if (mappings.Count == 0)
+        {
+            return null;
+        }
+
+        var missingColumns = RequiredColumns
+            .Where(column => !mappings.TryGetValue(column, out var header) || string.IsNullOrWhiteSpace(header))
+            .ToList();
+
+        if (missingColumns.Count > 0)
+        {
+            throw new InvalidOperationException($"Column mapping is missing: {string.Join(", ", missingColumns)}.");
+        }
+
+        return new CsvStructureDetectionResult
+        {
+            Delimiter = string.IsNullOrEmpty(delimiter) ? "," : delimiter,
+            ColumnMappings = mappings,
+            CultureCode = "en-US",
+            DateFormat = string.IsNullOrWhiteSpace(dateFormat) ? null : dateFormat,
+            DecimalSeparator = decimalSeparator == "," ? "," : ".",
+            ConfidenceScore = 100,
+            DetectionMethod = DetectionMethod.Manual
+        };
+    }
+}
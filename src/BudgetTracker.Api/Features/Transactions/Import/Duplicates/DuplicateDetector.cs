@@ -0,0 +1,117 @@
+using System.Globalization;
+using System.Text;
+using System.Text.RegularExpressions;
+using BudgetTracker.Api.Infrastructure;
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Features.Transactions.Import.Duplicates;
+
+public class DuplicateDetector : IDuplicateDetector
+{
+    private const double SimilarityThreshold = 0.6;
+
+    private readonly BudgetTrackerContext _context;
+
+    public DuplicateDetector(BudgetTrackerContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<List<DuplicateTransactionResult>> FindDuplicatesAsync(
+        List<Transaction> transactions, string userId, string account)
+    {
+        if (transactions.Count == 0)
+        {
+            return new List<DuplicateTransactionResult>();
+        }
+
+        var minDate = transactions.Min(t => t.Date).Date;
+        var maxDate = transactions.Max(t => t.Date).Date.AddDays(1);
+
+        var existing = await _context.Transactions
+            .Where(t => t.UserId == userId && t.Account == account && t.Date >= minDate && t.Date < maxDate)
+            .ToListAsync();
+
+        var candidates = existing
+            .GroupBy(t => (t.Date.Date, t.Amount))
+            .ToDictionary(g => g.Key, g => g.ToList());
+
+        var claimed = new HashSet<Guid>();
+        var duplicates = new List<DuplicateTransactionResult>();
+
+        for (var index = 0; index < transactions.Count; index++)
+        {
+            var transaction = transactions[index];
+
+            if (!candidates.TryGetValue((transaction.Date.Date, transaction.Amount), out var matches))
+            {
+                continue;
+            }
+
+            var normalized = NormalizeDescription(transaction.Description);
+            var best = matches
+                .Where(m => !claimed.Contains(m.Id))
+                .Select(m => (Match: m, Score: GetSimilarity(normalized, NormalizeDescription(m.Description))))
+                .Where(m => m.Score >= SimilarityThreshold)
+                .OrderByDescending(m => m.Score)
+                .FirstOrDefault();
+
+            if (best.Match == null)
+            {
+                continue;
+            }
+
+            claimed.Add(best.Match.Id);
+            duplicates.Add(new DuplicateTransactionResult
+            {
+                RowIndex = index,
+                Date = transaction.Date,
+                Description = transaction.Description,
+                Amount = transaction.Amount,
+                Balance = transaction.Balance,
+                Category = transaction.Category,
+                ExistingTransactionId = best.Match.Id,
+                ExistingDate = best.Match.Date,
+                ExistingDescription = best.Match.Description,
+                ExistingAmount = best.Match.Amount,
+                IsExactMatch = best.Score >= 1.0
+            });
+        }
+
+        return duplicates;
+    }
+
+    public static string NormalizeDescription(string description)
+    {
+        var decomposed = description.ToLowerInvariant().Normalize(NormalizationForm.FormD);
+        var withoutDiacritics = new string(decomposed
+            .Where(c => CharUnicodeInfo.GetUnicodeCategory(c) != UnicodeCategory.NonSpacingMark)
+            .ToArray());
+
+        return Regex.Replace(withoutDiacritics, @"[^\p{L}\p{N}]+", " ").Trim();
+    }
+
+    private static double GetSimilarity(string left, string right)
+    {
+        if (left == right)
+        {
+            return 1.0;
+        }
+
+        if (left.Length == 0 || right.Length == 0)
+        {
+            return 0;
+        }
+
+        if (left.Contains(right) || right.Contains(left))
+        {
+            return 0.9;
+        }
+
+        var leftTokens = left.Split(' ').ToHashSet();
+        var rightTokens = right.Split(' ').ToHashSet();
+        var shared = leftTokens.Intersect(rightTokens).Count();
+
+        return (double)shared / leftTokens.Union(rightTokens).Count();
+    }
+}
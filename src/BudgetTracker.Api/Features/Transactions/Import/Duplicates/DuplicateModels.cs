@@ -0,0 +1,50 @@
+using System.Text.Json.Serialization;
+
+namespace BudgetTracker.Api.Features.Transactions.Import.Duplicates;
+
+[JsonConverter(typeof(JsonStringEnumConverter))]
+public enum DuplicateAction
+{
+    Skip,
+    KeepBoth,
+    Merge
+}
+
+public class DuplicateTransactionResult
+{
+    public int RowIndex { get; set; }
+    public DateTime Date { get; set; }
+    public string Description { get; set; } = string.Empty;
+    public decimal Amount { get; set; }
+    public decimal? Balance { get; set; }
+    public string? Category { get; set; }
+    public Guid ExistingTransactionId { get; set; }
+    public DateTime ExistingDate { get; set; }
+    public string ExistingDescription { get; set; } = string.Empty;
+    public decimal ExistingAmount { get; set; }
+    public bool IsExactMatch { get; set; }
+}
+
+public class ResolveDuplicatesRequest
+{
+    public string ImportSessionHash { get; set; } = string.Empty;
+    public List<DuplicateResolution> Resolutions { get; set; } = new();
+}
+
+/// <summary>
+/// The decision for one held-back row, identified by its <see cref="DuplicateTransactionResult.RowIndex"/>
+/// </summary>
+public class DuplicateResolution
+{
+    public int RowIndex { get; set; }
+    public DuplicateAction Action { get; set; }
+}
+
+public class ResolveDuplicatesResult
+{
+    public string ImportSessionHash { get; set; } = string.Empty;
+    public int KeptCount { get; set; }
+    public int MergedCount { get; set; }
+    public int SkippedCount { get; set; }
+    public List<string> SkippedRows { get; set; } = new();
+}
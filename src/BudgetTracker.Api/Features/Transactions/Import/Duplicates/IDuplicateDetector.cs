@@ -0,0 +1,7 @@
+namespace BudgetTracker.Api.Features.Transactions.Import.Duplicates;
+
+public interface IDuplicateDetector
+{
+    Task<List<DuplicateTransactionResult>> FindDuplicatesAsync(
+        List<Transaction> transactions, string userId, string account);
+}
@@ -0,0 +1,176 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+using System.Text.Json;
+using BudgetTracker.Api.Features.Transactions.Category;
+
+namespace BudgetTracker.Api.Features.Transactions.Import.Duplicates;
+
+/// <summary>
+/// An imported row held back because it matches an existing transaction. It is stored the way it would
+/// have been saved, with the import profile and categorization rules applied, until the user resolves it.
+/// </summary>
+public class PendingDuplicate
+{
+    [Key]
+    public Guid Id { get; set; }
+
+    [Required]
+    public string UserId { get; set; } = string.Empty;
+
+    [Required]
+    [MaxLength(32)]
+    public string ImportSessionHash { get; set; } = string.Empty;
+
+    public int RowIndex { get; set; }
+
+    [Required]
+    [Column(TypeName = "timestamptz")]
+    public DateTime Date { get; set; }
+
+    [Required]
+    [MaxLength(500)]
+    public string Description { get; set; } = string.Empty;
+
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal Amount { get; set; }
+
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal? Balance { get; set; }
+
+    [MaxLength(100)]
+    public string? Category { get; set; }
+
+    /// <summary>
+    /// JSON array of the additional categories a rule filed the row under
+    /// </summary>
+    [Required]
+    [MaxLength(1000)]
+    public string AdditionalCategories { get; set; } = "[]";
+
+    [MaxLength(200)]
+    public string? Labels { get; set; }
+
+    [Required]
+    [MaxLength(100)]
+    public string Account { get; set; } = string.Empty;
+
+    public Guid ExistingTransactionId { get; set; }
+
+    public bool IsExactMatch { get; set; }
+
+    /// <summary>
+    /// What was done with the row. Set together with <see cref="ResolvedAt"/>, after which the row
+    /// can't be resolved again.
+    /// </summary>
+    public DuplicateAction? Resolution { get; set; }
+
+    [Column(TypeName = "timestamptz")]
+    public DateTime? ResolvedAt { get; set; }
+
+    /// <summary>
+    /// What a merge filled in on the existing transaction, so undoing the import can put it back
+    /// </summary>
+    public bool MergedBalance { get; set; }
+
+    public bool MergedCategory { get; set; }
+
+    [MaxLength(100)]
+    public string? CategoryBeforeMerge { get; set; }
+}
+
+internal static class PendingDuplicateExtensions
+{
+    public static PendingDuplicate ToPendingDuplicate(this Transaction transaction,
+        DuplicateTransactionResult duplicate)
+    {
+        return new PendingDuplicate
+        {
+            UserId = transaction.UserId,
+            ImportSessionHash = transaction.ImportSessionHash ?? string.Empty,
+            RowIndex = duplicate.RowIndex,
+            Date = transaction.Date,
+            Description = transaction.Description,
+            Amount = transaction.Amount,
+            Balance = transaction.Balance,
+            Category = transaction.Category,
+            AdditionalCategories = JsonSerializer.Serialize(
+                transaction.Categories.Select(c => c.CategoryName).ToList()),
+            Labels = transaction.Labels,
+            Account = transaction.Account,
+            ExistingTransactionId = duplicate.ExistingTransactionId,
+            IsExactMatch = duplicate.IsExactMatch
+        };
+    }
+
+    /// <summary>
+    /// The transaction the row becomes when the user keeps both
+    /// </summary>
+    public static Transaction ToTransaction(this PendingDuplicate duplicate, DateTime importedAt)
+    {
+        var transaction = new Transaction
+        {
+            Id = Guid.NewGuid(),
+            Date = duplicate.Date,
+            Description = duplicate.Description,
+            Amount = duplicate.Amount,
+            Balance = duplicate.Balance,
+            Category = string.IsNullOrWhiteSpace(duplicate.Category) ? "Uncategorized" : duplicate.Category,
+            Labels = duplicate.Labels,
+            ImportedAt = importedAt,
+            Account = duplicate.Account,
+            UserId = duplicate.UserId,
+            ImportSessionHash = duplicate.ImportSessionHash
+        };
+
+        var additional = JsonSerializer.Deserialize<List<string>>(duplicate.AdditionalCategories) ?? new List<string>();
+        foreach (var categoryName in additional.Where(c => c != transaction.Category))
+        {
+            transaction.Categories.Add(new TransactionCategory
+            {
+                TransactionId = transaction.Id,
+                CategoryName = categoryName,
+                UserId = transaction.UserId
+            });
+        }
+
+        return transaction;
+    }
+
+    public static void MergeInto(this PendingDuplicate duplicate, Transaction existing)
+    {
+        if (existing.Balance == null && duplicate.Balance != null)
+        {
+            existing.Balance = duplicate.Balance;
+            duplicate.MergedBalance = true;
+        }
+
+        if ((string.IsNullOrEmpty(existing.Category) || existing.Category == "Uncategorized") &&
+            !string.IsNullOrWhiteSpace(duplicate.Category))
+        {
+            duplicate.CategoryBeforeMerge = existing.Category;
+            duplicate.MergedCategory = true;
+            existing.Category = duplicate.Category;
+        }
+    }
+
+    /// <summary>
+    /// Reverts what <see cref="MergeInto"/> changed. Values edited since the merge are left alone.
+    /// </summary>
+    public static void RevertMerge(this PendingDuplicate duplicate, Transaction existing)
+    {
+        if (duplicate.MergedBalance && existing.Balance == duplicate.Balance)
+        {
+            existing.Balance = null;
+        }
+
+        if (duplicate.MergedCategory && existing.Category == duplicate.Category)
+        {
+            existing.Category = duplicate.CategoryBeforeMerge;
+        }
+    }
+
+    public static string Describe(this PendingDuplicate duplicate)
+    {
+        return $"{duplicate.Date:yyyy-MM-dd} {duplicate.Description} ({duplicate.Amount:0.00})";
+    }
+}
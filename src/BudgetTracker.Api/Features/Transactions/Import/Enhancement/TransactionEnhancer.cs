@@ -94,6 +94,7 @@ public class TransactionEnhancer : ITransactionEnhancer
       var conditions = new List<string>
             {
                 "\"Embedding\" IS NOT NULL",
+                "\"DeletedAt\" IS NULL",
                 "\"UserId\" = {0}",
                 "\"Account\" = {1}",
                 "\"Date\" >= {2}",
@@ -0,0 +1,121 @@
+using System.Security.Claims;
+using BudgetTracker.Api.Auth;
+using BudgetTracker.Api.Features.Transactions.Import.Duplicates;
+using BudgetTracker.Api.Infrastructure;
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Features.Transactions.Import.History;
+
+public static class ImportHistoryApi
+{
+    public static IEndpointRouteBuilder MapImportHistoryEndpoints(this IEndpointRouteBuilder routes)
+    {
+        routes.MapGet("/imports",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal) =>
+            {
+                var userId = claimsPrincipal.GetUserId();
+
+                var sessions = await db.ImportSessions
+                    .Where(s => s.UserId == userId)
+                    .ToListAsync();
+
+                var transactionGroups = await db.Transactions
+                    .Where(t => t.UserId == userId && t.ImportSessionHash != null)
+                    .GroupBy(t => t.ImportSessionHash!)
+                    .Select(g => new
+                    {
+                        ImportSessionHash = g.Key,
+                        Count = g.Count(),
+                        Account = g.Min(t => t.Account)!,
+                        ImportedAt = g.Min(t => t.ImportedAt)
+                    })
+                    .ToListAsync();
+
+                var counts = transactionGroups.ToDictionary(g => g.ImportSessionHash, g => g.Count);
+                var knownHashes = sessions.Select(s => s.ImportSessionHash).ToHashSet();
+
+                // Imports made before sessions were recorded only exist as tagged transactions
+                var legacySessions = transactionGroups
+                    .Where(g => !knownHashes.Contains(g.ImportSessionHash))
+                    .Select(g => new ImportSessionDto
+                    {
+                        ImportSessionHash = g.ImportSessionHash,
+                        Account = g.Account,
+                        ImportedAt = g.ImportedAt,
+                        ImportedCount = g.Count,
+                        TransactionCount = g.Count
+                    });
+
+                var result = sessions
+                    .Select(s => s.MapToDto(counts.GetValueOrDefault(s.ImportSessionHash)))
+                    .Concat(legacySessions)
+                    .OrderByDescending(s => s.ImportedAt)
+                    .ToList();
+
+                return Results.Ok(result);
+            });
+
+        routes.MapDelete("/imports/{importSessionHash}",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal, string importSessionHash) =>
+            {
+                var userId = claimsPrincipal.GetUserId();
+
+                var session = await db.ImportSessions
+                    .FirstOrDefaultAsync(s => s.UserId == userId && s.ImportSessionHash == importSessionHash);
+
+                // Rolling back removes the import's rows from the trash too
+                var transactions = await db.Transactions
+                    .IgnoreQueryFilters()
+                    .Where(t => t.UserId == userId && t.ImportSessionHash == importSessionHash)
+                    .ToListAsync();
+
+                if (session == null && transactions.Count == 0)
+                {
+                    return Results.NotFound(new { error = "Import not found" });
+                }
+
+                if (session?.RolledBackAt != null)
+                {
+                    return Results.BadRequest(new { error = "This import has already been undone" });
+                }
+
+                db.Transactions.RemoveRange(transactions);
+
+                // Merged duplicates filled in details on transactions from earlier imports, which stay
+                var pendingDuplicates = await db.PendingDuplicates
+                    .Where(p => p.UserId == userId && p.ImportSessionHash == importSessionHash)
+                    .ToListAsync();
+
+                var mergedIds = pendingDuplicates
+                    .Where(p => p.Resolution == DuplicateAction.Merge)
+                    .Select(p => p.ExistingTransactionId)
+                    .ToList();
+
+                var mergeTargets = await db.Transactions
+                    .IgnoreQueryFilters()
+                    .Where(t => t.UserId == userId && mergedIds.Contains(t.Id))
+                    .ToDictionaryAsync(t => t.Id);
+
+                foreach (var duplicate in pendingDuplicates.Where(p => p.Resolution == DuplicateAction.Merge))
+                {
+                    if (mergeTargets.TryGetValue(duplicate.ExistingTransactionId, out var existing))
+                    {
+                        duplicate.RevertMerge(existing);
+                    }
+                }
+
+                db.PendingDuplicates.RemoveRange(pendingDuplicates);
+
+                if (session != null)
+                {
+                    session.RolledBackAt = DateTime.UtcNow;
+                }
+
+                await db.SaveChangesAsync();
+
+                return Results.Ok(new { deletedCount = transactions.Count });
+            });
+
+        return routes;
+    }
+}
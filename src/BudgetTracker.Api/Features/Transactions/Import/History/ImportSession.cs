@@ -0,0 +1,91 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace BudgetTracker.Api.Features.Transactions.Import.History;
+
+public class ImportSession
+{
+    [Key]
+    public Guid Id { get; set; }
+
+    [Required]
+    public string UserId { get; set; } = string.Empty;
+
+    [Required]
+    [MaxLength(32)]
+    public string ImportSessionHash { get; set; } = string.Empty;
+
+    [Required]
+    [MaxLength(255)]
+    public string SourceFile { get; set; } = string.Empty;
+
+    [Required]
+    [MaxLength(100)]
+    public string Account { get; set; } = string.Empty;
+
+    [Required]
+    [Column(TypeName = "timestamptz")]
+    public DateTime ImportedAt { get; set; }
+
+    public int TotalRows { get; set; }
+
+    public int ImportedCount { get; set; }
+
+    public int FailedCount { get; set; }
+
+    public int DuplicateCount { get; set; }
+
+    [MaxLength(20)]
+    public string? DetectionMethod { get; set; }
+
+    public double? DetectionConfidence { get; set; }
+
+    public bool EnhancementsApplied { get; set; }
+
+    public int EnhancedCount { get; set; }
+
+    [Column(TypeName = "timestamptz")]
+    public DateTime? RolledBackAt { get; set; }
+}
+
+public class ImportSessionDto
+{
+    public string ImportSessionHash { get; set; } = string.Empty;
+    public string? SourceFile { get; set; }
+    public string Account { get; set; } = string.Empty;
+    public DateTime ImportedAt { get; set; }
+    public int? TotalRows { get; set; }
+    public int ImportedCount { get; set; }
+    public int FailedCount { get; set; }
+    public int DuplicateCount { get; set; }
+    public int TransactionCount { get; set; }
+    public string? DetectionMethod { get; set; }
+    public double? DetectionConfidence { get; set; }
+    public bool EnhancementsApplied { get; set; }
+    public int EnhancedCount { get; set; }
+    public DateTime? RolledBackAt { get; set; }
+}
+
+internal static class ImportSessionExtensions
+{
+    public static ImportSessionDto MapToDto(this ImportSession session, int transactionCount)
+    {
+        return new ImportSessionDto
+        {
+            ImportSessionHash = session.ImportSessionHash,
+            SourceFile = session.SourceFile,
+            Account = session.Account,
+            ImportedAt = session.ImportedAt,
+            TotalRows = session.TotalRows,
+            ImportedCount = session.ImportedCount,
+            FailedCount = session.FailedCount,
+            DuplicateCount = session.DuplicateCount,
+            TransactionCount = transactionCount,
+            DetectionMethod = session.DetectionMethod,
+            DetectionConfidence = session.DetectionConfidence,
+            EnhancementsApplied = session.EnhancementsApplied,
+            EnhancedCount = session.EnhancedCount,
+            RolledBackAt = session.RolledBackAt
+        };
+    }
+}
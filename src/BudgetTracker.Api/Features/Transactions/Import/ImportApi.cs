@@ -2,10 +2,16 @@ using System.Security.Claims;
 using System.Security.Cryptography;
 using System.Text;
 using BudgetTracker.Api.Auth;
+using BudgetTracker.Api.Features.Intelligence.Search;
+using BudgetTracker.Api.Features.Rules;
 using BudgetTracker.Api.Infrastructure;
 using BudgetTracker.Api.Features.Transactions.Import.Processing;
 using BudgetTracker.Api.Features.Transactions.Import.Enhancement;
 using BudgetTracker.Api.Features.Transactions.Import.Detection;
+using BudgetTracker.Api.Features.Transactions.Import.Duplicates;
+using BudgetTracker.Api.Features.Transactions.Import.History;
+using BudgetTracker.Api.Features.Transactions.Import.Jobs;
+using BudgetTracker.Api.Features.Transactions.Import.Profiles;
 using BudgetTracker.Api.AntiForgery;
 using Microsoft.AspNetCore.Http.HttpResults;
 using Microsoft.AspNetCore.Mvc;
@@ -23,14 +29,16 @@ public static class ImportApi
 
     routes.MapPost("/import/enhance", EnhanceImportAsync);
 
+    routes.MapPost("/import/duplicates", ResolveDuplicatesAsync);
+
     return routes;
   }
 
   private static async Task<Results<Ok<ImportResult>, BadRequest<string>>> ImportAsync(
       IFormFile file, [FromForm] string account,
-      CsvImporter csvImporter, IImageImporter imageImporter, BudgetTrackerContext context,
-      ITransactionEnhancer enhancementService, ClaimsPrincipal claimsPrincipal,
-      ICsvStructureDetector detectionService, IServiceProvider serviceProvider)
+      [FromForm] string? columnMappings, [FromForm] string? delimiter,
+      [FromForm] string? decimalSeparator, [FromForm] string? dateFormat, [FromForm] Guid? profileId,
+      BudgetTrackerContext context, ClaimsPrincipal claimsPrincipal, IServiceProvider serviceProvider)
   {
     var validationResult = ValidateFileInput(file);
     if (validationResult != null)
@@ -43,18 +51,16 @@ public static class ImportApi
       var userId = claimsPrincipal.GetUserId();
       await using var stream = file.OpenReadStream();
 
-      var (importResult, transactions, detectionResult) = await ProcessFileAsync(
-          stream, file.FileName, userId, account, csvImporter, imageImporter, detectionService);
-
-      var importSessionHash = GenerateImportSessionHash(file.FileName, account);
-      AssignImportSessionToTransactions(transactions, importSessionHash);
-
-      await SaveTransactionsAsync(context, transactions);
+      var profile = await FindImportProfileAsync(context, profileId, userId);
+      if (profileId.HasValue && profile == null)
+      {
+        return TypedResults.BadRequest("Import profile not found.");
+      }
 
-      var enhancementResults = await ProcessEnhancementsAsync(
-          enhancementService, transactions, account, userId, importSessionHash);
+      var manualStructure = ResolveManualStructure(profile, columnMappings, delimiter, decimalSeparator, dateFormat);
 
-      var result = CreateImportResult(importResult, importSessionHash, enhancementResults, detectionResult);
+      var result = await RunImportAsync(
+          stream, file.FileName, userId, account, profile, manualStructure, serviceProvider);
 
       return TypedResults.Ok(result);
     }
@@ -64,6 +70,71 @@ public static class ImportApi
     }
   }
 
+  /// <summary>
+  /// Runs the full import pipeline. Import jobs pass themselves in to receive phase and row
+  /// updates. Nothing is written until the last step, which saves the rows and the session together,
+  /// so a cancelled or failed import leaves no transactions behind.
+  /// </summary>
+  internal static async Task<ImportResult> RunImportAsync(
+      Stream stream, string fileName, string userId, string account,
+      ImportProfile? profile, CsvStructureDetectionResult? manualStructure, IServiceProvider services,
+      ImportJob? job = null, CancellationToken cancellationToken = default)
+  {
+    var context = services.GetRequiredService<BudgetTrackerContext>();
+    var duplicateDetector = services.GetRequiredService<IDuplicateDetector>();
+    var enhancementService = services.GetRequiredService<ITransactionEnhancer>();
+
+    var (importResult, transactions, detectionResult) = await ProcessFileAsync(
+        stream, fileName, userId, account, services, manualStructure, job);
+    job?.ReportRows(importResult.TotalRows, importResult.TotalRows);
+    cancellationToken.ThrowIfCancellationRequested();
+
+    var importSessionHash = GenerateImportSessionHash(fileName, account);
+    AssignImportSessionToTransactions(transactions, importSessionHash);
+    ApplyImportProfile(transactions, profile);
+    var ruleCategorizedIds = await CategorizationRuleEngine.ApplyToNewTransactionsAsync(context, userId, transactions);
+
+    job?.SetPhase(ImportJobPhase.CheckingDuplicates);
+    var duplicates = await duplicateDetector.FindDuplicatesAsync(transactions, userId, account);
+    var pendingDuplicates = duplicates
+        .Select(d => transactions[d.RowIndex].ToPendingDuplicate(d))
+        .ToList();
+    var duplicateIndexes = duplicates.Select(d => d.RowIndex).ToHashSet();
+    transactions = transactions.Where((_, index) => !duplicateIndexes.Contains(index)).ToList();
+    cancellationToken.ThrowIfCancellationRequested();
+
+    // The enhancer leaves the current session out of its context, so it doesn't need the rows saved yet
+    job?.SetPhase(ImportJobPhase.Enhancing);
+    var enhancementResults = await ProcessEnhancementsAsync(
+        enhancementService, transactions, account, userId, importSessionHash, ruleCategorizedIds);
+    cancellationToken.ThrowIfCancellationRequested();
+
+    var result = CreateImportResult(importResult, importSessionHash, enhancementResults, detectionResult, duplicates);
+    result.RuleCategorizedCount = transactions.Count(t => ruleCategorizedIds.Contains(t.Id));
+
+    job?.SetPhase(ImportJobPhase.Saving);
+    await SaveImportAsync(context, result, userId, account, transactions, pendingDuplicates);
+
+    return result;
+  }
+
+  internal static async Task<ImportProfile?> FindImportProfileAsync(
+      BudgetTrackerContext context, Guid? profileId, string userId)
+  {
+    if (!profileId.HasValue) return null;
+
+    return await context.ImportProfiles
+        .FirstOrDefaultAsync(p => p.Id == profileId.Value && p.UserId == userId);
+  }
+
+  internal static CsvStructureDetectionResult? ResolveManualStructure(ImportProfile? profile,
+      string? columnMappings, string? delimiter, string? decimalSeparator, string? dateFormat)
+  {
+    return columnMappings != null || profile == null
+        ? ManualCsvStructure.FromForm(columnMappings, delimiter, decimalSeparator, dateFormat)
+        : ManualCsvStructure.FromForm(profile.ColumnMappings, profile.Delimiter, profile.DecimalSeparator, profile.DateFormat);
+  }
+
   private static async Task<Results<Ok<EnhanceImportResult>, BadRequest<string>>> EnhanceImportAsync(
       [FromBody] EnhanceImportRequest request,
       [FromServices] BudgetTrackerContext context,
@@ -85,12 +156,13 @@ public static class ImportApi
 
         foreach (var enhancement in request.Enhancements)
         {
-          if (!(enhancement.ConfidenceScore >= request.MinConfidenceScore)) continue;
+          if (string.IsNullOrWhiteSpace(enhancement.EnhancedDescription)) continue;
 
           var transaction = transactions.FirstOrDefault(t => t.Id == enhancement.TransactionId);
           if (transaction == null) continue;
 
           transaction.Description = enhancement.EnhancedDescription;
+          transaction.InvalidateEmbedding();
 
           if (!string.IsNullOrEmpty(enhancement.SuggestedCategory))
           {
@@ -100,10 +172,15 @@ public static class ImportApi
           enhancedCount++;
         }
 
-        if (enhancedCount > 0)
+        var session = await context.ImportSessions
+            .FirstOrDefaultAsync(s => s.UserId == userId && s.ImportSessionHash == request.ImportSessionHash);
+        if (session != null)
         {
-          await context.SaveChangesAsync();
+          session.EnhancementsApplied = true;
+          session.EnhancedCount += enhancedCount;
         }
+
+        await context.SaveChangesAsync();
       }
 
       return TypedResults.Ok(new EnhanceImportResult
@@ -120,24 +197,121 @@ public static class ImportApi
     }
   }
 
+  /// <summary>
+  /// Resolves the rows an import held back as duplicates. Decisions apply to the rows stored with the
+  /// session, and a row that has already been resolved is refused so a retried request can't add it twice.
+  /// </summary>
+  private static async Task<Results<Ok<ResolveDuplicatesResult>, BadRequest<string>, NotFound<string>>> ResolveDuplicatesAsync(
+      [FromBody] ResolveDuplicatesRequest request,
+      [FromServices] BudgetTrackerContext context,
+      ClaimsPrincipal claimsPrincipal)
+  {
+    try
+    {
+      var userId = claimsPrincipal.GetUserId();
+      if (string.IsNullOrEmpty(userId))
+        return TypedResults.BadRequest("User not authenticated");
+
+      var session = await context.ImportSessions
+          .FirstOrDefaultAsync(s => s.UserId == userId && s.ImportSessionHash == request.ImportSessionHash);
+      if (session == null)
+        return TypedResults.NotFound("Import not found.");
+
+      if (session.RolledBackAt != null)
+        return TypedResults.BadRequest("This import has been undone.");
+
+      var rowIndexes = request.Resolutions.Select(r => r.RowIndex).ToList();
+      if (rowIndexes.Distinct().Count() != rowIndexes.Count)
+        return TypedResults.BadRequest("Each duplicate can only be resolved once.");
+
+      var pending = await context.PendingDuplicates
+          .Where(p => p.UserId == userId && p.ImportSessionHash == request.ImportSessionHash &&
+                      rowIndexes.Contains(p.RowIndex))
+          .ToDictionaryAsync(p => p.RowIndex);
+
+      var unknownRows = rowIndexes.Where(i => !pending.ContainsKey(i)).ToList();
+      if (unknownRows.Any())
+        return TypedResults.BadRequest($"Rows {string.Join(", ", unknownRows)} are not duplicates held back by this import.");
+
+      var resolvedRows = rowIndexes.Where(i => pending[i].ResolvedAt != null).ToList();
+      if (resolvedRows.Any())
+        return TypedResults.BadRequest($"Rows {string.Join(", ", resolvedRows)} have already been resolved.");
+
+      var mergeIds = request.Resolutions
+          .Where(r => r.Action == DuplicateAction.Merge)
+          .Select(r => pending[r.RowIndex].ExistingTransactionId)
+          .ToList();
+
+      var mergeTargets = await context.Transactions
+          .Where(t => t.UserId == userId && mergeIds.Contains(t.Id))
+          .ToDictionaryAsync(t => t.Id);
+
+      var now = DateTime.UtcNow;
+      var result = new ResolveDuplicatesResult { ImportSessionHash = request.ImportSessionHash };
+
+      foreach (var resolution in request.Resolutions)
+      {
+        var duplicate = pending[resolution.RowIndex];
+        var action = resolution.Action;
+
+        if (action == DuplicateAction.KeepBoth)
+        {
+          context.Transactions.Add(duplicate.ToTransaction(now));
+          result.KeptCount++;
+        }
+        else if (action == DuplicateAction.Merge &&
+                 mergeTargets.TryGetValue(duplicate.ExistingTransactionId, out var existing))
+        {
+          duplicate.MergeInto(existing);
+          result.MergedCount++;
+        }
+        else
+        {
+          // Includes merges whose existing transaction has since been deleted
+          action = DuplicateAction.Skip;
+          result.SkippedCount++;
+          result.SkippedRows.Add(duplicate.Describe());
+        }
+
+        duplicate.Resolution = action;
+        duplicate.ResolvedAt = now;
+      }
+
+      session.ImportedCount += result.KeptCount;
+
+      await context.SaveChangesAsync();
+
+      return TypedResults.Ok(result);
+    }
+    catch (Exception ex)
+    {
+      return TypedResults.BadRequest($"Resolving duplicates failed: {ex.Message}");
+    }
+  }
+
   private static async Task<(ImportResult, List<Transaction>, CsvStructureDetectionResult?)> ProcessFileAsync(
       Stream stream, string fileName, string userId, string account,
-      CsvImporter csvImporter, IImageImporter imageImporter, ICsvStructureDetector detectionService)
+      IServiceProvider services, CsvStructureDetectionResult? manualStructure, ImportJob? job)
   {
     var fileExtension = Path.GetExtension(fileName).ToLowerInvariant();
     return fileExtension switch
     {
-      ".csv" => await ProcessCsvFileAsync(stream, fileName, userId, account, csvImporter, detectionService),
-      ".png" or ".jpg" or ".jpeg" => await ProcessImageFileAsync(stream, fileName, userId, account, imageImporter),
+      ".csv" => await ProcessCsvFileAsync(stream, fileName, userId, account,
+          services.GetRequiredService<CsvImporter>(), services.GetRequiredService<ICsvStructureDetector>(),
+          manualStructure, job),
+      ".png" or ".jpg" or ".jpeg" => await ProcessImageFileAsync(stream, fileName, userId, account,
+          services.GetRequiredService<IImageImporter>(), job),
       _ => throw new InvalidOperationException("Unsupported file type")
     };
   }
 
   private static async Task<(ImportResult, List<Transaction>, CsvStructureDetectionResult?)> ProcessCsvFileAsync(
       Stream stream, string fileName, string userId, string account,
-      CsvImporter csvImporter, ICsvStructureDetector detectionService)
+      CsvImporter csvImporter, ICsvStructureDetector detectionService,
+      CsvStructureDetectionResult? manualStructure, ImportJob? job)
   {
-    var detectionResult = await detectionService.DetectStructureAsync(stream);
+    job?.SetPhase(ImportJobPhase.Detecting);
+    var detectionResult = manualStructure ?? await detectionService.DetectStructureAsync(stream);
 
     if (detectionResult.ConfidenceScore < 85)
     {
@@ -149,7 +323,10 @@ public static class ImportApi
     }
 
     stream.Position = 0; // Reset stream position
-    var (importResult, transactions) = await csvImporter.ParseCsvAsync(stream, fileName, userId, account, detectionResult);
+    job?.SetPhase(ImportJobPhase.Parsing);
+    Action<int>? onRowParsed = job == null ? null : rowNumber => job.ReportRows(rowNumber);
+    var (importResult, transactions) = await csvImporter.ParseCsvAsync(
+        stream, fileName, userId, account, detectionResult, onRowParsed);
 
     return (importResult, transactions, detectionResult);
   }
@@ -157,8 +334,9 @@ public static class ImportApi
 
   private static async Task<(ImportResult, List<Transaction>, CsvStructureDetectionResult?)> ProcessImageFileAsync(
       Stream stream, string fileName, string userId, string account,
-      IImageImporter imageImporter)
+      IImageImporter imageImporter, ImportJob? job)
   {
+    job?.SetPhase(ImportJobPhase.Extracting);
     var (importResult, transactions) = await imageImporter.ProcessImageAsync(stream, fileName, userId, account);
 
     return (importResult, transactions, null);
@@ -179,16 +357,65 @@ public static class ImportApi
     }
   }
 
-  private static async Task SaveTransactionsAsync(BudgetTrackerContext context, List<Transaction> transactions)
+  private static void ApplyImportProfile(List<Transaction> transactions, ImportProfile? profile)
   {
-    if (transactions.Any())
+    if (profile == null) return;
+
+    foreach (var transaction in transactions)
     {
-      await context.Transactions.AddRangeAsync(transactions);
-      await context.SaveChangesAsync();
+      if (profile.SignConvention == SignConvention.Inverted)
+      {
+        transaction.Amount = -transaction.Amount;
+      }
+
+      if (!string.IsNullOrEmpty(profile.DefaultCategory) &&
+          (string.IsNullOrEmpty(transaction.Category) || transaction.Category == "Uncategorized"))
+      {
+        transaction.Category = profile.DefaultCategory;
+      }
     }
   }
 
-  private static BadRequest<string>? ValidateFileInput(IFormFile file)
+  /// <summary>
+  /// Saves the transactions, the session and the rows held back as duplicates in a single
+  /// SaveChanges call, so they are written in one database transaction or not at all
+  /// </summary>
+  private static async Task SaveImportAsync(BudgetTrackerContext context, ImportResult result,
+      string userId, string account, List<Transaction> transactions, List<PendingDuplicate> pendingDuplicates)
+  {
+    context.Transactions.AddRange(transactions);
+    context.ImportSessions.Add(new ImportSession
+    {
+      UserId = userId,
+      ImportSessionHash = result.ImportSessionHash,
+      SourceFile = TruncateFileName(result.SourceFile),
+      Account = account,
+      ImportedAt = result.ImportedAt,
+      TotalRows = result.TotalRows,
+      ImportedCount = result.ImportedCount,
+      FailedCount = result.FailedCount,
+      DuplicateCount = result.DuplicateCount,
+      DetectionMethod = result.DetectionMethod,
+      DetectionConfidence = result.DetectionMethod != null ? result.DetectionConfidence : null
+    });
+    context.PendingDuplicates.AddRange(pendingDuplicates);
+
+    await context.SaveChangesAsync();
+  }
+
+  // Keeps the extension so the history still shows what kind of file was imported
+  private static string TruncateFileName(string fileName)
+  {
+    const int maxLength = 255;
+    if (fileName.Length <= maxLength) return fileName;
+
+    var extension = Path.GetExtension(fileName);
+    if (extension.Length >= maxLength) return fileName[..maxLength];
+
+    return fileName[..(maxLength - extension.Length)] + extension;
+  }
+
+  internal static BadRequest<string>? ValidateFileInput(IFormFile file)
   {
     if (file == null || file.Length == 0)
     {
@@ -214,7 +441,7 @@ public static class ImportApi
 
   private static async Task<List<TransactionEnhancementResult>> ProcessEnhancementsAsync(
       ITransactionEnhancer enhancementService, List<Transaction> transactions,
-      string account, string userId, string importSessionHash)
+      string account, string userId, string importSessionHash, HashSet<Guid> ruleCategorizedIds)
   {
     var descriptions = transactions.Select(t => t.Description).ToList();
     var enhancements = await enhancementService.EnhanceDescriptionsAsync(descriptions, account, userId, importSessionHash);
@@ -226,26 +453,30 @@ public static class ImportApi
       TransactionIndex = index,
       OriginalDescription = enhancement.OriginalDescription,
       EnhancedDescription = enhancement.EnhancedDescription,
-      SuggestedCategory = enhancement.SuggestedCategory,
+      // A user's rule takes precedence, so only the description is offered for those rows
+      SuggestedCategory = ruleCategorizedIds.Contains(transactions[index].Id) ? null : enhancement.SuggestedCategory,
       ConfidenceScore = enhancement.ConfidenceScore
     }).ToList();
   }
 
   private static ImportResult CreateImportResult(ImportResult baseResult, string sessionHash,
-      List<TransactionEnhancementResult> enhancementResults, CsvStructureDetectionResult? detectionResult)
+      List<TransactionEnhancementResult> enhancementResults, CsvStructureDetectionResult? detectionResult,
+      List<DuplicateTransactionResult> duplicates)
   {
     return new ImportResult
     {
       SourceFile = baseResult.SourceFile,
       ImportedAt = baseResult.ImportedAt,
-      ImportedCount = baseResult.ImportedCount,
+      ImportedCount = baseResult.ImportedCount - duplicates.Count,
       FailedCount = baseResult.FailedCount,
       TotalRows = baseResult.TotalRows,
       Errors = baseResult.Errors,
       ImportSessionHash = sessionHash,
       Enhancements = enhancementResults,
       DetectionMethod = detectionResult?.DetectionMethod.ToString(),
-      DetectionConfidence = detectionResult?.ConfidenceScore ?? 0
+      DetectionConfidence = detectionResult?.ConfidenceScore ?? 0,
+      DuplicateCount = duplicates.Count,
+      Duplicates = duplicates
     };
   }
 }
\ No newline at end of file
@@ -1,3 +1,5 @@
+using BudgetTracker.Api.Features.Transactions.Import.Duplicates;
+
 namespace BudgetTracker.Api.Features.Transactions.Import;
 
 public class ImportResult
@@ -12,13 +14,18 @@ public class ImportResult
     public List<TransactionEnhancementResult> Enhancements { get; set; } = new();
     public string? DetectionMethod { get; set; } // "RuleBased" or "AI"
     public double DetectionConfidence { get; set; } // 0-100
+    public int DuplicateCount { get; set; }
+    public List<DuplicateTransactionResult> Duplicates { get; set; } = new();
+    public int RuleCategorizedCount { get; set; }
 }
 
+/// <summary>
+/// The suggestions the user accepted, with any edits made while reviewing them. Every one sent is applied.
+/// </summary>
 public class EnhanceImportRequest
 {
     public string ImportSessionHash { get; set; } = string.Empty;
     public List<TransactionEnhancementResult> Enhancements { get; set; } = new();
-    public double MinConfidenceScore { get; set; } = 0.5;
     public bool ApplyEnhancements { get; set; } = true;
 }
 
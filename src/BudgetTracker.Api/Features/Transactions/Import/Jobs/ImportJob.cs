@@ -0,0 +1,134 @@
+using System.Text.Json.Serialization;
+
+namespace BudgetTracker.Api.Features.Transactions.Import.Jobs;
+
+[JsonConverter(typeof(JsonStringEnumConverter))]
+public enum ImportJobStatus
+{
+    Queued,
+    Running,
+    Completed,
+    Failed,
+    Cancelled
+}
+
+[JsonConverter(typeof(JsonStringEnumConverter))]
+public enum ImportJobPhase
+{
+    Queued,
+    Detecting,
+    Parsing,
+    Extracting,
+    CheckingDuplicates,
+    Enhancing,
+    Saving,
+    Complete
+}
+
+/// <summary>
+/// In-memory state of an import running in the background. Updated by the worker
+/// and read by the polling and event stream endpoints, so all changes go through a lock.
+/// </summary>
+public class ImportJob
+{
+    private readonly object _sync = new();
+
+    public Guid Id { get; } = Guid.NewGuid();
+    public string UserId { get; init; } = string.Empty;
+    public string FileName { get; init; } = string.Empty;
+    public string Account { get; init; } = string.Empty;
+    public DateTime CreatedAt { get; } = DateTime.UtcNow;
+    public CancellationTokenSource Cancellation { get; } = new();
+
+    public ImportJobStatus Status { get; private set; } = ImportJobStatus.Queued;
+    public ImportJobPhase Phase { get; private set; } = ImportJobPhase.Queued;
+    public int ProcessedRows { get; private set; }
+    public int? TotalRows { get; private set; }
+    public ImportResult? Result { get; private set; }
+    public string? Error { get; private set; }
+    public DateTime UpdatedAt { get; private set; } = DateTime.UtcNow;
+
+    /// <summary>
+    /// Incremented on every change so the event stream only sends updates.
+    /// </summary>
+    public int Version { get; private set; }
+
+    public bool IsFinished => Status is ImportJobStatus.Completed or ImportJobStatus.Failed or ImportJobStatus.Cancelled;
+
+    public void Start(int? estimatedRows) => Update(() =>
+    {
+        Status = ImportJobStatus.Running;
+        TotalRows = estimatedRows;
+    });
+
+    public void SetPhase(ImportJobPhase phase) => Update(() => Phase = phase);
+
+    public void ReportRows(int processedRows, int? totalRows = null) => Update(() =>
+    {
+        ProcessedRows = processedRows;
+        TotalRows = totalRows ?? TotalRows;
+    });
+
+    public void Complete(ImportResult result) => Update(() =>
+    {
+        Status = ImportJobStatus.Completed;
+        Phase = ImportJobPhase.Complete;
+        Result = result;
+    });
+
+    public void Fail(string error) => Update(() =>
+    {
+        Status = ImportJobStatus.Failed;
+        Error = error;
+    });
+
+    public void MarkCancelled() => Update(() => Status = ImportJobStatus.Cancelled);
+
+    public ImportJobDto MapToDto()
+    {
+        lock (_sync)
+        {
+            return new ImportJobDto
+            {
+                Id = Id,
+                FileName = FileName,
+                Account = Account,
+                Status = Status,
+                Phase = Phase,
+                ProcessedRows = ProcessedRows,
+                TotalRows = TotalRows,
+                Result = Result,
+                Error = Error,
+                CreatedAt = CreatedAt,
+                UpdatedAt = UpdatedAt
+            };
+        }
+    }
+
+    private void Update(Action change)
+    {
+        lock (_sync)
+        {
+            if (IsFinished) return;
+
+            change();
+            UpdatedAt = DateTime.UtcNow;
+            Version++;
+        }
+    }
+}
+
+public class ImportJobDto
+{
+    public Guid Id { get; set; }
+    public string FileName { get; set; } = string.Empty;
+    public string Account { get; set; } = string.Empty;
+    public ImportJobStatus Status { get; set; }
+    public ImportJobPhase Phase { get; set; }
+    public int ProcessedRows { get; set; }
+    public int? TotalRows { get; set; }
+    public ImportResult? Result { get; set; }
+    public string? Error { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public DateTime UpdatedAt { get; set; }
+}
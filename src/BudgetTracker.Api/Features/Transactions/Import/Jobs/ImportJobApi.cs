@@ -0,0 +1,135 @@
+using System.Security.Claims;
+using System.Text.Json;
+using BudgetTracker.Api.AntiForgery;
+using BudgetTracker.Api.Auth;
+using BudgetTracker.Api.Features.Transactions.Import.Detection;
+using BudgetTracker.Api.Infrastructure;
+using Microsoft.AspNetCore.Mvc;
+
+namespace BudgetTracker.Api.Features.Transactions.Import.Jobs;
+
+public static class ImportJobApi
+{
+    private static readonly TimeSpan EventPollInterval = TimeSpan.FromMilliseconds(250);
+    private static readonly JsonSerializerOptions EventJsonOptions = new(JsonSerializerDefaults.Web);
+
+    public static IEndpointRouteBuilder MapImportJobEndpoints(this IEndpointRouteBuilder routes)
+    {
+        routes.MapPost("/import/jobs",
+            async (IFormFile file, [FromForm] string account,
+                [FromForm] string? columnMappings, [FromForm] string? delimiter,
+                [FromForm] string? decimalSeparator, [FromForm] string? dateFormat, [FromForm] Guid? profileId,
+                BudgetTrackerContext db, ImportJobManager jobManager, ClaimsPrincipal claimsPrincipal) =>
+            {
+                var validationResult = ImportApi.ValidateFileInput(file);
+                if (validationResult != null)
+                {
+                    return (IResult)validationResult;
+                }
+
+                var userId = claimsPrincipal.GetUserId();
+
+                var profile = await ImportApi.FindImportProfileAsync(db, profileId, userId);
+                if (profileId.HasValue && profile == null)
+                {
+                    return Results.BadRequest(new { error = "Import profile not found." });
+                }
+
+                CsvStructureDetectionResult? manualStructure;
+                try
+                {
+                    manualStructure = ImportApi.ResolveManualStructure(
+                        profile, columnMappings, delimiter, decimalSeparator, dateFormat);
+                }
+                catch (InvalidOperationException ex)
+                {
+                    return Results.BadRequest(new { error = ex.Message });
+                }
+
+                using var content = new MemoryStream();
+                await file.CopyToAsync(content);
+
+                var job = jobManager.Start(new ImportJobRequest
+                {
+                    Content = content.ToArray(),
+                    FileName = file.FileName,
+                    UserId = userId,
+                    Account = account,
+                    Profile = profile,
+                    ManualStructure = manualStructure
+                });
+
+                return Results.Ok(job.MapToDto());
+            })
+            .DisableAntiforgery()
+            .AddEndpointFilter<ConditionalAntiforgeryFilter>();
+
+        routes.MapGet("/import/jobs/{jobId:guid}",
+            (Guid jobId, ImportJobManager jobManager, ClaimsPrincipal claimsPrincipal) =>
+            {
+                var job = jobManager.Get(jobId, claimsPrincipal.GetUserId());
+
+                return job == null
+                    ? Results.NotFound(new { error = "Import job not found" })
+                    : Results.Ok(job.MapToDto());
+            });
+
+        routes.MapGet("/import/jobs/{jobId:guid}/events",
+            async (Guid jobId, HttpContext httpContext, ImportJobManager jobManager,
+                ClaimsPrincipal claimsPrincipal, CancellationToken cancellationToken) =>
+            {
+                var job = jobManager.Get(jobId, claimsPrincipal.GetUserId());
+                if (job == null)
+                {
+                    return Results.NotFound(new { error = "Import job not found" });
+                }
+
+                var response = httpContext.Response;
+                response.Headers.ContentType = "text/event-stream";
+                response.Headers.CacheControl = "no-cache";
+
+                var lastVersion = -1;
+                try
+                {
+                    while (!cancellationToken.IsCancellationRequested)
+                    {
+                        var isFinished = job.IsFinished;
+
+                        if (job.Version != lastVersion)
+                        {
+                            lastVersion = job.Version;
+                            var json = JsonSerializer.Serialize(job.MapToDto(), EventJsonOptions);
+                            await response.WriteAsync($"data: {json}\n\n", cancellationToken);
+                            await response.Body.FlushAsync(cancellationToken);
+                        }
+
+                        if (isFinished) break;
+
+                        await Task.Delay(EventPollInterval, cancellationToken);
+                    }
+                }
+                catch (OperationCanceledException)
+                {
+                    // The client closed the stream; the job keeps running
+                }
+
+                return Results.Empty;
+            });
+
+        routes.MapPost("/import/jobs/{jobId:guid}/cancel",
+            (Guid jobId, ImportJobManager jobManager, ClaimsPrincipal claimsPrincipal) =>
+            {
+                var userId = claimsPrincipal.GetUserId();
+                var job = jobManager.Get(jobId, userId);
+                if (job == null)
+                {
+                    return Results.NotFound(new { error = "Import job not found" });
+                }
+
+                jobManager.Cancel(jobId, userId);
+                return Results.Ok(job.MapToDto());
+            });
+
+        return routes;
+    }
+}
@@ -0,0 +1,132 @@
+using System.Collections.Concurrent;
+using BudgetTracker.Api.Features.Transactions.Import.Detection;
+using BudgetTracker.Api.Features.Transactions.Import.Profiles;
+
+namespace BudgetTracker.Api.Features.Transactions.Import.Jobs;
+
+public class ImportJobRequest
+{
+    public byte[] Content { get; init; } = Array.Empty<byte>();
+    public string FileName { get; init; } = string.Empty;
+    public string UserId { get; init; } = string.Empty;
+    public string Account { get; init; } = string.Empty;
+    public ImportProfile? Profile { get; init; }
+    public CsvStructureDetectionResult? ManualStructure { get; init; }
+}
+
+/// <summary>
+/// Runs imports outside the request that started them and keeps their progress in memory
+/// for an hour after they finish.
+/// </summary>
+public class ImportJobManager
+{
+    private static readonly TimeSpan FinishedJobRetention = TimeSpan.FromHours(1);
+
+    private readonly ConcurrentDictionary<Guid, ImportJob> _jobs = new();
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly ILogger<ImportJobManager> _logger;
+
+    public ImportJobManager(IServiceScopeFactory scopeFactory, ILogger<ImportJobManager> logger)
+    {
+        _scopeFactory = scopeFactory;
+        _logger = logger;
+    }
+
+    public ImportJob Start(ImportJobRequest request)
+    {
+        RemoveExpiredJobs();
+
+        var job = new ImportJob
+        {
+            UserId = request.UserId,
+            FileName = request.FileName,
+            Account = request.Account
+        };
+
+        _jobs[job.Id] = job;
+        _ = Task.Run(() => RunAsync(job, request));
+
+        return job;
+    }
+
+    public ImportJob? Get(Guid jobId, string userId)
+    {
+        return _jobs.TryGetValue(jobId, out var job) && job.UserId == userId ? job : null;
+    }
+
+    public bool Cancel(Guid jobId, string userId)
+    {
+        var job = Get(jobId, userId);
+        if (job == null || job.IsFinished) return false;
+
+        job.Cancellation.Cancel();
+        return true;
+    }
+
+    private async Task RunAsync(ImportJob job, ImportJobRequest request)
+    {
+        try
+        {
+            var isCsv = Path.GetExtension(request.FileName).Equals(".csv", StringComparison.OrdinalIgnoreCase);
+            job.Start(isCsv ? EstimateCsvRows(request.Content) : null);
+
+            using var scope = _scopeFactory.CreateScope();
+            await using var stream = new MemoryStream(request.Content);
+
+            var result = await ImportApi.RunImportAsync(
+                stream, request.FileName, request.UserId, request.Account,
+                request.Profile, request.ManualStructure, scope.ServiceProvider,
+                job, job.Cancellation.Token);
+
+            job.Complete(result);
+        }
+        catch (OperationCanceledException)
+        {
+            _logger.LogInformation("Import job {JobId} was cancelled", job.Id);
+            job.MarkCancelled();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Import job {JobId} failed", job.Id);
+            job.Fail(ex.Message);
+        }
+    }
+
+    private void RemoveExpiredJobs()
+    {
+        var cutoff = DateTime.UtcNow - FinishedJobRetention;
+
+        foreach (var (jobId, job) in _jobs)
+        {
+            if (job.IsFinished && job.UpdatedAt < cutoff && _jobs.TryRemove(jobId, out _))
+            {
+                job.Cancellation.Dispose();
+            }
+        }
+    }
+
+    private static int EstimateCsvRows(byte[] content)
+    {
+        // Counts non-empty lines after the header; quoted line breaks make this an estimate
+        // that the parser corrects once it reaches the end of the file.
+        var lines = 0;
+        var lineHasContent = false;
+
+        foreach (var b in content)
+        {
+            if (b == (byte)'\n')
+            {
+                if (lineHasContent) lines++;
+                lineHasContent = false;
+            }
+            else if (b != (byte)'\r' && b != (byte)' ')
+            {
+                lineHasContent = true;
+            }
+        }
+
+        if (lineHasContent) lines++;
+
+        return Math.Max(lines - 1, 0);
+    }
+}
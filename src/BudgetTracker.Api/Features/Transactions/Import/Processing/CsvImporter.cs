@@ -17,7 +17,8 @@ public class CsvImporter
     }
 
     public async Task<(ImportResult Result, List<Transaction> Transactions)> ParseCsvAsync(Stream csvStream,
-        string sourceFileName, string userId, string account, CsvStructureDetectionResult? detectionResult)
+        string sourceFileName, string userId, string account, CsvStructureDetectionResult? detectionResult,
+        Action<int>? onRowParsed = null)
     {
         var result = new ImportResult
         {
@@ -67,6 +68,8 @@ public class CsvImporter
                     result.FailedCount++;
                     result.Errors.Add($"Row {rowNumber}: {ex.Message}");
                 }
+
+                onRowParsed?.Invoke(rowNumber);
             }
 
             result.ImportedCount = transactions.Count;
@@ -120,7 +123,7 @@ public class CsvImporter
             }
 
             // Parse date
-            if (!TryParseDate(dateStr, out var date, null, detectionResult))
+            if (!TryParseDate(dateStr, out var date, detectionResult?.DateFormat, detectionResult))
             {
                 throw new ArgumentException($"Invalid date format: {dateStr}");
             }
@@ -241,6 +244,11 @@ public class CsvImporter
         // Remove common currency symbols
         cleanAmount = cleanAmount.Replace("$", "").Replace("€", "").Replace("£", "").Replace("¥", "").Replace("R$", "").Trim();
 
+        if (!string.IsNullOrEmpty(detectionResult?.DecimalSeparator))
+        {
+            return TryParseAmountWithSeparator(cleanAmount, detectionResult.DecimalSeparator, out amount);
+        }
+
         // Try to get culture from detection result
         CultureInfo culture = CultureInfo.InvariantCulture;
         if (!string.IsNullOrEmpty(detectionResult?.CultureCode))
@@ -259,4 +267,15 @@ public class CsvImporter
         // Use culture-specific parsing - .NET handles decimal/thousand separators automatically
         return decimal.TryParse(cleanAmount, NumberStyles.Currency, culture, out amount);
     }
+
+    private static bool TryParseAmountWithSeparator(string amountStr, string decimalSeparator, out decimal amount)
+    {
+        var groupSeparator = decimalSeparator == "," ? "." : ",";
+        var normalized = new string(amountStr.Where(c => !char.IsWhiteSpace(c)).ToArray())
+            .Replace(groupSeparator, "")
+            .Replace(decimalSeparator, ".");
+
+        return decimal.TryParse(normalized, NumberStyles.AllowLeadingSign | NumberStyles.AllowDecimalPoint,
+            CultureInfo.InvariantCulture, out amount);
+    }
 }
\ No newline at end of file
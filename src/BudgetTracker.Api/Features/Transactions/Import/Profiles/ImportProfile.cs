@@ -0,0 +1,120 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+using System.Text.Json;
+using System.Text.Json.Serialization;
+
+namespace BudgetTracker.Api.Features.Transactions.Import.Profiles;
+
+public class ImportProfile
+{
+    [Key]
+    public Guid Id { get; set; }
+
+    [Required]
+    public string UserId { get; set; } = string.Empty;
+
+    [Required]
+    [MaxLength(100)]
+    public string Name { get; set; } = string.Empty;
+
+    [Required]
+    [MaxLength(100)]
+    public string Account { get; set; } = string.Empty;
+
+    [MaxLength(2000)]
+    public string ColumnMappings { get; set; } = "{}";
+
+    [MaxLength(5)]
+    public string Delimiter { get; set; } = ",";
+
+    [MaxLength(1)]
+    public string DecimalSeparator { get; set; } = ".";
+
+    [MaxLength(20)]
+    public string? DateFormat { get; set; }
+
+    [Required]
+    public SignConvention SignConvention { get; set; } = SignConvention.AsIs;
+
+    [MaxLength(100)]
+    public string? DefaultCategory { get; set; }
+
+    [MaxLength(1000)]
+    public string? HeaderSignature { get; set; }
+
+    [Required]
+    [Column(TypeName = "timestamptz")]
+    public DateTime CreatedAt { get; set; }
+
+    [Required]
+    [Column(TypeName = "timestamptz")]
+    public DateTime UpdatedAt { get; set; }
+}
+
+[JsonConverter(typeof(JsonStringEnumConverter))]
+public enum SignConvention
+{
+    AsIs,
+    Inverted
+}
+
+public class ImportProfileDto
+{
+    public Guid Id { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public string Account { get; set; } = string.Empty;
+    public Dictionary<string, string> ColumnMappings { get; set; } = new();
+    public string Delimiter { get; set; } = ",";
+    public string DecimalSeparator { get; set; } = ".";
+    public string? DateFormat { get; set; }
+    public SignConvention SignConvention { get; set; }
+    public string? DefaultCategory { get; set; }
+    public string? HeaderSignature { get; set; }
+    public DateTime UpdatedAt { get; set; }
+}
+
+public record SaveImportProfileRequest(
+    string Name,
+    string Account,
+    Dictionary<string, string> ColumnMappings,
+    string Delimiter,
+    string DecimalSeparator,
+    string? DateFormat,
+    SignConvention SignConvention,
+    string? DefaultCategory,
+    string? HeaderSignature);
+
+internal static class ImportProfileExtensions
+{
+    public static ImportProfileDto MapToDto(this ImportProfile profile)
+    {
+        return new ImportProfileDto
+        {
+            Id = profile.Id,
+            Name = profile.Name,
+            Account = profile.Account,
+            ColumnMappings = JsonSerializer.Deserialize<Dictionary<string, string>>(profile.ColumnMappings) ?? new(),
+            Delimiter = profile.Delimiter,
+            DecimalSeparator = profile.DecimalSeparator,
+            DateFormat = profile.DateFormat,
+            SignConvention = profile.SignConvention,
+            DefaultCategory = profile.DefaultCategory,
+            HeaderSignature = profile.HeaderSignature,
+            UpdatedAt = profile.UpdatedAt
+        };
+    }
+
+    public static void ApplyRequest(this ImportProfile profile, SaveImportProfileRequest request)
+    {
+        profile.Name = request.Name.Trim();
+        profile.Account = request.Account.Trim();
+        profile.ColumnMappings = JsonSerializer.Serialize(request.ColumnMappings ?? new Dictionary<string, string>());
+        profile.Delimiter = string.IsNullOrEmpty(request.Delimiter) ? "," : request.Delimiter;
+        profile.DecimalSeparator = request.DecimalSeparator == "," ? "," : ".";
+        profile.DateFormat = string.IsNullOrWhiteSpace(request.DateFormat) ? null : request.DateFormat;
+        profile.SignConvention = request.SignConvention;
+        profile.DefaultCategory = string.IsNullOrWhiteSpace(request.DefaultCategory) ? null : request.DefaultCategory.Trim();
+        profile.HeaderSignature = string.IsNullOrWhiteSpace(request.HeaderSignature) ? null : request.HeaderSignature;
+        profile.UpdatedAt = DateTime.UtcNow;
+    }
+}
@@ -0,0 +1,146 @@
+using System.Security.Claims;
+using System.Text.Json;
+using BudgetTracker.Api.Auth;
+using BudgetTracker.Api.Infrastructure;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Features.Transactions.Import.Profiles;
+
+public static class ImportProfileApi
+{
+    public static IEndpointRouteBuilder MapImportProfileEndpoints(this IEndpointRouteBuilder routes)
+    {
+        routes.MapGet("/import/profiles",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal) =>
+            {
+                var userId = claimsPrincipal.GetUserId();
+
+                var profiles = await db.ImportProfiles
+                    .Where(p => p.UserId == userId)
+                    .OrderBy(p => p.Name)
+                    .ToListAsync();
+
+                return Results.Ok(profiles.Select(p => p.MapToDto()).ToList());
+            });
+
+        routes.MapPost("/import/profiles",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
+                [FromBody] SaveImportProfileRequest request) =>
+            {
+                var validationError = Validate(request);
+                if (validationError != null)
+                {
+                    return Results.BadRequest(new { error = validationError });
+                }
+
+                var profile = new ImportProfile
+                {
+                    UserId = claimsPrincipal.GetUserId(),
+                    CreatedAt = DateTime.UtcNow
+                };
+                profile.ApplyRequest(request);
+
+                db.ImportProfiles.Add(profile);
+                await db.SaveChangesAsync();
+
+                return Results.Ok(profile.MapToDto());
+            });
+
+        routes.MapPut("/import/profiles/{profileId:guid}",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
+                Guid profileId, [FromBody] SaveImportProfileRequest request) =>
+            {
+                var validationError = Validate(request);
+                if (validationError != null)
+                {
+                    return Results.BadRequest(new { error = validationError });
+                }
+
+                var userId = claimsPrincipal.GetUserId();
+                var profile = await db.ImportProfiles
+                    .FirstOrDefaultAsync(p => p.Id == profileId && p.UserId == userId);
+
+                if (profile == null)
+                {
+                    return Results.NotFound(new { error = "Import profile not found" });
+                }
+
+                profile.ApplyRequest(request);
+                await db.SaveChangesAsync();
+
+                return Results.Ok(profile.MapToDto());
+            });
+
+        routes.MapDelete("/import/profiles/{profileId:guid}",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal, Guid profileId) =>
+            {
+                var userId = claimsPrincipal.GetUserId();
+                var profile = await db.ImportProfiles
+                    .FirstOrDefaultAsync(p => p.Id == profileId && p.UserId == userId);
+
+                if (profile == null)
+                {
+                    return Results.NotFound(new { error = "Import profile not found" });
+                }
+
+                db.ImportProfiles.Remove(profile);
+                await db.SaveChangesAsync();
+
+                return Results.Ok(new { message = "Import profile deleted successfully" });
+            });
+
+        return routes;
+    }
+
+    private static string? Validate(SaveImportProfileRequest request)
+    {
+        if (string.IsNullOrWhiteSpace(request.Name))
+        {
+            return "Profile name is required";
+        }
+
+        if (string.IsNullOrWhiteSpace(request.Account))
+        {
+            return "Account is required";
+        }
+
+        if (request.Name.Trim().Length > 100)
+        {
+            return "Profile name must be 100 characters or fewer";
+        }
+
+        if (request.Account.Trim().Length > 100)
+        {
+            return "Account must be 100 characters or fewer";
+        }
+
+        if (request.Delimiter?.Length > 5)
+        {
+            return "Delimiter must be 5 characters or fewer";
+        }
+
+        if (request.DateFormat?.Length > 20)
+        {
+            return "Date format must be 20 characters or fewer";
+        }
+
+        if (request.DefaultCategory?.Trim().Length > 100)
+        {
+            return "Default category must be 100 characters or fewer";
+        }
+
+        // The signature joins every header name, so very wide exports are the ones that hit this
+        if (request.HeaderSignature?.Length > 1000)
+        {
+            return "The header row must be 1000 characters or fewer to be recognised";
+        }
+
+        if (JsonSerializer.Serialize(request.ColumnMappings ?? new Dictionary<string, string>()).Length > 2000)
+        {
+            return "Column mappings must be 2000 characters or fewer";
+        }
+
+        return null;
+    }
+}
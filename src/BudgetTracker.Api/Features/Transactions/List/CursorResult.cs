@@ -0,0 +1,9 @@
+namespace BudgetTracker.Api.Features.Transactions.List;
+
+public class CursorResult<T>
+{
+    public List<T> Items { get; set; } = new();
+    public int TotalCount { get; set; }
+    public string? NextCursor { get; set; }
+    public bool HasMore => NextCursor != null;
+}
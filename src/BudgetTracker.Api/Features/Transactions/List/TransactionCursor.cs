@@ -0,0 +1,60 @@
+using System.Globalization;
+using System.Text;
+
+namespace BudgetTracker.Api.Features.Transactions.List;
+
+/// <summary>
+/// Where the next batch of an infinite-scroll list starts. Date-ordered lists continue after the
+/// last row's date and import time, so rows added or trashed meanwhile don't shift later batches.
+/// Rows sharing that key are skipped by count. Other sort orders have no stable key, so Skip is a
+/// plain offset there and Date and ImportedAt are null.
+/// </summary>
+public record TransactionCursor(DateTime? Date, DateTime? ImportedAt, int Skip)
+{
+    public string Encode()
+    {
+        var value = string.Join('|', Date?.Ticks.ToString(CultureInfo.InvariantCulture) ?? "",
+            ImportedAt?.Ticks.ToString(CultureInfo.InvariantCulture) ?? "", Skip.ToString(CultureInfo.InvariantCulture));
+
+        return Convert.ToBase64String(Encoding.UTF8.GetBytes(value)).TrimEnd('=').Replace('+', '-').Replace('/', '_');
+    }
+
+    public static bool TryDecode(string? encoded, out TransactionCursor? cursor)
+    {
+        cursor = null;
+        if (string.IsNullOrEmpty(encoded)) return true;
+
+        try
+        {
+            var base64 = encoded.Replace('-', '+').Replace('_', '/');
+            base64 = base64.PadRight(base64.Length + (4 - base64.Length % 4) % 4, '=');
+            var parts = Encoding.UTF8.GetString(Convert.FromBase64String(base64)).Split('|');
+
+            if (parts.Length != 3 || !int.TryParse(parts[2], NumberStyles.None, CultureInfo.InvariantCulture, out var skip))
+            {
+                return false;
+            }
+
+            DateTime? date = null;
+            DateTime? importedAt = null;
+            if (parts[0] != "" || parts[1] != "")
+            {
+                if (!long.TryParse(parts[0], NumberStyles.None, CultureInfo.InvariantCulture, out var dateTicks) ||
+                    !long.TryParse(parts[1], NumberStyles.None, CultureInfo.InvariantCulture, out var importedTicks))
+                {
+                    return false;
+                }
+
+                date = new DateTime(dateTicks, DateTimeKind.Utc);
+                importedAt = new DateTime(importedTicks, DateTimeKind.Utc);
+            }
+
+            cursor = new TransactionCursor(date, importedAt, skip);
+            return true;
+        }
+        catch (Exception ex) when (ex is FormatException or ArgumentOutOfRangeException)
+        {
+            return false;
+        }
+    }
+}
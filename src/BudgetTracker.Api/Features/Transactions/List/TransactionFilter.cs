@@ -0,0 +1,109 @@
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Features.Transactions.List;
+
+/// <summary>
+/// The criteria of the transaction list, minus paging and sorting
+/// </summary>
+public record TransactionFilter(
+    List<string>? Categories = null,
+    List<string>? ExcludeCategories = null,
+    List<string>? Accounts = null,
+    List<string>? ExcludeAccounts = null,
+    string? ImportSessionHash = null,
+    string? Search = null,
+    DateOnly? DateFrom = null,
+    DateOnly? DateTo = null,
+    decimal? MinAmount = null,
+    decimal? MaxAmount = null,
+    string? Type = null);
+
+public static class TransactionFilterExtensions
+{
+    public static IQueryable<Transaction> ApplyFilter(this IQueryable<Transaction> query, TransactionFilter filter)
+    {
+        // Category filters match the primary Category, the Categories collection or split allocations
+        var includedCategories = filter.Categories?.Where(c => !string.IsNullOrWhiteSpace(c)).ToList() ?? new List<string>();
+        if (includedCategories.Count > 0)
+        {
+            query = query.Where(t => (t.Category != null && includedCategories.Contains(t.Category)) ||
+                                     t.Categories.Any(c => includedCategories.Contains(c.CategoryName)) ||
+                                     t.Splits.Any(s => includedCategories.Contains(s.CategoryName)));
+        }
+
+        var excludedCategories = filter.ExcludeCategories?.Where(c => !string.IsNullOrWhiteSpace(c)).ToList() ?? new List<string>();
+        if (excludedCategories.Count > 0)
+        {
+            query = query.Where(t => (t.Category == null || !excludedCategories.Contains(t.Category)) &&
+                                     !t.Categories.Any(c => excludedCategories.Contains(c.CategoryName)) &&
+                                     !t.Splits.Any(s => excludedCategories.Contains(s.CategoryName)));
+        }
+
+        var includedAccounts = filter.Accounts?.Where(a => !string.IsNullOrWhiteSpace(a)).ToList() ?? new List<string>();
+        if (includedAccounts.Count > 0)
+        {
+            query = query.Where(t => includedAccounts.Contains(t.Account));
+        }
+
+        var excludedAccounts = filter.ExcludeAccounts?.Where(a => !string.IsNullOrWhiteSpace(a)).ToList() ?? new List<string>();
+        if (excludedAccounts.Count > 0)
+        {
+            query = query.Where(t => !excludedAccounts.Contains(t.Account));
+        }
+
+        if (!string.IsNullOrWhiteSpace(filter.ImportSessionHash))
+        {
+            query = query.Where(t => t.ImportSessionHash == filter.ImportSessionHash);
+        }
+
+        if (!string.IsNullOrWhiteSpace(filter.Search))
+        {
+            var pattern = $"%{EscapeLikePattern(filter.Search.Trim())}%";
+            query = query.Where(t => EF.Functions.ILike(t.Description, pattern, @"\"));
+        }
+
+        // Date range is inclusive of both days
+        if (filter.DateFrom.HasValue)
+        {
+            var from = DateTime.SpecifyKind(filter.DateFrom.Value.ToDateTime(TimeOnly.MinValue), DateTimeKind.Utc);
+            query = query.Where(t => t.Date >= from);
+        }
+
+        if (filter.DateTo.HasValue)
+        {
+            var to = DateTime.SpecifyKind(filter.DateTo.Value.AddDays(1).ToDateTime(TimeOnly.MinValue), DateTimeKind.Utc);
+            query = query.Where(t => t.Date < to);
+        }
+
+        // Amount range compares the size of the amount so it applies to income and expenses alike
+        if (filter.MinAmount.HasValue)
+        {
+            query = query.Where(t => Math.Abs(t.Amount) >= filter.MinAmount.Value);
+        }
+
+        if (filter.MaxAmount.HasValue)
+        {
+            query = query.Where(t => Math.Abs(t.Amount) <= filter.MaxAmount.Value);
+        }
+
+        if (string.Equals(filter.Type, "income", StringComparison.OrdinalIgnoreCase))
+        {
+            query = query.Where(t => t.Amount > 0);
+        }
+        else if (string.Equals(filter.Type, "expense", StringComparison.OrdinalIgnoreCase))
+        {
+            query = query.Where(t => t.Amount < 0);
+        }
+
+        return query;
+    }
+
+    // Searches match the typed text literally, so "50%" or "a_b" don't act as wildcards
+    private static string EscapeLikePattern(string value)
+    {
+        return value
+            .Replace(@"\", @"\\")
+            .Replace("%", @"\%")
+            .Replace("_", @"\_");
+    }
+}
@@ -1,5 +1,8 @@
+using System.Linq.Expressions;
 using System.Security.Claims;
 using BudgetTracker.Api.Auth;
+using BudgetTracker.Api.Features.Transactions.Bulk;
+using BudgetTracker.Api.Features.Transactions.Import.History;
 using BudgetTracker.Api.Infrastructure;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
@@ -12,30 +15,28 @@ public static class TransactionListApi
   {
     routes.MapGet("/",
             async(BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
-                int page = 1, int pageSize = 20, string ? category = null, string ? account = null) =>
+                int page = 1, int pageSize = 20, string[] ? category = null, string[] ? excludeCategory = null,
+                string[] ? account = null, string[] ? excludeAccount = null,
+                string ? importSessionHash = null, string ? search = null,
+                DateOnly ? dateFrom = null, DateOnly ? dateTo = null,
+                decimal ? minAmount = null, decimal ? maxAmount = null, string ? type = null,
+                string ? sortBy = null, string ? sortDirection = null) =>
                 {
       if (page < 1) page = 1;
       if (pageSize < 1 || pageSize > 100) pageSize = 20;
 
-      var query = db.Transactions.Where(t => t.UserId == claimsPrincipal.GetUserId());
-
-      // Apply category filter - match if category is in primary Category OR in Categories collection
-      if (!string.IsNullOrWhiteSpace(category))
-      {
-        query = query.Where(t => t.Category == category || t.Categories.Any(c => c.CategoryName == category));
-      }
-
-      // Apply account filter
-      if (!string.IsNullOrWhiteSpace(account))
-      {
-        query = query.Where(t => t.Account == account);
-      }
+      var userId = claimsPrincipal.GetUserId();
+      var filter = new TransactionFilter(category?.ToList(), excludeCategory?.ToList(), account?.ToList(),
+          excludeAccount?.ToList(), importSessionHash, search, dateFrom, dateTo, minAmount, maxAmount, type);
+      var query = db.Transactions.Where(t => t.UserId == userId).ApplyFilter(filter);
 
       var totalCount = await query.CountAsync();
 
-      var items = await query
-          .Include(t => t.Categories)
-          .OrderByDescending(t => t.Date)
+      var sessions = db.ImportSessions.Where(s => s.UserId == userId);
+      var descending = !string.Equals(sortDirection, "asc", StringComparison.OrdinalIgnoreCase);
+
+      var items = await ApplySort(query.Include(t => t.Categories).Include(t => t.Splits), sortBy, descending, sessions)
+          .ThenByDescending(t => t.Date)
           .ThenByDescending(t => t.ImportedAt)
           .Skip((page - 1) * pageSize)
           .Take(pageSize)
@@ -43,7 +44,7 @@ public static class TransactionListApi
 
       var result = new PagedResult<TransactionDto>
       {
-        Items = items.Select(t => t.MapToDto()).ToList(),
+        Items = await MapWithSourceFiles(items, sessions),
         TotalCount = totalCount,
         Page = page,
         PageSize = pageSize
@@ -52,6 +53,79 @@ public static class TransactionListApi
       return Results.Ok(result);
     });
 
+    routes.MapGet("/scroll",
+            async(BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
+                string ? cursor = null, int limit = 50, string[] ? category = null, string[] ? excludeCategory = null,
+                string[] ? account = null, string[] ? excludeAccount = null,
+                string ? importSessionHash = null, string ? search = null,
+                DateOnly ? dateFrom = null, DateOnly ? dateTo = null,
+                decimal ? minAmount = null, decimal ? maxAmount = null, string ? type = null,
+                string ? sortBy = null, string ? sortDirection = null) =>
+                {
+      if (limit < 1 || limit > 200) limit = 50;
+
+      if (!TransactionCursor.TryDecode(cursor, out var position))
+      {
+        return Results.BadRequest(new { error = "Invalid cursor" });
+      }
+
+      var userId = claimsPrincipal.GetUserId();
+      var filter = new TransactionFilter(category?.ToList(), excludeCategory?.ToList(), account?.ToList(),
+          excludeAccount?.ToList(), importSessionHash, search, dateFrom, dateTo, minAmount, maxAmount, type);
+      var query = db.Transactions.Where(t => t.UserId == userId).ApplyFilter(filter);
+
+      var totalCount = await query.CountAsync();
+
+      var sessions = db.ImportSessions.Where(s => s.UserId == userId);
+      var descending = !string.Equals(sortDirection, "asc", StringComparison.OrdinalIgnoreCase);
+      var byDate = string.IsNullOrEmpty(sortBy) || string.Equals(sortBy, "date", StringComparison.OrdinalIgnoreCase);
+
+      if (byDate && position?.Date is { } date && position.ImportedAt is { } importedAt)
+      {
+        // Import time breaks ties newest first in both directions, as in the paged list
+        query = descending
+            ? query.Where(t => t.Date < date || (t.Date == date && t.ImportedAt <= importedAt))
+            : query.Where(t => t.Date > date || (t.Date == date && t.ImportedAt <= importedAt));
+      }
+
+      var batch = await ApplySort(query.Include(t => t.Categories).Include(t => t.Splits), sortBy, descending, sessions)
+          .ThenByDescending(t => t.Date)
+          .ThenByDescending(t => t.ImportedAt)
+          .ThenBy(t => t.Id)
+          .Skip(position?.Skip ?? 0)
+          .Take(limit + 1)
+          .ToListAsync();
+
+      var items = batch.Take(limit).ToList();
+      string? nextCursor = null;
+      if (batch.Count > limit)
+      {
+        var last = items[^1];
+        if (byDate)
+        {
+          // Rows sharing the last row's key are skipped by count on the next request
+          var tied = items.Count(t => t.Date == last.Date && t.ImportedAt == last.ImportedAt);
+          if (position?.Date == last.Date && position.ImportedAt == last.ImportedAt)
+          {
+            tied += position.Skip;
+          }
+
+          nextCursor = new TransactionCursor(last.Date, last.ImportedAt, tied).Encode();
+        }
+        else
+        {
+          nextCursor = new TransactionCursor(null, null, (position?.Skip ?? 0) + items.Count).Encode();
+        }
+      }
+
+      return Results.Ok(new CursorResult<TransactionDto>
+      {
+        Items = await MapWithSourceFiles(items, sessions),
+        TotalCount = totalCount,
+        NextCursor = nextCursor
+      });
+    });
+
     routes.MapGet("/filters",
             async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal) =>
             {
@@ -65,13 +139,19 @@ public static class TransactionListApi
 
               // Get additional categories from TransactionCategories
               var additionalCategories = await db.TransactionCategories
-                      .Where(tc => tc.UserId == userId)
+                      .Where(tc => tc.UserId == userId && tc.Transaction.DeletedAt == null)
                       .Select(tc => tc.CategoryName)
                       .ToListAsync();
 
+              var splitCategories = await db.TransactionSplits
+                      .Where(s => s.UserId == userId && s.Transaction.DeletedAt == null)
+                      .Select(s => s.CategoryName)
+                      .ToListAsync();
+
               // Combine and deduplicate categories
               var categories = primaryCategories
                       .Concat(additionalCategories)
+                      .Concat(splitCategories)
                       .Distinct()
                       .OrderBy(c => c)
                       .ToList();
@@ -91,14 +171,14 @@ public static class TransactionListApi
             {
               var userId = claimsPrincipal.GetUserId();
 
-              if (request.TransactionIds == null || request.TransactionIds.Count == 0)
+              if (!request.HasSelection())
               {
                 return Results.BadRequest(new { error = "No transaction IDs provided" });
               }
 
-                  // Only delete transactions that belong to the current user
+                  // Only trash transactions that belong to the current user
                   var transactionsToDelete = await db.Transactions
-                      .Where(t => t.UserId == userId && request.TransactionIds.Contains(t.Id))
+                      .WhereSelected(userId, request)
                       .ToListAsync();
 
               if (transactionsToDelete.Count == 0)
@@ -106,14 +186,67 @@ public static class TransactionListApi
                 return Results.NotFound(new { error = "No transactions found to delete" });
               }
 
-              db.Transactions.RemoveRange(transactionsToDelete);
+              // Deleting moves rows to the trash, where they can be restored or purged
+              var deletedAt = DateTime.UtcNow;
+              foreach (var transaction in transactionsToDelete)
+              {
+                transaction.DeletedAt = deletedAt;
+              }
+
               await db.SaveChangesAsync();
 
-              return Results.Ok(new { deletedCount = transactionsToDelete.Count });
+              return Results.Ok(new
+              {
+                deletedCount = transactionsToDelete.Count,
+                transactionIds = transactionsToDelete.Select(t => t.Id).ToList()
+              });
             });
 
     return routes;
   }
+
+  private static async Task<List<TransactionDto>> MapWithSourceFiles(List<Transaction> transactions,
+      IQueryable<ImportSession> sessions)
+  {
+    // Source files are recorded on the import session rather than on each transaction
+    var hashes = transactions.Select(t => t.ImportSessionHash).OfType<string>().Distinct().ToList();
+    var sourceFiles = await sessions
+        .Where(s => hashes.Contains(s.ImportSessionHash))
+        .ToDictionaryAsync(s => s.ImportSessionHash, s => s.SourceFile);
+
+    return transactions.Select(t =>
+    {
+      var dto = t.MapToDto();
+      dto.SourceFile = t.ImportSessionHash != null ? sourceFiles.GetValueOrDefault(t.ImportSessionHash) : null;
+      return dto;
+    }).ToList();
+  }
+
+  private static IOrderedQueryable<Transaction> ApplySort(IQueryable<Transaction> query, string? sortBy,
+      bool descending, IQueryable<ImportSession> sessions)
+  {
+    return sortBy?.ToLowerInvariant() switch
+    {
+      "description" => OrderBy(query, t => t.Description, descending),
+      "amount" => OrderBy(query, t => t.Amount, descending),
+      "balance" => OrderBy(query, t => t.Balance, descending),
+      "account" => OrderBy(query, t => t.Account, descending),
+      "category" => OrderBy(query, t => t.Category, descending),
+      "importedat" => OrderBy(query, t => t.ImportedAt, descending),
+      "sourcefile" => OrderBy(query, t => sessions
+          .Where(s => s.ImportSessionHash == t.ImportSessionHash)
+          .Select(s => s.SourceFile)
+          .FirstOrDefault(), descending),
+      _ => OrderBy(query, t => t.Date, descending)
+    };
+  }
+
+  private static IOrderedQueryable<Transaction> OrderBy<TKey>(IQueryable<Transaction> query,
+      Expression<Func<Transaction, TKey>> keySelector, bool descending)
+  {
+    return descending ? query.OrderByDescending(keySelector) : query.OrderBy(keySelector);
+  }
 }
 
-public record DeleteTransactionsRequest(List<Guid> TransactionIds);
\ No newline at end of file
+public record DeleteTransactionsRequest(List<Guid>? TransactionIds, TransactionFilter? Filter = null)
+    : IBulkTransactionRequest;
\ No newline at end of file
@@ -0,0 +1,138 @@
+using System.Security.Claims;
+using BudgetTracker.Api.Auth;
+using BudgetTracker.Api.Features.Transactions.Category;
+using BudgetTracker.Api.Features.Transactions.Edit;
+using BudgetTracker.Api.Infrastructure;
+using Microsoft.AspNetCore.Mvc;
+
+namespace BudgetTracker.Api.Features.Transactions.Manual;
+
+public static class ManualTransactionApi
+{
+    private const int MaxBatchSize = 100;
+
+    public static IEndpointRouteBuilder MapManualTransactionEndpoints(this IEndpointRouteBuilder routes)
+    {
+        routes.MapPost("/",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
+                [FromBody] CreateTransactionRequest request) =>
+            {
+                var validationError = Validate(request);
+                if (validationError != null)
+                {
+                    return Results.BadRequest(new { error = validationError });
+                }
+
+                var transaction = CreateTransaction(request, claimsPrincipal.GetUserId());
+
+                db.Transactions.Add(transaction);
+                await db.SaveChangesAsync();
+
+                return Results.Ok(transaction.MapToDto());
+            });
+
+        routes.MapPost("/batch",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
+                [FromBody] CreateTransactionsRequest request) =>
+            {
+                if (request.Transactions == null || request.Transactions.Count == 0)
+                {
+                    return Results.BadRequest(new { error = "No transactions provided" });
+                }
+
+                if (request.Transactions.Count > MaxBatchSize)
+                {
+                    return Results.BadRequest(new { error = $"At most {MaxBatchSize} transactions can be added at once" });
+                }
+
+                for (var i = 0; i < request.Transactions.Count; i++)
+                {
+                    var validationError = Validate(request.Transactions[i]);
+                    if (validationError != null)
+                    {
+                        return Results.BadRequest(new { error = $"Row {i + 1}: {validationError}" });
+                    }
+                }
+
+                var userId = claimsPrincipal.GetUserId();
+                var transactions = request.Transactions
+                    .Select(t => CreateTransaction(t, userId))
+                    .ToList();
+
+                db.Transactions.AddRange(transactions);
+                await db.SaveChangesAsync();
+
+                return Results.Ok(new
+                {
+                    createdCount = transactions.Count,
+                    transactions = transactions.Select(t => t.MapToDto()).ToList()
+                });
+            });
+
+        return routes;
+    }
+
+    private static string? Validate(CreateTransactionRequest request)
+    {
+        var validationError = TransactionEditApi.ValidateFields(request.Date, request.Description, request.Amount,
+            request.Account, request.Labels);
+        if (validationError != null)
+        {
+            return validationError;
+        }
+
+        if (request.Categories?.Any(c => string.IsNullOrWhiteSpace(c) || c.Trim().Length > 100) == true)
+        {
+            return "Category names must be between 1 and 100 characters";
+        }
+
+        return null;
+    }
+
+    /// <summary>
+    /// The first category becomes the primary one and, like imports, an empty list means "Uncategorized"
+    /// </summary>
+    private static Transaction CreateTransaction(CreateTransactionRequest request, string userId)
+    {
+        var categories = (request.Categories ?? new List<string>())
+            .Select(c => c.Trim())
+            .Distinct()
+            .ToList();
+
+        var transaction = new Transaction
+        {
+            Id = Guid.NewGuid(),
+            Date = request.Date.ToDateTime(TimeOnly.MinValue, DateTimeKind.Utc),
+            Description = request.Description.Trim(),
+            Amount = Math.Round(request.Amount, 2),
+            Account = request.Account.Trim(),
+            Labels = string.IsNullOrWhiteSpace(request.Labels) ? null : request.Labels.Trim(),
+            Category = categories.FirstOrDefault() ?? "Uncategorized",
+            ImportedAt = DateTime.UtcNow,
+            UserId = userId,
+            IsManual = true
+        };
+
+        foreach (var categoryName in categories.Skip(1))
+        {
+            transaction.Categories.Add(new TransactionCategory
+            {
+                TransactionId = transaction.Id,
+                CategoryName = categoryName,
+                UserId = userId
+            });
+        }
+
+        return transaction;
+    }
+}
+
+public record CreateTransactionRequest(
+    DateOnly Date,
+    string Description,
+    decimal Amount,
+    string Account,
+    List<string>? Categories,
+    string? Labels);
+
+public record CreateTransactionsRequest(List<CreateTransactionRequest> Transactions);
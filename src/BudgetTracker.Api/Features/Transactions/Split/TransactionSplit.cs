@@ -0,0 +1,37 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace BudgetTracker.Api.Features.Transactions.Split;
+
+/// <summary>
+/// A share of a transaction's amount allocated to one category. The splits of a transaction
+/// always add up to its amount and carry the same sign.
+/// </summary>
+public class TransactionSplit
+{
+    [Key]
+    public Guid Id { get; set; }
+
+    [Required]
+    public Guid TransactionId { get; set; }
+
+    [Required]
+    [MaxLength(100)]
+    public string CategoryName { get; set; } = string.Empty;
+
+    [Required]
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal Amount { get; set; }
+
+    [Required]
+    public string UserId { get; set; } = string.Empty;
+
+    // Navigation property
+    public Transaction Transaction { get; set; } = null!;
+}
+
+public class TransactionSplitDto
+{
+    public string CategoryName { get; set; } = string.Empty;
+    public decimal Amount { get; set; }
+}
@@ -0,0 +1,110 @@
+using System.Security.Claims;
+using BudgetTracker.Api.Auth;
+using BudgetTracker.Api.Infrastructure;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Features.Transactions.Split;
+
+public static class TransactionSplitApi
+{
+    public static IEndpointRouteBuilder MapTransactionSplitEndpoints(this IEndpointRouteBuilder routes)
+    {
+        routes.MapPut("/{transactionId:guid}/splits",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal,
+                Guid transactionId, [FromBody] SaveTransactionSplitsRequest request) =>
+            {
+                var userId = claimsPrincipal.GetUserId();
+                var transaction = await db.Transactions
+                    .Include(t => t.Categories)
+                    .Include(t => t.Splits)
+                    .FirstOrDefaultAsync(t => t.Id == transactionId && t.UserId == userId);
+
+                if (transaction == null)
+                {
+                    return Results.NotFound(new { error = "Transaction not found" });
+                }
+
+                var validationError = Validate(transaction, request);
+                if (validationError != null)
+                {
+                    return Results.BadRequest(new { error = validationError });
+                }
+
+                db.TransactionSplits.RemoveRange(transaction.Splits);
+                transaction.Splits = request.Splits
+                    .Select(s => new TransactionSplit
+                    {
+                        TransactionId = transaction.Id,
+                        CategoryName = s.CategoryName.Trim(),
+                        Amount = Math.Round(s.Amount, 2),
+                        UserId = userId
+                    })
+                    .ToList();
+
+                await db.SaveChangesAsync();
+
+                return Results.Ok(transaction.MapToDto());
+            });
+
+        routes.MapDelete("/{transactionId:guid}/splits",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal, Guid transactionId) =>
+            {
+                var userId = claimsPrincipal.GetUserId();
+                var transaction = await db.Transactions
+                    .Include(t => t.Categories)
+                    .Include(t => t.Splits)
+                    .FirstOrDefaultAsync(t => t.Id == transactionId && t.UserId == userId);
+
+                if (transaction == null)
+                {
+                    return Results.NotFound(new { error = "Transaction not found" });
+                }
+
+                db.TransactionSplits.RemoveRange(transaction.Splits);
+                transaction.Splits.Clear();
+                await db.SaveChangesAsync();
+
+                return Results.Ok(transaction.MapToDto());
+            });
+
+        return routes;
+    }
+
+    private static string? Validate(Transaction transaction, SaveTransactionSplitsRequest request)
+    {
+        if (request.Splits == null || request.Splits.Count < 2)
+        {
+            return "A split needs at least two allocations";
+        }
+
+        if (request.Splits.Any(s => string.IsNullOrWhiteSpace(s.CategoryName) || s.CategoryName.Trim().Length > 100))
+        {
+            return "Each allocation needs a category of 100 characters or fewer";
+        }
+
+        var categoryNames = request.Splits.Select(s => s.CategoryName.Trim()).ToList();
+        if (categoryNames.Distinct(StringComparer.OrdinalIgnoreCase).Count() != categoryNames.Count)
+        {
+            return "Each category can only be used once in a split";
+        }
+
+        if (request.Splits.Any(s => s.Amount == 0 || Math.Sign(s.Amount) != Math.Sign(transaction.Amount)))
+        {
+            return transaction.Amount < 0
+                ? "Allocations of an expense must be negative amounts"
+                : "Allocations of income must be positive amounts";
+        }
+
+        var total = request.Splits.Sum(s => Math.Round(s.Amount, 2));
+        if (total != transaction.Amount)
+        {
+            return $"Allocations add up to {total:F2} but the transaction amount is {transaction.Amount:F2}";
+        }
+
+        return null;
+    }
+}
+
+public record TransactionSplitRequest(string CategoryName, decimal Amount);
+public record SaveTransactionSplitsRequest(List<TransactionSplitRequest> Splits);
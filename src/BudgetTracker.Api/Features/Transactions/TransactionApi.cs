@@ -1,5 +1,13 @@
+using BudgetTracker.Api.Features.Transactions.Bulk;
+using BudgetTracker.Api.Features.Transactions.Edit;
 using BudgetTracker.Api.Features.Transactions.Import;
+using BudgetTracker.Api.Features.Transactions.Import.History;
+using BudgetTracker.Api.Features.Transactions.Import.Jobs;
+using BudgetTracker.Api.Features.Transactions.Import.Profiles;
 using BudgetTracker.Api.Features.Transactions.List;
+using BudgetTracker.Api.Features.Transactions.Manual;
+using BudgetTracker.Api.Features.Transactions.Split;
+using BudgetTracker.Api.Features.Transactions.Trash;
 using BudgetTracker.Api.Features.Transactions.Category;
 
 namespace BudgetTracker.Api.Features.Transactions;
@@ -15,7 +23,15 @@ public static class TransactionApi
 
         transactionsGroup
             .MapTransactionImportEndpoints()
+            .MapImportJobEndpoints()
+            .MapImportProfileEndpoints()
+            .MapImportHistoryEndpoints()
             .MapTransactionListEndpoint()
+            .MapTransactionEditEndpoints()
+            .MapManualTransactionEndpoints()
+            .MapTransactionSplitEndpoints()
+            .MapBulkTransactionEndpoints()
+            .MapTransactionTrashEndpoints()
             .MapCategoryEndpoints();
 
         return routes;
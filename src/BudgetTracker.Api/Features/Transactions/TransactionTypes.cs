@@ -45,15 +45,62 @@ public class Transaction
     [MaxLength(32)]
     public string? ImportSessionHash { get; set; }
 
+    /// <summary>
+    /// Entered by hand rather than imported from a file
+    /// </summary>
+    public bool IsManual { get; set; }
+
+    /// <summary>
+    /// Checked off by the user, e.g. after going through a month's statement
+    /// </summary>
+    public bool IsReviewed { get; set; }
+
+    /// <summary>
+    /// When the transaction was moved to the trash. Trashed rows are hidden by a query filter until
+    /// they are restored or purged.
+    /// </summary>
+    [Column(TypeName = "timestamptz")]
+    public DateTime? DeletedAt { get; set; }
+
+    /// <summary>
+    /// Imported values captured the first time a field is edited, cleared again when the edit is reverted.
+    /// Labels store an empty string when the imported value was empty so an edit can still be detected.
+    /// </summary>
+    [Column(TypeName = "timestamptz")]
+    public DateTime? OriginalDate { get; set; }
+
+    [MaxLength(500)]
+    public string? OriginalDescription { get; set; }
+
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal? OriginalAmount { get; set; }
+
+    [MaxLength(100)]
+    public string? OriginalAccount { get; set; }
+
+    [MaxLength(200)]
+    public string? OriginalLabels { get; set; }
+
     /// <summary>
     /// Vector embedding for semantic search (1536 dimensions for text-embedding-3-small)
     /// </summary>
     public Vector? Embedding { get; set; } // Add vector embedding property
 
+    /// <summary>
+    /// Set when the description changes after import. The background service regenerates these
+    /// embeddings however long ago the transaction was imported.
+    /// </summary>
+    public bool IsEmbeddingStale { get; set; }
+
     /// <summary>
     /// Additional categories for this transaction (many-to-many)
     /// </summary>
     public ICollection<Category.TransactionCategory> Categories { get; set; } = new List<Category.TransactionCategory>();
+
+    /// <summary>
+    /// Category allocations of the amount, empty unless the transaction has been split
+    /// </summary>
+    public ICollection<Split.TransactionSplit> Splits { get; set; } = new List<Split.TransactionSplit>();
 }
 
 public class TransactionDto
@@ -68,6 +115,21 @@ public class TransactionDto
     public string? Labels { get; set; }
     public DateTime ImportedAt { get; set; }
     public string Account { get; set; } = string.Empty;
+    public string? SourceFile { get; set; }
+    public bool IsManual { get; set; }
+    public bool IsReviewed { get; set; }
+    public DateTime? DeletedAt { get; set; }
+    public List<Split.TransactionSplitDto> Splits { get; set; } = new();
+    public TransactionOriginalValuesDto? OriginalValues { get; set; }
+}
+
+public class TransactionOriginalValuesDto
+{
+    public DateTime? Date { get; set; }
+    public string? Description { get; set; }
+    public decimal? Amount { get; set; }
+    public string? Account { get; set; }
+    public string? Labels { get; set; }
 }
 
 internal static class TransactionExtensions
@@ -99,7 +161,34 @@ internal static class TransactionExtensions
             Categories = categories, // All categories
             Labels = transaction.Labels,
             ImportedAt = transaction.ImportedAt,
-            Account = transaction.Account
+            Account = transaction.Account,
+            IsManual = transaction.IsManual,
+            IsReviewed = transaction.IsReviewed,
+            DeletedAt = transaction.DeletedAt,
+            Splits = transaction.Splits
+                .OrderBy(s => s.Amount)
+                .Select(s => new Split.TransactionSplitDto { CategoryName = s.CategoryName, Amount = s.Amount })
+                .ToList(),
+            OriginalValues = transaction.MapOriginalValues()
+        };
+    }
+
+    private static TransactionOriginalValuesDto? MapOriginalValues(this Transaction transaction)
+    {
+        if (transaction.OriginalDate == null && transaction.OriginalDescription == null &&
+            transaction.OriginalAmount == null && transaction.OriginalAccount == null &&
+            transaction.OriginalLabels == null)
+        {
+            return null;
+        }
+
+        return new TransactionOriginalValuesDto
+        {
+            Date = transaction.OriginalDate,
+            Description = transaction.OriginalDescription,
+            Amount = transaction.OriginalAmount,
+            Account = transaction.OriginalAccount,
+            Labels = transaction.OriginalLabels
         };
     }
 }
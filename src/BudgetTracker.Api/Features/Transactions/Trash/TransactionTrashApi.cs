@@ -0,0 +1,106 @@
+using System.Security.Claims;
+using BudgetTracker.Api.Auth;
+using BudgetTracker.Api.Features.Transactions.List;
+using BudgetTracker.Api.Infrastructure;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Features.Transactions.Trash;
+
+/// <summary>
+/// Deleted transactions stay in the trash until they are restored or purged
+/// </summary>
+public static class TransactionTrashApi
+{
+    public static IEndpointRouteBuilder MapTransactionTrashEndpoints(this IEndpointRouteBuilder routes)
+    {
+        routes.MapGet("/trash",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal, int page = 1, int pageSize = 20) =>
+            {
+                if (page < 1) page = 1;
+                if (pageSize < 1 || pageSize > 100) pageSize = 20;
+
+                var query = Trashed(db, claimsPrincipal.GetUserId());
+                var totalCount = await query.CountAsync();
+
+                var items = await query
+                    .Include(t => t.Categories)
+                    .Include(t => t.Splits)
+                    .OrderByDescending(t => t.DeletedAt)
+                    .ThenByDescending(t => t.Date)
+                    .Skip((page - 1) * pageSize)
+                    .Take(pageSize)
+                    .ToListAsync();
+
+                return Results.Ok(new PagedResult<TransactionDto>
+                {
+                    Items = items.Select(t => t.MapToDto()).ToList(),
+                    TotalCount = totalCount,
+                    Page = page,
+                    PageSize = pageSize
+                });
+            });
+
+        routes.MapPost("/trash/restore",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal, [FromBody] TrashRequest request) =>
+            {
+                if (request.TransactionIds == null || request.TransactionIds.Count == 0)
+                {
+                    return Results.BadRequest(new { error = "No transactions selected" });
+                }
+
+                var transactions = await Trashed(db, claimsPrincipal.GetUserId())
+                    .Where(t => request.TransactionIds.Contains(t.Id))
+                    .ToListAsync();
+
+                foreach (var transaction in transactions)
+                {
+                    transaction.DeletedAt = null;
+                }
+
+                await db.SaveChangesAsync();
+
+                return Results.Ok(new { restoredCount = transactions.Count });
+            });
+
+        routes.MapPost("/trash/purge",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal, [FromBody] TrashRequest request) =>
+            {
+                if (request.TransactionIds == null || request.TransactionIds.Count == 0)
+                {
+                    return Results.BadRequest(new { error = "No transactions selected" });
+                }
+
+                var transactions = await Trashed(db, claimsPrincipal.GetUserId())
+                    .Where(t => request.TransactionIds.Contains(t.Id))
+                    .ToListAsync();
+
+                db.Transactions.RemoveRange(transactions);
+                await db.SaveChangesAsync();
+
+                return Results.Ok(new { purgedCount = transactions.Count });
+            });
+
+        routes.MapDelete("/trash",
+            async (BudgetTrackerContext db, ClaimsPrincipal claimsPrincipal) =>
+            {
+                var transactions = await Trashed(db, claimsPrincipal.GetUserId()).ToListAsync();
+
+                db.Transactions.RemoveRange(transactions);
+                await db.SaveChangesAsync();
+
+                return Results.Ok(new { purgedCount = transactions.Count });
+            });
+
+        return routes;
+    }
+
+    private static IQueryable<Transaction> Trashed(BudgetTrackerContext db, string userId)
+    {
+        return db.Transactions
+            .IgnoreQueryFilters()
+            .Where(t => t.UserId == userId && t.DeletedAt != null);
+    }
+}
+
+public record TrashRequest(List<Guid> TransactionIds);
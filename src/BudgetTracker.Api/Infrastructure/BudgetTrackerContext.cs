@@ -1,6 +1,15 @@
 using BudgetTracker.Api.Auth;
+using BudgetTracker.Api.Features.Analytics.Insights;
+using BudgetTracker.Api.Features.Budgets;
+using BudgetTracker.Api.Features.Categories;
+using BudgetTracker.Api.Features.Recurring;
+using BudgetTracker.Api.Features.Rules;
 using BudgetTracker.Api.Features.Transactions;
 using BudgetTracker.Api.Features.Transactions.Category;
+using BudgetTracker.Api.Features.Transactions.Import.Duplicates;
+using BudgetTracker.Api.Features.Transactions.Import.History;
+using BudgetTracker.Api.Features.Transactions.Import.Profiles;
+using BudgetTracker.Api.Features.Transactions.Split;
 using BudgetTracker.Api.Features.Intelligence.Recommendations;
 using Microsoft.AspNetCore.Identity.EntityFrameworkCore;
 using Microsoft.EntityFrameworkCore;
@@ -16,7 +25,16 @@ public class BudgetTrackerContext : IdentityDbContext<ApplicationUser>
 
     public DbSet<Transaction> Transactions { get; set; }
     public DbSet<TransactionCategory> TransactionCategories => Set<TransactionCategory>();
+    public DbSet<TransactionSplit> TransactionSplits => Set<TransactionSplit>();
     public DbSet<Recommendation> Recommendations => Set<Recommendation>();
+    public DbSet<ImportProfile> ImportProfiles => Set<ImportProfile>();
+    public DbSet<ImportSession> ImportSessions => Set<ImportSession>();
+    public DbSet<PendingDuplicate> PendingDuplicates => Set<PendingDuplicate>();
+    public DbSet<CategoryDefinition> CategoryDefinitions => Set<CategoryDefinition>();
+    public DbSet<CategorizationRule> CategorizationRules => Set<CategorizationRule>();
+    public DbSet<CategoryBudget> CategoryBudgets => Set<CategoryBudget>();
+    public DbSet<BudgetTargets> BudgetTargets => Set<BudgetTargets>();
+    public DbSet<RecurringPayment> RecurringPayments => Set<RecurringPayment>();
 
     protected override void OnModelCreating(ModelBuilder modelBuilder)
     {
@@ -60,6 +78,9 @@ public class BudgetTrackerContext : IdentityDbContext<ApplicationUser>
                 .WithMany()
                 .HasForeignKey(t => t.UserId)
                 .HasPrincipalKey(u => u.Id);
+
+            // Trashed transactions are left out of every query; the trash opts back in with IgnoreQueryFilters
+            entity.HasQueryFilter(t => t.DeletedAt == null);
         });
 
         // Configure TransactionCategory entity
@@ -84,5 +105,118 @@ public class BudgetTrackerContext : IdentityDbContext<ApplicationUser>
                 .HasForeignKey(tc => tc.TransactionId)
                 .OnDelete(DeleteBehavior.Cascade);
         });
+
+        modelBuilder.Entity<TransactionSplit>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+
+            entity.Property(e => e.Id)
+                .HasDefaultValueSql("gen_random_uuid()");
+
+            entity.HasIndex(e => new { e.TransactionId, e.UserId })
+                .HasDatabaseName("IX_TransactionSplits_TransactionId_UserId");
+
+            entity.HasIndex(e => new { e.CategoryName, e.UserId })
+                .HasDatabaseName("IX_TransactionSplits_CategoryName_UserId");
+
+            entity.HasOne(s => s.Transaction)
+                .WithMany(t => t.Splits)
+                .HasForeignKey(s => s.TransactionId)
+                .OnDelete(DeleteBehavior.Cascade);
+        });
+
+        modelBuilder.Entity<ImportProfile>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+
+            entity.Property(e => e.Id)
+                .HasDefaultValueSql("gen_random_uuid()");
+
+            entity.HasIndex(e => e.UserId)
+                .HasDatabaseName("IX_ImportProfiles_UserId");
+        });
+
+        modelBuilder.Entity<ImportSession>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+
+            entity.Property(e => e.Id)
+                .HasDefaultValueSql("gen_random_uuid()");
+
+            entity.HasIndex(e => new { e.UserId, e.ImportSessionHash })
+                .HasDatabaseName("IX_ImportSessions_UserId_ImportSessionHash")
+                .IsUnique();
+        });
+
+        modelBuilder.Entity<PendingDuplicate>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+
+            entity.Property(e => e.Id)
+                .HasDefaultValueSql("gen_random_uuid()");
+
+            entity.HasIndex(e => new { e.UserId, e.ImportSessionHash, e.RowIndex })
+                .HasDatabaseName("IX_PendingDuplicates_UserId_ImportSessionHash_RowIndex")
+                .IsUnique();
+        });
+
+        modelBuilder.Entity<CategoryDefinition>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+
+            entity.Property(e => e.Id)
+                .HasDefaultValueSql("gen_random_uuid()");
+
+            entity.HasIndex(e => new { e.UserId, e.Name })
+                .HasDatabaseName("IX_CategoryDefinitions_UserId_Name")
+                .IsUnique();
+        });
+
+        modelBuilder.Entity<CategorizationRule>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+
+            entity.Property(e => e.Id)
+                .HasDefaultValueSql("gen_random_uuid()");
+
+            entity.HasIndex(e => new { e.UserId, e.Position })
+                .HasDatabaseName("IX_CategorizationRules_UserId_Position");
+        });
+
+        modelBuilder.Entity<CategoryBudget>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+
+            entity.Property(e => e.Id)
+                .HasDefaultValueSql("gen_random_uuid()");
+
+            entity.HasIndex(e => new { e.UserId, e.CategoryName })
+                .HasDatabaseName("IX_CategoryBudgets_UserId_CategoryName")
+                .IsUnique();
+        });
+
+        modelBuilder.Entity<BudgetTargets>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+
+            entity.Property(e => e.Id)
+                .HasDefaultValueSql("gen_random_uuid()");
+
+            entity.HasIndex(e => e.UserId)
+                .HasDatabaseName("IX_BudgetTargets_UserId")
+                .IsUnique();
+        });
+
+        modelBuilder.Entity<RecurringPayment>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+
+            entity.Property(e => e.Id)
+                .HasDefaultValueSql("gen_random_uuid()");
+
+            entity.HasIndex(e => new { e.UserId, e.MerchantKey })
+                .HasDatabaseName("IX_RecurringPayments_UserId_MerchantKey")
+                .IsUnique();
+        });
     }
 }
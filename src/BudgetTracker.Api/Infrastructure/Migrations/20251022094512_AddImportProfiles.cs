@@ -0,0 +1,50 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BudgetTracker.Api.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddImportProfiles : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "ImportProfiles",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uuid", nullable: false, defaultValueSql: "gen_random_uuid()"),
+                    UserId = table.Column<string>(type: "text", nullable: false),
+                    Name = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: false),
+                    Account = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: false),
+                    ColumnMappings = table.Column<string>(type: "character varying(2000)", maxLength: 2000, nullable: false),
+                    Delimiter = table.Column<string>(type: "character varying(5)", maxLength: 5, nullable: false),
+                    DecimalSeparator = table.Column<string>(type: "character varying(1)", maxLength: 1, nullable: false),
+                    DateFormat = table.Column<string>(type: "character varying(20)", maxLength: 20, nullable: true),
+                    SignConvention = table.Column<int>(type: "integer", nullable: false),
+                    DefaultCategory = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: true),
+                    HeaderSignature = table.Column<string>(type: "character varying(1000)", maxLength: 1000, nullable: true),
+                    CreatedAt = table.Column<DateTime>(type: "timestamptz", nullable: false),
+                    UpdatedAt = table.Column<DateTime>(type: "timestamptz", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_ImportProfiles", x => x.Id);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_ImportProfiles_UserId",
+                table: "ImportProfiles",
+                column: "UserId");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "ImportProfiles");
+        }
+    }
+}
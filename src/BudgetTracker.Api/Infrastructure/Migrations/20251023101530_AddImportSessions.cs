@@ -0,0 +1,53 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BudgetTracker.Api.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddImportSessions : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "ImportSessions",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uuid", nullable: false, defaultValueSql: "gen_random_uuid()"),
+                    UserId = table.Column<string>(type: "text", nullable: false),
+                    ImportSessionHash = table.Column<string>(type: "character varying(32)", maxLength: 32, nullable: false),
+                    SourceFile = table.Column<string>(type: "character varying(255)", maxLength: 255, nullable: false),
+                    Account = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: false),
+                    ImportedAt = table.Column<DateTime>(type: "timestamptz", nullable: false),
+                    TotalRows = table.Column<int>(type: "integer", nullable: false),
+                    ImportedCount = table.Column<int>(type: "integer", nullable: false),
+                    FailedCount = table.Column<int>(type: "integer", nullable: false),
+                    DuplicateCount = table.Column<int>(type: "integer", nullable: false),
+                    DetectionMethod = table.Column<string>(type: "character varying(20)", maxLength: 20, nullable: true),
+                    DetectionConfidence = table.Column<double>(type: "double precision", nullable: true),
+                    EnhancementsApplied = table.Column<bool>(type: "boolean", nullable: false),
+                    EnhancedCount = table.Column<int>(type: "integer", nullable: false),
+                    RolledBackAt = table.Column<DateTime>(type: "timestamptz", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_ImportSessions", x => x.Id);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_ImportSessions_UserId_ImportSessionHash",
+                table: "ImportSessions",
+                columns: new[] { "UserId", "ImportSessionHash" },
+                unique: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "ImportSessions");
+        }
+    }
+}
@@ -0,0 +1,72 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BudgetTracker.Api.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddTransactionOriginalValues : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "OriginalAccount",
+                table: "Transactions",
+                type: "character varying(100)",
+                maxLength: 100,
+                nullable: true);
+
+            migrationBuilder.AddColumn<decimal>(
+                name: "OriginalAmount",
+                table: "Transactions",
+                type: "decimal(18,2)",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "OriginalDate",
+                table: "Transactions",
+                type: "timestamptz",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "OriginalDescription",
+                table: "Transactions",
+                type: "character varying(500)",
+                maxLength: 500,
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "OriginalLabels",
+                table: "Transactions",
+                type: "character varying(200)",
+                maxLength: 200,
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "OriginalAccount",
+                table: "Transactions");
+
+            migrationBuilder.DropColumn(
+                name: "OriginalAmount",
+                table: "Transactions");
+
+            migrationBuilder.DropColumn(
+                name: "OriginalDate",
+                table: "Transactions");
+
+            migrationBuilder.DropColumn(
+                name: "OriginalDescription",
+                table: "Transactions");
+
+            migrationBuilder.DropColumn(
+                name: "OriginalLabels",
+                table: "Transactions");
+        }
+    }
+}
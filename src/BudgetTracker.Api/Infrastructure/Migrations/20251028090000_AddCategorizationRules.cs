@@ -0,0 +1,51 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BudgetTracker.Api.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddCategorizationRules : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "CategorizationRules",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uuid", nullable: false, defaultValueSql: "gen_random_uuid()"),
+                    UserId = table.Column<string>(type: "text", nullable: false),
+                    Name = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: false),
+                    Position = table.Column<int>(type: "integer", nullable: false),
+                    IsEnabled = table.Column<bool>(type: "boolean", nullable: false),
+                    DescriptionPattern = table.Column<string>(type: "character varying(500)", maxLength: 500, nullable: true),
+                    MatchType = table.Column<int>(type: "integer", nullable: false),
+                    MinAmount = table.Column<decimal>(type: "decimal(18,2)", nullable: true),
+                    MaxAmount = table.Column<decimal>(type: "decimal(18,2)", nullable: true),
+                    AmountSign = table.Column<int>(type: "integer", nullable: false),
+                    Account = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: true),
+                    Categories = table.Column<string>(type: "character varying(1000)", maxLength: 1000, nullable: false),
+                    CreatedAt = table.Column<DateTime>(type: "timestamptz", nullable: false),
+                    UpdatedAt = table.Column<DateTime>(type: "timestamptz", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_CategorizationRules", x => x.Id);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_CategorizationRules_UserId_Position",
+                table: "CategorizationRules",
+                columns: new[] { "UserId", "Position" });
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "CategorizationRules");
+        }
+    }
+}
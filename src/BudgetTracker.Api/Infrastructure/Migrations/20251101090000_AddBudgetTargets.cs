@@ -0,0 +1,54 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BudgetTracker.Api.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddBudgetTargets : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "Bucket",
+                table: "CategoryDefinitions",
+                type: "integer",
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "BudgetTargets",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uuid", nullable: false, defaultValueSql: "gen_random_uuid()"),
+                    UserId = table.Column<string>(type: "text", nullable: false),
+                    NeedsPercentage = table.Column<decimal>(type: "decimal(5,2)", nullable: false),
+                    WantsPercentage = table.Column<decimal>(type: "decimal(5,2)", nullable: false),
+                    SavingsPercentage = table.Column<decimal>(type: "decimal(5,2)", nullable: false),
+                    UpdatedAt = table.Column<DateTime>(type: "timestamptz", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_BudgetTargets", x => x.Id);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_BudgetTargets_UserId",
+                table: "BudgetTargets",
+                column: "UserId",
+                unique: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "BudgetTargets");
+
+            migrationBuilder.DropColumn(
+                name: "Bucket",
+                table: "CategoryDefinitions");
+        }
+    }
+}
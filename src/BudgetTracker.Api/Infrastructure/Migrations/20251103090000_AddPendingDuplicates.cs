@@ -0,0 +1,54 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BudgetTracker.Api.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddPendingDuplicates : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "PendingDuplicates",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uuid", nullable: false, defaultValueSql: "gen_random_uuid()"),
+                    UserId = table.Column<string>(type: "text", nullable: false),
+                    ImportSessionHash = table.Column<string>(type: "character varying(32)", maxLength: 32, nullable: false),
+                    RowIndex = table.Column<int>(type: "integer", nullable: false),
+                    Date = table.Column<DateTime>(type: "timestamptz", nullable: false),
+                    Description = table.Column<string>(type: "character varying(500)", maxLength: 500, nullable: false),
+                    Amount = table.Column<decimal>(type: "decimal(18,2)", nullable: false),
+                    Balance = table.Column<decimal>(type: "decimal(18,2)", nullable: true),
+                    Category = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: true),
+                    AdditionalCategories = table.Column<string>(type: "character varying(1000)", maxLength: 1000, nullable: false),
+                    Labels = table.Column<string>(type: "character varying(200)", maxLength: 200, nullable: true),
+                    Account = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: false),
+                    ExistingTransactionId = table.Column<Guid>(type: "uuid", nullable: false),
+                    IsExactMatch = table.Column<bool>(type: "boolean", nullable: false),
+                    Resolution = table.Column<int>(type: "integer", nullable: true),
+                    ResolvedAt = table.Column<DateTime>(type: "timestamptz", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_PendingDuplicates", x => x.Id);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_PendingDuplicates_UserId_ImportSessionHash_RowIndex",
+                table: "PendingDuplicates",
+                columns: new[] { "UserId", "ImportSessionHash", "RowIndex" },
+                unique: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "PendingDuplicates");
+        }
+    }
+}
@@ -0,0 +1,51 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BudgetTracker.Api.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddPendingDuplicateMergeChanges : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<bool>(
+                name: "MergedBalance",
+                table: "PendingDuplicates",
+                type: "boolean",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "MergedCategory",
+                table: "PendingDuplicates",
+                type: "boolean",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<string>(
+                name: "CategoryBeforeMerge",
+                table: "PendingDuplicates",
+                type: "character varying(100)",
+                maxLength: 100,
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "MergedBalance",
+                table: "PendingDuplicates");
+
+            migrationBuilder.DropColumn(
+                name: "MergedCategory",
+                table: "PendingDuplicates");
+
+            migrationBuilder.DropColumn(
+                name: "CategoryBeforeMerge",
+                table: "PendingDuplicates");
+        }
+    }
+}
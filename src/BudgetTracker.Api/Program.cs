@@ -2,10 +2,16 @@ using BudgetTracker.Api.AntiForgery;
 using BudgetTracker.Api.Auth;
 using Microsoft.EntityFrameworkCore;
 using BudgetTracker.Api.Infrastructure;
+using BudgetTracker.Api.Features.Budgets;
+using BudgetTracker.Api.Features.Categories;
+using BudgetTracker.Api.Features.Recurring;
+using BudgetTracker.Api.Features.Rules;
 using BudgetTracker.Api.Features.Transactions;
 using BudgetTracker.Api.Features.Transactions.Import.Processing;
 using BudgetTracker.Api.Features.Transactions.Import.Enhancement;
 using BudgetTracker.Api.Features.Transactions.Import.Detection;
+using BudgetTracker.Api.Features.Transactions.Import.Duplicates;
+using BudgetTracker.Api.Features.Transactions.Import.Jobs;
 using BudgetTracker.Api.Features.Intelligence;
 using BudgetTracker.Api.Features.Intelligence.Search;
 using BudgetTracker.Api.Features.Intelligence.Query;
@@ -65,6 +71,8 @@ builder.Services.AddScoped<ICsvDetector, CsvDetector>();
 builder.Services.AddScoped<ICsvAnalyzer, CsvAnalyzer>();
 builder.Services.AddScoped<IImageImporter, ImageImporter>();
 builder.Services.AddScoped<CsvImporter>();
+builder.Services.AddScoped<IDuplicateDetector, DuplicateDetector>();
+builder.Services.AddSingleton<ImportJobManager>();
 
 // Configure Azure AI
 builder.Services.Configure<AzureAiConfiguration>(
@@ -185,6 +193,10 @@ app
     .MapAntiForgeryEndpoints()
     .MapAuthEndpoints()
     .MapTransactionEndpoints()
+    .MapCategoriesEndpoints()
+    .MapRulesEndpoints()
+    .MapBudgetsEndpoints()
+    .MapRecurringEndpoints()
     .MapIntelligenceEndpoints()
     .MapAnalyticsEndpoints();
 
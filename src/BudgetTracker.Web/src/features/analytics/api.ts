@@ -1,9 +1,40 @@
 import apiClient from '../../api/client';
-import type { BudgetInsights } from './types';
+import type {
+  BudgetInsights,
+  GetInsightsParams,
+  InsightsSettings,
+  SaveInsightsSettingsRequest,
+  SpendingCharts
+} from './types';
+
+function handleError(message: string, error: unknown): void {
+  console.error(message, error);
+  throw new Error(message);
+}
 
 export const analyticsApi = {
-  async getInsights(): Promise<BudgetInsights> {
-    const response = await apiClient.get<BudgetInsights>('/insights');
+  async getInsights(params: GetInsightsParams = {}): Promise<BudgetInsights> {
+    const response = await apiClient.get<BudgetInsights>('/insights', { params });
+    return response.data;
+  },
+
+  async getCharts(params: Omit<GetInsightsParams, 'compareFrom' | 'compareTo'> = {}): Promise<SpendingCharts> {
+    const response = await apiClient.get<SpendingCharts>('/insights/charts', { params });
     return response.data;
+  },
+
+  async getSettings(): Promise<InsightsSettings> {
+    const response = await apiClient.get<InsightsSettings>('/insights/settings');
+    return response.data;
+  },
+
+  async saveSettings(request: SaveInsightsSettingsRequest): Promise<InsightsSettings> {
+    try {
+      const response = await apiClient.put<InsightsSettings>('/insights/settings', request);
+      return response.data;
+    } catch (error) {
+      handleError('Failed to save budget targets', error);
+      throw error;
+    }
   }
 };
\ No newline at end of file
@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { useToast } from '../../../shared/contexts/ToastContext';
+import { analyticsApi } from '../api';
+import type { BudgetBucket, BudgetTargets, InsightsSettings } from '../types';
+
+interface BudgetTargetsSettingsProps {
+  settings: InsightsSettings;
+}
+
+const BUCKETS: BudgetBucket[] = ['Needs', 'Wants', 'Savings'];
+
+const TARGET_FIELDS: { key: keyof BudgetTargets; label: string; hint: string }[] = [
+  { key: 'needsPercentage', label: 'Needs', hint: 'at most' },
+  { key: 'wantsPercentage', label: 'Wants', hint: 'at most' },
+  { key: 'savingsPercentage', label: 'Savings', hint: 'at least' }
+];
+
+const DEFAULT_TARGETS: BudgetTargets = { needsPercentage: 50, wantsPercentage: 30, savingsPercentage: 20 };
+
+const inputClassName = 'w-full border border-neutral-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+function toDraft(targets: BudgetTargets): Record<keyof BudgetTargets, string> {
+  return {
+    needsPercentage: String(targets.needsPercentage),
+    wantsPercentage: String(targets.wantsPercentage),
+    savingsPercentage: String(targets.savingsPercentage)
+  };
+}
+
+export function BudgetTargetsSettings({ settings: initialSettings }: BudgetTargetsSettingsProps) {
+  const { showSuccess, showError } = useToast();
+  const [settings, setSettings] = useState(initialSettings);
+  const [targets, setTargets] = useState(() => toDraft(initialSettings.targets));
+  // Pending bucket changes by category. Null goes back to the default.
+  const [bucketChanges, setBucketChanges] = useState<Record<string, BudgetBucket | null>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const values = TARGET_FIELDS.map(field => Number(targets[field.key]));
+  const isValid = TARGET_FIELDS.every(field => targets[field.key].trim() !== '') &&
+    values.every(value => Number.isFinite(value) && value >= 0 && value <= 100);
+  const total = values.reduce((sum, value) => sum + (Number.isFinite(value) ? value : 0), 0);
+  const error = !isValid
+    ? 'Each target must be between 0 and 100'
+    : Math.abs(total - 100) > 0.001 ? `Targets add up to ${total}%, not 100%` : undefined;
+
+  const handleSave = async () => {
+    if (error) return;
+
+    setIsSaving(true);
+    try {
+      const saved = await analyticsApi.saveSettings({
+        needsPercentage: Number(targets.needsPercentage),
+        wantsPercentage: Number(targets.wantsPercentage),
+        savingsPercentage: Number(targets.savingsPercentage),
+        buckets: Object.entries(bucketChanges).map(([category, bucket]) => ({ category, bucket }))
+      });
+      setSettings(saved);
+      setTargets(toDraft(saved.targets));
+      setBucketChanges({});
+      showSuccess('Targets Saved', 'Insights now measure your spending against them.');
+    } catch {
+      showError('Save Failed', 'Please check the targets and try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-neutral-200 p-6 space-y-6">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-gray-600">
+            The share of your spending to aim for in each bucket. Insights flag any bucket that misses its target.
+          </p>
+          <button
+            onClick={() => setTargets(toDraft(DEFAULT_TARGETS))}
+            className="cursor-pointer shrink-0 text-sm font-medium text-indigo-600 hover:text-indigo-700 transition-colors"
+          >
+            Use 50/30/20
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          {TARGET_FIELDS.map(field => (
+            <div key={field.key}>
+              <label htmlFor={`target-${field.key}`} className="block text-sm font-medium text-gray-700 mb-1">
+                {field.label} <span className="font-normal text-gray-500">({field.hint})</span>
+              </label>
+              <div className="relative">
+                <input
+                  id={`target-${field.key}`}
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="1"
+                  value={targets[field.key]}
+                  onChange={(e) => setTargets(prev => ({ ...prev, [field.key]: e.target.value }))}
+                  className={`${inputClassName} pr-8`}
+                />
+                <span className="absolute right-3 top-2 text-sm text-gray-500">%</span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+
+      <div className="space-y-3">
+        <p className="text-sm text-gray-600">
+          Which bucket each category counts toward. Subcategories follow their parent unless given a bucket of their own.
+        </p>
+
+        {settings.categories.length === 0 ? (
+          <p className="text-sm text-gray-500">Categories show up here once your transactions use them.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 border border-neutral-100 rounded-lg">
+            {settings.categories.map(category => {
+              const change = bucketChanges[category.category];
+              const value = change !== undefined ? change ?? '' : category.isDefault ? '' : category.bucket;
+
+              return (
+                <li key={category.category} className="flex items-center justify-between gap-4 px-4 py-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{category.category}</p>
+                    {category.parentName && <p className="text-xs text-gray-500">in {category.parentName}</p>}
+                  </div>
+                  <select
+                    value={value}
+                    onChange={(e) => setBucketChanges(prev => ({
+                      ...prev,
+                      [category.category]: (e.target.value || null) as BudgetBucket | null
+                    }))}
+                    aria-label={`Bucket for ${category.category}`}
+                    className="border border-neutral-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <option value="">Default{category.isDefault ? ` (${category.bucket})` : ''}</option>
+                    {BUCKETS.map(bucket => (
+                      <option key={bucket} value={bucket}>{bucket}</option>
+                    ))}
+                  </select>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !!error}
+          className="cursor-pointer px-3 py-2 rounded-md bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isSaving ? 'Saving…' : 'Save Targets'}
+        </button>
+      </div>
+    </div>
+  );
+}
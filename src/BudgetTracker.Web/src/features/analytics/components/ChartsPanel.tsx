@@ -0,0 +1,150 @@
+import type { ReactNode } from 'react';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { formatCurrency } from '../../../shared/utils/formatters';
+import type { SpendingCharts } from '../types';
+import {
+  formatAxisAmount,
+  formatMonthLabel,
+  getLabelInterval,
+  getMonthRange,
+  getTopCategories,
+  getTransactionsLink
+} from '../utils/charts';
+import { CategoryDonut } from './charts/CategoryDonut';
+import { LineChart } from './charts/LineChart';
+import { MonthlySpendChart } from './charts/MonthlySpendChart';
+
+interface ChartsPanelProps {
+  charts: SpendingCharts;
+  /** The dashboard period the charts cover, carried over to the transactions they link to */
+  period: { dateFrom?: string; dateTo?: string; account?: string };
+}
+
+interface ChartCardProps {
+  title: string;
+  legend?: ReactNode;
+  isEmpty: boolean;
+  children: ReactNode;
+}
+
+const ChartCard = ({ title, legend, isEmpty, children }: ChartCardProps) => (
+  <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+    <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+      <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+      {!isEmpty && legend}
+    </div>
+    {isEmpty ? (
+      <p className="text-sm text-gray-500 py-12 text-center">No transactions in this period</p>
+    ) : children}
+  </div>
+);
+
+const LegendItem = ({ label, className }: { label: string; className: string }) => (
+  <span className="flex items-center gap-1.5 text-xs text-gray-600">
+    <span className={`w-3 h-0.5 rounded ${className}`} />
+    {label}
+  </span>
+);
+
+const BALANCE_LABELS = 6;
+
+export function ChartsPanel({ charts, period }: ChartsPanelProps) {
+  const { categories, months, balance } = charts;
+  const { account } = period;
+  const segments = getTopCategories(categories);
+  const hasFlow = months.some(month => month.income > 0 || month.expenses > 0);
+
+  const balanceStart = balance.length > 0 ? parseISO(balance[0].date) : new Date();
+  const balanceX = (date: string) => differenceInCalendarDays(parseISO(date), balanceStart);
+  const balanceLabelInterval = getLabelInterval(balance.length, BALANCE_LABELS);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <ChartCard title="Spending by Category" isEmpty={segments.length === 0}>
+        <CategoryDonut
+          segments={segments}
+          getLink={segment => segment.category
+            ? getTransactionsLink({ ...period, category: segment.category, type: 'expense' })
+            : undefined}
+        />
+      </ChartCard>
+
+      <ChartCard title="Monthly Spending" isEmpty={segments.length === 0}>
+        <MonthlySpendChart
+          months={months}
+          segments={segments}
+          getLink={(month, segment) => segment.category
+            ? getTransactionsLink({ ...getMonthRange(month, period), account, category: segment.category, type: 'expense' })
+            : undefined}
+        />
+      </ChartCard>
+
+      <ChartCard
+        title="Income vs Expenses"
+        isEmpty={!hasFlow}
+        legend={
+          <div className="flex gap-3">
+            <LegendItem label="Income" className="bg-green-500" />
+            <LegendItem label="Expenses" className="bg-red-500" />
+          </div>
+        }
+      >
+        <LineChart
+          ariaLabel="Monthly income and expenses"
+          formatY={formatAxisAmount}
+          xLabels={months.map((month, index) => ({
+            x: index,
+            label: index % getLabelInterval(months.length) === 0 ? formatMonthLabel(month.month) : ''
+          }))}
+          series={[
+            {
+              key: 'income',
+              strokeClassName: 'stroke-green-500',
+              fillClassName: 'fill-green-500',
+              points: months.map((month, index) => ({
+                x: index,
+                y: month.income,
+                title: `${formatMonthLabel(month.month)} • Income: ${formatCurrency(month.income)}`,
+                link: getTransactionsLink({ ...getMonthRange(month.month, period), account, type: 'income' })
+              }))
+            },
+            {
+              key: 'expenses',
+              strokeClassName: 'stroke-red-500',
+              fillClassName: 'fill-red-500',
+              points: months.map((month, index) => ({
+                x: index,
+                y: month.expenses,
+                title: `${formatMonthLabel(month.month)} • Expenses: ${formatCurrency(month.expenses)}`,
+                link: getTransactionsLink({ ...getMonthRange(month.month, period), account, type: 'expense' })
+              }))
+            }
+          ]}
+        />
+      </ChartCard>
+
+      <ChartCard title="Balance Over Time" isEmpty={balance.length === 0}>
+        <LineChart
+          ariaLabel="Running balance"
+          formatY={formatAxisAmount}
+          xLabels={balance
+            .filter((_, index) => index % balanceLabelInterval === 0)
+            .map(point => ({ x: balanceX(point.date), label: format(parseISO(point.date), 'MMM d') }))}
+          series={[
+            {
+              key: 'balance',
+              strokeClassName: 'stroke-indigo-500',
+              fillClassName: 'fill-indigo-500',
+              points: balance.map(point => ({
+                x: balanceX(point.date),
+                y: point.balance,
+                title: `${format(parseISO(point.date), 'MMM d, yyyy')} • ${formatCurrency(point.balance)}`,
+                link: getTransactionsLink({ account, dateFrom: point.date, dateTo: point.date })
+              }))
+            }
+          ]}
+        />
+      </ChartCard>
+    </div>
+  );
+}
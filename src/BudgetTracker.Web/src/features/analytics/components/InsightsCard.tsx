@@ -1,3 +1,4 @@
+import { Link } from 'react-router-dom';
 import type { BudgetInsights } from '../types';
 
 interface InsightsCardProps {
@@ -19,8 +20,69 @@ const AlertIcon = () => (
   </svg>
 );
 
+interface DeltaProps {
+  change: number;
+  label: string;
+  /** Whether a rise is good news, which decides the color */
+  higherIsBetter: boolean;
+}
+
+const Delta = ({ change, label, higherIsBetter }: DeltaProps) => {
+  if (change === 0) {
+    return <span className="text-gray-500">no change</span>;
+  }
+
+  const isGood = change > 0 === higherIsBetter;
+  return (
+    <span className={`font-medium ${isGood ? 'text-green-600' : 'text-red-600'}`}>
+      {change > 0 ? '▲' : '▼'} {label}
+    </span>
+  );
+};
+
 export function InsightsCard({ insights }: InsightsCardProps) {
-  const { budgetBreakdown, summary, health } = insights;
+  const { budgetBreakdown, summary, health, targets, comparison } = insights;
+  const previous = comparison?.budgetBreakdown;
+
+  // Needs and wants are ceilings, savings a floor
+  const buckets = [
+    {
+      label: 'Needs',
+      color: 'bg-blue-500',
+      percentage: budgetBreakdown.needsPercentage,
+      amount: budgetBreakdown.needsAmount,
+      previousPercentage: previous?.needsPercentage,
+      previousAmount: previous?.needsAmount,
+      higherIsBetter: false,
+      target: targets.needsPercentage,
+      targetLabel: `at most ${targets.needsPercentage}%`,
+      isMet: budgetBreakdown.needsPercentage <= targets.needsPercentage
+    },
+    {
+      label: 'Wants',
+      color: 'bg-purple-500',
+      percentage: budgetBreakdown.wantsPercentage,
+      amount: budgetBreakdown.wantsAmount,
+      previousPercentage: previous?.wantsPercentage,
+      previousAmount: previous?.wantsAmount,
+      higherIsBetter: false,
+      target: targets.wantsPercentage,
+      targetLabel: `at most ${targets.wantsPercentage}%`,
+      isMet: budgetBreakdown.wantsPercentage <= targets.wantsPercentage
+    },
+    {
+      label: 'Savings',
+      color: 'bg-green-500',
+      percentage: budgetBreakdown.savingsPercentage,
+      amount: budgetBreakdown.savingsAmount,
+      previousPercentage: previous?.savingsPercentage,
+      previousAmount: previous?.savingsAmount,
+      higherIsBetter: true,
+      target: targets.savingsPercentage,
+      targetLabel: `at least ${targets.savingsPercentage}%`,
+      isMet: budgetBreakdown.savingsPercentage >= targets.savingsPercentage
+    }
+  ];
 
   const formatAmount = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -31,6 +93,8 @@ export function InsightsCard({ insights }: InsightsCardProps) {
     }).format(amount);
   };
 
+  const formatPoints = (points: number) => `${Math.abs(Math.round(points * 10) / 10)} pts`;
+
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
       <div className="flex items-center justify-between mb-4">
@@ -45,52 +109,61 @@ export function InsightsCard({ insights }: InsightsCardProps) {
         </div>
       </div>
 
+      {previous && (
+        <div className="flex justify-between items-center gap-3 mb-4 pb-4 border-b border-gray-200 text-sm">
+          <span className="font-medium text-gray-700">Total spending</span>
+          <span className="text-right">
+            <span className="text-gray-900">{formatAmount(budgetBreakdown.totalExpenses)}</span>
+            <span className="text-gray-500"> vs {formatAmount(previous.totalExpenses)} • </span>
+            <Delta
+              change={budgetBreakdown.totalExpenses - previous.totalExpenses}
+              label={formatAmount(Math.abs(budgetBreakdown.totalExpenses - previous.totalExpenses))}
+              higherIsBetter={false}
+            />
+          </span>
+        </div>
+      )}
+
       {budgetBreakdown.totalExpenses > 0 && (
         <div className="space-y-4 mb-6">
-          <div className="space-y-3">
-            <div className="flex justify-between items-center">
-              <span className="text-sm font-medium text-gray-700">Needs</span>
-              <span className="text-sm text-gray-900">
-                {budgetBreakdown.needsPercentage}% • {formatAmount(budgetBreakdown.needsAmount)}
-              </span>
+          {buckets.map(bucket => (
+            <div key={bucket.label} className="space-y-3">
+              <div className="flex justify-between items-center">
+                <span className="text-sm font-medium text-gray-700">{bucket.label}</span>
+                <span className="text-sm text-gray-900">
+                  {bucket.percentage}% • {formatAmount(bucket.amount)}
+                </span>
+              </div>
+              <div className="relative w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className={`${bucket.color} h-2 rounded-full`}
+                  style={{ width: `${Math.min(bucket.percentage, 100)}%` }}
+                ></div>
+                <div
+                  className="absolute -top-1 -bottom-1 w-0.5 bg-gray-700"
+                  style={{ left: `${bucket.target}%` }}
+                  title={`Target: ${bucket.targetLabel}`}
+                ></div>
+              </div>
+              <div className="flex justify-between gap-3 text-xs">
+                <span className={bucket.isMet ? 'text-gray-500' : 'text-yellow-700'}>
+                  Target {bucket.targetLabel}
+                </span>
+                {bucket.previousPercentage !== undefined && bucket.previousAmount !== undefined && (
+                  <span className="text-right">
+                    <span className="text-gray-500">
+                      was {bucket.previousPercentage}% • {formatAmount(bucket.previousAmount)} •{' '}
+                    </span>
+                    <Delta
+                      change={bucket.percentage - bucket.previousPercentage}
+                      label={formatPoints(bucket.percentage - bucket.previousPercentage)}
+                      higherIsBetter={bucket.higherIsBetter}
+                    />
+                  </span>
+                )}
+              </div>
             </div>
-            <div className="w-full bg-gray-200 rounded-full h-2">
-              <div
-                className="bg-blue-500 h-2 rounded-full"
-                style={{ width: `${budgetBreakdown.needsPercentage}%` }}
-              ></div>
-            </div>
-          </div>
-
-          <div className="space-y-3">
-            <div className="flex justify-between items-center">
-              <span className="text-sm font-medium text-gray-700">Wants</span>
-              <span className="text-sm text-gray-900">
-                {budgetBreakdown.wantsPercentage}% • {formatAmount(budgetBreakdown.wantsAmount)}
-              </span>
-            </div>
-            <div className="w-full bg-gray-200 rounded-full h-2">
-              <div
-                className="bg-purple-500 h-2 rounded-full"
-                style={{ width: `${budgetBreakdown.wantsPercentage}%` }}
-              ></div>
-            </div>
-          </div>
-
-          <div className="space-y-3">
-            <div className="flex justify-between items-center">
-              <span className="text-sm font-medium text-gray-700">Savings</span>
-              <span className="text-sm text-gray-900">
-                {budgetBreakdown.savingsPercentage}% • {formatAmount(budgetBreakdown.savingsAmount)}
-              </span>
-            </div>
-            <div className="w-full bg-gray-200 rounded-full h-2">
-              <div
-                className="bg-green-500 h-2 rounded-full"
-                style={{ width: `${budgetBreakdown.savingsPercentage}%` }}
-              ></div>
-            </div>
-          </div>
+          ))}
         </div>
       )}
 
@@ -99,7 +172,7 @@ export function InsightsCard({ insights }: InsightsCardProps) {
 
         {health.areas.length > 0 && (
           <div className="mt-3">
-            <p className="text-xs font-medium text-gray-700 mb-2">Areas for improvement:</p>
+            <p className="text-xs font-medium text-gray-700 mb-2">Compared with your targets:</p>
             <ul className="space-y-1">
               {health.areas.map((area, index) => (
                 <li key={index} className="text-xs text-gray-600 flex items-start">
@@ -110,6 +183,10 @@ export function InsightsCard({ insights }: InsightsCardProps) {
             </ul>
           </div>
         )}
+
+        <Link to="/settings" className="inline-block mt-3 text-xs font-medium text-indigo-600 hover:text-indigo-700 transition-colors">
+          Change targets
+        </Link>
       </div>
     </div>
   );
@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { transactionsApi } from '../../transactions/api';
+import {
+  INSIGHTS_PERIOD_PRESETS,
+  getInsightsPeriodSelection,
+  getPeriodRange,
+  getPreviousPeriodRange,
+  formatPeriod
+} from '../utils/insightsPeriod';
+
+const inputClassName = 'bg-white border border-neutral-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent hover:border-neutral-400 transition-colors';
+
+export function PeriodSelector() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [accounts, setAccounts] = useState<string[]>([]);
+  const selection = getInsightsPeriodSelection(searchParams);
+  const range = getPeriodRange(selection);
+  const previous = getPreviousPeriodRange(selection);
+
+  useEffect(() => {
+    const fetchFilters = async () => {
+      try {
+        const filters = await transactionsApi.getFilters();
+        setAccounts(filters.accounts);
+      } catch (error) {
+        console.error('Failed to fetch filters:', error);
+      }
+    };
+    fetchFilters();
+  }, []);
+
+  const updateParams = (changes: Record<string, string>) => {
+    setSearchParams(prev => {
+      const newParams = new URLSearchParams(prev);
+      for (const [key, value] of Object.entries(changes)) {
+        if (value) {
+          newParams.set(key, value);
+        } else {
+          newParams.delete(key);
+        }
+      }
+      return newParams;
+    });
+  };
+
+  const handlePresetChange = (preset: string) => {
+    // A custom range starts from the dates of the period being left, so there is something to adjust
+    updateParams(preset === 'custom'
+      ? { period: preset, dateFrom: range.dateFrom ?? '', dateTo: range.dateTo ?? '' }
+      : { period: preset === 'all' ? '' : preset, dateFrom: '', dateTo: '' });
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-neutral-200 p-4 shadow-sm flex flex-wrap items-center gap-3">
+      <select
+        value={selection.preset}
+        onChange={(e) => handlePresetChange(e.target.value)}
+        aria-label="Period"
+        className={`${inputClassName} cursor-pointer`}
+      >
+        {INSIGHTS_PERIOD_PRESETS.map(preset => (
+          <option key={preset.value} value={preset.value}>{preset.label}</option>
+        ))}
+      </select>
+
+      {selection.preset === 'custom' && (
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={selection.dateFrom ?? ''}
+            max={selection.dateTo}
+            onChange={(e) => updateParams({ dateFrom: e.target.value })}
+            aria-label="From date"
+            className={inputClassName}
+          />
+          <span className="text-sm text-gray-500">to</span>
+          <input
+            type="date"
+            value={selection.dateTo ?? ''}
+            min={selection.dateFrom}
+            onChange={(e) => updateParams({ dateTo: e.target.value })}
+            aria-label="To date"
+            className={inputClassName}
+          />
+        </div>
+      )}
+
+      <select
+        value={selection.account ?? ''}
+        onChange={(e) => updateParams({ account: e.target.value })}
+        aria-label="Account"
+        className={`${inputClassName} cursor-pointer`}
+      >
+        <option value="">All accounts</option>
+        {accounts.map(account => (
+          <option key={account} value={account}>{account}</option>
+        ))}
+      </select>
+
+      <label
+        className={`flex items-center gap-2 text-sm font-medium ${previous ? 'text-gray-700 cursor-pointer' : 'text-gray-400 cursor-not-allowed'}`}
+        title={previous ? undefined : 'Choose a period with a start and end date to compare it'}
+      >
+        <input
+          type="checkbox"
+          checked={selection.compare && !!previous}
+          disabled={!previous}
+          onChange={(e) => updateParams({ compare: e.target.checked ? 'true' : '' })}
+          className="w-4 h-4 text-indigo-600 border-neutral-300 rounded focus:ring-indigo-500 focus:ring-2 cursor-pointer disabled:cursor-not-allowed"
+        />
+        Compare with previous period
+      </label>
+
+      <span className="text-sm text-gray-500 sm:ml-auto">
+        {formatPeriod(range.dateFrom, range.dateTo)}
+        {selection.compare && previous && ` vs ${formatPeriod(previous.dateFrom, previous.dateTo)}`}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { formatCurrency, getCategoryFillColor } from '../../../../shared/utils/formatters';
+import { describeDonutSlice, type CategorySegment } from '../../utils/charts';
+
+interface CategoryDonutProps {
+  segments: CategorySegment[];
+  /** Where a category's slice leads, or undefined when it can't be looked up */
+  getLink: (segment: CategorySegment) => string | undefined;
+}
+
+const SIZE = 180;
+const OUTER_RADIUS = 88;
+const INNER_RADIUS = 56;
+
+export function CategoryDonut({ segments, getLink }: CategoryDonutProps) {
+  const [hovered, setHovered] = useState<string | null>(null);
+  const total = segments.reduce((sum, segment) => sum + segment.amount, 0);
+  const active = segments.find(segment => segment.label === hovered);
+
+  let angle = 0;
+  const slices = segments.map(segment => {
+    const startAngle = angle;
+    angle += total > 0 ? (segment.amount / total) * Math.PI * 2 : 0;
+    return { segment, path: describeDonutSlice(SIZE / 2, OUTER_RADIUS, INNER_RADIUS, startAngle, angle) };
+  });
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center gap-6">
+      <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-44 h-44 shrink-0" role="img" aria-label="Spending by category">
+        {slices.map(({ segment, path }) => {
+          const link = getLink(segment);
+          const slice = (
+            <path
+              d={path}
+              className={`${segment.category ? getCategoryFillColor(segment.category) : 'fill-gray-400'} transition-opacity ${
+                hovered && hovered !== segment.label ? 'opacity-40' : ''
+              }`}
+              onMouseEnter={() => setHovered(segment.label)}
+              onMouseLeave={() => setHovered(null)}
+            >
+              <title>{`${segment.label}: ${formatCurrency(segment.amount)}`}</title>
+            </path>
+          );
+
+          return link
+            ? <Link key={segment.label} to={link} aria-label={`${segment.label} transactions`}>{slice}</Link>
+            : <g key={segment.label}>{slice}</g>;
+        })}
+        <text x={SIZE / 2} y={SIZE / 2 - 4} textAnchor="middle" className="fill-gray-500 text-[11px]">
+          {active ? active.label : 'Total'}
+        </text>
+        <text x={SIZE / 2} y={SIZE / 2 + 14} textAnchor="middle" className="fill-gray-900 text-[14px] font-semibold">
+          {formatCurrency(active ? active.amount : total)}
+        </text>
+      </svg>
+
+      <ul className="w-full space-y-1.5">
+        {segments.map(segment => {
+          const link = getLink(segment);
+          const content = (
+            <>
+              <span className="flex items-center gap-2 min-w-0">
+                <svg viewBox="0 0 10 10" className="w-2.5 h-2.5 shrink-0" aria-hidden="true">
+                  <circle cx="5" cy="5" r="5" className={segment.category ? getCategoryFillColor(segment.category) : 'fill-gray-400'} />
+                </svg>
+                <span className="truncate">{segment.label}</span>
+              </span>
+              <span className="shrink-0 text-gray-500">
+                {formatCurrency(segment.amount)} • {total > 0 ? Math.round((segment.amount / total) * 100) : 0}%
+              </span>
+            </>
+          );
+
+          return (
+            <li
+              key={segment.label}
+              onMouseEnter={() => setHovered(segment.label)}
+              onMouseLeave={() => setHovered(null)}
+            >
+              {link ? (
+                <Link to={link} className="flex justify-between gap-3 text-sm text-gray-700 hover:text-indigo-700 transition-colors">
+                  {content}
+                </Link>
+              ) : (
+                <div className="flex justify-between gap-3 text-sm text-gray-700">{content}</div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
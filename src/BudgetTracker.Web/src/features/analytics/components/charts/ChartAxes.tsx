@@ -0,0 +1,39 @@
+import { CHART_HEIGHT, CHART_MARGIN, CHART_WIDTH } from '../../utils/charts';
+
+interface ChartAxesProps {
+  ticks: number[];
+  /** Maps a value to its vertical position */
+  y: (value: number) => number;
+  formatTick: (value: number) => string;
+  /** Labels along the bottom; empty labels are skipped */
+  labels: { x: number; label: string }[];
+}
+
+/**
+ * Horizontal gridlines with their values on the left and labels along the bottom
+ */
+export function ChartAxes({ ticks, y, formatTick, labels }: ChartAxesProps) {
+  return (
+    <g aria-hidden="true">
+      {ticks.map(tick => (
+        <g key={tick}>
+          <line
+            x1={CHART_MARGIN.left}
+            x2={CHART_WIDTH - CHART_MARGIN.right}
+            y1={y(tick)}
+            y2={y(tick)}
+            className={tick === 0 ? 'stroke-gray-300' : 'stroke-gray-100'}
+          />
+          <text x={CHART_MARGIN.left - 6} y={y(tick) + 4} textAnchor="end" className="fill-gray-500 text-[11px]">
+            {formatTick(tick)}
+          </text>
+        </g>
+      ))}
+      {labels.filter(({ label }) => label).map(({ x, label }) => (
+        <text key={`${x}-${label}`} x={x} y={CHART_HEIGHT - 6} textAnchor="middle" className="fill-gray-500 text-[11px]">
+          {label}
+        </text>
+      ))}
+    </g>
+  );
+}
@@ -0,0 +1,75 @@
+import { Link } from 'react-router-dom';
+import { CHART_HEIGHT, CHART_MARGIN, CHART_WIDTH, getNiceRange } from '../../utils/charts';
+import { ChartAxes } from './ChartAxes';
+
+export interface LinePoint {
+  x: number;
+  y: number;
+  /** Shown on hover */
+  title: string;
+  link?: string;
+}
+
+export interface LineSeries {
+  key: string;
+  strokeClassName: string;
+  fillClassName: string;
+  points: LinePoint[];
+}
+
+interface LineChartProps {
+  series: LineSeries[];
+  /** Labels along the bottom, positioned in the same units as the points' x */
+  xLabels: { x: number; label: string }[];
+  formatY: (value: number) => string;
+  ariaLabel: string;
+}
+
+export function LineChart({ series, xLabels, formatY, ariaLabel }: LineChartProps) {
+  const points = series.flatMap(line => line.points);
+  const xs = [...points.map(point => point.x), ...xLabels.map(label => label.x)];
+  const ys = points.map(point => point.y);
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const ticks = getNiceRange(Math.min(0, ...ys), Math.max(0, ...ys));
+  const minY = ticks[0];
+  const maxY = ticks[ticks.length - 1];
+
+  const plotWidth = CHART_WIDTH - CHART_MARGIN.left - CHART_MARGIN.right;
+  const plotHeight = CHART_HEIGHT - CHART_MARGIN.top - CHART_MARGIN.bottom;
+  // A single point sits in the middle rather than against the axis
+  const x = (value: number) => CHART_MARGIN.left + (maxX > minX ? ((value - minX) / (maxX - minX)) * plotWidth : plotWidth / 2);
+  const y = (value: number) => CHART_MARGIN.top + plotHeight - (maxY > minY ? ((value - minY) / (maxY - minY)) * plotHeight : 0);
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label={ariaLabel}>
+      <ChartAxes ticks={ticks} y={y} formatTick={formatY} labels={xLabels.map(label => ({ ...label, x: x(label.x) }))} />
+
+      {series.map(line => (
+        <g key={line.key}>
+          <polyline
+            points={line.points.map(point => `${x(point.x)},${y(point.y)}`).join(' ')}
+            fill="none"
+            strokeWidth={2}
+            strokeLinejoin="round"
+            className={line.strokeClassName}
+          />
+          {line.points.map(point => {
+            const marker = (
+              <g className="group">
+                {/* A wider invisible target so small markers are easy to hit */}
+                <circle cx={x(point.x)} cy={y(point.y)} r={7} className="fill-transparent" />
+                <circle cx={x(point.x)} cy={y(point.y)} r={2.5} className={`${line.fillClassName} group-hover:opacity-60`} />
+                <title>{point.title}</title>
+              </g>
+            );
+
+            return point.link
+              ? <Link key={point.x} to={point.link} aria-label={point.title}>{marker}</Link>
+              : <g key={point.x}>{marker}</g>;
+          })}
+        </g>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,101 @@
+import { Link } from 'react-router-dom';
+import { formatCurrency, getCategoryFillColor } from '../../../../shared/utils/formatters';
+import type { MonthlyFlow } from '../../types';
+import {
+  CHART_HEIGHT,
+  CHART_MARGIN,
+  CHART_WIDTH,
+  UNCATEGORIZED_LABEL,
+  formatAxisAmount,
+  formatMonthLabel,
+  getLabelInterval,
+  getNiceTicks,
+  type CategorySegment
+} from '../../utils/charts';
+import { ChartAxes } from './ChartAxes';
+
+interface MonthlySpendChartProps {
+  months: MonthlyFlow[];
+  /** The categories stacked in every bar; anything else joins the "Other" segment */
+  segments: CategorySegment[];
+  getLink: (month: string, segment: CategorySegment) => string | undefined;
+}
+
+function getMonthAmount(month: MonthlyFlow, segment: CategorySegment, stacked: Set<string | null>): number {
+  if (segment.category) {
+    return month.categories.find(c => c.category === segment.category)?.amount ?? 0;
+  }
+  if (segment.label === UNCATEGORIZED_LABEL) {
+    return month.categories.find(c => !c.category)?.amount ?? 0;
+  }
+  return month.categories
+    .filter(c => !stacked.has(c.category ?? null))
+    .reduce((sum, c) => sum + c.amount, 0);
+}
+
+export function MonthlySpendChart({ months, segments, getLink }: MonthlySpendChartProps) {
+  const stacked = new Set(segments
+    .filter(segment => segment.category || segment.label === UNCATEGORIZED_LABEL)
+    .map(segment => segment.category ?? null));
+
+  const bars = months.map(month => {
+    let offset = 0;
+    const parts = segments.map(segment => {
+      const amount = getMonthAmount(month, segment, stacked);
+      const part = { segment, amount, offset };
+      offset += amount;
+      return part;
+    });
+    return { month, parts, total: offset };
+  });
+
+  const ticks = getNiceTicks(Math.max(0, ...bars.map(bar => bar.total)));
+  const max = ticks[ticks.length - 1] || 1;
+  const plotWidth = CHART_WIDTH - CHART_MARGIN.left - CHART_MARGIN.right;
+  const plotHeight = CHART_HEIGHT - CHART_MARGIN.top - CHART_MARGIN.bottom;
+  const slot = plotWidth / Math.max(months.length, 1);
+  const barWidth = Math.min(40, slot * 0.7);
+  const labelInterval = getLabelInterval(months.length);
+  const y = (amount: number) => CHART_MARGIN.top + plotHeight - (amount / max) * plotHeight;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Monthly spending by category">
+      <ChartAxes
+        ticks={ticks}
+        y={y}
+        formatTick={formatAxisAmount}
+        labels={months.map((month, index) => ({
+          x: CHART_MARGIN.left + slot * (index + 0.5),
+          label: index % labelInterval === 0 ? formatMonthLabel(month.month) : ''
+        }))}
+      />
+
+      {bars.map((bar, index) => {
+        const x = CHART_MARGIN.left + slot * (index + 0.5) - barWidth / 2;
+
+        return (
+          <g key={bar.month.month}>
+            {bar.parts.filter(part => part.amount > 0).map(part => {
+              const link = getLink(bar.month.month, part.segment);
+              const rect = (
+                <rect
+                  x={x}
+                  y={y(part.offset + part.amount)}
+                  width={barWidth}
+                  height={Math.max(0, y(part.offset) - y(part.offset + part.amount))}
+                  className={`${part.segment.category ? getCategoryFillColor(part.segment.category) : 'fill-gray-400'} hover:opacity-80 transition-opacity`}
+                >
+                  <title>{`${formatMonthLabel(bar.month.month)} • ${part.segment.label}: ${formatCurrency(part.amount)}`}</title>
+                </rect>
+              );
+
+              return link
+                ? <Link key={part.segment.label} to={link} aria-label={`${part.segment.label} transactions in ${formatMonthLabel(bar.month.month)}`}>{rect}</Link>
+                : <g key={part.segment.label}>{rect}</g>;
+            })}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
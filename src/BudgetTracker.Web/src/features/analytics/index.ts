@@ -1,4 +1,24 @@
 export { analyticsApi } from './api';
+export { BudgetTargetsSettings } from './components/BudgetTargetsSettings';
+export { ChartsPanel } from './components/ChartsPanel';
 export { InsightsCard } from './components/InsightsCard';
+export { PeriodSelector } from './components/PeriodSelector';
 export { SummaryCard } from './components/SummaryCard';
-export type { BudgetInsights, BudgetBreakdown, BudgetHealth } from './types';
\ No newline at end of file
+export { getInsightsParams } from './utils/insightsPeriod';
+export type {
+  BudgetInsights,
+  BudgetComparison,
+  GetInsightsParams,
+  InsightsPeriod,
+  BudgetBreakdown,
+  BudgetHealth,
+  BudgetBucket,
+  BudgetTargets,
+  CategoryBucket,
+  InsightsSettings,
+  SaveInsightsSettingsRequest,
+  SpendingCharts,
+  CategoryAmount,
+  MonthlyFlow,
+  BalancePoint
+} from './types';
\ No newline at end of file
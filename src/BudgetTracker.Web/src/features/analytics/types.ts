@@ -1,7 +1,33 @@
 export interface BudgetInsights {
+  period: InsightsPeriod;
   budgetBreakdown: BudgetBreakdown;
   summary: string;
   health: BudgetHealth;
+  targets: BudgetTargets;
+  /** The breakdown of an earlier period, when one was asked for */
+  comparison?: BudgetComparison | null;
+}
+
+/**
+ * The transactions insights cover. Missing dates leave the range open.
+ */
+export interface InsightsPeriod {
+  dateFrom?: string | null;
+  dateTo?: string | null;
+  account?: string | null;
+}
+
+export interface BudgetComparison {
+  period: InsightsPeriod;
+  budgetBreakdown: BudgetBreakdown;
+}
+
+export interface GetInsightsParams {
+  dateFrom?: string;
+  dateTo?: string;
+  account?: string;
+  compareFrom?: string;
+  compareTo?: string;
 }
 
 export interface BudgetBreakdown {
@@ -18,4 +44,63 @@ export interface BudgetHealth {
   status: string;
   isHealthy: boolean;
   areas: string[];
+}
+
+export interface CategoryAmount {
+  /** Null for uncategorized spending */
+  category?: string | null;
+  /** The amount spent, as a positive number */
+  amount: number;
+}
+
+export interface MonthlyFlow {
+  /** yyyy-MM */
+  month: string;
+  income: number;
+  expenses: number;
+  categories: CategoryAmount[];
+}
+
+/**
+ * The combined balance of the accounts at the end of a day, from the balances on their statements
+ */
+export interface BalancePoint {
+  date: string;
+  balance: number;
+}
+
+export interface SpendingCharts {
+  /** Expenses by category over the whole period, largest first */
+  categories: CategoryAmount[];
+  months: MonthlyFlow[];
+  balance: BalancePoint[];
+}
+
+export type BudgetBucket = 'Needs' | 'Wants' | 'Savings';
+
+/**
+ * Share of spending to aim for in each bucket. Needs and wants are ceilings, savings a floor.
+ */
+export interface BudgetTargets {
+  needsPercentage: number;
+  wantsPercentage: number;
+  savingsPercentage: number;
+}
+
+export interface CategoryBucket {
+  category: string;
+  parentName?: string | null;
+  bucket: BudgetBucket;
+  /** Whether the category has no bucket of its own and follows its parent or the built-in defaults */
+  isDefault: boolean;
+}
+
+export interface InsightsSettings {
+  targets: BudgetTargets;
+  categories: CategoryBucket[];
+}
+
+export interface SaveInsightsSettingsRequest extends BudgetTargets {
+  /** A null bucket goes back to the default */
+  buckets: { category: string; bucket: BudgetBucket | null }[];
 }
\ No newline at end of file
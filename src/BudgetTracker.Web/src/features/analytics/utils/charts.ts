@@ -0,0 +1,136 @@
+import { endOfMonth, format, parseISO } from 'date-fns';
+import { formatCompactNumber } from '../../../shared/utils/formatters';
+import type { CategoryAmount } from '../types';
+
+export const UNCATEGORIZED_LABEL = 'Uncategorized';
+export const OTHER_LABEL = 'Other';
+
+/**
+ * A slice of a category chart. Only real categories can be looked up on the transactions page.
+ */
+export interface CategorySegment {
+  label: string;
+  amount: number;
+  category?: string;
+}
+
+/**
+ * The largest categories on their own and the rest folded into "Other", so charts stay readable
+ */
+export function getTopCategories(categories: CategoryAmount[], limit = 6): CategorySegment[] {
+  const segments = categories.slice(0, limit).map(({ category, amount }) => ({
+    label: category ?? UNCATEGORIZED_LABEL,
+    amount,
+    category: category ?? undefined
+  }));
+
+  const otherAmount = categories.slice(limit).reduce((sum, category) => sum + category.amount, 0);
+  return otherAmount > 0 ? [...segments, { label: OTHER_LABEL, amount: otherAmount }] : segments;
+}
+
+/**
+ * Round axis steps (1, 2 or 5 times a power of ten) covering zero to the given maximum
+ */
+export function getNiceTicks(max: number, count = 4): number[] {
+  if (max <= 0) return [0];
+
+  const roughStep = max / count;
+  const magnitude = 10 ** Math.floor(Math.log10(roughStep));
+  const step = [1, 2, 5, 10].map(multiple => multiple * magnitude).find(candidate => candidate >= roughStep) ?? roughStep;
+
+  const ticks: number[] = [];
+  for (let tick = 0; tick < max + step; tick += step) {
+    ticks.push(tick);
+  }
+  return ticks;
+}
+
+/**
+ * Ticks for an axis that may go below zero, as a running balance can
+ */
+export function getNiceRange(min: number, max: number, count = 4): number[] {
+  if (min >= 0) return getNiceTicks(max, count);
+  if (max <= 0) return getNiceTicks(-min, count).map(tick => -tick).reverse();
+
+  const step = getNiceTicks(max - min, count)[1];
+  const ticks: number[] = [];
+  for (let tick = Math.floor(min / step) * step; tick < max + step; tick += step) {
+    ticks.push(tick);
+  }
+  return ticks;
+}
+
+export function formatAxisAmount(amount: number): string {
+  return `${amount < 0 ? '-' : ''}$${formatCompactNumber(Math.abs(amount))}`;
+}
+
+export function formatMonthLabel(month: string): string {
+  return format(parseISO(`${month}-01`), 'MMM yy');
+}
+
+/**
+ * The days of a month that fall inside the selected period
+ */
+export function getMonthRange(month: string, period: { dateFrom?: string; dateTo?: string }): { dateFrom: string; dateTo: string } {
+  const start = `${month}-01`;
+  const end = format(endOfMonth(parseISO(start)), 'yyyy-MM-dd');
+
+  return {
+    dateFrom: period.dateFrom && period.dateFrom > start ? period.dateFrom : start,
+    dateTo: period.dateTo && period.dateTo < end ? period.dateTo : end
+  };
+}
+
+export interface TransactionsLinkFilters {
+  category?: string;
+  type?: 'income' | 'expense';
+  account?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export function getTransactionsLink(filters: TransactionsLinkFilters): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value);
+  }
+  const search = params.toString();
+  return search ? `/transactions?${search}` : '/transactions';
+}
+
+/**
+ * SVG path of a donut slice between two angles, in radians clockwise from twelve o'clock
+ */
+export function describeDonutSlice(
+  center: number,
+  outerRadius: number,
+  innerRadius: number,
+  startAngle: number,
+  endAngle: number
+): string {
+  // A full circle would start and end on the same point and draw nothing
+  const end = Math.min(endAngle, startAngle + Math.PI * 2 - 0.0001);
+  const point = (radius: number, angle: number) =>
+    `${center + radius * Math.sin(angle)} ${center - radius * Math.cos(angle)}`;
+  const largeArc = end - startAngle > Math.PI ? 1 : 0;
+
+  return [
+    `M ${point(outerRadius, startAngle)}`,
+    `A ${outerRadius} ${outerRadius} 0 ${largeArc} 1 ${point(outerRadius, end)}`,
+    `L ${point(innerRadius, end)}`,
+    `A ${innerRadius} ${innerRadius} 0 ${largeArc} 0 ${point(innerRadius, startAngle)}`,
+    'Z'
+  ].join(' ');
+}
+
+// Cartesian charts draw in this coordinate space and scale with their container
+export const CHART_WIDTH = 600;
+export const CHART_HEIGHT = 220;
+export const CHART_MARGIN = { top: 8, right: 8, bottom: 22, left: 48 };
+
+/**
+ * Every how many points an x-axis label is shown so labels don't overlap
+ */
+export function getLabelInterval(count: number, maxLabels = 12): number {
+  return Math.max(1, Math.ceil(count / maxLabels));
+}
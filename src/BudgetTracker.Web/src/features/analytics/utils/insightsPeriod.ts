@@ -0,0 +1,134 @@
+import {
+  differenceInCalendarDays,
+  endOfMonth,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfQuarter,
+  startOfYear,
+  subDays,
+  subMonths,
+  subQuarters,
+  subYears
+} from 'date-fns';
+import type { GetInsightsParams } from '../types';
+
+export type InsightsPeriodPreset = 'all' | 'this-month' | 'last-month' | 'this-quarter' | 'this-year' | 'custom';
+
+export const INSIGHTS_PERIOD_PRESETS: { value: InsightsPeriodPreset; label: string }[] = [
+  { value: 'all', label: 'All time' },
+  { value: 'this-month', label: 'This month' },
+  { value: 'last-month', label: 'Last month' },
+  { value: 'this-quarter', label: 'This quarter' },
+  { value: 'this-year', label: 'This year' },
+  { value: 'custom', label: 'Custom range' }
+];
+
+interface DateRange {
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+/**
+ * The dashboard's period as read from its search params
+ */
+export interface InsightsPeriodSelection extends DateRange {
+  preset: InsightsPeriodPreset;
+  account?: string;
+  compare: boolean;
+}
+
+const toDateParam = (date: Date) => format(date, 'yyyy-MM-dd');
+
+function parseDateParam(value: string | null): string | undefined {
+  return value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined;
+}
+
+function parsePreset(value: string | null): InsightsPeriodPreset {
+  return INSIGHTS_PERIOD_PRESETS.find(preset => preset.value === value)?.value ?? 'all';
+}
+
+export function getInsightsPeriodSelection(searchParams: URLSearchParams): InsightsPeriodSelection {
+  return {
+    preset: parsePreset(searchParams.get('period')),
+    dateFrom: parseDateParam(searchParams.get('dateFrom')),
+    dateTo: parseDateParam(searchParams.get('dateTo')),
+    account: searchParams.get('account') || undefined,
+    compare: searchParams.get('compare') === 'true'
+  };
+}
+
+/**
+ * Presets other than "custom" follow the calendar, so a bookmarked dashboard always shows the current month
+ * or year. Periods still in progress end today.
+ */
+export function getPeriodRange(selection: InsightsPeriodSelection, today = new Date()): DateRange {
+  switch (selection.preset) {
+    case 'all':
+      return {};
+    case 'this-month':
+      return { dateFrom: toDateParam(startOfMonth(today)), dateTo: toDateParam(today) };
+    case 'last-month': {
+      const lastMonth = subMonths(today, 1);
+      return { dateFrom: toDateParam(startOfMonth(lastMonth)), dateTo: toDateParam(endOfMonth(lastMonth)) };
+    }
+    case 'this-quarter':
+      return { dateFrom: toDateParam(startOfQuarter(today)), dateTo: toDateParam(today) };
+    case 'this-year':
+      return { dateFrom: toDateParam(startOfYear(today)), dateTo: toDateParam(today) };
+    case 'custom':
+      return { dateFrom: selection.dateFrom, dateTo: selection.dateTo };
+  }
+}
+
+/**
+ * The period to compare against. Calendar presets compare with the same stretch of the previous month,
+ * quarter or year; a custom range with the same number of days just before it. Open ranges have none.
+ */
+export function getPreviousPeriodRange(selection: InsightsPeriodSelection, today = new Date()): DateRange | undefined {
+  const { dateFrom, dateTo } = getPeriodRange(selection, today);
+  if (!dateFrom || !dateTo) return undefined;
+
+  const from = parseISO(dateFrom);
+  const to = parseISO(dateTo);
+
+  switch (selection.preset) {
+    case 'this-month':
+      return { dateFrom: toDateParam(subMonths(from, 1)), dateTo: toDateParam(subMonths(to, 1)) };
+    case 'last-month': {
+      const previous = subMonths(from, 1);
+      return { dateFrom: toDateParam(previous), dateTo: toDateParam(endOfMonth(previous)) };
+    }
+    case 'this-quarter':
+      return { dateFrom: toDateParam(subQuarters(from, 1)), dateTo: toDateParam(subQuarters(to, 1)) };
+    case 'this-year':
+      return { dateFrom: toDateParam(subYears(from, 1)), dateTo: toDateParam(subYears(to, 1)) };
+    default: {
+      const days = differenceInCalendarDays(to, from) + 1;
+      return { dateFrom: toDateParam(subDays(from, days)), dateTo: toDateParam(subDays(from, 1)) };
+    }
+  }
+}
+
+export function getInsightsParams(searchParams: URLSearchParams, today = new Date()): GetInsightsParams {
+  const selection = getInsightsPeriodSelection(searchParams);
+  const previous = selection.compare ? getPreviousPeriodRange(selection, today) : undefined;
+
+  return {
+    ...getPeriodRange(selection, today),
+    account: selection.account,
+    compareFrom: previous?.dateFrom,
+    compareTo: previous?.dateTo
+  };
+}
+
+export function formatPeriod(dateFrom?: string | null, dateTo?: string | null): string {
+  if (!dateFrom) return dateTo ? `Until ${format(parseISO(dateTo), 'MMM d, yyyy')}` : 'All time';
+  if (!dateTo) return `Since ${format(parseISO(dateFrom), 'MMM d, yyyy')}`;
+
+  const from = parseISO(dateFrom);
+  const to = parseISO(dateTo);
+  return from.getFullYear() === to.getFullYear()
+    ? `${format(from, 'MMM d')} – ${format(to, 'MMM d, yyyy')}`
+    : `${format(from, 'MMM d, yyyy')} – ${format(to, 'MMM d, yyyy')}`;
+}
@@ -0,0 +1,43 @@
+import { apiClient } from '../../api';
+import type { BudgetMonth, SaveBudgetRequest } from './types';
+
+function handleError(message: string, error: unknown): void {
+  console.error(message, error);
+  throw new Error(message);
+}
+
+export const budgetsApi = {
+  async getBudgets(month?: string): Promise<BudgetMonth> {
+    const response = await apiClient.get<BudgetMonth>('/budgets', { params: month ? { month } : undefined });
+    return response.data;
+  },
+
+  async createBudget(request: SaveBudgetRequest): Promise<{ id: string }> {
+    try {
+      const response = await apiClient.post<{ id: string }>('/budgets', request);
+      return response.data;
+    } catch (error) {
+      handleError('Failed to create budget', error);
+      throw error;
+    }
+  },
+
+  async updateBudget(budgetId: string, request: SaveBudgetRequest): Promise<{ id: string }> {
+    try {
+      const response = await apiClient.put<{ id: string }>(`/budgets/${budgetId}`, request);
+      return response.data;
+    } catch (error) {
+      handleError('Failed to update budget', error);
+      throw error;
+    }
+  },
+
+  async deleteBudget(budgetId: string): Promise<void> {
+    try {
+      await apiClient.delete(`/budgets/${budgetId}`);
+    } catch (error) {
+      handleError('Failed to delete budget', error);
+      throw error;
+    }
+  }
+};
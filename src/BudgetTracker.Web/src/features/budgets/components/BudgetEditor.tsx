@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { useToast } from '../../../shared/contexts/ToastContext';
+import { budgetsApi } from '../api';
+import type { BudgetProgress } from '../types';
+
+interface BudgetEditorProps {
+  budget?: BudgetProgress;
+  /** Categories that don't have a budget yet */
+  availableCategories: string[];
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+const labelClassName = 'block text-sm font-medium text-gray-700 mb-1';
+const inputClassName = 'w-full border border-neutral-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+const secondaryButtonClassName = 'cursor-pointer px-3 py-2 border border-neutral-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-neutral-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+const primaryButtonClassName = 'cursor-pointer px-3 py-2 rounded-md bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+export default function BudgetEditor({ budget, availableCategories, onSaved, onCancel }: BudgetEditorProps) {
+  const { showSuccess, showError } = useToast();
+  const [category, setCategory] = useState(budget?.category ?? '');
+  const [limit, setLimit] = useState(budget ? String(budget.monthlyLimit) : '');
+  const [rollover, setRollover] = useState(budget?.rollover ?? false);
+  const [error, setError] = useState<string>();
+  const [isSaving, setIsSaving] = useState(false);
+  const idPrefix = budget ? `budget-${budget.id}` : 'budget-new';
+  const categories = budget ? [budget.category] : availableCategories;
+
+  const handleSave = async () => {
+    const monthlyLimit = Number(limit);
+    if (!category) {
+      setError('Choose a category');
+      return;
+    }
+    if (!limit.trim() || !Number.isFinite(monthlyLimit) || monthlyLimit <= 0) {
+      setError('Enter a monthly limit greater than zero');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const request = { category, monthlyLimit, rollover };
+      if (budget) {
+        await budgetsApi.updateBudget(budget.id, request);
+      } else {
+        await budgetsApi.createBudget(request);
+      }
+      showSuccess(`Saved the ${category} budget`);
+      onSaved();
+    } catch {
+      showError('Failed to save budget', 'Please check the limit and try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-neutral-200 p-6 space-y-5">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor={`${idPrefix}-category`} className={labelClassName}>Category</label>
+          <select
+            id={`${idPrefix}-category`}
+            value={category}
+            onChange={(e) => {
+              setCategory(e.target.value);
+              setError(undefined);
+            }}
+            disabled={!!budget}
+            className={`${inputClassName} disabled:bg-neutral-50 disabled:text-gray-500`}
+          >
+            {!budget && <option value="">Choose a category…</option>}
+            {categories.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-limit`} className={labelClassName}>Monthly limit</label>
+          <input
+            id={`${idPrefix}-limit`}
+            type="number"
+            min="0"
+            step="0.01"
+            inputMode="decimal"
+            value={limit}
+            onChange={(e) => {
+              setLimit(e.target.value);
+              setError(undefined);
+            }}
+            placeholder="500.00"
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <label className="flex items-start gap-2 text-sm text-gray-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={rollover}
+          onChange={(e) => setRollover(e.target.checked)}
+          className="mt-0.5 w-4 h-4 text-indigo-600 border-neutral-300 rounded focus:ring-indigo-500 focus:ring-2 cursor-pointer"
+        />
+        <span>
+          Roll over unspent amounts
+          <span className="block text-xs text-gray-500">What's left at the end of a month is added to the next month's limit.</span>
+        </span>
+      </label>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} disabled={isSaving} className={secondaryButtonClassName}>
+          Cancel
+        </button>
+        <button onClick={handleSave} disabled={isSaving} className={primaryButtonClassName}>
+          {isSaving ? 'Saving…' : 'Save Budget'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useEffect, useState } from 'react';
+import { useLoaderData, useRevalidator, useSearchParams } from 'react-router-dom';
+import EmptyState from '../../../shared/components/EmptyState';
+import { useToast } from '../../../shared/contexts/ToastContext';
+import { isCategoryArchived } from '../../../shared/utils/categoryAppearance';
+import { formatCurrency, getCategoryColor } from '../../../shared/utils/formatters';
+import { transactionsApi } from '../../transactions/api';
+import { budgetsApi } from '../api';
+import type { BudgetMonth, BudgetProgress } from '../types';
+import { BUDGET_STATUS_STYLES, formatMonth, getBudgetPercent, getCurrentMonth, shiftMonth } from '../utils/budgets';
+import BudgetEditor from './BudgetEditor';
+
+const NEW_BUDGET = 'new';
+
+const monthButtonClassName = 'cursor-pointer px-3 py-1.5 border border-neutral-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-neutral-50 transition-colors';
+
+export default function BudgetList() {
+  const data = useLoaderData() as BudgetMonth;
+  const revalidator = useRevalidator();
+  const [, setSearchParams] = useSearchParams();
+  const { showSuccess, showError } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [categories, setCategories] = useState<string[]>([]);
+
+  useEffect(() => {
+    const fetchFilters = async () => {
+      try {
+        const filters = await transactionsApi.getFilters();
+        setCategories(filters.categories.filter(category => !isCategoryArchived(category)));
+      } catch (error) {
+        console.error('Failed to fetch filters:', error);
+      }
+    };
+    fetchFilters();
+  }, []);
+
+  const budgetedCategories = new Set(data.budgets.map(budget => budget.category));
+  const unbudgetedCategories = categories.filter(category => !budgetedCategories.has(category));
+  const isCurrentMonth = data.month === getCurrentMonth();
+  const isMonthInProgress = data.daysElapsed > 0 && data.daysElapsed < data.daysInMonth;
+  const totals = data.budgets.reduce(
+    (sum, budget) => ({ available: sum.available + budget.available, spent: sum.spent + budget.spent }),
+    { available: 0, spent: 0 }
+  );
+
+  const goToMonth = (month: string) => {
+    setEditingId(null);
+    setSearchParams(month === getCurrentMonth() ? {} : { month });
+  };
+
+  const handleSaved = () => {
+    setEditingId(null);
+    revalidator.revalidate();
+  };
+
+  const handleDelete = async (budget: BudgetProgress) => {
+    if (!window.confirm(`Delete the ${budget.category} budget? This applies to every month.`)) return;
+
+    setBusyId(budget.id);
+    try {
+      await budgetsApi.deleteBudget(budget.id);
+      showSuccess(`Deleted the ${budget.category} budget`);
+      revalidator.revalidate();
+    } catch {
+      showError('Failed to delete budget', 'Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <button onClick={() => goToMonth(shiftMonth(data.month, -1))} aria-label="Previous month" className={monthButtonClassName}>
+            ‹
+          </button>
+          <h2 className="w-40 text-center text-base font-semibold text-gray-900">{formatMonth(data.month)}</h2>
+          <button onClick={() => goToMonth(shiftMonth(data.month, 1))} aria-label="Next month" className={monthButtonClassName}>
+            ›
+          </button>
+          {!isCurrentMonth && (
+            <button
+              onClick={() => goToMonth(getCurrentMonth())}
+              className="cursor-pointer ml-1 text-sm font-medium text-indigo-600 hover:text-indigo-700 transition-colors"
+            >
+              This month
+            </button>
+          )}
+        </div>
+        {editingId !== NEW_BUDGET && (
+          <button
+            onClick={() => setEditingId(NEW_BUDGET)}
+            className="cursor-pointer shrink-0 px-3 py-2 rounded-md bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 transition-colors"
+          >
+            New Budget
+          </button>
+        )}
+      </div>
+
+      {data.budgets.length > 0 && (
+        <p className="text-sm text-gray-600">
+          {formatCurrency(totals.spent)} spent of {formatCurrency(totals.available)} budgeted
+          {isMonthInProgress && ` • Day ${data.daysElapsed} of ${data.daysInMonth}`}
+        </p>
+      )}
+
+      {editingId === NEW_BUDGET && (
+        <BudgetEditor
+          availableCategories={unbudgetedCategories}
+          onSaved={handleSaved}
+          onCancel={() => setEditingId(null)}
+        />
+      )}
+
+      {data.budgets.length === 0 && editingId !== NEW_BUDGET ? (
+        <EmptyState
+          title="No budgets yet"
+          description="Set a monthly limit for a category to track your spending against it and get warned before you go over."
+          action={{ label: 'New Budget', onClick: () => setEditingId(NEW_BUDGET) }}
+        />
+      ) : (
+        <ul className="space-y-2">
+          {data.budgets.map(budget => editingId === budget.id ? (
+            <li key={budget.id}>
+              <BudgetEditor
+                budget={budget}
+                availableCategories={unbudgetedCategories}
+                onSaved={handleSaved}
+                onCancel={() => setEditingId(null)}
+              />
+            </li>
+          ) : (
+            <li key={budget.id} className="bg-white rounded-lg border border-neutral-100 p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${getCategoryColor(budget.category)}`}>
+                  {budget.category}
+                </span>
+                <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${BUDGET_STATUS_STYLES[budget.status].badge}`}>
+                  {BUDGET_STATUS_STYLES[budget.status].label}
+                </span>
+                <div className="flex-1" />
+                <div className="flex items-center gap-3 shrink-0 text-xs font-medium">
+                  <button
+                    onClick={() => setEditingId(budget.id)}
+                    className="cursor-pointer text-indigo-600 hover:text-indigo-700 transition-colors"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(budget)}
+                    disabled={busyId === budget.id}
+                    className="cursor-pointer text-red-600 hover:text-red-700 disabled:opacity-50 transition-colors"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              <div className="flex items-baseline justify-between gap-4 text-sm">
+                <span className="text-gray-900">
+                  <span className="font-semibold">{formatCurrency(budget.spent)}</span>
+                  <span className="text-gray-500"> of {formatCurrency(budget.available)}</span>
+                </span>
+                <span className={budget.remaining < 0 ? 'font-medium text-red-600' : 'text-gray-600'}>
+                  {budget.remaining < 0
+                    ? `${formatCurrency(-budget.remaining)} over`
+                    : `${formatCurrency(budget.remaining)} left`}
+                </span>
+              </div>
+
+              <div
+                className="relative h-2.5 rounded-full bg-neutral-100"
+                role="progressbar"
+                aria-label={`${budget.category} spending`}
+                aria-valuemin={0}
+                aria-valuemax={budget.available}
+                aria-valuenow={budget.spent}
+              >
+                <div
+                  className={`h-full rounded-full ${BUDGET_STATUS_STYLES[budget.status].bar}`}
+                  style={{ width: `${getBudgetPercent(budget.spent, budget)}%` }}
+                />
+                {isMonthInProgress && budget.projectedSpend > budget.spent && (
+                  <div
+                    className="absolute -top-1 -bottom-1 w-0.5 bg-gray-700"
+                    style={{ left: `${getBudgetPercent(budget.projectedSpend, budget)}%` }}
+                    title={`Projected month-end spend: ${formatCurrency(budget.projectedSpend)}`}
+                  />
+                )}
+              </div>
+
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+                {isMonthInProgress && (
+                  <span className={budget.projectedSpend > budget.available ? 'text-yellow-700' : undefined}>
+                    On pace for {formatCurrency(budget.projectedSpend)} by month end
+                  </span>
+                )}
+                {budget.rollover && (
+                  <span>
+                    {budget.rolloverAmount > 0
+                      ? `Includes ${formatCurrency(budget.rolloverAmount)} rolled over from earlier months`
+                      : 'Unspent amounts roll over'}
+                  </span>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
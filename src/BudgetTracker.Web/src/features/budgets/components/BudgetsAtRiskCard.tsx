@@ -0,0 +1,54 @@
+import { Link } from 'react-router-dom';
+import { formatCurrency } from '../../../shared/utils/formatters';
+import type { BudgetMonth } from '../types';
+import { BUDGET_STATUS_STYLES, getBudgetPercent, getBudgetsAtRisk } from '../utils/budgets';
+
+interface BudgetsAtRiskCardProps {
+  budgetMonth: BudgetMonth;
+}
+
+export default function BudgetsAtRiskCard({ budgetMonth }: BudgetsAtRiskCardProps) {
+  const atRisk = getBudgetsAtRisk(budgetMonth.budgets);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Budgets at Risk</h3>
+        <Link to="/budgets" className="text-sm font-medium text-indigo-600 hover:text-indigo-700 transition-colors">
+          All budgets
+        </Link>
+      </div>
+
+      {atRisk.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          All {budgetMonth.budgets.length} budget{budgetMonth.budgets.length === 1 ? ' is' : 's are'} on track this month.
+        </p>
+      ) : (
+        <ul className="space-y-4">
+          {atRisk.map(budget => (
+            <li key={budget.id} className="space-y-1.5">
+              <div className="flex items-center justify-between gap-3 text-sm">
+                <span className="font-medium text-gray-900 truncate">{budget.category}</span>
+                <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${BUDGET_STATUS_STYLES[budget.status].badge}`}>
+                  {BUDGET_STATUS_STYLES[budget.status].label}
+                </span>
+              </div>
+              <div className="h-2 rounded-full bg-neutral-100">
+                <div
+                  className={`h-full rounded-full ${BUDGET_STATUS_STYLES[budget.status].bar}`}
+                  style={{ width: `${getBudgetPercent(budget.spent, budget)}%` }}
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                {formatCurrency(budget.spent)} of {formatCurrency(budget.available)}
+                {budget.status === 'Over'
+                  ? ` • ${formatCurrency(budget.spent - budget.available)} over`
+                  : ` • on pace for ${formatCurrency(budget.projectedSpend)}`}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
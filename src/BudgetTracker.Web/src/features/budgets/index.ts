@@ -0,0 +1,4 @@
+export { budgetsApi } from './api';
+export { default as BudgetList } from './components/BudgetList';
+export { default as BudgetsAtRiskCard } from './components/BudgetsAtRiskCard';
+export type { BudgetMonth, BudgetProgress, BudgetStatus, SaveBudgetRequest } from './types';
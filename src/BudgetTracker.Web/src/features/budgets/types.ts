@@ -0,0 +1,31 @@
+export type BudgetStatus = 'OnTrack' | 'AtRisk' | 'Over';
+
+export interface BudgetProgress {
+  id: string;
+  category: string;
+  monthlyLimit: number;
+  rollover: boolean;
+  /** Unspent amount carried over from earlier months */
+  rolloverAmount: number;
+  /** The limit plus any rollover */
+  available: number;
+  spent: number;
+  remaining: number;
+  /** Month-end spend if the pace so far continues */
+  projectedSpend: number;
+  status: BudgetStatus;
+}
+
+export interface BudgetMonth {
+  /** yyyy-MM */
+  month: string;
+  daysElapsed: number;
+  daysInMonth: number;
+  budgets: BudgetProgress[];
+}
+
+export interface SaveBudgetRequest {
+  category: string;
+  monthlyLimit: number;
+  rollover: boolean;
+}
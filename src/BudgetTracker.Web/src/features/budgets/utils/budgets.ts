@@ -0,0 +1,38 @@
+import { addMonths, format, parse } from 'date-fns';
+import type { BudgetProgress, BudgetStatus } from '../types';
+
+export const BUDGET_STATUS_STYLES: Record<BudgetStatus, { label: string; bar: string; badge: string }> = {
+  OnTrack: { label: 'On track', bar: 'bg-green-500', badge: 'bg-green-100 text-green-700' },
+  AtRisk: { label: 'At risk', bar: 'bg-yellow-500', badge: 'bg-yellow-100 text-yellow-800' },
+  Over: { label: 'Over budget', bar: 'bg-red-500', badge: 'bg-red-100 text-red-700' }
+};
+
+export function getCurrentMonth(): string {
+  return format(new Date(), 'yyyy-MM');
+}
+
+export function shiftMonth(month: string, offset: number): string {
+  return format(addMonths(parse(month, 'yyyy-MM', new Date()), offset), 'yyyy-MM');
+}
+
+export function formatMonth(month: string): string {
+  return format(parse(month, 'yyyy-MM', new Date()), 'MMMM yyyy');
+}
+
+/**
+ * Share of the available amount, capped at 100 so bars never overflow their track
+ */
+export function getBudgetPercent(amount: number, budget: BudgetProgress): number {
+  if (budget.available <= 0) return amount > 0 ? 100 : 0;
+  return Math.min(100, Math.max(0, (amount / budget.available) * 100));
+}
+
+/**
+ * Budgets that are over or on pace to go over, worst first
+ */
+export function getBudgetsAtRisk(budgets: BudgetProgress[]): BudgetProgress[] {
+  const pace = (budget: BudgetProgress) => budget.projectedSpend / (budget.available || 1);
+  return budgets
+    .filter(budget => budget.status !== 'OnTrack')
+    .sort((a, b) => Number(b.status === 'Over') - Number(a.status === 'Over') || pace(b) - pace(a));
+}
@@ -0,0 +1,60 @@
+import { apiClient } from '../../api';
+import { setCategoryAppearances } from '../../shared/utils/categoryAppearance';
+import type { CategoryAppearance } from '../../shared/utils/categoryAppearance';
+import type { CategoryRewriteResult, CategorySummary, SaveCategoryRequest } from './types';
+
+function handleError(message: string, error: unknown): void {
+  console.error(message, error);
+  throw new Error(message);
+}
+
+// Every response carries the full list, so chip colors across the app stay in step with it
+function remember(categories: CategorySummary[]): CategorySummary[] {
+  setCategoryAppearances(categories);
+  return categories;
+}
+
+export const categoriesApi = {
+  async getCategories(): Promise<CategorySummary[]> {
+    const response = await apiClient.get<CategorySummary[]>('/categories');
+    return remember(response.data);
+  },
+
+  async getAppearances(): Promise<CategoryAppearance[]> {
+    const response = await apiClient.get<CategoryAppearance[]>('/categories/appearance');
+    setCategoryAppearances(response.data);
+    return response.data;
+  },
+
+  async saveCategory(request: SaveCategoryRequest): Promise<CategorySummary[]> {
+    try {
+      const response = await apiClient.put<CategorySummary[]>('/categories', request);
+      return remember(response.data);
+    } catch (error) {
+      handleError('Failed to save category', error);
+      throw error;
+    }
+  },
+
+  async renameCategory(name: string, newName: string): Promise<CategoryRewriteResult> {
+    try {
+      const response = await apiClient.post<CategoryRewriteResult>('/categories/rename', { name, newName });
+      remember(response.data.categories);
+      return response.data;
+    } catch (error) {
+      handleError('Failed to rename category', error);
+      throw error;
+    }
+  },
+
+  async mergeCategories(source: string, target: string): Promise<CategoryRewriteResult> {
+    try {
+      const response = await apiClient.post<CategoryRewriteResult>('/categories/merge', { source, target });
+      remember(response.data.categories);
+      return response.data;
+    } catch (error) {
+      handleError('Failed to merge categories', error);
+      throw error;
+    }
+  }
+};
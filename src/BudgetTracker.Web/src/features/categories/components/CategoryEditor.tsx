@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { useToast } from '../../../shared/contexts/ToastContext';
+import { CATEGORY_COLORS } from '../../../shared/utils/categoryAppearance';
+import { categoriesApi } from '../api';
+import type { CategorySummary } from '../types';
+import { CATEGORY_ICONS, getMergeOptions, getParentOptions } from '../utils/categoryTree';
+
+interface CategoryEditorProps {
+  category: CategorySummary;
+  categories: CategorySummary[];
+  onChange: (categories: CategorySummary[]) => void;
+  onClose: () => void;
+}
+
+const sectionLabelClassName = 'block text-xs font-medium text-gray-700 mb-1.5';
+const inputClassName = 'border border-neutral-300 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+const secondaryButtonClassName = 'cursor-pointer px-3 py-1.5 border border-neutral-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-neutral-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+export default function CategoryEditor({ category, categories, onChange, onClose }: CategoryEditorProps) {
+  const { showSuccess, showError } = useToast();
+  const [color, setColor] = useState(category.color ?? '');
+  const [icon, setIcon] = useState(category.icon ?? '');
+  const [parentName, setParentName] = useState(category.parentName ?? '');
+  const [newName, setNewName] = useState(category.name);
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const parentOptions = getParentOptions(categories, category.name);
+  const mergeOptions = getMergeOptions(categories, category.name);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    try {
+      await action();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const save = (isArchived: boolean) => run(async () => {
+    try {
+      const updated = await categoriesApi.saveCategory({
+        name: category.name,
+        parentName: parentName || undefined,
+        color: color || undefined,
+        icon: icon || undefined,
+        isArchived
+      });
+      onChange(updated);
+      showSuccess(isArchived !== category.isArchived
+        ? `${isArchived ? 'Archived' : 'Restored'} "${category.name}"`
+        : `Saved "${category.name}"`);
+      onClose();
+    } catch {
+      showError('Failed to save category', 'Please try again.');
+    }
+  });
+
+  const rename = () => run(async () => {
+    const trimmed = newName.trim();
+    if (!trimmed || trimmed === category.name) return;
+
+    try {
+      const result = await categoriesApi.renameCategory(category.name, trimmed);
+      onChange(result.categories);
+      showSuccess(`Renamed to "${trimmed}"`, `${result.updatedCount} transaction${result.updatedCount === 1 ? '' : 's'} updated`);
+      onClose();
+    } catch {
+      showError('Failed to rename category', 'The name may already be in use. Merge the categories instead.');
+    }
+  });
+
+  const merge = () => run(async () => {
+    if (!mergeTarget) return;
+    if (!window.confirm(`Move every transaction from "${category.name}" into "${mergeTarget}"? This cannot be undone.`)) return;
+
+    try {
+      const result = await categoriesApi.mergeCategories(category.name, mergeTarget);
+      onChange(result.categories);
+      showSuccess(`Merged into "${mergeTarget}"`, `${result.updatedCount} transaction${result.updatedCount === 1 ? '' : 's'} updated`);
+      onClose();
+    } catch {
+      showError('Failed to merge categories', 'Please try again.');
+    }
+  });
+
+  return (
+    <div className="space-y-5 pt-4 mt-3 border-t border-neutral-100">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+        <div>
+          <span className={sectionLabelClassName}>Color</span>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => setColor('')}
+              aria-pressed={!color}
+              className={`cursor-pointer px-2 h-7 rounded-full border text-xs text-gray-600 ${!color ? 'border-indigo-500 ring-2 ring-indigo-200' : 'border-neutral-300'}`}
+            >
+              Auto
+            </button>
+            {CATEGORY_COLORS.map((option) => (
+              <button
+                key={option.key}
+                onClick={() => setColor(option.key)}
+                aria-label={option.label}
+                aria-pressed={color === option.key}
+                title={option.label}
+                className={`cursor-pointer w-7 h-7 rounded-full ${option.swatchClassName} ${
+                  color === option.key ? 'ring-2 ring-offset-2 ring-indigo-500' : ''
+                }`}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <span className={sectionLabelClassName}>Icon</span>
+          <div className="flex flex-wrap items-center gap-1.5">
+            {CATEGORY_ICONS.map((option) => (
+              <button
+                key={option}
+                onClick={() => setIcon(icon === option ? '' : option)}
+                aria-pressed={icon === option}
+                className={`cursor-pointer w-8 h-8 rounded-md text-base ${
+                  icon === option ? 'bg-indigo-100 ring-2 ring-indigo-400' : 'hover:bg-neutral-100'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+            <input
+              type="text"
+              value={icon}
+              onChange={(e) => setIcon(e.target.value)}
+              maxLength={16}
+              placeholder="Other"
+              aria-label="Custom icon"
+              className={`${inputClassName} w-20`}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor={`parent-${category.name}`} className={sectionLabelClassName}>Parent category</label>
+          {parentOptions.length === 0 && categories.some(c => c.parentName === category.name) ? (
+            <p className="text-xs text-gray-500">Categories with subcategories can't be nested.</p>
+          ) : (
+            <select
+              id={`parent-${category.name}`}
+              value={parentName}
+              onChange={(e) => setParentName(e.target.value)}
+              className={`${inputClassName} w-full cursor-pointer`}
+            >
+              <option value="">None (top level)</option>
+              {parentOptions.map(option => <option key={option} value={option}>{option}</option>)}
+            </select>
+          )}
+        </div>
+
+        <div className="flex items-end justify-end gap-2">
+          <button onClick={() => save(!category.isArchived)} disabled={isSaving} className={secondaryButtonClassName}>
+            {category.isArchived ? 'Restore' : 'Archive'}
+          </button>
+          <button onClick={onClose} disabled={isSaving} className={secondaryButtonClassName}>
+            Cancel
+          </button>
+          <button
+            onClick={() => save(category.isArchived)}
+            disabled={isSaving}
+            className="cursor-pointer px-3 py-1.5 rounded-md bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-5 pt-4 border-t border-neutral-100">
+        <div>
+          <label htmlFor={`rename-${category.name}`} className={sectionLabelClassName}>Rename</label>
+          <div className="flex gap-2">
+            <input
+              id={`rename-${category.name}`}
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              maxLength={100}
+              className={`${inputClassName} flex-1`}
+            />
+            <button
+              onClick={rename}
+              disabled={isSaving || !newName.trim() || newName.trim() === category.name}
+              className={secondaryButtonClassName}
+            >
+              Rename
+            </button>
+          </div>
+          <p className="mt-1 text-xs text-gray-500">Updates every transaction filed under this category.</p>
+        </div>
+
+        <div>
+          <label htmlFor={`merge-${category.name}`} className={sectionLabelClassName}>Merge into</label>
+          <div className="flex gap-2">
+            <select
+              id={`merge-${category.name}`}
+              value={mergeTarget}
+              onChange={(e) => setMergeTarget(e.target.value)}
+              className={`${inputClassName} flex-1 cursor-pointer`}
+            >
+              <option value="">Choose a category</option>
+              {mergeOptions.map(option => <option key={option} value={option}>{option}</option>)}
+            </select>
+            <button onClick={merge} disabled={isSaving || !mergeTarget} className={secondaryButtonClassName}>
+              Merge
+            </button>
+          </div>
+          <p className="mt-1 text-xs text-gray-500">"{category.name}" is removed and its transactions move to the chosen category.</p>
+        </div>
+      </div>
+    </div>
+  );
+}
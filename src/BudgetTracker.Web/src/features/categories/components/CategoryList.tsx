@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import { useLoaderData } from 'react-router-dom';
+import EmptyState from '../../../shared/components/EmptyState';
+import { useToast } from '../../../shared/contexts/ToastContext';
+import { findCategoryColor } from '../../../shared/utils/categoryAppearance';
+import { formatCurrency, getCategoryColor } from '../../../shared/utils/formatters';
+import { categoriesApi } from '../api';
+import type { CategorySummary } from '../types';
+import { buildCategoryTree, matchesCategorySearch } from '../utils/categoryTree';
+import CategoryEditor from './CategoryEditor';
+
+interface CategoryRowProps {
+  category: CategorySummary;
+  categories: CategorySummary[];
+  isChild?: boolean;
+  isEditing: boolean;
+  onEdit: (name: string | null) => void;
+  onChange: (categories: CategorySummary[]) => void;
+}
+
+function CategoryRow({ category, categories, isChild, isEditing, onEdit, onChange }: CategoryRowProps) {
+  const color = findCategoryColor(category.color);
+
+  return (
+    <div className={`px-4 py-3 ${isChild ? 'pl-12 bg-neutral-50/50' : ''}`}>
+      <div className="flex items-center gap-3">
+        <span
+          className={`w-8 h-8 flex items-center justify-center rounded-full text-base ${
+            color ? color.chipClassName : getCategoryColor(category.name)
+          }`}
+          aria-hidden="true"
+        >
+          {category.icon || category.name.charAt(0).toUpperCase()}
+        </span>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <p className={`text-sm font-medium truncate ${category.isArchived ? 'text-gray-400' : 'text-gray-900'}`}>
+              {category.name}
+            </p>
+            {category.isArchived && (
+              <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-neutral-100 text-gray-600">
+                Archived
+              </span>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">
+            {category.transactionCount} transaction{category.transactionCount === 1 ? '' : 's'}
+          </p>
+        </div>
+        <p className={`text-sm font-medium ${category.totalAmount < 0 ? 'text-red-600' : 'text-green-600'}`}>
+          {formatCurrency(category.totalAmount)}
+        </p>
+        <button
+          onClick={() => onEdit(isEditing ? null : category.name)}
+          className="cursor-pointer text-indigo-600 hover:text-indigo-700 text-xs font-medium transition-colors"
+        >
+          {isEditing ? 'Done' : 'Edit'}
+        </button>
+      </div>
+
+      {isEditing && (
+        <CategoryEditor
+          category={category}
+          categories={categories}
+          onChange={onChange}
+          onClose={() => onEdit(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+export default function CategoryList() {
+  const loaderData = useLoaderData() as CategorySummary[];
+  const { showSuccess, showError } = useToast();
+  const [categories, setCategories] = useState(loaderData);
+  const [previousLoaderData, setPreviousLoaderData] = useState(loaderData);
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  if (loaderData !== previousLoaderData) {
+    setPreviousLoaderData(loaderData);
+    setCategories(loaderData);
+  }
+
+  const visible = categories.filter(category => showArchived || !category.isArchived);
+  const tree = buildCategoryTree(visible).filter(node => matchesCategorySearch(node, search));
+  const archivedCount = categories.filter(category => category.isArchived).length;
+
+  const handleCreate = async () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    if (categories.some(category => category.name.toLowerCase() === name.toLowerCase())) {
+      showError('Category already exists', `"${name}" is already in your list.`);
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      setCategories(await categoriesApi.saveCategory({ name, isArchived: false }));
+      setNewName('');
+      showSuccess(`Added "${name}"`);
+    } catch {
+      showError('Failed to add category', 'Please try again.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <div className="flex gap-2 flex-1">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleCreate();
+            }}
+            maxLength={100}
+            placeholder="New category name"
+            aria-label="New category name"
+            className="flex-1 border border-neutral-300 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <button
+            onClick={handleCreate}
+            disabled={isCreating || !newName.trim()}
+            className="cursor-pointer px-3 py-1.5 rounded-md bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Add Category
+          </button>
+        </div>
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search categories"
+          aria-label="Search categories"
+          className="sm:w-56 border border-neutral-300 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        {archivedCount > 0 && (
+          <label className="inline-flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showArchived}
+              onChange={(e) => setShowArchived(e.target.checked)}
+              className="w-4 h-4 text-indigo-600 border-neutral-300 rounded focus:ring-indigo-500"
+            />
+            Show archived ({archivedCount})
+          </label>
+        )}
+      </div>
+
+      {categories.length === 0 ? (
+        <EmptyState
+          title="No categories yet"
+          description="Categories appear here once transactions are imported, or you can add your own above."
+        />
+      ) : tree.length === 0 ? (
+        <p className="text-sm text-gray-500 py-8 text-center">No categories match "{search}".</p>
+      ) : (
+        <div className="bg-white rounded-lg border border-neutral-100 divide-y divide-neutral-100">
+          {tree.map(({ category, children }) => (
+            <div key={category.name} className="divide-y divide-neutral-100">
+              <CategoryRow
+                category={category}
+                categories={categories}
+                isEditing={editingName === category.name}
+                onEdit={setEditingName}
+                onChange={setCategories}
+              />
+              {children.map(child => (
+                <CategoryRow
+                  key={child.name}
+                  category={child}
+                  categories={categories}
+                  isChild
+                  isEditing={editingName === child.name}
+                  onEdit={setEditingName}
+                  onChange={setCategories}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+export { categoriesApi } from './api';
+export { default as CategoryList } from './components/CategoryList';
+export type { CategorySummary, SaveCategoryRequest, CategoryRewriteResult } from './types';
@@ -0,0 +1,27 @@
+export interface CategorySummary {
+  name: string;
+  parentName?: string | null;
+  color?: string | null;
+  icon?: string | null;
+  isArchived: boolean;
+  transactionCount: number;
+  totalAmount: number;
+}
+
+export interface SaveCategoryRequest {
+  name: string;
+  parentName?: string;
+  color?: string;
+  icon?: string;
+  isArchived: boolean;
+}
+
+export interface CategoryRewriteResult {
+  updatedCount: number;
+  categories: CategorySummary[];
+}
+
+export interface CategoryTreeNode {
+  category: CategorySummary;
+  children: CategorySummary[];
+}
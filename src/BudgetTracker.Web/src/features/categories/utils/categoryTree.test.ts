@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import type { CategorySummary } from '../types';
+import { getMergeOptions } from './categoryTree';
+
+function category(name: string, parentName?: string): CategorySummary {
+  return { name, parentName, isArchived: false, transactionCount: 0, totalAmount: 0 };
+}
+
+const categories = [
+  category('Food'),
+  category('Groceries', 'Food'),
+  category('Treats'),
+  category('Snacks', 'Treats')
+];
+
+describe('getMergeOptions', () => {
+  it('offers only top-level categories and own children for a category with subcategories', () => {
+    expect(getMergeOptions(categories, 'Food')).toEqual(['Groceries', 'Treats']);
+  });
+
+  it('offers every other category for a category without subcategories', () => {
+    expect(getMergeOptions(categories, 'Snacks')).toEqual(['Food', 'Groceries', 'Treats']);
+  });
+});
@@ -0,0 +1,54 @@
+import type { CategorySummary, CategoryTreeNode } from '../types';
+
+export const CATEGORY_ICONS = ['🛒', '🍽️', '🏠', '🚗', '💡', '🩺', '🎬', '✈️', '🎁', '💼', '💰', '📱', '👕', '📚', '🐾', '☕'];
+
+/**
+ * Group categories under their parents. Nesting is a single level deep, and a category whose
+ * parent no longer exists is shown at the top level.
+ */
+export function buildCategoryTree(categories: CategorySummary[]): CategoryTreeNode[] {
+  const names = new Set(categories.map(category => category.name));
+  const isTopLevel = (category: CategorySummary) => !category.parentName || !names.has(category.parentName);
+
+  return categories
+    .filter(isTopLevel)
+    .map(category => ({
+      category,
+      children: categories.filter(child => !isTopLevel(child) && child.parentName === category.name)
+    }));
+}
+
+/**
+ * Categories that can become the parent of the given one: top-level categories other than itself,
+ * and none at all if it already has children of its own
+ */
+export function getParentOptions(categories: CategorySummary[], name: string): string[] {
+  if (categories.some(category => category.parentName === name)) {
+    return [];
+  }
+
+  return categories
+    .filter(category => category.name !== name && !category.parentName)
+    .map(category => category.name);
+}
+
+/**
+ * Categories the given one can be merged into. Its subcategories move along, so a category with
+ * children can only go into a top-level category or one of its own children.
+ */
+export function getMergeOptions(categories: CategorySummary[], name: string): string[] {
+  const hasChildren = categories.some(category => category.parentName === name);
+
+  return categories
+    .filter(category => category.name !== name &&
+      (!hasChildren || !category.parentName || category.parentName === name))
+    .map(category => category.name);
+}
+
+export function matchesCategorySearch(node: CategoryTreeNode, query: string): boolean {
+  const normalized = query.trim().toLowerCase();
+  if (!normalized) return true;
+
+  return node.category.name.toLowerCase().includes(normalized) ||
+    node.children.some(child => child.name.toLowerCase().includes(normalized));
+}
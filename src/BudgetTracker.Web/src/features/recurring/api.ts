@@ -0,0 +1,23 @@
+import { apiClient } from '../../api';
+import type { RecurringPaymentStatus, RecurringPayments } from './types';
+
+function handleError(message: string, error: unknown): void {
+  console.error(message, error);
+  throw new Error(message);
+}
+
+export const recurringApi = {
+  async getRecurringPayments(): Promise<RecurringPayments> {
+    const response = await apiClient.get<RecurringPayments>('/recurring');
+    return response.data;
+  },
+
+  async setStatus(merchantKey: string, status: RecurringPaymentStatus): Promise<void> {
+    try {
+      await apiClient.put('/recurring/status', { merchantKey, status });
+    } catch (error) {
+      handleError('Failed to update recurring payment', error);
+      throw error;
+    }
+  }
+};
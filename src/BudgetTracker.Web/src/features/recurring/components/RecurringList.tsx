@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { Link, useLoaderData, useRevalidator } from 'react-router-dom';
+import EmptyState from '../../../shared/components/EmptyState';
+import { useToast } from '../../../shared/contexts/ToastContext';
+import { formatCurrency, getCategoryColor } from '../../../shared/utils/formatters';
+import { recurringApi } from '../api';
+import type { RecurringPayment, RecurringPaymentStatus, RecurringPayments } from '../types';
+import { FREQUENCY_LABELS, formatRecurringDate, getAnnualTotal, getRecurringTransactionsLink } from '../utils/recurring';
+
+const actionClassName = 'cursor-pointer disabled:opacity-50 transition-colors';
+
+interface RecurringPaymentItemProps {
+  payment: RecurringPayment;
+  isBusy: boolean;
+  onStatusChange: (payment: RecurringPayment, status: RecurringPaymentStatus) => void;
+}
+
+const RecurringPaymentItem = ({ payment, isBusy, onStatusChange }: RecurringPaymentItemProps) => {
+  const frequency = FREQUENCY_LABELS[payment.frequency];
+  const change = payment.amountChangePercentage ?? null;
+
+  return (
+    <li className={`bg-white rounded-lg border border-neutral-100 p-4 space-y-3 ${payment.status === 'Dismissed' ? 'opacity-70' : ''}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium text-gray-900 truncate">{payment.name}</span>
+        {payment.category && (
+          <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${getCategoryColor(payment.category)}`}>
+            {payment.category}
+          </span>
+        )}
+        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-neutral-100 text-gray-700">
+          {frequency.label}
+        </span>
+        <div className="flex-1" />
+        <div className="flex items-center gap-3 shrink-0 text-xs font-medium">
+          {payment.status === 'Suggested' && (
+            <button
+              onClick={() => onStatusChange(payment, 'Confirmed')}
+              disabled={isBusy}
+              className={`${actionClassName} text-indigo-600 hover:text-indigo-700`}
+            >
+              Confirm
+            </button>
+          )}
+          {payment.status === 'Dismissed' ? (
+            <button
+              onClick={() => onStatusChange(payment, 'Suggested')}
+              disabled={isBusy}
+              className={`${actionClassName} text-indigo-600 hover:text-indigo-700`}
+            >
+              Restore
+            </button>
+          ) : (
+            <button
+              onClick={() => onStatusChange(payment, 'Dismissed')}
+              disabled={isBusy}
+              className={`${actionClassName} text-gray-500 hover:text-gray-700`}
+            >
+              {payment.status === 'Confirmed' ? 'Remove' : 'Dismiss'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {payment.status !== 'Dismissed' && (payment.isMissed || change !== null) && (
+        <div className="flex flex-wrap gap-2 text-xs font-medium">
+          {payment.isMissed && (
+            <span className="px-2 py-1 rounded bg-red-50 text-red-700">
+              Expected a charge around {formatRecurringDate(payment.nextExpectedDate)} that hasn't arrived
+            </span>
+          )}
+          {change !== null && (
+            <span className={`px-2 py-1 rounded ${change > 0 ? 'bg-yellow-50 text-yellow-800' : 'bg-green-50 text-green-700'}`}>
+              Latest charge {change > 0 ? 'up' : 'down'} {Math.abs(change)}% to {formatCurrency(payment.amount)}
+            </span>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-baseline justify-between gap-x-6 gap-y-1 text-sm">
+        <span className="text-gray-900">
+          <span className="font-semibold">{formatCurrency(payment.amount)}</span>
+          <span className="text-gray-500"> per {frequency.per} • {formatCurrency(payment.annualizedCost)} a year</span>
+        </span>
+        {!payment.isMissed && (
+          <span className="text-gray-600">Next around {formatRecurringDate(payment.nextExpectedDate)}</span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-500">
+        <span>
+          {payment.occurrences} charges since {formatRecurringDate(payment.firstDate)} • {payment.account}
+        </span>
+        <Link to={getRecurringTransactionsLink(payment)} className="font-medium text-indigo-600 hover:text-indigo-700 transition-colors">
+          View transactions
+        </Link>
+      </div>
+
+      {payment.priceHistory.length > 0 && (
+        <details className="text-xs text-gray-600">
+          <summary className="cursor-pointer select-none font-medium text-gray-700">
+            Price changes ({payment.priceHistory.length})
+          </summary>
+          <ul className="mt-2 space-y-1">
+            {payment.priceHistory.map(priceChange => (
+              <li key={priceChange.date} className="flex gap-3">
+                <span className="w-24 shrink-0 text-gray-500">{formatRecurringDate(priceChange.date)}</span>
+                <span>
+                  {formatCurrency(priceChange.previousAmount)} → {formatCurrency(priceChange.amount)}
+                  <span className={priceChange.amount > priceChange.previousAmount ? ' text-red-600' : ' text-green-600'}>
+                    {priceChange.amount > priceChange.previousAmount ? ' ▲' : ' ▼'}
+                  </span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </li>
+  );
+};
+
+const STATUS_MESSAGES: Record<RecurringPaymentStatus, string> = {
+  Confirmed: 'Added to your subscriptions',
+  Dismissed: 'Dismissed',
+  Suggested: 'Moved back to suggestions'
+};
+
+export default function RecurringList() {
+  const data = useLoaderData() as RecurringPayments;
+  const revalidator = useRevalidator();
+  const { showSuccess, showError } = useToast();
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const confirmed = data.payments.filter(payment => payment.status === 'Confirmed');
+  const suggested = data.payments.filter(payment => payment.status === 'Suggested');
+  const dismissed = data.payments.filter(payment => payment.status === 'Dismissed');
+  const warningCount = [...confirmed, ...suggested]
+    .filter(payment => payment.isMissed || payment.amountChangePercentage != null)
+    .length;
+
+  const handleStatusChange = async (payment: RecurringPayment, status: RecurringPaymentStatus) => {
+    setBusyKey(payment.merchantKey);
+    try {
+      await recurringApi.setStatus(payment.merchantKey, status);
+      showSuccess(STATUS_MESSAGES[status], payment.name);
+      revalidator.revalidate();
+    } catch {
+      showError('Failed to update recurring payment', 'Please try again.');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const renderPayments = (payments: RecurringPayment[]) => (
+    <ul className="space-y-2">
+      {payments.map(payment => (
+        <RecurringPaymentItem
+          key={payment.merchantKey}
+          payment={payment}
+          isBusy={busyKey === payment.merchantKey}
+          onStatusChange={handleStatusChange}
+        />
+      ))}
+    </ul>
+  );
+
+  if (data.payments.length === 0) {
+    return (
+      <EmptyState
+        title="No recurring payments found"
+        description="Charges from the same merchant for about the same amount every week, month or year show up here once a few of them have been imported."
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-600">
+        {confirmed.length > 0
+          ? `${confirmed.length} ${confirmed.length === 1 ? 'subscription' : 'subscriptions'} costing ${formatCurrency(getAnnualTotal(confirmed))} a year`
+          : 'Confirm the charges that are subscriptions to track what they cost you'}
+        {warningCount > 0 && ` • ${warningCount} need${warningCount === 1 ? 's' : ''} attention`}
+        {data.asOf && ` • Based on transactions up to ${formatRecurringDate(data.asOf)}`}
+      </p>
+
+      {confirmed.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-base font-semibold text-gray-900">Subscriptions</h2>
+          {renderPayments(confirmed)}
+        </section>
+      )}
+
+      {suggested.length > 0 && (
+        <section className="space-y-3">
+          <div>
+            <h2 className="text-base font-semibold text-gray-900">Suggested</h2>
+            <p className="text-sm text-gray-500">Repeating charges found in your transactions. Confirm the ones you're subscribed to.</p>
+          </div>
+          {renderPayments(suggested)}
+        </section>
+      )}
+
+      {dismissed.length > 0 && (
+        <details className="space-y-3">
+          <summary className="cursor-pointer select-none text-sm font-medium text-gray-700">
+            Dismissed ({dismissed.length})
+          </summary>
+          <div className="mt-3">{renderPayments(dismissed)}</div>
+        </details>
+      )}
+    </div>
+  );
+}
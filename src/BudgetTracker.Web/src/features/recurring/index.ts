@@ -0,0 +1,3 @@
+export { recurringApi } from './api';
+export { default as RecurringList } from './components/RecurringList';
+export type { PriceChange, RecurringFrequency, RecurringPayment, RecurringPaymentStatus, RecurringPayments } from './types';
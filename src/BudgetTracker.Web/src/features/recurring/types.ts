@@ -0,0 +1,39 @@
+export type RecurringFrequency = 'Weekly' | 'Monthly' | 'Yearly';
+
+/** Suggested series haven't been reviewed yet; confirmed ones are subscriptions */
+export type RecurringPaymentStatus = 'Suggested' | 'Confirmed' | 'Dismissed';
+
+export interface PriceChange {
+  date: string;
+  previousAmount: number;
+  amount: number;
+}
+
+export interface RecurringPayment {
+  /** The normalized merchant the charges were grouped by */
+  merchantKey: string;
+  /** The description of the latest charge */
+  name: string;
+  category?: string | null;
+  account: string;
+  frequency: RecurringFrequency;
+  status: RecurringPaymentStatus;
+  occurrences: number;
+  firstDate: string;
+  lastDate: string;
+  nextExpectedDate: string;
+  /** The latest charge, as a positive amount */
+  amount: number;
+  annualizedCost: number;
+  priceHistory: PriceChange[];
+  /** Whether the next charge is overdue by more than the frequency's grace period */
+  isMissed: boolean;
+  /** How much the latest charge differs from the one before, when the jump is large enough to flag */
+  amountChangePercentage?: number | null;
+}
+
+export interface RecurringPayments {
+  /** The date of the latest transaction, which missed charges are judged against */
+  asOf?: string | null;
+  payments: RecurringPayment[];
+}
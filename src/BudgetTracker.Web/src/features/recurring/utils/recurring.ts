@@ -0,0 +1,23 @@
+import { format, parseISO } from 'date-fns';
+import type { RecurringFrequency, RecurringPayment } from '../types';
+
+export const FREQUENCY_LABELS: Record<RecurringFrequency, { label: string; per: string }> = {
+  Weekly: { label: 'Weekly', per: 'week' },
+  Monthly: { label: 'Monthly', per: 'month' },
+  Yearly: { label: 'Yearly', per: 'year' }
+};
+
+export function formatRecurringDate(date: string): string {
+  return format(parseISO(date), 'MMM d, yyyy');
+}
+
+/**
+ * The transactions page searching for the latest charge's description
+ */
+export function getRecurringTransactionsLink(payment: RecurringPayment): string {
+  return `/transactions?${new URLSearchParams({ search: payment.name, type: 'expense' })}`;
+}
+
+export function getAnnualTotal(payments: RecurringPayment[]): number {
+  return payments.reduce((sum, payment) => sum + payment.annualizedCost, 0);
+}
@@ -0,0 +1,73 @@
+import { apiClient } from '../../api';
+import type { CategorizationRule, RulePreview, SaveRuleRequest } from './types';
+
+function handleError(message: string, error: unknown): void {
+  console.error(message, error);
+  throw new Error(message);
+}
+
+export const rulesApi = {
+  async getRules(): Promise<CategorizationRule[]> {
+    const response = await apiClient.get<CategorizationRule[]>('/rules');
+    return response.data;
+  },
+
+  async createRule(request: SaveRuleRequest): Promise<CategorizationRule> {
+    try {
+      const response = await apiClient.post<CategorizationRule>('/rules', request);
+      return response.data;
+    } catch (error) {
+      handleError('Failed to create rule', error);
+      throw error;
+    }
+  },
+
+  async updateRule(ruleId: string, request: SaveRuleRequest): Promise<CategorizationRule> {
+    try {
+      const response = await apiClient.put<CategorizationRule>(`/rules/${ruleId}`, request);
+      return response.data;
+    } catch (error) {
+      handleError('Failed to update rule', error);
+      throw error;
+    }
+  },
+
+  async deleteRule(ruleId: string): Promise<void> {
+    try {
+      await apiClient.delete(`/rules/${ruleId}`);
+    } catch (error) {
+      handleError('Failed to delete rule', error);
+      throw error;
+    }
+  },
+
+  async reorderRules(ruleIds: string[]): Promise<CategorizationRule[]> {
+    try {
+      const response = await apiClient.put<CategorizationRule[]>('/rules/order', { ruleIds });
+      return response.data;
+    } catch (error) {
+      handleError('Failed to reorder rules', error);
+      throw error;
+    }
+  },
+
+  async previewRule(request: SaveRuleRequest): Promise<RulePreview> {
+    try {
+      const response = await apiClient.post<RulePreview>('/rules/preview', request);
+      return response.data;
+    } catch (error) {
+      handleError('Failed to preview rule', error);
+      throw error;
+    }
+  },
+
+  async applyRule(ruleId: string): Promise<{ updatedCount: number }> {
+    try {
+      const response = await apiClient.post<{ updatedCount: number }>(`/rules/${ruleId}/apply`);
+      return response.data;
+    } catch (error) {
+      handleError('Failed to apply rule', error);
+      throw error;
+    }
+  }
+};
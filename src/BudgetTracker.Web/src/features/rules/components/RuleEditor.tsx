@@ -0,0 +1,264 @@
+import { useEffect, useRef, useState } from 'react';
+import { useToast } from '../../../shared/contexts/ToastContext';
+import CategoryManager from '../../transactions/components/CategoryManager';
+import { rulesApi } from '../api';
+import type { CategorizationRule, RulePreview, SaveRuleRequest } from '../types';
+import {
+  AMOUNT_SIGN_OPTIONS,
+  MATCH_TYPE_OPTIONS,
+  MAX_RULE_CATEGORIES,
+  createRuleDraft,
+  toSaveRuleRequest,
+  validateRuleDraft,
+  type RuleDraft
+} from '../utils/rules';
+import RulePreviewTable from './RulePreviewTable';
+
+interface RuleEditorProps {
+  rule?: CategorizationRule;
+  /** Prefills a new rule, e.g. from a transaction that was just recategorized */
+  initialValues?: Partial<SaveRuleRequest>;
+  /** Tests the initial conditions straight away so the match count shows without a click */
+  previewOnOpen?: boolean;
+  availableCategories: string[];
+  accounts: string[];
+  onSaved: (rule: CategorizationRule, appliedToHistory: boolean) => void;
+  onCancel: () => void;
+}
+
+const labelClassName = 'block text-sm font-medium text-gray-700 mb-1';
+const inputClassName = 'w-full border border-neutral-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+const secondaryButtonClassName = 'cursor-pointer px-3 py-2 border border-neutral-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-neutral-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+const primaryButtonClassName = 'cursor-pointer px-3 py-2 rounded-md bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+export default function RuleEditor({
+  rule,
+  initialValues,
+  previewOnOpen = false,
+  availableCategories,
+  accounts,
+  onSaved,
+  onCancel
+}: RuleEditorProps) {
+  const { showSuccess, showError } = useToast();
+  const [initialDraft] = useState(() => createRuleDraft(rule ?? initialValues));
+  const [draft, setDraft] = useState(initialDraft);
+  const [error, setError] = useState<string>();
+  const [preview, setPreview] = useState<RulePreview | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  // Bumped on every edit so a preview that returns after the conditions changed is dropped
+  const draftVersionRef = useRef(0);
+  const idPrefix = rule ? `rule-${rule.id}` : initialValues ? 'rule-prefilled' : 'rule-new';
+
+  useEffect(() => {
+    if (!previewOnOpen || validateRuleDraft(initialDraft)) return;
+
+    const version = draftVersionRef.current;
+    rulesApi.previewRule(toSaveRuleRequest(initialDraft))
+      .then(result => {
+        if (version === draftVersionRef.current) setPreview(result);
+      })
+      .catch(error => console.error('Failed to preview rule:', error));
+  }, [initialDraft, previewOnOpen]);
+
+  const update = (changes: Partial<RuleDraft>) => {
+    draftVersionRef.current += 1;
+    setDraft(prev => ({ ...prev, ...changes }));
+    setError(undefined);
+    // A preview of the old conditions would be misleading
+    setPreview(null);
+  };
+
+  const validate = () => {
+    const validationError = validateRuleDraft(draft);
+    setError(validationError);
+    return !validationError;
+  };
+
+  const handlePreview = async () => {
+    if (!validate()) return;
+
+    setIsBusy(true);
+    try {
+      setPreview(await rulesApi.previewRule(toSaveRuleRequest(draft)));
+    } catch {
+      showError('Failed to test rule', 'Please check the conditions and try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = async (applyToHistory: boolean) => {
+    if (!validate()) return;
+
+    setIsBusy(true);
+    try {
+      const request = toSaveRuleRequest(draft);
+      const saved = rule ? await rulesApi.updateRule(rule.id, request) : await rulesApi.createRule(request);
+
+      if (applyToHistory) {
+        const { updatedCount } = await rulesApi.applyRule(saved.id);
+        showSuccess(`Saved "${saved.name}"`, `${updatedCount} transaction${updatedCount === 1 ? '' : 's'} recategorized`);
+      } else {
+        showSuccess(`Saved "${saved.name}"`, 'It will run on your next import.');
+      }
+
+      onSaved(saved, applyToHistory);
+    } catch {
+      showError('Failed to save rule', 'Please check the conditions and try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-neutral-200 p-6 space-y-5">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor={`${idPrefix}-name`} className={labelClassName}>Name</label>
+          <input
+            id={`${idPrefix}-name`}
+            type="text"
+            value={draft.name}
+            onChange={(e) => update({ name: e.target.value })}
+            maxLength={100}
+            placeholder="e.g. Streaming services"
+            autoFocus
+            className={inputClassName}
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer sm:pt-6">
+          <input
+            type="checkbox"
+            checked={draft.isEnabled}
+            onChange={(e) => update({ isEnabled: e.target.checked })}
+            className="w-4 h-4 text-indigo-600 border-neutral-300 rounded focus:ring-indigo-500"
+          />
+          Run on new imports
+        </label>
+      </div>
+
+      <fieldset className="space-y-4">
+        <legend className="text-sm font-semibold text-gray-900 mb-2">When a transaction matches all of</legend>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor={`${idPrefix}-match-type`} className={labelClassName}>Description</label>
+            <select
+              id={`${idPrefix}-match-type`}
+              value={draft.matchType}
+              onChange={(e) => update({ matchType: e.target.value as RuleDraft['matchType'] })}
+              className={`${inputClassName} cursor-pointer`}
+            >
+              {MATCH_TYPE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </div>
+          <div className="sm:col-span-2">
+            <label htmlFor={`${idPrefix}-pattern`} className={labelClassName}>Text</label>
+            <input
+              id={`${idPrefix}-pattern`}
+              type="text"
+              value={draft.descriptionPattern}
+              onChange={(e) => update({ descriptionPattern: e.target.value })}
+              maxLength={500}
+              placeholder={draft.matchType === 'Regex' ? 'e.g. ^(NETFLIX|SPOTIFY)' : 'e.g. NETFLIX'}
+              className={`${inputClassName} ${draft.matchType === 'Regex' ? 'font-mono' : ''}`}
+            />
+            <p className="mt-1 text-xs text-gray-500">Case is ignored. Leave empty to match any description.</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+          <div>
+            <label htmlFor={`${idPrefix}-sign`} className={labelClassName}>Direction</label>
+            <select
+              id={`${idPrefix}-sign`}
+              value={draft.amountSign}
+              onChange={(e) => update({ amountSign: e.target.value as RuleDraft['amountSign'] })}
+              className={`${inputClassName} cursor-pointer`}
+            >
+              {AMOUNT_SIGN_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor={`${idPrefix}-min`} className={labelClassName}>Amount at least</label>
+            <input
+              id={`${idPrefix}-min`}
+              type="number"
+              min="0"
+              step="0.01"
+              value={draft.minAmount}
+              onChange={(e) => update({ minAmount: e.target.value })}
+              placeholder="Any"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor={`${idPrefix}-max`} className={labelClassName}>Amount at most</label>
+            <input
+              id={`${idPrefix}-max`}
+              type="number"
+              min="0"
+              step="0.01"
+              value={draft.maxAmount}
+              onChange={(e) => update({ maxAmount: e.target.value })}
+              placeholder="Any"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor={`${idPrefix}-account`} className={labelClassName}>Account</label>
+            <input
+              id={`${idPrefix}-account`}
+              type="text"
+              list={`${idPrefix}-accounts`}
+              value={draft.account}
+              onChange={(e) => update({ account: e.target.value })}
+              maxLength={100}
+              placeholder="Any"
+              className={inputClassName}
+            />
+            <datalist id={`${idPrefix}-accounts`}>
+              {accounts.map(account => <option key={account} value={account} />)}
+            </datalist>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">Amounts are compared without their sign; use Direction to tell income from expenses.</p>
+      </fieldset>
+
+      <div>
+        <p className={labelClassName}>Categorize as</p>
+        <CategoryManager
+          existingCategories={draft.categories}
+          availableCategories={availableCategories}
+          onAddCategory={draft.categories.length < MAX_RULE_CATEGORIES
+            ? (category) => update({ categories: [...draft.categories, category] })
+            : undefined}
+          onRemoveCategory={(category) => update({ categories: draft.categories.filter(c => c !== category) })}
+        />
+        <p className="mt-1 text-xs text-gray-500">The first category becomes the primary one.</p>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {preview && <RulePreviewTable preview={preview} />}
+
+      <div className="flex flex-wrap justify-end gap-2 pt-2 border-t border-neutral-100">
+        <button onClick={onCancel} disabled={isBusy} className={secondaryButtonClassName}>
+          Cancel
+        </button>
+        <button onClick={handlePreview} disabled={isBusy} className={secondaryButtonClassName}>
+          Test against existing transactions
+        </button>
+        {preview && preview.changeCount > 0 && (
+          <button onClick={() => handleSave(true)} disabled={isBusy} className={secondaryButtonClassName}>
+            Save and apply to {preview.changeCount} transaction{preview.changeCount === 1 ? '' : 's'}
+          </button>
+        )}
+        <button onClick={() => handleSave(false)} disabled={isBusy} className={primaryButtonClassName}>
+          Save Rule
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import { useEffect, useState } from 'react';
+import { useLoaderData } from 'react-router-dom';
+import EmptyState from '../../../shared/components/EmptyState';
+import { useToast } from '../../../shared/contexts/ToastContext';
+import { isCategoryArchived } from '../../../shared/utils/categoryAppearance';
+import { getCategoryColor } from '../../../shared/utils/formatters';
+import { transactionsApi } from '../../transactions/api';
+import { rulesApi } from '../api';
+import type { CategorizationRule } from '../types';
+import { describeRuleConditions, ruleToRequest } from '../utils/rules';
+import RuleEditor from './RuleEditor';
+
+const NEW_RULE = 'new';
+
+const iconButtonClassName = 'cursor-pointer p-1 rounded text-gray-500 hover:text-gray-900 hover:bg-neutral-100 disabled:opacity-30 disabled:cursor-not-allowed transition-colors';
+
+export default function RuleList() {
+  const loaderData = useLoaderData() as CategorizationRule[];
+  const { showSuccess, showError } = useToast();
+  const [rules, setRules] = useState(loaderData);
+  const [previousLoaderData, setPreviousLoaderData] = useState(loaderData);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [accounts, setAccounts] = useState<string[]>([]);
+
+  if (loaderData !== previousLoaderData) {
+    setPreviousLoaderData(loaderData);
+    setRules(loaderData);
+  }
+
+  useEffect(() => {
+    const fetchFilters = async () => {
+      try {
+        const filters = await transactionsApi.getFilters();
+        setCategories(filters.categories.filter(category => !isCategoryArchived(category)));
+        setAccounts(filters.accounts);
+      } catch (error) {
+        console.error('Failed to fetch filters:', error);
+      }
+    };
+    fetchFilters();
+  }, []);
+
+  const handleSaved = (saved: CategorizationRule) => {
+    setRules(prev => prev.some(r => r.id === saved.id)
+      ? prev.map(r => (r.id === saved.id ? saved : r))
+      : [...prev, saved]);
+    setEditingId(null);
+  };
+
+  const handleMove = async (index: number, offset: number) => {
+    const reordered = [...rules];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, moved);
+
+    const previous = rules;
+    setRules(reordered);
+    try {
+      setRules(await rulesApi.reorderRules(reordered.map(r => r.id)));
+    } catch {
+      setRules(previous);
+      showError('Failed to reorder rules', 'Please try again.');
+    }
+  };
+
+  const handleToggle = async (rule: CategorizationRule) => {
+    setBusyId(rule.id);
+    try {
+      const updated = await rulesApi.updateRule(rule.id, { ...ruleToRequest(rule), isEnabled: !rule.isEnabled });
+      setRules(prev => prev.map(r => (r.id === updated.id ? updated : r)));
+    } catch {
+      showError('Failed to update rule', 'Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleApply = async (rule: CategorizationRule) => {
+    if (!window.confirm(`Recategorize every existing transaction matching "${rule.name}"?`)) return;
+
+    setBusyId(rule.id);
+    try {
+      const { updatedCount } = await rulesApi.applyRule(rule.id);
+      showSuccess(`Applied "${rule.name}"`, `${updatedCount} transaction${updatedCount === 1 ? '' : 's'} recategorized`);
+    } catch {
+      showError('Failed to apply rule', 'Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (rule: CategorizationRule) => {
+    if (!window.confirm(`Delete the rule "${rule.name}"? Transactions it already categorized keep their categories.`)) return;
+
+    setBusyId(rule.id);
+    try {
+      await rulesApi.deleteRule(rule.id);
+      setRules(prev => prev.filter(r => r.id !== rule.id));
+      showSuccess(`Deleted "${rule.name}"`);
+    } catch {
+      showError('Failed to delete rule', 'Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-600">
+          Rules run in order on every import, before AI suggestions. The first matching rule wins.
+        </p>
+        {editingId !== NEW_RULE && (
+          <button
+            onClick={() => setEditingId(NEW_RULE)}
+            className="cursor-pointer shrink-0 px-3 py-2 rounded-md bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 transition-colors"
+          >
+            New Rule
+          </button>
+        )}
+      </div>
+
+      {editingId === NEW_RULE && (
+        <RuleEditor
+          availableCategories={categories}
+          accounts={accounts}
+          onSaved={handleSaved}
+          onCancel={() => setEditingId(null)}
+        />
+      )}
+
+      {rules.length === 0 && editingId !== NEW_RULE ? (
+        <EmptyState
+          title="No rules yet"
+          description={'Create a rule such as "description contains NETFLIX → Subscriptions" and new imports are categorized automatically.'}
+          action={{ label: 'New Rule', onClick: () => setEditingId(NEW_RULE) }}
+        />
+      ) : (
+        <ol className="space-y-2">
+          {rules.map((rule, index) => editingId === rule.id ? (
+            <li key={rule.id}>
+              <RuleEditor
+                rule={rule}
+                availableCategories={categories}
+                accounts={accounts}
+                onSaved={handleSaved}
+                onCancel={() => setEditingId(null)}
+              />
+            </li>
+          ) : (
+            <li
+              key={rule.id}
+              className={`bg-white rounded-lg border border-neutral-100 p-4 flex items-center gap-4 ${rule.isEnabled ? '' : 'opacity-60'}`}
+            >
+              <div className="flex flex-col">
+                <button
+                  onClick={() => handleMove(index, -1)}
+                  disabled={index === 0}
+                  aria-label={`Move ${rule.name} up`}
+                  className={iconButtonClassName}
+                >
+                  ▲
+                </button>
+                <button
+                  onClick={() => handleMove(index, 1)}
+                  disabled={index === rules.length - 1}
+                  aria-label={`Move ${rule.name} down`}
+                  className={iconButtonClassName}
+                >
+                  ▼
+                </button>
+              </div>
+
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-medium text-gray-400">#{index + 1}</span>
+                  <p className="text-sm font-medium text-gray-900 truncate">{rule.name}</p>
+                  {!rule.isEnabled && (
+                    <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-neutral-100 text-gray-600">
+                      Paused
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 truncate">{describeRuleConditions(rule)}</p>
+                <div className="flex flex-wrap items-center gap-1">
+                  <span className="text-xs text-gray-500">→</span>
+                  {rule.categories.map(category => (
+                    <span key={category} className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${getCategoryColor(category)}`}>
+                      {category}
+                    </span>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-3 shrink-0 text-xs font-medium">
+                <button
+                  onClick={() => handleToggle(rule)}
+                  disabled={busyId === rule.id}
+                  className="cursor-pointer text-gray-600 hover:text-gray-900 disabled:opacity-50 transition-colors"
+                >
+                  {rule.isEnabled ? 'Pause' : 'Resume'}
+                </button>
+                <button
+                  onClick={() => handleApply(rule)}
+                  disabled={busyId === rule.id}
+                  className="cursor-pointer text-indigo-600 hover:text-indigo-700 disabled:opacity-50 transition-colors"
+                >
+                  Apply to history
+                </button>
+                <button
+                  onClick={() => setEditingId(rule.id)}
+                  className="cursor-pointer text-indigo-600 hover:text-indigo-700 transition-colors"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(rule)}
+                  disabled={busyId === rule.id}
+                  className="cursor-pointer text-red-600 hover:text-red-700 disabled:opacity-50 transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
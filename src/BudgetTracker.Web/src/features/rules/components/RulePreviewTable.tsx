@@ -0,0 +1,69 @@
+import { formatAmount, formatDate, getCategoryColor } from '../../../shared/utils/formatters';
+import type { RulePreview } from '../types';
+
+interface RulePreviewTableProps {
+  preview: RulePreview;
+}
+
+function CategoryChips({ categories }: { categories: string[] }) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {categories.map(category => (
+        <span key={category} className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${getCategoryColor(category)}`}>
+          {category}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export default function RulePreviewTable({ preview }: RulePreviewTableProps) {
+  const unchangedCount = preview.matchCount - preview.changeCount;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-gray-700">
+        Matches <span className="font-medium">{preview.matchCount}</span> existing transaction{preview.matchCount === 1 ? '' : 's'}
+        {' · '}
+        <span className="font-medium">{preview.changeCount}</span> would change
+        {unchangedCount > 0 && `, ${unchangedCount} already categorized this way`}
+      </p>
+
+      {preview.changes.length > 0 && (
+        <div className="max-h-80 overflow-auto border border-neutral-200 rounded-md">
+          <table className="min-w-full text-sm">
+            <thead className="bg-neutral-50 text-xs text-gray-500 uppercase tracking-wide sticky top-0">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">Date</th>
+                <th className="px-3 py-2 text-left font-medium">Description</th>
+                <th className="px-3 py-2 text-right font-medium">Amount</th>
+                <th className="px-3 py-2 text-left font-medium">Current</th>
+                <th className="px-3 py-2 text-left font-medium">New</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-100">
+              {preview.changes.map(item => (
+                <tr key={item.transactionId}>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-600">{formatDate(item.date)}</td>
+                  <td className="px-3 py-2 text-gray-900">
+                    {item.description}
+                    <span className="block text-xs text-gray-500">{item.account}</span>
+                  </td>
+                  <td className={`px-3 py-2 text-right whitespace-nowrap ${item.amount < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {formatAmount(item.amount)}
+                  </td>
+                  <td className="px-3 py-2"><CategoryChips categories={item.currentCategories} /></td>
+                  <td className="px-3 py-2"><CategoryChips categories={item.newCategories} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {preview.changeCount > preview.changes.length && (
+        <p className="text-xs text-gray-500">Showing the {preview.changes.length} most recent of {preview.changeCount} changes.</p>
+      )}
+    </div>
+  );
+}
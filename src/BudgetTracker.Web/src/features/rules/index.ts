@@ -0,0 +1,5 @@
+export { rulesApi } from './api';
+export { default as RuleEditor } from './components/RuleEditor';
+export { default as RuleList } from './components/RuleList';
+export { suggestDescriptionPattern } from './utils/rules';
+export type { CategorizationRule, SaveRuleRequest, RulePreview } from './types';
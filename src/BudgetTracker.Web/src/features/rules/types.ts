@@ -0,0 +1,36 @@
+export type RuleMatchType = 'Contains' | 'StartsWith' | 'Equals' | 'Regex';
+
+export type RuleAmountSign = 'Any' | 'Positive' | 'Negative';
+
+export interface CategorizationRule {
+  id: string;
+  name: string;
+  position: number;
+  isEnabled: boolean;
+  descriptionPattern?: string | null;
+  matchType: RuleMatchType;
+  minAmount?: number | null;
+  maxAmount?: number | null;
+  amountSign: RuleAmountSign;
+  account?: string | null;
+  categories: string[];
+  updatedAt: string;
+}
+
+export type SaveRuleRequest = Omit<CategorizationRule, 'id' | 'position' | 'updatedAt'>;
+
+export interface RulePreviewItem {
+  transactionId: string;
+  date: string;
+  description: string;
+  amount: number;
+  account: string;
+  currentCategories: string[];
+  newCategories: string[];
+}
+
+export interface RulePreview {
+  matchCount: number;
+  changeCount: number;
+  changes: RulePreviewItem[];
+}
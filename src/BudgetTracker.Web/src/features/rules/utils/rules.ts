@@ -0,0 +1,159 @@
+import { formatCurrency } from '../../../shared/utils/formatters';
+import type { CategorizationRule, RuleAmountSign, RuleMatchType, SaveRuleRequest } from '../types';
+
+export const MATCH_TYPE_OPTIONS: { value: RuleMatchType; label: string }[] = [
+  { value: 'Contains', label: 'contains' },
+  { value: 'StartsWith', label: 'starts with' },
+  { value: 'Equals', label: 'is exactly' },
+  { value: 'Regex', label: 'matches regex' }
+];
+
+export const AMOUNT_SIGN_OPTIONS: { value: RuleAmountSign; label: string }[] = [
+  { value: 'Any', label: 'Any direction' },
+  { value: 'Negative', label: 'Expenses only' },
+  { value: 'Positive', label: 'Income only' }
+];
+
+export const MAX_RULE_CATEGORIES = 5;
+
+/**
+ * The rule as edited in the form. Amounts stay strings so an empty input means "no bound".
+ */
+export interface RuleDraft {
+  name: string;
+  isEnabled: boolean;
+  descriptionPattern: string;
+  matchType: RuleMatchType;
+  minAmount: string;
+  maxAmount: string;
+  amountSign: RuleAmountSign;
+  account: string;
+  categories: string[];
+}
+
+/**
+ * A "contains" pattern that also catches later statements from the same merchant: the description's
+ * leading words, stopping at the first reference number or card suffix since those differ every time
+ */
+export function suggestDescriptionPattern(description: string): string {
+  const words = description.trim().split(/\s+/);
+  const firstVaryingWord = words.findIndex(word => /[\d#*]/.test(word));
+  const stableWords = firstVaryingWord === -1 ? words : words.slice(0, firstVaryingWord);
+
+  return stableWords.slice(0, 3).join(' ') || description.trim();
+}
+
+export function createRuleDraft(rule?: Partial<SaveRuleRequest>): RuleDraft {
+  return {
+    name: rule?.name ?? '',
+    isEnabled: rule?.isEnabled ?? true,
+    descriptionPattern: rule?.descriptionPattern ?? '',
+    matchType: rule?.matchType ?? 'Contains',
+    minAmount: rule?.minAmount?.toString() ?? '',
+    maxAmount: rule?.maxAmount?.toString() ?? '',
+    amountSign: rule?.amountSign ?? 'Any',
+    account: rule?.account ?? '',
+    categories: rule?.categories ?? []
+  };
+}
+
+function parseAmount(value: string): number | null {
+  return value.trim() === '' ? null : Number(value);
+}
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function validateRuleDraft(draft: RuleDraft): string | undefined {
+  if (!draft.name.trim()) return 'Give the rule a name';
+
+  const minAmount = parseAmount(draft.minAmount);
+  const maxAmount = parseAmount(draft.maxAmount);
+
+  if (!draft.descriptionPattern.trim() && minAmount === null && maxAmount === null &&
+      draft.amountSign === 'Any' && !draft.account.trim()) {
+    return 'Add at least one condition';
+  }
+
+  if (draft.matchType === 'Regex' && draft.descriptionPattern.trim() && !isValidRegex(draft.descriptionPattern.trim())) {
+    return 'The description pattern is not a valid regular expression';
+  }
+
+  if ([minAmount, maxAmount].some(amount => amount !== null && (Number.isNaN(amount) || amount < 0))) {
+    return 'Amounts must be zero or more';
+  }
+
+  if (minAmount !== null && maxAmount !== null && minAmount > maxAmount) {
+    return 'The minimum amount is greater than the maximum';
+  }
+
+  if (draft.categories.length === 0) return 'Choose at least one category';
+
+  return undefined;
+}
+
+export function toSaveRuleRequest(draft: RuleDraft): SaveRuleRequest {
+  return {
+    name: draft.name.trim(),
+    isEnabled: draft.isEnabled,
+    descriptionPattern: draft.descriptionPattern.trim() || null,
+    matchType: draft.matchType,
+    minAmount: parseAmount(draft.minAmount),
+    maxAmount: parseAmount(draft.maxAmount),
+    amountSign: draft.amountSign,
+    account: draft.account.trim() || null,
+    categories: draft.categories
+  };
+}
+
+export function ruleToRequest(rule: CategorizationRule): SaveRuleRequest {
+  return {
+    name: rule.name,
+    isEnabled: rule.isEnabled,
+    descriptionPattern: rule.descriptionPattern,
+    matchType: rule.matchType,
+    minAmount: rule.minAmount,
+    maxAmount: rule.maxAmount,
+    amountSign: rule.amountSign,
+    account: rule.account,
+    categories: rule.categories
+  };
+}
+
+/**
+ * One-line summary of a rule's conditions, e.g. `Description contains "NETFLIX" · Income only · over $2,000.00`
+ */
+export function describeRuleConditions(rule: SaveRuleRequest | CategorizationRule): string {
+  const parts: string[] = [];
+
+  if (rule.descriptionPattern) {
+    const matchLabel = MATCH_TYPE_OPTIONS.find(option => option.value === rule.matchType)?.label ?? 'contains';
+    parts.push(`Description ${matchLabel} "${rule.descriptionPattern}"`);
+  }
+
+  if (rule.amountSign !== 'Any') {
+    parts.push(AMOUNT_SIGN_OPTIONS.find(option => option.value === rule.amountSign)!.label);
+  }
+
+  const hasMin = rule.minAmount !== null && rule.minAmount !== undefined;
+  const hasMax = rule.maxAmount !== null && rule.maxAmount !== undefined;
+  if (hasMin && hasMax) {
+    parts.push(`between ${formatCurrency(rule.minAmount!)} and ${formatCurrency(rule.maxAmount!)}`);
+  } else if (hasMin) {
+    parts.push(`at least ${formatCurrency(rule.minAmount!)}`);
+  } else if (hasMax) {
+    parts.push(`at most ${formatCurrency(rule.maxAmount!)}`);
+  }
+
+  if (rule.account) {
+    parts.push(`account ${rule.account}`);
+  }
+
+  return parts.join(' · ');
+}
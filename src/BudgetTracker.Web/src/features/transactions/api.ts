@@ -1,7 +1,9 @@
 import { apiClient } from '../../api';
 import type {
   TransactionListDto,
+  TransactionBatch,
   GetTransactionsParams,
+  GetTransactionBatchParams,
   ImportTransactionsParams,
   ImportResult,
   EnhanceImportRequest,
@@ -9,8 +11,29 @@ import type {
   TransactionEnhancementResult,
   TransactionFilters,
   DeleteTransactionsRequest,
-  DeleteTransactionsResult
+  DeleteTransactionsResult,
+  ImportProfile,
+  SaveImportProfileRequest,
+  ResolveDuplicatesRequest,
+  ResolveDuplicatesResult,
+  ImportSession,
+  ImportJob,
+  ImportJobClient,
+  Transaction,
+  TransactionSplit,
+  CreateTransactionRequest,
+  CreateTransactionsResult,
+  TransactionEditableField,
+  UpdateTransactionRequest,
+  BulkUpdateResult,
+  BulkSelection,
+  TransactionFilterCriteria,
+  TransactionSnapshot
 } from './types';
+import { isImportJobFinished } from './utils/importJobs';
+import { mockImportJobClient } from './utils/mockImportJobs';
+
+const IMPORT_JOB_POLL_INTERVAL = 1000;
 
 export type { EnhanceImportResult, TransactionEnhancementResult };
 
@@ -19,15 +42,109 @@ function handleError(message: string, error: any): void {
   throw new Error(message);
 }
 
+// The API takes singular names for its repeated list params
+function toListParams(params: Omit<GetTransactionsParams, 'page' | 'pageSize'>) {
+  const { categories, excludeCategories, accounts, excludeAccounts, ...filters } = params;
+  return {
+    category: categories,
+    excludeCategory: excludeCategories,
+    account: accounts,
+    excludeAccount: excludeAccounts,
+    ...filters
+  };
+}
+
 export const transactionsApi = {
   async getTransactions(params: GetTransactionsParams = {}): Promise<TransactionListDto> {
-    const { page = 1, pageSize = 20, category, account } = params;
+    const { page = 1, pageSize = 20, ...criteria } = params;
     const response = await apiClient.get<TransactionListDto>('/transactions', {
-      params: { page, pageSize, category, account }
+      params: { page, pageSize, ...toListParams(criteria) },
+      // Repeat list params as category=a&category=b, which is what the API binds to arrays
+      paramsSerializer: { indexes: null }
+    });
+    return response.data;
+  },
+
+  async getTransactionBatch(params: GetTransactionBatchParams = {}): Promise<TransactionBatch> {
+    const { cursor, limit = 100, ...criteria } = params;
+    const response = await apiClient.get<TransactionBatch>('/transactions/scroll', {
+      params: { cursor, limit, ...toListParams(criteria) },
+      paramsSerializer: { indexes: null }
     });
     return response.data;
   },
 
+  /**
+   * Every transaction matching the filter, fetched a page at a time
+   */
+  async getAllTransactions(filter: TransactionFilterCriteria): Promise<Transaction[]> {
+    const transactions: Transaction[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const batch = await transactionsApi.getTransactionBatch({ ...filter, cursor, limit: 200 });
+      transactions.push(...batch.items);
+      cursor = batch.nextCursor ?? undefined;
+    } while (cursor);
+
+    return transactions;
+  },
+
+  async countBulkSelection(selection: BulkSelection): Promise<number> {
+    try {
+      const response = await apiClient.post<{ count: number }>('/transactions/bulk/count', selection);
+      return response.data.count;
+    } catch (error) {
+      handleError('Failed to count selected transactions', error);
+      throw error;
+    }
+  },
+
+  async restoreSnapshots(snapshots: TransactionSnapshot[]): Promise<BulkUpdateResult> {
+    try {
+      const response = await apiClient.put<BulkUpdateResult>('/transactions/bulk/restore', { snapshots });
+      return response.data;
+    } catch (error) {
+      handleError('Failed to restore transactions', error);
+      throw error;
+    }
+  },
+
+  async getTrash(page = 1, pageSize = 20): Promise<TransactionListDto> {
+    const response = await apiClient.get<TransactionListDto>('/transactions/trash', { params: { page, pageSize } });
+    return response.data;
+  },
+
+  async restoreFromTrash(transactionIds: string[]): Promise<{ restoredCount: number }> {
+    try {
+      const response = await apiClient.post<{ restoredCount: number }>('/transactions/trash/restore', { transactionIds });
+      return response.data;
+    } catch (error) {
+      handleError('Failed to restore transactions', error);
+      throw error;
+    }
+  },
+
+  async purgeFromTrash(transactionIds: string[]): Promise<{ purgedCount: number }> {
+    try {
+      const response = await apiClient.post<{ purgedCount: number }>('/transactions/trash/purge', { transactionIds });
+      return response.data;
+    } catch (error) {
+      handleError('Failed to purge transactions', error);
+      throw error;
+    }
+  },
+
+  async emptyTrash(): Promise<{ purgedCount: number }> {
+    try {
+      const response = await apiClient.delete<{ purgedCount: number }>('/transactions/trash');
+      return response.data;
+    } catch (error) {
+      handleError('Failed to empty the trash', error);
+      throw error;
+    }
+  },
+
   async getFilters(): Promise<TransactionFilters> {
     const response = await apiClient.get<TransactionFilters>('/transactions/filters');
     return response.data;
@@ -47,6 +164,10 @@ export const transactionsApi = {
 
   async importTransactions(params: ImportTransactionsParams): Promise<ImportResult> {
     try {
+      if (params.profileId) {
+        params.formData.append('profileId', params.profileId);
+      }
+
       const response = await apiClient.post<ImportResult>('/transactions/import', params.formData, {
         headers: { 'Content-Type': 'multipart/form-data' },
         onUploadProgress: params.onUploadProgress
@@ -58,6 +179,86 @@ export const transactionsApi = {
     }
   },
 
+  async startImportJob(params: ImportTransactionsParams): Promise<ImportJob> {
+    try {
+      if (params.profileId) {
+        params.formData.append('profileId', params.profileId);
+      }
+
+      const response = await apiClient.post<ImportJob>('/transactions/import/jobs', params.formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+        onUploadProgress: params.onUploadProgress
+      });
+      return response.data;
+    } catch (error) {
+      handleError('Failed to start import', error);
+      throw error;
+    }
+  },
+
+  async getImportJob(jobId: string): Promise<ImportJob> {
+    const response = await apiClient.get<ImportJob>(`/transactions/import/jobs/${jobId}`);
+    return response.data;
+  },
+
+  async cancelImportJob(jobId: string): Promise<ImportJob> {
+    try {
+      const response = await apiClient.post<ImportJob>(`/transactions/import/jobs/${jobId}/cancel`);
+      return response.data;
+    } catch (error) {
+      handleError('Failed to cancel import', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Follow a job over Server-Sent Events, falling back to polling when the stream is unavailable
+   */
+  watchImportJob(jobId: string, onUpdate: (job: ImportJob) => void, onError: (error: unknown) => void): () => void {
+    let stopped = false;
+    let pollTimer: number | undefined;
+    let source: EventSource | null = null;
+
+    const poll = async () => {
+      try {
+        const job = await transactionsApi.getImportJob(jobId);
+        if (stopped) return;
+        onUpdate(job);
+        if (!isImportJobFinished(job)) {
+          pollTimer = window.setTimeout(poll, IMPORT_JOB_POLL_INTERVAL);
+        }
+      } catch (error) {
+        if (!stopped) onError(error);
+      }
+    };
+
+    if (typeof EventSource === 'undefined') {
+      poll();
+    } else {
+      source = new EventSource(`${apiClient.defaults.baseURL}/transactions/import/jobs/${jobId}/events`, {
+        withCredentials: true
+      });
+      source.onmessage = (event) => {
+        const job = JSON.parse(event.data) as ImportJob;
+        onUpdate(job);
+        if (isImportJobFinished(job)) {
+          source?.close();
+        }
+      };
+      source.onerror = () => {
+        source?.close();
+        source = null;
+        if (!stopped) poll();
+      };
+    }
+
+    return () => {
+      stopped = true;
+      source?.close();
+      window.clearTimeout(pollTimer);
+    };
+  },
+
   async enhanceImport(request: EnhanceImportRequest): Promise<EnhanceImportResult> {
     try {
       const response = await apiClient.post<EnhanceImportResult>('/transactions/import/enhance', request);
@@ -68,6 +269,125 @@ export const transactionsApi = {
     }
   },
 
+  async resolveDuplicates(request: ResolveDuplicatesRequest): Promise<ResolveDuplicatesResult> {
+    try {
+      const response = await apiClient.post<ResolveDuplicatesResult>('/transactions/import/duplicates', request);
+      return response.data;
+    } catch (error) {
+      handleError('Failed to resolve duplicate transactions', error);
+      throw error;
+    }
+  },
+
+  async getImportSessions(): Promise<ImportSession[]> {
+    const response = await apiClient.get<ImportSession[]>('/transactions/imports');
+    return response.data;
+  },
+
+  async rollbackImport(importSessionHash: string): Promise<DeleteTransactionsResult> {
+    try {
+      const response = await apiClient.delete<DeleteTransactionsResult>(`/transactions/imports/${importSessionHash}`);
+      return response.data;
+    } catch (error) {
+      handleError('Failed to undo import', error);
+      throw error;
+    }
+  },
+
+  async getImportProfiles(): Promise<ImportProfile[]> {
+    const response = await apiClient.get<ImportProfile[]>('/transactions/import/profiles');
+    return response.data;
+  },
+
+  async createImportProfile(request: SaveImportProfileRequest): Promise<ImportProfile> {
+    try {
+      const response = await apiClient.post<ImportProfile>('/transactions/import/profiles', request);
+      return response.data;
+    } catch (error) {
+      handleError('Failed to save import profile', error);
+      throw error;
+    }
+  },
+
+  async updateImportProfile(profileId: string, request: SaveImportProfileRequest): Promise<ImportProfile> {
+    try {
+      const response = await apiClient.put<ImportProfile>(`/transactions/import/profiles/${profileId}`, request);
+      return response.data;
+    } catch (error) {
+      handleError('Failed to update import profile', error);
+      throw error;
+    }
+  },
+
+  async deleteImportProfile(profileId: string): Promise<void> {
+    try {
+      await apiClient.delete(`/transactions/import/profiles/${profileId}`);
+    } catch (error) {
+      handleError('Failed to delete import profile', error);
+      throw error;
+    }
+  },
+
+  async createTransaction(request: CreateTransactionRequest): Promise<Transaction> {
+    try {
+      const response = await apiClient.post<Transaction>('/transactions', request);
+      return response.data;
+    } catch (error) {
+      handleError('Failed to add transaction', error);
+      throw error;
+    }
+  },
+
+  async createTransactions(transactions: CreateTransactionRequest[]): Promise<CreateTransactionsResult> {
+    try {
+      const response = await apiClient.post<CreateTransactionsResult>('/transactions/batch', { transactions });
+      return response.data;
+    } catch (error) {
+      handleError('Failed to add transactions', error);
+      throw error;
+    }
+  },
+
+  async updateTransaction(transactionId: string, request: UpdateTransactionRequest): Promise<Transaction> {
+    try {
+      const response = await apiClient.put<Transaction>(`/transactions/${transactionId}`, request);
+      return response.data;
+    } catch (error) {
+      handleError('Failed to update transaction', error);
+      throw error;
+    }
+  },
+
+  async revertTransactionField(transactionId: string, field: TransactionEditableField): Promise<Transaction> {
+    try {
+      const response = await apiClient.post<Transaction>(`/transactions/${transactionId}/revert`, { field });
+      return response.data;
+    } catch (error) {
+      handleError('Failed to revert transaction', error);
+      throw error;
+    }
+  },
+
+  async saveTransactionSplits(transactionId: string, splits: TransactionSplit[]): Promise<Transaction> {
+    try {
+      const response = await apiClient.put<Transaction>(`/transactions/${transactionId}/splits`, { splits });
+      return response.data;
+    } catch (error) {
+      handleError('Failed to save split', error);
+      throw error;
+    }
+  },
+
+  async removeTransactionSplits(transactionId: string): Promise<Transaction> {
+    try {
+      const response = await apiClient.delete<Transaction>(`/transactions/${transactionId}/splits`);
+      return response.data;
+    } catch (error) {
+      handleError('Failed to remove split', error);
+      throw error;
+    }
+  },
+
   async addCategory(transactionId: string, categoryName: string): Promise<{ id: string; categoryName: string }> {
     try {
       const response = await apiClient.post(`/transactions/${transactionId}/categories`, { categoryName });
@@ -87,13 +407,74 @@ export const transactionsApi = {
     }
   },
 
-  async addBulkCategories(transactionIds: string[], categoryNames: string[]): Promise<{ addedCount: number; message: string }> {
+  async addBulkCategories(selection: BulkSelection, categoryNames: string[]): Promise<Omit<BulkUpdateResult, 'updatedCount'> & { addedCount: number; message: string }> {
     try {
-      const response = await apiClient.post('/transactions/bulk-categories', { transactionIds, categoryNames });
+      const response = await apiClient.post('/transactions/bulk-categories', { ...selection, categoryNames });
       return response.data;
     } catch (error) {
       handleError('Failed to add categories in bulk', error);
       throw error;
     }
+  },
+
+  async replaceBulkCategories(selection: BulkSelection, categoryNames: string[]): Promise<BulkUpdateResult> {
+    try {
+      const response = await apiClient.put<BulkUpdateResult>('/transactions/bulk-categories', { ...selection, categoryNames });
+      return response.data;
+    } catch (error) {
+      handleError('Failed to replace categories in bulk', error);
+      throw error;
+    }
+  },
+
+  async removeBulkCategories(selection: BulkSelection, categoryNames: string[]): Promise<BulkUpdateResult> {
+    try {
+      const response = await apiClient.post<BulkUpdateResult>('/transactions/bulk-categories/remove', { ...selection, categoryNames });
+      return response.data;
+    } catch (error) {
+      handleError('Failed to remove categories in bulk', error);
+      throw error;
+    }
+  },
+
+  async setBulkAccount(selection: BulkSelection, account: string): Promise<BulkUpdateResult> {
+    try {
+      const response = await apiClient.put<BulkUpdateResult>('/transactions/bulk-account', { ...selection, account });
+      return response.data;
+    } catch (error) {
+      handleError('Failed to change account in bulk', error);
+      throw error;
+    }
+  },
+
+  async addBulkLabels(selection: BulkSelection, labels: string): Promise<BulkUpdateResult> {
+    try {
+      const response = await apiClient.post<BulkUpdateResult>('/transactions/bulk-labels', { ...selection, labels });
+      return response.data;
+    } catch (error) {
+      handleError('Failed to add labels in bulk', error);
+      throw error;
+    }
+  },
+
+  async setBulkReviewed(selection: BulkSelection, isReviewed: boolean): Promise<BulkUpdateResult> {
+    try {
+      const response = await apiClient.put<BulkUpdateResult>('/transactions/bulk-reviewed', { ...selection, isReviewed });
+      return response.data;
+    } catch (error) {
+      handleError('Failed to update review status in bulk', error);
+      throw error;
+    }
   }
-};
\ No newline at end of file
+};
+
+const serverImportJobClient: ImportJobClient = {
+  start: transactionsApi.startImportJob,
+  get: transactionsApi.getImportJob,
+  cancel: transactionsApi.cancelImportJob,
+  watch: transactionsApi.watchImportJob
+};
+
+export const importJobClient: ImportJobClient = import.meta.env.VITE_MOCK_IMPORT_JOBS === 'true'
+  ? mockImportJobClient
+  : serverImportJobClient;
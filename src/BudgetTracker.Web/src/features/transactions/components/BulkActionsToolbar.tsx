@@ -0,0 +1,326 @@
+import { useEffect, useRef, useState } from 'react';
+import { getCategoryColor } from '../../../shared/utils/formatters';
+import type { Transaction } from '../types';
+import { splitLabels } from '../utils/bulkActions';
+import { validateTransactionField } from '../utils/transactionEdits';
+
+type BulkPanel = 'addCategories' | 'removeCategories' | 'replaceCategories' | 'account' | 'labels';
+
+interface BulkActionsToolbarProps {
+  /** The selected rows on this page */
+  selected: Transaction[];
+  /** How many transactions the actions apply to, which can span pages */
+  count: number;
+  /** Whether every transaction matching the filter is selected, including other pages */
+  isAllMatching: boolean;
+  availableCategories: string[];
+  accounts: string[];
+  onAddCategories: (categories: string[]) => void;
+  onRemoveCategories: (categories: string[]) => void;
+  onReplaceCategories: (categories: string[]) => void;
+  onChangeAccount: (account: string) => void;
+  onAddLabels: (labels: string) => void;
+  onSetReviewed: (isReviewed: boolean) => void;
+  onExport: () => void;
+  onDelete: () => void;
+}
+
+const PANEL_TITLES: Record<BulkPanel, string> = {
+  addCategories: 'Add categories',
+  removeCategories: 'Remove categories',
+  replaceCategories: 'Replace categories',
+  account: 'Change account',
+  labels: 'Add labels'
+};
+
+const MAX_BULK_CATEGORIES = 5;
+
+const buttonClassName = 'cursor-pointer px-3 py-1.5 border border-neutral-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-neutral-50 transition-colors';
+
+const inputClassName = 'w-full border border-neutral-300 rounded-md px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const TrashIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M3 6h18" />
+    <path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6" />
+    <path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2" />
+    <line x1="10" y1="11" x2="10" y2="17" />
+    <line x1="14" y1="11" x2="14" y2="17" />
+  </svg>
+);
+
+export default function BulkActionsToolbar({
+  selected,
+  count,
+  isAllMatching,
+  availableCategories,
+  accounts,
+  onAddCategories,
+  onRemoveCategories,
+  onReplaceCategories,
+  onChangeAccount,
+  onAddLabels,
+  onSetReviewed,
+  onExport,
+  onDelete
+}: BulkActionsToolbarProps) {
+  const [panel, setPanel] = useState<BulkPanel | null>(null);
+  const [chosenCategories, setChosenCategories] = useState<string[]>([]);
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string>();
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!panel) return;
+
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setPanel(null);
+      }
+    };
+
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [panel]);
+
+  const allReviewed = selected.every(transaction => transaction.isReviewed);
+  const selectedCategories = [...new Set(selected.flatMap(transaction => transaction.categories ?? []))].sort();
+  // Categories on other pages aren't known, so removing from all matching offers every category
+  const categoryOptions = panel === 'removeCategories' && !isAllMatching ? selectedCategories : availableCategories;
+
+  const openPanel = (next: BulkPanel) => {
+    setPanel(panel === next ? null : next);
+    setChosenCategories([]);
+    setText(next === 'account' && selected.every(t => t.account === selected[0]?.account) ? selected[0]?.account ?? '' : '');
+    setError(undefined);
+  };
+
+  const toggleCategory = (category: string) => {
+    setChosenCategories(prev => prev.includes(category)
+      ? prev.filter(c => c !== category)
+      : [...prev, category]);
+    setError(undefined);
+  };
+
+  const addTypedCategory = () => {
+    const category = text.trim();
+    if (!category) return;
+
+    if (category.length > 100) {
+      setError('Category names must be 100 characters or fewer');
+      return;
+    }
+
+    if (!chosenCategories.includes(category)) {
+      setChosenCategories(prev => [...prev, category]);
+    }
+    setText('');
+  };
+
+  const apply = () => {
+    switch (panel) {
+      case 'addCategories':
+      case 'removeCategories':
+      case 'replaceCategories': {
+        if (chosenCategories.length === 0) {
+          setError('Choose at least one category');
+          return;
+        }
+        if (chosenCategories.length > MAX_BULK_CATEGORIES) {
+          setError(`Choose up to ${MAX_BULK_CATEGORIES} categories`);
+          return;
+        }
+        const handler = panel === 'addCategories'
+          ? onAddCategories
+          : panel === 'removeCategories' ? onRemoveCategories : onReplaceCategories;
+        handler(chosenCategories);
+        break;
+      }
+      case 'account': {
+        const validationError = validateTransactionField('account', text);
+        if (validationError) {
+          setError(validationError);
+          return;
+        }
+        onChangeAccount(text.trim());
+        break;
+      }
+      case 'labels': {
+        if (splitLabels(text).length === 0) {
+          setError('Enter at least one label');
+          return;
+        }
+        onAddLabels(text);
+        break;
+      }
+    }
+
+    setPanel(null);
+  };
+
+  const isCategoryPanel = panel === 'addCategories' || panel === 'removeCategories' || panel === 'replaceCategories';
+
+  return (
+    <div ref={containerRef} className="relative flex flex-wrap items-center gap-2">
+      <button onClick={() => openPanel('addCategories')} aria-expanded={panel === 'addCategories'} className={buttonClassName}>
+        Add categories
+      </button>
+      <button onClick={() => openPanel('removeCategories')} aria-expanded={panel === 'removeCategories'} className={buttonClassName}>
+        Remove categories
+      </button>
+      <button onClick={() => openPanel('replaceCategories')} aria-expanded={panel === 'replaceCategories'} className={buttonClassName}>
+        Replace categories
+      </button>
+      <button onClick={() => openPanel('account')} aria-expanded={panel === 'account'} className={buttonClassName}>
+        Change account
+      </button>
+      <button onClick={() => openPanel('labels')} aria-expanded={panel === 'labels'} className={buttonClassName}>
+        Add labels
+      </button>
+      <button onClick={() => onSetReviewed(!allReviewed)} className={buttonClassName}>
+        {allReviewed ? 'Mark as not reviewed' : 'Mark as reviewed'}
+      </button>
+      <button onClick={onExport} className={buttonClassName}>
+        Export CSV
+      </button>
+      <button
+        onClick={onDelete}
+        className="cursor-pointer flex items-center gap-2 px-3 py-1.5 bg-red-600 text-white text-sm font-medium rounded-md hover:bg-red-700 transition-colors focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
+      >
+        <TrashIcon />
+        Delete {count} {count === 1 ? 'transaction' : 'transactions'}
+      </button>
+
+      {panel && (
+        <div className="absolute left-0 top-full z-20 mt-2 w-80 bg-white border border-neutral-200 rounded-lg shadow-lg p-3 space-y-3">
+          <p className="text-sm font-medium text-gray-900">
+            {PANEL_TITLES[panel]} · {count} {count === 1 ? 'transaction' : 'transactions'}
+          </p>
+
+          {isCategoryPanel && (
+            <>
+              {panel === 'replaceCategories' && (
+                <p className="text-xs text-gray-500">
+                  The first category you pick becomes the primary one. Existing categories are removed.
+                </p>
+              )}
+              <div className="max-h-48 overflow-y-auto space-y-1">
+                {categoryOptions.length === 0 && (
+                  <p className="text-xs text-gray-500">
+                    {panel === 'removeCategories' ? 'The selected transactions have no categories.' : 'No categories yet.'}
+                  </p>
+                )}
+                {categoryOptions.map((category) => (
+                  <label key={category} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={chosenCategories.includes(category)}
+                      onChange={() => toggleCategory(category)}
+                      className="w-4 h-4 text-indigo-600 border-neutral-300 rounded focus:ring-indigo-500"
+                    />
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${getCategoryColor(category)}`}>
+                      {category}
+                    </span>
+                  </label>
+                ))}
+              </div>
+              {panel !== 'removeCategories' && (
+                <input
+                  type="text"
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') addTypedCategory();
+                  }}
+                  placeholder="New category, press Enter"
+                  aria-label="New category"
+                  className={inputClassName}
+                />
+              )}
+              {chosenCategories.some(category => !categoryOptions.includes(category)) && (
+                <div className="flex flex-wrap gap-1">
+                  {chosenCategories.filter(category => !categoryOptions.includes(category)).map((category) => (
+                    <button
+                      key={category}
+                      onClick={() => toggleCategory(category)}
+                      title="Remove"
+                      className={`cursor-pointer inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${getCategoryColor(category)}`}
+                    >
+                      {category} ×
+                    </button>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+
+          {panel === 'account' && (
+            <>
+              <input
+                type="text"
+                list="bulk-account-options"
+                value={text}
+                onChange={(e) => {
+                  setText(e.target.value);
+                  setError(undefined);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') apply();
+                }}
+                autoFocus
+                placeholder="Account"
+                aria-label="Account"
+                className={inputClassName}
+              />
+              <datalist id="bulk-account-options">
+                {accounts.map((account) => (
+                  <option key={account} value={account} />
+                ))}
+              </datalist>
+            </>
+          )}
+
+          {panel === 'labels' && (
+            <>
+              <input
+                type="text"
+                value={text}
+                onChange={(e) => {
+                  setText(e.target.value);
+                  setError(undefined);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') apply();
+                }}
+                autoFocus
+                placeholder="e.g. holiday, shared"
+                aria-label="Labels"
+                className={inputClassName}
+              />
+              <p className="text-xs text-gray-500">
+                Separate labels with commas. They are added next to any labels already there.
+              </p>
+            </>
+          )}
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setPanel(null)}
+              className="cursor-pointer px-3 py-1.5 text-sm font-medium text-gray-700 hover:text-gray-900 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={apply}
+              className="cursor-pointer px-3 py-1.5 bg-indigo-600 text-white text-sm font-medium rounded-md hover:bg-indigo-700 transition-colors"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import type { CsvColumnField, CsvImportSettings, CsvPreview, DecimalSeparator } from '../types';
+import {
+  CSV_COLUMN_FIELDS,
+  DATE_FORMAT_OPTIONS,
+  DELIMITER_OPTIONS,
+  getMissingColumnFields,
+  parseAmount,
+  parseDate
+} from '../utils/csvPreview';
+
+interface CsvPreviewPanelProps {
+  preview: CsvPreview;
+  settings: CsvImportSettings;
+  onDelimiterChange: (delimiter: string) => void;
+  onSettingsChange: (settings: CsvImportSettings) => void;
+  disabled?: boolean;
+}
+
+const selectClassName = 'w-full px-3 py-2 border border-gray-300 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50';
+
+export default function CsvPreviewPanel({
+  preview,
+  settings,
+  onDelimiterChange,
+  onSettingsChange,
+  disabled = false
+}: CsvPreviewPanelProps) {
+  const { columnMapping, decimalSeparator, dateFormat } = settings;
+  const missingFields = getMissingColumnFields(columnMapping);
+
+  const getFieldForHeader = (header: string): CsvColumnField | '' =>
+    CSV_COLUMN_FIELDS.find(field => columnMapping[field] === header) ?? '';
+
+  const handleMappingChange = (header: string, field: CsvColumnField | '') => {
+    const nextMapping = { ...columnMapping };
+    for (const key of CSV_COLUMN_FIELDS) {
+      if (nextMapping[key] === header) delete nextMapping[key];
+    }
+    if (field) nextMapping[field] = header;
+
+    onSettingsChange({ ...settings, columnMapping: nextMapping });
+  };
+
+  const isInvalidCell = (header: string, value: string) => {
+    const field = getFieldForHeader(header);
+    if (!value.trim()) return field !== '' && field !== 'Balance';
+
+    switch (field) {
+      case 'Date':
+        return parseDate(value, dateFormat) === null;
+      case 'Amount':
+      case 'Balance':
+        return parseAmount(value, decimalSeparator) === null;
+      default:
+        return false;
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="csv-delimiter" className="text-sm font-medium text-gray-700 block mb-2">
+            Delimiter
+          </label>
+          <select
+            id="csv-delimiter"
+            value={settings.delimiter}
+            onChange={(e) => onDelimiterChange(e.target.value)}
+            disabled={disabled}
+            className={selectClassName}
+          >
+            {DELIMITER_OPTIONS.map((option) => (
+              <option key={option.label} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="csv-decimal" className="text-sm font-medium text-gray-700 block mb-2">
+            Decimal Separator
+          </label>
+          <select
+            id="csv-decimal"
+            value={decimalSeparator}
+            onChange={(e) => onSettingsChange({ ...settings, decimalSeparator: e.target.value as DecimalSeparator })}
+            disabled={disabled}
+            className={selectClassName}
+          >
+            <option value=".">Dot (1,234.56)</option>
+            <option value=",">Comma (1.234,56)</option>
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="csv-date-format" className="text-sm font-medium text-gray-700 block mb-2">
+            Date Format
+          </label>
+          <select
+            id="csv-date-format"
+            value={dateFormat}
+            onChange={(e) => onSettingsChange({ ...settings, dateFormat: e.target.value })}
+            disabled={disabled}
+            className={selectClassName}
+          >
+            {DATE_FORMAT_OPTIONS.map((format) => (
+              <option key={format} value={format}>{format}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {missingFields.length > 0 && (
+        <div className="p-3 bg-yellow-50 rounded-lg border border-yellow-200 text-sm text-yellow-800">
+          Map a column to {missingFields.join(', ')} before importing.
+        </div>
+      )}
+
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              {preview.headers.map((header, index) => (
+                <th key={`${header}-${index}`} className="px-3 py-2 text-left align-top">
+                  <div className="text-xs font-semibold text-gray-700 mb-1 whitespace-nowrap">{header}</div>
+                  <select
+                    value={getFieldForHeader(header)}
+                    onChange={(e) => handleMappingChange(header, e.target.value as CsvColumnField | '')}
+                    disabled={disabled}
+                    aria-label={`Map column ${header}`}
+                    className="w-full px-2 py-1 border border-gray-300 rounded text-xs font-normal focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  >
+                    <option value="">Ignore</option>
+                    {CSV_COLUMN_FIELDS.map((field) => (
+                      <option key={field} value={field}>{field}</option>
+                    ))}
+                  </select>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 bg-white">
+            {preview.rows.map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                {preview.headers.map((header, columnIndex) => {
+                  const value = row[columnIndex] ?? '';
+                  return (
+                    <td
+                      key={columnIndex}
+                      className={`px-3 py-2 whitespace-nowrap ${
+                        isInvalidCell(header, value) ? 'bg-red-50 text-red-700' : 'text-gray-700'
+                      }`}
+                    >
+                      {value}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Showing {preview.rows.length} of {preview.totalRows} rows. Highlighted cells don't match the selected format.
+      </p>
+    </div>
+  );
+}
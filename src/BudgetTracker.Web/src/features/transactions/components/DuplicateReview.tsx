@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { LoadingSpinner } from '../../../shared/components/LoadingSpinner';
+import { formatCurrency, formatDate } from '../../../shared/utils/formatters';
+import type { DuplicateAction, DuplicateResolution, DuplicateTransaction } from '../types';
+
+interface DuplicateReviewProps {
+  duplicates: DuplicateTransaction[];
+  onResolve: (resolutions: DuplicateResolution[]) => Promise<void>;
+  fileName?: string;
+  onCancel?: () => void;
+}
+
+const ACTION_OPTIONS: { value: DuplicateAction; label: string }[] = [
+  { value: 'Skip', label: 'Skip' },
+  { value: 'KeepBoth', label: 'Keep both' },
+  { value: 'Merge', label: 'Merge' }
+];
+
+export default function DuplicateReview({ duplicates, onResolve, fileName, onCancel }: DuplicateReviewProps) {
+  const [actions, setActions] = useState<Record<number, DuplicateAction>>({});
+  const [isResolving, setIsResolving] = useState(false);
+
+  const exactCount = duplicates.filter(d => d.isExactMatch).length;
+  const unresolvedCount = duplicates.filter(d => !actions[d.rowIndex]).length;
+
+  const setAction = (rowIndex: number, action: DuplicateAction) => {
+    setActions(prev => ({ ...prev, [rowIndex]: action }));
+  };
+
+  const applyToAll = (action: DuplicateAction, predicate: (duplicate: DuplicateTransaction) => boolean) => {
+    setActions(prev => {
+      const next = { ...prev };
+      for (const duplicate of duplicates) {
+        if (predicate(duplicate)) next[duplicate.rowIndex] = action;
+      }
+      return next;
+    });
+  };
+
+  const handleContinue = async () => {
+    setIsResolving(true);
+    try {
+      await onResolve(duplicates.map(duplicate => ({ rowIndex: duplicate.rowIndex, action: actions[duplicate.rowIndex] })));
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-semibold text-gray-900">Review Possible Duplicates</h3>
+          <span className="text-sm text-gray-600">
+            {fileName && `${fileName} • `}{duplicates.length} flagged • {exactCount} exact
+          </span>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          These rows match transactions already in this account by date, amount and description. They have not been imported yet.
+        </p>
+
+        <div className="flex items-center space-x-3 mb-4">
+          <button
+            onClick={() => applyToAll('Skip', d => d.isExactMatch)}
+            disabled={isResolving || exactCount === 0}
+            className="cursor-pointer inline-flex items-center justify-center px-3 py-2 border border-gray-300 text-xs font-medium rounded-xl text-gray-700 bg-white hover:bg-gray-50 transition-all duration-200 ease-in-out disabled:opacity-50"
+          >
+            Skip All Exact Matches
+          </button>
+          <button
+            onClick={() => applyToAll('KeepBoth', d => !actions[d.rowIndex])}
+            disabled={isResolving || unresolvedCount === 0}
+            className="cursor-pointer inline-flex items-center justify-center px-3 py-2 border border-gray-300 text-xs font-medium rounded-xl text-gray-700 bg-white hover:bg-gray-50 transition-all duration-200 ease-in-out disabled:opacity-50"
+          >
+            Keep Remaining
+          </button>
+        </div>
+
+        <div className="space-y-3 max-h-96 overflow-y-auto">
+          {duplicates.map((duplicate) => (
+            <div key={duplicate.rowIndex} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex justify-between items-start gap-4">
+                <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+                  <div>
+                    <p className="text-xs font-medium text-gray-500 mb-1">Incoming</p>
+                    <p className="text-gray-900">{duplicate.description}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatDate(duplicate.date)} • {formatCurrency(duplicate.amount)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs font-medium text-gray-500 mb-1">Already imported</p>
+                    <p className="text-gray-900">{duplicate.existingDescription}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatDate(duplicate.existingDate)} • {formatCurrency(duplicate.existingAmount)}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex flex-col items-end space-y-2">
+                  <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                    duplicate.isExactMatch ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-800'
+                  }`}>
+                    {duplicate.isExactMatch ? 'Exact match' : 'Likely match'}
+                  </span>
+                  <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden">
+                    {ACTION_OPTIONS.map((option) => (
+                      <button
+                        key={option.value}
+                        onClick={() => setAction(duplicate.rowIndex, option.value)}
+                        disabled={isResolving}
+                        className={`cursor-pointer px-2 py-1 text-xs font-medium transition-colors ${
+                          actions[duplicate.rowIndex] === option.value
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-white text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          {onCancel && (
+            <button
+              onClick={onCancel}
+              disabled={isResolving}
+              className="cursor-pointer inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-xl text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all duration-200 ease-in-out disabled:opacity-50"
+            >
+              Back
+            </button>
+          )}
+          <span className="text-sm text-gray-600">
+            {unresolvedCount > 0 ? `Choose an action for ${unresolvedCount} more ${unresolvedCount === 1 ? 'row' : 'rows'}` : 'All duplicates resolved'}
+          </span>
+        </div>
+        <button
+          onClick={handleContinue}
+          disabled={isResolving || unresolvedCount > 0}
+          className="cursor-pointer inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-xl text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all duration-200 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isResolving ? (
+            <>
+              <LoadingSpinner size="sm" />
+              <span className="ml-2">Saving...</span>
+            </>
+          ) : (
+            'Continue'
+          )}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,292 @@
+import { useMemo, useState } from 'react';
+import type { EnhancementReview, EnhancementReviewStatus, TransactionEnhancementResult } from '../types';
+import { CONFIDENCE_BANDS, getConfidenceBand, isEditedReview, type ConfidenceBand } from '../utils/enhancementReview';
+
+interface EnhancementReviewTableProps {
+  enhancements: TransactionEnhancementResult[];
+  reviews: Record<number, EnhancementReview>;
+  onChange: (reviews: Record<number, EnhancementReview>) => void;
+  disabled?: boolean;
+}
+
+type SortKey = 'index' | 'original' | 'enhanced' | 'category' | 'confidence';
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'index', label: '#' },
+  { key: 'original', label: 'Original' },
+  { key: 'enhanced', label: 'Enhanced' },
+  { key: 'category', label: 'Category' },
+  { key: 'confidence', label: 'Confidence' }
+];
+
+const inputClassName = 'w-full px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50';
+const bulkButtonClassName = 'cursor-pointer px-2 py-1 text-xs font-medium rounded-lg border transition-colors disabled:opacity-50';
+
+export default function EnhancementReviewTable({ enhancements, reviews, onChange, disabled = false }: EnhancementReviewTableProps) {
+  const [sortKey, setSortKey] = useState<SortKey>('index');
+  const [sortAscending, setSortAscending] = useState(true);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [bulkCategory, setBulkCategory] = useState('');
+
+  const suggestedCategories = useMemo(() => Array.from(new Set(
+    enhancements.map(e => e.suggestedCategory).filter((c): c is string => Boolean(c))
+  )).sort(), [enhancements]);
+
+  const sortedEnhancements = useMemo(() => {
+    const getValue = (enhancement: TransactionEnhancementResult): string | number => {
+      const review = reviews[enhancement.transactionIndex];
+      switch (sortKey) {
+        case 'original':
+          return enhancement.originalDescription.toLowerCase();
+        case 'enhanced':
+          return (review?.description ?? enhancement.enhancedDescription).toLowerCase();
+        case 'category':
+          return (review?.category ?? '').toLowerCase();
+        case 'confidence':
+          return enhancement.confidenceScore;
+        default:
+          return enhancement.transactionIndex;
+      }
+    };
+
+    return [...enhancements].sort((a, b) => {
+      const left = getValue(a);
+      const right = getValue(b);
+      const result = left < right ? -1 : left > right ? 1 : 0;
+      return sortAscending ? result : -result;
+    });
+  }, [enhancements, reviews, sortKey, sortAscending]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      setSortAscending(key !== 'confidence');
+    }
+  };
+
+  const updateReview = (index: number, changes: Partial<EnhancementReview>) => {
+    onChange({ ...reviews, [index]: { ...reviews[index], ...changes } });
+  };
+
+  const setStatusWhere = (status: EnhancementReviewStatus, predicate: (e: TransactionEnhancementResult) => boolean) => {
+    const next = { ...reviews };
+    for (const enhancement of enhancements) {
+      if (predicate(enhancement)) {
+        next[enhancement.transactionIndex] = { ...next[enhancement.transactionIndex], status };
+      }
+    }
+    onChange(next);
+  };
+
+  const setBandStatus = (band: ConfidenceBand, status: EnhancementReviewStatus) =>
+    setStatusWhere(status, e => getConfidenceBand(e.confidenceScore) === band);
+
+  const setCategoryStatus = (status: EnhancementReviewStatus) =>
+    setStatusWhere(status, e => e.suggestedCategory === bulkCategory);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-3 p-3 bg-gray-50 rounded-lg border border-gray-200">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setStatusWhere('accepted', () => true)}
+            disabled={disabled}
+            className={`${bulkButtonClassName} border-green-200 text-green-700 bg-white hover:bg-green-50`}
+          >
+            Accept all
+          </button>
+          <button
+            onClick={() => setStatusWhere('rejected', () => true)}
+            disabled={disabled}
+            className={`${bulkButtonClassName} border-red-200 text-red-700 bg-white hover:bg-red-50`}
+          >
+            Reject all
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-medium text-gray-600">By confidence:</span>
+          {CONFIDENCE_BANDS.map((band) => (
+            <span key={band.value} className="inline-flex items-center gap-1">
+              <span className="text-xs text-gray-600">{band.label}</span>
+              <button
+                onClick={() => setBandStatus(band.value, 'accepted')}
+                disabled={disabled}
+                aria-label={`Accept ${band.label}`}
+                className={`${bulkButtonClassName} border-green-200 text-green-700 bg-white hover:bg-green-50`}
+              >
+                ✓
+              </button>
+              <button
+                onClick={() => setBandStatus(band.value, 'rejected')}
+                disabled={disabled}
+                aria-label={`Reject ${band.label}`}
+                className={`${bulkButtonClassName} border-red-200 text-red-700 bg-white hover:bg-red-50`}
+              >
+                ✕
+              </button>
+            </span>
+          ))}
+        </div>
+
+        {suggestedCategories.length > 0 && (
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-medium text-gray-600">By category:</span>
+            <select
+              value={bulkCategory}
+              onChange={(e) => setBulkCategory(e.target.value)}
+              disabled={disabled}
+              aria-label="Suggested category"
+              className="px-2 py-1 border border-gray-300 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Select category</option>
+              {suggestedCategories.map((category) => (
+                <option key={category} value={category}>{category}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setCategoryStatus('accepted')}
+              disabled={disabled || !bulkCategory}
+              className={`${bulkButtonClassName} border-green-200 text-green-700 bg-white hover:bg-green-50`}
+            >
+              Accept
+            </button>
+            <button
+              onClick={() => setCategoryStatus('rejected')}
+              disabled={disabled || !bulkCategory}
+              className={`${bulkButtonClassName} border-red-200 text-red-700 bg-white hover:bg-red-50`}
+            >
+              Reject
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="overflow-x-auto max-h-[32rem] overflow-y-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              {COLUMNS.map((column) => (
+                <th key={column.key} className="px-3 py-2 text-left">
+                  <button
+                    onClick={() => handleSort(column.key)}
+                    className="cursor-pointer inline-flex items-center gap-1 text-xs font-semibold text-gray-700 hover:text-gray-900"
+                  >
+                    {column.label}
+                    {sortKey === column.key && <span>{sortAscending ? '▲' : '▼'}</span>}
+                  </button>
+                </th>
+              ))}
+              <th className="px-3 py-2 text-right text-xs font-semibold text-gray-700">Decision</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 bg-white">
+            {sortedEnhancements.map((enhancement) => {
+              const index = enhancement.transactionIndex;
+              const review = reviews[index];
+              if (!review) return null;
+
+              const isAccepted = review.status === 'accepted';
+              const isEditing = editingIndex === index;
+              const isEdited = isEditedReview(enhancement, review);
+
+              return (
+                <tr key={index} className={`align-top ${isAccepted ? '' : 'bg-gray-50 text-gray-400'}`}>
+                  <td className="px-3 py-2 text-xs text-gray-500">{index + 1}</td>
+                  <td className="px-3 py-2 max-w-[14rem] break-words">{enhancement.originalDescription}</td>
+                  <td className="px-3 py-2 min-w-[12rem]">
+                    {isEditing ? (
+                      <input
+                        type="text"
+                        value={review.description}
+                        onChange={(e) => updateReview(index, { description: e.target.value })}
+                        disabled={disabled}
+                        aria-label={`Enhanced description for row ${index + 1}`}
+                        className={inputClassName}
+                      />
+                    ) : (
+                      <span className={isAccepted ? 'font-medium text-gray-900' : ''}>
+                        {review.description}
+                        {isEdited && (
+                          <span className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-700">
+                            Edited
+                          </span>
+                        )}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 min-w-[8rem]">
+                    {isEditing ? (
+                      <input
+                        type="text"
+                        value={review.category ?? ''}
+                        onChange={(e) => updateReview(index, { category: e.target.value })}
+                        disabled={disabled}
+                        placeholder="No category"
+                        aria-label={`Category for row ${index + 1}`}
+                        className={inputClassName}
+                      />
+                    ) : review.category ? (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-700">
+                        {review.category}
+                      </span>
+                    ) : null}
+                  </td>
+                  <td className="px-3 py-2">
+                    <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                      enhancement.confidenceScore >= 0.8 ? 'bg-green-100 text-green-800' :
+                        enhancement.confidenceScore >= 0.6 ? 'bg-yellow-100 text-yellow-800' :
+                          'bg-red-100 text-red-800'
+                    }`}>
+                      {Math.round(enhancement.confidenceScore * 100)}%
+                    </span>
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="flex items-center justify-end gap-2 whitespace-nowrap">
+                      {isEditing ? (
+                        <button
+                          onClick={() => setEditingIndex(null)}
+                          disabled={disabled}
+                          className="cursor-pointer text-xs font-medium text-blue-600 hover:text-blue-700"
+                        >
+                          Done
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => {
+                            setEditingIndex(index);
+                            updateReview(index, { status: 'accepted' });
+                          }}
+                          disabled={disabled}
+                          className="cursor-pointer text-xs font-medium text-indigo-600 hover:text-indigo-700"
+                        >
+                          Edit
+                        </button>
+                      )}
+                      <button
+                        onClick={() => updateReview(index, { status: 'accepted' })}
+                        disabled={disabled}
+                        className={`${bulkButtonClassName} ${isAccepted ? 'border-green-600 bg-green-600 text-white' : 'border-gray-300 bg-white text-gray-700 hover:bg-green-50'}`}
+                      >
+                        Accept
+                      </button>
+                      <button
+                        onClick={() => updateReview(index, { status: 'rejected' })}
+                        disabled={disabled}
+                        className={`${bulkButtonClassName} ${!isAccepted ? 'border-red-600 bg-red-600 text-white' : 'border-gray-300 bg-white text-gray-700 hover:bg-red-50'}`}
+                      >
+                        Reject
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -4,9 +4,47 @@ import { apiClient } from '../../../api';
 import { LoadingSpinner } from '../../../shared/components/LoadingSpinner';
 import { useToast } from '../../../shared/contexts/ToastContext';
 import { transactionsApi, type EnhanceImportResult } from '../api';
-import type { ImportResult } from '../types';
-
-type Step = 'upload' | 'imported' | 'enhanced' | 'complete';
+import { useImportJob } from '../hooks/useImportJob';
+import { useImportQueue } from '../hooks/useImportQueue';
+import type {
+  CsvImportSettings,
+  CsvPreview,
+  DuplicateResolution,
+  EnhancementReview,
+  ImportJob,
+  ImportProfile,
+  ImportResult,
+  ResolveDuplicatesResult
+} from '../types';
+import { buildCsvPreview, findMatchingProfile, getMissingColumnFields, getProfileSettings } from '../utils/csvPreview';
+import { createEnhancementReviews, getAcceptedEnhancements } from '../utils/enhancementReview';
+import { getImportJobPhaseLabel, getImportJobProgress } from '../utils/importJobs';
+import {
+  formatFileSize,
+  getFileTypeIcon,
+  getFileTypeLabel,
+  isCsvFile,
+  isImageFile,
+  validateImportFile
+} from '../utils/importFiles';
+import CsvPreviewPanel from './CsvPreviewPanel';
+import DuplicateReview from './DuplicateReview';
+import EnhancementReviewTable from './EnhancementReviewTable';
+import ImportQueueTable from './ImportQueueTable';
+import SaveImportProfileForm from './SaveImportProfileForm';
+
+type Step = 'upload' | 'preview' | 'duplicates' | 'imported' | 'enhanced' | 'complete';
+
+const STEP_LABELS = ['Upload', 'Preview', 'Import', 'Complete'];
+
+const STEP_INDEX: Record<Step, number> = {
+  upload: 0,
+  preview: 1,
+  duplicates: 2,
+  imported: 2,
+  enhanced: 3,
+  complete: 3
+};
 
 interface FileUploadProps {
   className?: string;
@@ -16,17 +54,61 @@ function FileUpload({ className = '' }: FileUploadProps) {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isDragOver, setIsDragOver] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
   const [account, setAccount] = useState('');
   const [importResult, setImportResult] = useState<ImportResult | null>(null);
   const [currentStep, setCurrentStep] = useState<Step>('upload');
-  const [currentPhase, setCurrentPhase] = useState<'uploading' | 'detecting' | 'parsing' | 'extracting' | 'enhancing' | 'complete'>('uploading');
-  const [minConfidenceScore, setMinConfidenceScore] = useState(0.7);
   const [enhanceResult, setEnhanceResult] = useState<EnhanceImportResult | null>(null);
+  const [duplicateResult, setDuplicateResult] = useState<ResolveDuplicatesResult | null>(null);
+  const [enhancementReviews, setEnhancementReviews] = useState<Record<number, EnhancementReview>>({});
+  const [csvText, setCsvText] = useState<string | null>(null);
+  const [csvPreview, setCsvPreview] = useState<CsvPreview | null>(null);
+  const [csvSettings, setCsvSettings] = useState<CsvImportSettings | null>(null);
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
   const navigate = useNavigate();
-  const { showSuccess, showError } = useToast();
+  const { showSuccess, showError, showWarning, showInfo } = useToast();
+  const queue = useImportQueue(profiles);
+  const isQueueMode = queue.items.length > 0;
+
+  const handleJobFinished = useCallback((job: ImportJob) => {
+    if (job.status === 'Cancelled') {
+      showInfo('Import Cancelled', `${job.fileName} was not imported`);
+      return;
+    }
+
+    if (job.status === 'Failed' || !job.result) {
+      showError('Import Failed', job.error ?? 'Failed to import the file');
+      return;
+    }
 
+    const result = job.result;
+    setAccount(job.account);
+    setImportResult(result);
+    setDuplicateResult(null);
+    setEnhancementReviews(createEnhancementReviews(result.enhancements));
+
+    if (result.duplicateCount > 0) {
+      setCurrentStep('duplicates');
+      showWarning(
+        'Possible Duplicates Found',
+        `Imported ${result.importedCount} transactions. ${result.duplicateCount} rows match existing transactions and need review.`
+      );
+    } else {
+      setCurrentStep('imported');
+      showSuccess(
+        `Successfully imported ${result.importedCount} transactions from ${getFileTypeLabel(job.fileName).toLowerCase()} with AI description enhancements ready for review`
+      );
+    }
+  }, [showInfo, showError, showWarning, showSuccess]);
+
+  const handleJobError = useCallback((error: unknown) => {
+    console.error('Import job error:', error);
+    showError('Import Failed', 'Lost track of the running import. Check the import history for its result.');
+  }, [showError]);
+
+  const importJob = useImportJob({ onFinished: handleJobFinished, onError: handleJobError });
+  const isImporting = importJob.isActive;
 
   useEffect(() => {
     // Fetch XSRF token when component mounts to enable API calls
@@ -40,32 +122,116 @@ function FileUpload({ className = '' }: FileUploadProps) {
     fetchXsrfToken();
   }, []);
 
-  const validateFile = (file: File): string | null => {
-    const validExtensions = ['.csv', '.png', '.jpg', '.jpeg'];
-    const fileName = file.name.toLowerCase();
-
-    if (!validExtensions.some(ext => fileName.endsWith(ext))) {
-      return 'Please select a CSV file or bank statement image (PNG, JPG, JPEG)';
-    }
-
-    const maxSize = 10 * 1024 * 1024; // 10MB
-    if (file.size > maxSize) {
-      return 'File size must be less than 10MB';
-    }
-
-    return null;
-  };
+  useEffect(() => {
+    const fetchProfiles = async () => {
+      try {
+        setProfiles(await transactionsApi.getImportProfiles());
+      } catch (error) {
+        console.error('Failed to fetch import profiles:', error);
+      }
+    };
+    fetchProfiles();
+  }, []);
 
   const handleFileSelect = useCallback((file: File) => {
-    const error = validateFile(file);
+    const error = validateImportFile(file);
     if (error) {
       showError('Invalid File', error);
       return;
     }
     setSelectedFile(file);
     setImportResult(null);
+    setCsvText(null);
+    setCsvPreview(null);
+    setCsvSettings(null);
+    setSelectedProfileId('');
+
+    if (isCsvFile(file.name)) {
+      file.text()
+        .then((text) => {
+          const preview = buildCsvPreview(text);
+          setCsvText(text);
+          setCsvPreview(preview);
+          setCsvSettings({
+            delimiter: preview.delimiter,
+            decimalSeparator: preview.decimalSeparator,
+            dateFormat: preview.dateFormat,
+            columnMapping: preview.columnMapping
+          });
+        })
+        .catch((error) => {
+          console.error('Failed to read CSV file:', error);
+          showError('Preview Failed', 'Could not read the CSV file for preview');
+        });
+    }
   }, [showError]);
 
+  const handleFilesSelect = useCallback((files: File[]) => {
+    if (files.length === 1 && !isQueueMode) {
+      handleFileSelect(files[0]);
+      return;
+    }
+
+    const invalidFiles = files.filter(file => validateImportFile(file));
+    if (invalidFiles.length > 0) {
+      showError(
+        'Invalid Files',
+        `Skipped ${invalidFiles.map(file => file.name).join(', ')}. Only CSV files or PNG/JPG images under 10MB can be imported.`
+      );
+    }
+
+    const validFiles = files.filter(file => !validateImportFile(file));
+    if (validFiles.length === 0) return;
+
+    queue.addFiles(selectedFile ? [selectedFile, ...validFiles] : validFiles, account.trim());
+    setSelectedFile(null);
+    setCsvText(null);
+    setCsvPreview(null);
+    setCsvSettings(null);
+    setSelectedProfileId('');
+    setCurrentStep('upload');
+  }, [isQueueMode, handleFileSelect, showError, queue, selectedFile, account]);
+
+  const handleDelimiterChange = useCallback((delimiter: string) => {
+    if (!csvText) return;
+
+    const preview = buildCsvPreview(csvText, { delimiter });
+    setCsvPreview(preview);
+    setCsvSettings({
+      delimiter,
+      decimalSeparator: preview.decimalSeparator,
+      dateFormat: preview.dateFormat,
+      columnMapping: preview.columnMapping
+    });
+  }, [csvText]);
+
+  const handleProfileChange = useCallback((profileId: string) => {
+    setSelectedProfileId(profileId);
+
+    const profile = profiles.find(p => p.id === profileId);
+    if (!profile) return;
+
+    setAccount(profile.account);
+
+    if (csvText) {
+      const preview = buildCsvPreview(csvText, { delimiter: profile.delimiter });
+      setCsvPreview(preview);
+      setCsvSettings(getProfileSettings(profile, preview));
+    }
+  }, [profiles, csvText]);
+
+  const handleProfileSaved = useCallback((profile: ImportProfile) => {
+    setProfiles(prev => [...prev, profile].sort((a, b) => a.name.localeCompare(b.name)));
+    setSelectedProfileId(profile.id);
+    showSuccess(`Saved import profile "${profile.name}"`);
+  }, [showSuccess]);
+
+  const acceptedCount = Object.values(enhancementReviews).filter(review => review.status === 'accepted').length;
+
+  const suggestedProfile = csvPreview && !selectedProfileId
+    ? findMatchingProfile(profiles, csvPreview.headers)
+    : undefined;
+
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(true);
@@ -82,16 +248,17 @@ function FileUpload({ className = '' }: FileUploadProps) {
 
     const files = Array.from(e.dataTransfer.files);
     if (files.length > 0) {
-      handleFileSelect(files[0]);
+      handleFilesSelect(files);
     }
-  }, [handleFileSelect]);
+  }, [handleFilesSelect]);
 
   const handleFileInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (files && files.length > 0) {
-      handleFileSelect(files[0]);
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length > 0) {
+      handleFilesSelect(files);
     }
-  }, [handleFileSelect]);
+  }, [handleFilesSelect]);
 
   const handleBrowseClick = useCallback(() => {
     fileInputRef.current?.click();
@@ -102,46 +269,24 @@ function FileUpload({ className = '' }: FileUploadProps) {
       return;
     }
 
-    setIsUploading(true);
-    setUploadProgress(0);
     setImportResult(null);
-    setCurrentPhase('uploading');
 
     try {
       const formData = new FormData();
       formData.append('file', selectedFile);
       formData.append('account', account.trim());
 
-      // Determine processing phase based on file type
-      const isImage = selectedFile.name.toLowerCase().match(/\.(png|jpg|jpeg)$/);
+      if (csvSettings) {
+        formData.append('delimiter', csvSettings.delimiter);
+        formData.append('decimalSeparator', csvSettings.decimalSeparator);
+        formData.append('dateFormat', csvSettings.dateFormat);
+        formData.append('columnMappings', JSON.stringify(csvSettings.columnMapping));
+      }
 
-      const result = await transactionsApi.importTransactions({
+      await importJob.start({
         formData,
-        onUploadProgress: (progressEvent) => {
-          const progress = Math.round((progressEvent.loaded * 100) / progressEvent.total);
-          setUploadProgress(progress);
-
-          // Update phase based on progress and file type
-          if (progress < 20) {
-            setCurrentPhase('uploading');
-          } else if (progress < 60) {
-            setCurrentPhase(isImage ? 'extracting' : 'detecting');
-          } else if (progress < 85 && !isImage) {
-            setCurrentPhase('parsing');
-          } else if (progress < 100) {
-            setCurrentPhase('enhancing');
-          } else {
-            setCurrentPhase('complete');
-          }
-        }
+        profileId: selectedProfileId || undefined
       });
-
-      setImportResult(result);
-      setCurrentStep('imported');
-
-      showSuccess(
-        `Successfully imported ${result.importedCount} transactions from ${getFileTypeLabel(selectedFile.name).toLowerCase()} with AI description enhancements ready for review`
-      );
     } catch (error) {
       console.error('Import error:', error);
 
@@ -152,20 +297,43 @@ function FileUpload({ className = '' }: FileUploadProps) {
       }
 
       showError('Import Failed', errorMessage);
-    } finally {
-      setIsUploading(false);
-      setUploadProgress(0);
-      setCurrentPhase('uploading');
     }
-  }, [selectedFile, account, showError, showSuccess]);
+  }, [selectedFile, account, csvSettings, selectedProfileId, importJob, showError]);
+
+  const handleResolveDuplicates = useCallback(async (resolutions: DuplicateResolution[]) => {
+    if (!importResult) return;
+
+    try {
+      const result = await transactionsApi.resolveDuplicates({
+        importSessionHash: importResult.importSessionHash,
+        resolutions
+      });
+
+      setDuplicateResult(result);
+      setImportResult({ ...importResult, importedCount: importResult.importedCount + result.keptCount });
+      setCurrentStep('imported');
+
+      showSuccess(
+        `Imported ${importResult.importedCount + result.keptCount} transactions`,
+        `Skipped ${result.skippedCount} duplicates${result.mergedCount > 0 ? ` and merged ${result.mergedCount}` : ''}`
+      );
+    } catch (error) {
+      console.error('Duplicate resolution error:', error);
+      showError('Review Failed', 'Failed to save duplicate decisions');
+    }
+  }, [importResult, showSuccess, showError]);
 
   const handleClearFile = useCallback(() => {
     setSelectedFile(null);
     setImportResult(null);
     setEnhanceResult(null);
+    setDuplicateResult(null);
+    setEnhancementReviews({});
+    setCsvText(null);
+    setCsvPreview(null);
+    setCsvSettings(null);
+    setSelectedProfileId('');
     setCurrentStep('upload');
-    setCurrentPhase('uploading');
-    setUploadProgress(0);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -179,8 +347,7 @@ function FileUpload({ className = '' }: FileUploadProps) {
     try {
       const result = await transactionsApi.enhanceImport({
         importSessionHash: importResult.importSessionHash,
-        enhancements: importResult.enhancements,
-        minConfidenceScore,
+        enhancements: applyEnhancements ? getAcceptedEnhancements(importResult.enhancements, enhancementReviews) : [],
         applyEnhancements
       });
 
@@ -189,7 +356,7 @@ function FileUpload({ className = '' }: FileUploadProps) {
 
       if (applyEnhancements) {
         showSuccess(
-          `Successfully enhanced ${result.enhancedCount} out of ${result.totalTransactions} transactions`
+          `Successfully enhanced ${result.enhancedCount} out of ${importResult.enhancements.length} transactions`
         );
       } else {
         showSuccess('Import Complete - Transactions imported without AI enhancement');
@@ -205,81 +372,95 @@ function FileUpload({ className = '' }: FileUploadProps) {
     } finally {
       setIsUploading(false);
     }
-  }, [importResult, minConfidenceScore, showSuccess, showError, navigate]);
-
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  };
+  }, [importResult, enhancementReviews, showSuccess, showError, navigate]);
 
-  const getFileTypeIcon = (fileName: string) => {
-    const name = fileName.toLowerCase();
-    if (name.endsWith('.png') || name.endsWith('.jpg') || name.endsWith('.jpeg')) {
-      return '🖼️'; // Image icon
-    }
-    return '📊'; // CSV/spreadsheet icon
+  const getImportStatusLabel = (): string => {
+    if (importJob.job) return getImportJobPhaseLabel(importJob.job);
+    if (selectedFile) return `Uploading ${isImageFile(selectedFile.name) ? 'bank statement image' : 'CSV file'}...`;
+    return 'Processing...';
   };
 
-  const getFileTypeLabel = (fileName: string) => {
-    const name = fileName.toLowerCase();
-    if (name.endsWith('.png') || name.endsWith('.jpg') || name.endsWith('.jpeg')) {
-      return 'Bank Statement Image';
-    }
-    return 'CSV Bank Statement';
-  };
+  const importProgress = importJob.job ? getImportJobProgress(importJob.job) : importJob.uploadProgress;
 
-  const getPhaseDescription = (phase: string, fileName: string): string => {
-    const isImage = fileName.toLowerCase().match(/\.(png|jpg|jpeg)$/);
-
-    switch (phase) {
-      case 'uploading':
-        return `Uploading ${isImage ? 'bank statement image' : 'CSV file'}...`;
-      case 'detecting':
-        return isImage ? 'Preparing image for analysis...' : 'Detecting CSV structure...';
-      case 'parsing':
-        return 'Parsing CSV data...';
-      case 'extracting':
-        return 'Extracting transactions from image using AI...';
-      case 'enhancing':
-        return 'Enhancing transaction descriptions with AI...';
-      case 'complete':
-        return 'Import completed successfully!';
-      default:
-        return 'Processing...';
-    }
-  };
+  const importProgressIndicator = isImporting && (
+    <div className="space-y-2">
+      <div className="flex justify-between text-sm font-medium">
+        <span className="text-gray-700">
+          {importJob.job && `${importJob.job.fileName} • `}{getImportStatusLabel()}
+        </span>
+        <span className="text-blue-600">{importProgress}%</span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-3 overflow-hidden">
+        <div
+          className="h-3 rounded-full transition-all duration-500 ease-out bg-gradient-to-r from-blue-500 to-blue-600"
+          style={{ width: `${importProgress}%` }}
+        />
+      </div>
+
+      {importJob.job && (
+        <div className="flex justify-end">
+          <button
+            onClick={importJob.cancel}
+            disabled={importJob.isCancelling}
+            className="cursor-pointer text-xs font-medium text-red-600 hover:text-red-700 transition-colors disabled:opacity-50"
+          >
+            {importJob.isCancelling ? 'Cancelling...' : 'Cancel import'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
 
   return (
     <div className={`space-y-8 ${className}`}>
-      {/* Step Indicator */}
-      <div className="flex items-center justify-center space-x-8">
-        <div className={`flex items-center space-x-2 ${currentStep === 'upload' ? 'text-blue-600' : currentStep === 'imported' || currentStep === 'enhanced' || currentStep === 'complete' ? 'text-green-600' : 'text-gray-400'}`}>
-          <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-medium ${currentStep === 'upload' ? 'bg-blue-100 text-blue-600' : currentStep === 'imported' || currentStep === 'enhanced' || currentStep === 'complete' ? 'bg-green-100 text-green-600' : 'bg-gray-100 text-gray-400'}`}>
-            1
-          </div>
-          <span className="text-sm font-medium">Upload</span>
-        </div>
-        <div className={`w-16 h-0.5 ${currentStep === 'imported' || currentStep === 'enhanced' || currentStep === 'complete' ? 'bg-green-600' : 'bg-gray-200'}`}></div>
-        <div className={`flex items-center space-x-2 ${currentStep === 'imported' ? 'text-blue-600' : currentStep === 'enhanced' || currentStep === 'complete' ? 'text-green-600' : 'text-gray-400'}`}>
-          <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-medium ${currentStep === 'imported' ? 'bg-blue-100 text-blue-600' : currentStep === 'enhanced' || currentStep === 'complete' ? 'bg-green-100 text-green-600' : 'bg-gray-100 text-gray-400'}`}>
-            2
-          </div>
-          <span className="text-sm font-medium">Import</span>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.png,.jpg,.jpeg"
+        multiple
+        onChange={handleFileInputChange}
+        className="hidden"
+      />
+
+      {/* Batch import: per-file status table replaces the step flow */}
+      {isQueueMode && (
+        <div onDragOver={handleDragOver} onDragLeave={handleDragLeave} onDrop={handleDrop}>
+          <ImportQueueTable
+            queue={queue}
+            profiles={profiles}
+            onAddFiles={handleBrowseClick}
+          />
         </div>
-        <div className={`w-16 h-0.5 ${currentStep === 'enhanced' || currentStep === 'complete' ? 'bg-green-600' : 'bg-gray-200'}`}></div>
-        <div className={`flex items-center space-x-2 ${currentStep === 'enhanced' || currentStep === 'complete' ? 'text-green-600' : 'text-gray-400'}`}>
-          <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-medium ${currentStep === 'enhanced' || currentStep === 'complete' ? 'bg-green-100 text-green-600' : 'bg-gray-100 text-gray-400'}`}>
-            3
-          </div>
-          <span className="text-sm font-medium">Complete</span>
+      )}
+
+      {/* Step Indicator */}
+      {!isQueueMode && (
+        <div className="flex items-center justify-center space-x-8">
+          {STEP_LABELS.map((label, index) => {
+            const activeIndex = STEP_INDEX[currentStep];
+            const isLast = index === STEP_LABELS.length - 1;
+            const isDone = index < activeIndex || (index === activeIndex && isLast);
+            const isActive = index === activeIndex && !isLast;
+
+            return (
+              <div key={label} className="flex items-center space-x-8">
+                {index > 0 && (
+                  <div className={`w-16 h-0.5 ${index <= activeIndex ? 'bg-green-600' : 'bg-gray-200'}`}></div>
+                )}
+                <div className={`flex items-center space-x-2 ${isActive ? 'text-blue-600' : isDone ? 'text-green-600' : 'text-gray-400'}`}>
+                  <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-medium ${isActive ? 'bg-blue-100 text-blue-600' : isDone ? 'bg-green-100 text-green-600' : 'bg-gray-100 text-gray-400'}`}>
+                    {index + 1}
+                  </div>
+                  <span className="text-sm font-medium">{label}</span>
+                </div>
+              </div>
+            );
+          })}
         </div>
-      </div>
+      )}
 
       {/* Step 1: File Upload */}
-      {currentStep === 'upload' && (
+      {!isQueueMode && currentStep === 'upload' && (
         <>
           <div
             className={`relative border-2 border-dashed rounded-2xl p-10 text-center transition-all duration-300 ${
@@ -292,14 +473,6 @@ function FileUpload({ className = '' }: FileUploadProps) {
             onDrop={handleDrop}
           >
             {/* Upload area content */}
-            <input
-              ref={fileInputRef}
-              type="file"
-              accept=".csv,.png,.jpg,.jpeg"
-              onChange={handleFileInputChange}
-              className="hidden"
-            />
-
             <div className="space-y-6">
               <div className={`mx-auto h-16 w-16 transition-all duration-200 ${isDragOver ? 'text-blue-500 scale-110' : 'text-gray-400'}`}>
                 <svg fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
@@ -314,7 +487,7 @@ function FileUpload({ className = '' }: FileUploadProps) {
                 <p className="text-sm text-gray-600 leading-relaxed">
                   {selectedFile
                     ? `${selectedFile.name} (${formatFileSize(selectedFile.size)})`
-                    : 'Drag and drop your bank statement here, or click to browse'
+                    : 'Drag and drop one or more bank statements here, or click to browse'
                   }
                 </p>
                 {!selectedFile && (
@@ -359,7 +532,38 @@ function FileUpload({ className = '' }: FileUploadProps) {
                   </div>
                 </div>
 
+                {suggestedProfile && (
+                  <div className="flex items-center justify-between p-3 bg-white rounded-lg border border-blue-200">
+                    <span className="text-sm text-gray-700">
+                      This file matches your <span className="font-medium">{suggestedProfile.name}</span> import profile.
+                    </span>
+                    <button
+                      onClick={() => handleProfileChange(suggestedProfile.id)}
+                      className="cursor-pointer text-sm font-medium text-blue-600 hover:text-blue-700 transition-colors"
+                    >
+                      Use profile
+                    </button>
+                  </div>
+                )}
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="profile" className="text-sm font-medium text-gray-700 block mb-2">
+                      Import Profile
+                    </label>
+                    <select
+                      id="profile"
+                      value={selectedProfileId}
+                      onChange={(e) => handleProfileChange(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="">No profile</option>
+                      {profiles.map((profile) => (
+                        <option key={profile.id} value={profile.id}>{profile.name}</option>
+                      ))}
+                    </select>
+                  </div>
+
                   <div>
                     <label htmlFor="account" className="text-sm font-medium text-gray-700 block mb-2">
                       Account Name
@@ -373,85 +577,120 @@ function FileUpload({ className = '' }: FileUploadProps) {
                       className="w-full px-3 py-2 border border-gray-300 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                     />
                   </div>
-
-                  <div>
-                    <label htmlFor="confidence" className="text-sm font-medium text-gray-700 block mb-2">
-                      AI Confidence Threshold
-                    </label>
-                    <select
-                      id="confidence"
-                      value={minConfidenceScore}
-                      onChange={(e) => setMinConfidenceScore(Number(e.target.value))}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                    >
-                      <option value={0.3}>Low (30%) - More changes</option>
-                      <option value={0.5}>Medium (50%) - Balanced</option>
-                      <option value={0.7}>High (70%) - Conservative</option>
-                    </select>
-                  </div>
                 </div>
 
                 <div className="flex items-center justify-end space-x-3">
                   <button
                     onClick={handleClearFile}
-                    disabled={isUploading}
+                    disabled={isImporting}
                     className="cursor-pointer inline-flex items-center justify-center px-3 py-2 border border-gray-300 text-xs font-medium rounded-xl text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all duration-200 ease-in-out disabled:opacity-50"
                   >
                     Remove
                   </button>
-                  <button
-                    onClick={handleImport}
-                    disabled={isUploading || !account.trim()}
-                    className="cursor-pointer inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-xl text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all duration-200 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    {isUploading ? (
-                      <>
-                        <LoadingSpinner size="sm" />
-                        <span className="ml-2">
-                          {getPhaseDescription(currentPhase, selectedFile.name)}
-                        </span>
-                      </>
-                    ) : (
-                      'Import Transactions'
-                    )}
-                  </button>
+                  {isCsvFile(selectedFile.name) ? (
+                    <button
+                      onClick={() => setCurrentStep('preview')}
+                      disabled={!csvPreview || !account.trim()}
+                      className="cursor-pointer inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-xl text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all duration-200 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Preview Import
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleImport}
+                      disabled={isImporting || !account.trim()}
+                      className="cursor-pointer inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-xl text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all duration-200 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isImporting ? (
+                        <>
+                          <LoadingSpinner size="sm" />
+                          <span className="ml-2">
+                            {getImportStatusLabel()}
+                          </span>
+                        </>
+                      ) : (
+                        'Import Transactions'
+                      )}
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
           )}
 
-          {/* Enhanced Upload Progress */}
-          {isUploading && uploadProgress > 0 && (
-            <div className="space-y-2">
-              <div className="flex justify-between text-sm font-medium">
-                <span className="text-gray-700">
-                  {selectedFile ? getPhaseDescription(currentPhase, selectedFile.name) : 'Processing...'}
-                </span>
-                <span className="text-blue-600">{uploadProgress}%</span>
-              </div>
-              <div className="w-full bg-gray-200 rounded-full h-3 overflow-hidden">
-                <div
-                  className="h-3 rounded-full transition-all duration-500 ease-out bg-gradient-to-r from-blue-500 to-blue-600"
-                  style={{ width: `${uploadProgress}%` }}
-                />
-              </div>
+          {importProgressIndicator}
+        </>
+      )}
 
-              {/* Add detection status indicator */}
-              {uploadProgress < 30 && (
-                <div className="mt-2 text-xs text-gray-500 flex items-center">
-                  <svg className="animate-spin -ml-1 mr-2 h-3 w-3 text-gray-400" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"/>
-                    <path className="opacity-75" fill="currentColor" d="m4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"/>
-                  </svg>
-                  Detecting CSV structure and column mappings...
-                </div>
-              )}
+      {/* Step 2: Preview CSV and map columns */}
+      {currentStep === 'preview' && selectedFile && csvPreview && csvSettings && (
+        <div className="space-y-6">
+          <div className="bg-white rounded-xl border border-gray-200 p-6">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-lg font-semibold text-gray-900">Preview &amp; Map Columns</h3>
+              <span className="text-sm text-gray-600">
+                {selectedFile.name} • {account.trim()}
+              </span>
             </div>
-          )}
-        </>
+
+            <CsvPreviewPanel
+              preview={csvPreview}
+              settings={csvSettings}
+              onDelimiterChange={handleDelimiterChange}
+              onSettingsChange={setCsvSettings}
+              disabled={isImporting}
+            />
+
+            {!selectedProfileId && (
+              <SaveImportProfileForm
+                account={account.trim()}
+                headers={csvPreview.headers}
+                settings={csvSettings}
+                onSaved={handleProfileSaved}
+              />
+            )}
+          </div>
+
+          {importProgressIndicator}
+
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => setCurrentStep('upload')}
+              disabled={isImporting}
+              className="cursor-pointer inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-xl text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all duration-200 ease-in-out disabled:opacity-50"
+            >
+              Back
+            </button>
+
+            <button
+              onClick={handleImport}
+              disabled={isImporting || getMissingColumnFields(csvSettings.columnMapping).length > 0}
+              className="cursor-pointer inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-xl text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all duration-200 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isImporting ? (
+                <>
+                  <LoadingSpinner size="sm" />
+                  <span className="ml-2">
+                    {getImportStatusLabel()}
+                  </span>
+                </>
+              ) : (
+                `Import ${csvPreview.totalRows} Transactions`
+              )}
+            </button>
+          </div>
+        </div>
       )}
 
-      {/* Step 2: Review Enhanced Transactions */}
+      {/* Step 3: Resolve duplicates before they are committed */}
+      {currentStep === 'duplicates' && importResult && (
+        <DuplicateReview
+          duplicates={importResult.duplicates}
+          onResolve={handleResolveDuplicates}
+        />
+      )}
+
+      {/* Step 3: Review Enhanced Transactions */}
       {currentStep === 'imported' && importResult && (
         <div className="space-y-6">
           <div className="bg-white rounded-xl border border-gray-200 p-6">
@@ -461,8 +700,13 @@ function FileUpload({ className = '' }: FileUploadProps) {
                 <span className="text-green-600">
                   {importResult.importedCount} transactions imported
                 </span>
+                {duplicateResult && duplicateResult.skippedCount > 0 && (
+                  <span className="text-gray-600">
+                    {duplicateResult.skippedCount} duplicates skipped
+                  </span>
+                )}
                 <span className="text-blue-600">
-                  {importResult.enhancements.filter((e: any) => e.confidenceScore >= minConfidenceScore).length} will be enhanced
+                  {acceptedCount} will be enhanced
                 </span>
               </div>
             </div>
@@ -489,84 +733,23 @@ function FileUpload({ className = '' }: FileUploadProps) {
               </div>
             )}
 
-            <div className="space-y-3 max-h-96 overflow-y-auto">
-              {importResult.enhancements.slice(0, 10).map((enhancement: any, index: number) => {
-                const willEnhance = enhancement.confidenceScore >= minConfidenceScore;
-
-                return (
-                  <div key={`${importResult.importSessionHash}-${index}`} className="border border-gray-200 rounded-lg p-4">
-                    <div className="flex justify-between items-start">
-                      <div className="flex-1 space-y-2">
-                        <div className="flex items-center justify-between">
-                          <span className="text-sm text-gray-500">
-                            Transaction #{index + 1}
-                          </span>
-                          <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                            enhancement.confidenceScore >= 0.8 ? 'bg-green-100 text-green-800' :
-                              enhancement.confidenceScore >= 0.6 ? 'bg-yellow-100 text-yellow-800' :
-                                'bg-red-100 text-red-800'
-                          }`}>
-                            {Math.round(enhancement.confidenceScore * 100)}% confidence
-                          </span>
-                        </div>
-
-                        <div className="space-y-1">
-                          <div className="text-sm text-gray-500">
-                            <span className="font-medium">Original:</span> {enhancement.originalDescription}
-                          </div>
-                          {willEnhance && (
-                            <div className="text-sm font-medium text-gray-900">
-                              <span className="font-medium text-green-700">Enhanced:</span> {enhancement.enhancedDescription}
-                              {enhancement.suggestedCategory && (
-                                <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-700">
-                                  {enhancement.suggestedCategory}
-                                </span>
-                              )}
-                            </div>
-                          )}
-                          {!willEnhance && (
-                            <div className="text-sm text-gray-400 italic">
-                              Enhancement skipped (confidence below {Math.round(minConfidenceScore * 100)}%)
-                            </div>
-                          )}
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                );
-              })}
-
-              {importResult.enhancements.length > 10 && (
-                <div className="text-center py-3 text-sm text-gray-500">
-                  ... and {importResult.enhancements.length - 10} more transactions
-                </div>
-              )}
-            </div>
+            {duplicateResult && duplicateResult.skippedRows.length > 0 && (
+              <details className="mb-4 p-3 bg-gray-50 rounded-lg border border-gray-200 text-sm text-gray-700">
+                <summary className="cursor-pointer font-medium">Skipped duplicate rows</summary>
+                <ul className="mt-2 space-y-1 text-xs text-gray-600">
+                  {duplicateResult.skippedRows.map((row, index) => (
+                    <li key={index}>{row}</li>
+                  ))}
+                </ul>
+              </details>
+            )}
 
-            <div className="mt-6 pt-6 border-t border-gray-200">
-              <div className="flex items-center justify-between">
-                <div className="space-y-1">
-                  <label className="block text-sm font-medium text-gray-700">
-                    AI Confidence Threshold
-                  </label>
-                  <p className="text-xs text-gray-500">
-                    Only enhancements with confidence above this threshold will be applied
-                  </p>
-                </div>
-                <div className="flex items-center space-x-3">
-                  <span className="text-sm text-gray-600">{Math.round(minConfidenceScore * 100)}%</span>
-                  <input
-                    type="range"
-                    min="0.3"
-                    max="0.9"
-                    step="0.1"
-                    value={minConfidenceScore}
-                    onChange={(e) => setMinConfidenceScore(parseFloat(e.target.value))}
-                    className="w-24"
-                  />
-                </div>
-              </div>
-            </div>
+            <EnhancementReviewTable
+              enhancements={importResult.enhancements}
+              reviews={enhancementReviews}
+              onChange={setEnhancementReviews}
+              disabled={isUploading}
+            />
           </div>
 
           <div className="flex items-center justify-between">
@@ -587,7 +770,7 @@ function FileUpload({ className = '' }: FileUploadProps) {
               </button>
               <button
                 onClick={() => handleEnhance(true)}
-                disabled={isUploading}
+                disabled={isUploading || acceptedCount === 0}
                 className="cursor-pointer inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-xl text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-all duration-200 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {isUploading ? (
@@ -596,7 +779,7 @@ function FileUpload({ className = '' }: FileUploadProps) {
                     <span className="ml-2">Enhancing...</span>
                   </>
                 ) : (
-                  'Enhance with AI'
+                  `Apply ${acceptedCount} ${acceptedCount === 1 ? 'Enhancement' : 'Enhancements'}`
                 )}
               </button>
             </div>
@@ -604,7 +787,7 @@ function FileUpload({ className = '' }: FileUploadProps) {
         </div>
       )}
 
-      {/* Step 3: Enhanced Complete */}
+      {/* Step 4: Enhanced Complete */}
       {currentStep === 'enhanced' && enhanceResult && (
         <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
           <div className="text-center space-y-6">
@@ -614,7 +797,7 @@ function FileUpload({ className = '' }: FileUploadProps) {
             <div>
               <h3 className="text-lg font-semibold text-gray-900 mb-2">Enhancement Complete!</h3>
               <p className="text-gray-600">
-                Successfully enhanced {enhanceResult.enhancedCount} out of {enhanceResult.totalTransactions} transactions.
+                Successfully enhanced {enhanceResult.enhancedCount} out of {importResult?.enhancements.length ?? enhanceResult.totalTransactions} transactions.
               </p>
             </div>
             <button
@@ -627,7 +810,7 @@ function FileUpload({ className = '' }: FileUploadProps) {
         </div>
       )}
 
-      {/* Step 3: Complete without enhancement */}
+      {/* Step 4: Complete without enhancement */}
       {currentStep === 'complete' && (
         <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
           <div className="text-center space-y-6">
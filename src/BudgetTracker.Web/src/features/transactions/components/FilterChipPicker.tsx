@@ -0,0 +1,151 @@
+import { useEffect, useRef, useState } from 'react';
+
+type PickerMode = 'include' | 'exclude';
+
+interface FilterChipPickerProps {
+  label: string;
+  options: string[];
+  included: string[];
+  excluded: string[];
+  onChange: (included: string[], excluded: string[]) => void;
+  getIncludedClassName?: (option: string) => string;
+}
+
+const ChevronIcon = () => (
+  <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+  </svg>
+);
+
+export default function FilterChipPicker({
+  label,
+  options,
+  included,
+  excluded,
+  onChange,
+  getIncludedClassName = () => 'bg-indigo-100 text-indigo-700'
+}: FilterChipPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [mode, setMode] = useState<PickerMode>('include');
+  const [query, setQuery] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen]);
+
+  const visibleOptions = query
+    ? options.filter(option => option.toLowerCase().includes(query.toLowerCase()))
+    : options;
+
+  // Picking an option in one mode moves it out of the other, and picking it again clears it
+  const handleToggle = (option: string) => {
+    const withoutOption = (values: string[]) => values.filter(value => value !== option);
+    const current = mode === 'include' ? included : excluded;
+
+    if (current.includes(option)) {
+      onChange(
+        mode === 'include' ? withoutOption(included) : included,
+        mode === 'exclude' ? withoutOption(excluded) : excluded
+      );
+    } else if (mode === 'include') {
+      onChange([...included, option], withoutOption(excluded));
+    } else {
+      onChange(withoutOption(included), [...excluded, option]);
+    }
+  };
+
+  const selectionCount = included.length + excluded.length;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className={`cursor-pointer inline-flex items-center gap-2 bg-white border rounded-md px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 hover:border-neutral-400 transition-colors ${
+          selectionCount > 0 ? 'border-indigo-400 text-indigo-700' : 'border-neutral-300 text-gray-700'
+        }`}
+      >
+        {selectionCount > 0 ? `${label} (${selectionCount})` : `All ${label}`}
+        <span className="text-gray-500"><ChevronIcon /></span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute z-20 mt-2 w-72 bg-white border border-neutral-200 rounded-lg shadow-lg p-3 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <div className="inline-flex rounded-md border border-neutral-300 overflow-hidden">
+              {(['include', 'exclude'] as PickerMode[]).map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setMode(value)}
+                  className={`cursor-pointer px-3 py-1 text-xs font-medium transition-colors ${
+                    mode === value
+                      ? value === 'include' ? 'bg-indigo-600 text-white' : 'bg-red-600 text-white'
+                      : 'bg-white text-gray-700 hover:bg-neutral-50'
+                  }`}
+                >
+                  {value === 'include' ? 'Include' : 'Exclude'}
+                </button>
+              ))}
+            </div>
+            {selectionCount > 0 && (
+              <button
+                onClick={() => onChange([], [])}
+                className="cursor-pointer text-xs text-gray-600 hover:text-gray-900 font-medium underline transition-colors"
+              >
+                Reset
+              </button>
+            )}
+          </div>
+
+          {options.length > 8 && (
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={`Find ${label.toLowerCase()}`}
+              aria-label={`Find ${label.toLowerCase()}`}
+              className="w-full border border-neutral-300 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          )}
+
+          <div className="flex flex-wrap gap-2 max-h-56 overflow-y-auto">
+            {visibleOptions.length === 0 && (
+              <p className="text-xs text-gray-500">No {label.toLowerCase()} found</p>
+            )}
+            {visibleOptions.map((option) => {
+              const isIncluded = included.includes(option);
+              const isExcluded = excluded.includes(option);
+
+              return (
+                <button
+                  key={option}
+                  onClick={() => handleToggle(option)}
+                  aria-pressed={isIncluded || isExcluded}
+                  className={`cursor-pointer px-2.5 py-1 rounded-md text-xs font-medium border transition-colors ${
+                    isIncluded
+                      ? `${getIncludedClassName(option)} border-transparent`
+                      : isExcluded
+                        ? 'bg-red-50 text-red-700 border-red-200 line-through'
+                        : 'bg-white text-gray-700 border-neutral-300 hover:bg-neutral-50'
+                  }`}
+                >
+                  {option}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
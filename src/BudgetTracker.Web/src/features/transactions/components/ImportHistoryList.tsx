@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { useLoaderData, useRevalidator } from 'react-router-dom';
+import EmptyState from '../../../shared/components/EmptyState';
+import { LoadingSpinner } from '../../../shared/components/LoadingSpinner';
+import { useToast } from '../../../shared/contexts/ToastContext';
+import { formatCurrency, formatDate, formatDateTime, getCategoryColor } from '../../../shared/utils/formatters';
+import { transactionsApi } from '../api';
+import type { ImportSession, Transaction } from '../types';
+import { isImageFile } from '../utils/importFiles';
+
+const SESSION_TRANSACTION_LIMIT = 100;
+
+export default function ImportHistoryList() {
+  const sessions = useLoaderData() as ImportSession[];
+  const revalidator = useRevalidator();
+  const { showSuccess, showError } = useToast();
+  const [expandedHash, setExpandedHash] = useState<string | null>(null);
+  const [sessionTransactions, setSessionTransactions] = useState<Transaction[]>([]);
+  const [isLoadingTransactions, setIsLoadingTransactions] = useState(false);
+  const [confirmRollbackHash, setConfirmRollbackHash] = useState<string | null>(null);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+
+  const handleToggle = async (session: ImportSession) => {
+    if (expandedHash === session.importSessionHash) {
+      setExpandedHash(null);
+      return;
+    }
+
+    setExpandedHash(session.importSessionHash);
+    setSessionTransactions([]);
+    if (session.transactionCount === 0) return;
+
+    setIsLoadingTransactions(true);
+    try {
+      const result = await transactionsApi.getTransactions({
+        importSessionHash: session.importSessionHash,
+        pageSize: SESSION_TRANSACTION_LIMIT
+      });
+      setSessionTransactions(result.items);
+    } catch (error) {
+      console.error('Failed to load import transactions:', error);
+      showError('Load Failed', 'Could not load the transactions for this import');
+    } finally {
+      setIsLoadingTransactions(false);
+    }
+  };
+
+  const handleRollback = async (session: ImportSession) => {
+    setIsRollingBack(true);
+    try {
+      const result = await transactionsApi.rollbackImport(session.importSessionHash);
+      showSuccess('Import Undone', `Removed ${result.deletedCount} transactions from ${session.sourceFile ?? 'this import'}`);
+      setConfirmRollbackHash(null);
+      setExpandedHash(null);
+      revalidator.revalidate();
+    } catch (error) {
+      console.error('Failed to undo import:', error);
+      showError('Undo Failed', 'Could not remove the transactions from this import');
+    } finally {
+      setIsRollingBack(false);
+    }
+  };
+
+  const getDetectionLabel = (session: ImportSession) => {
+    if (session.sourceFile && isImageFile(session.sourceFile)) return 'AI image extraction';
+    if (!session.detectionMethod) return 'Unknown';
+    const confidence = session.detectionConfidence !== undefined && session.detectionConfidence !== null
+      ? ` • ${Math.round(session.detectionConfidence)}%`
+      : '';
+    return `${session.detectionMethod}${confidence}`;
+  };
+
+  if (sessions.length === 0) {
+    return (
+      <EmptyState
+        title="No imports yet"
+        description="Imported bank statements will appear here so you can review or undo them."
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {sessions.map((session) => {
+        const isExpanded = expandedHash === session.importSessionHash;
+        const isRolledBack = Boolean(session.rolledBackAt);
+
+        return (
+          <div key={session.importSessionHash} className="bg-white rounded-lg border border-neutral-100">
+            <div className="p-4 flex justify-between items-start gap-4">
+              <button
+                onClick={() => handleToggle(session)}
+                className="cursor-pointer flex-1 min-w-0 text-left space-y-1"
+              >
+                <div className="flex items-center gap-2">
+                  <p className={`text-sm font-medium truncate ${isRolledBack ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                    {session.sourceFile ?? `Import ${session.importSessionHash}`}
+                  </p>
+                  <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-700">
+                    {session.account}
+                  </span>
+                  {isRolledBack && (
+                    <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-600">
+                      Undone
+                    </span>
+                  )}
+                  {session.enhancementsApplied && (
+                    <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-700">
+                      {session.enhancedCount} AI enhanced
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {formatDateTime(session.importedAt)} • {getDetectionLabel(session)}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {session.totalRows !== undefined && session.totalRows !== null && `${session.totalRows} rows • `}
+                  {session.importedCount} imported
+                  {session.failedCount > 0 && ` • ${session.failedCount} failed`}
+                  {session.duplicateCount > 0 && ` • ${session.duplicateCount} duplicates flagged`}
+                  {!isRolledBack && ` • ${session.transactionCount} still in your transactions`}
+                </p>
+              </button>
+
+              {!isRolledBack && session.transactionCount > 0 && (
+                <div className="flex items-center gap-3">
+                  {confirmRollbackHash === session.importSessionHash ? (
+                    <>
+                      <span className="text-xs text-gray-600">
+                        Remove {session.transactionCount} transactions{session.duplicateCount > 0 && ' and undo details merged into earlier ones'}?
+                      </span>
+                      <button
+                        onClick={() => handleRollback(session)}
+                        disabled={isRollingBack}
+                        className="cursor-pointer text-red-600 hover:text-red-700 text-xs font-medium transition-colors disabled:opacity-50"
+                      >
+                        {isRollingBack ? 'Undoing...' : 'Undo Import'}
+                      </button>
+                      <button
+                        onClick={() => setConfirmRollbackHash(null)}
+                        disabled={isRollingBack}
+                        className="cursor-pointer text-gray-600 hover:text-gray-900 text-xs font-medium transition-colors disabled:opacity-50"
+                      >
+                        Cancel
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      onClick={() => setConfirmRollbackHash(session.importSessionHash)}
+                      className="cursor-pointer text-red-600 hover:text-red-700 text-xs font-medium transition-colors"
+                    >
+                      Undo this import
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {isExpanded && (
+              <div className="border-t border-neutral-100 px-4 py-3">
+                {isLoadingTransactions ? (
+                  <div className="flex justify-center py-4">
+                    <LoadingSpinner size="sm" />
+                  </div>
+                ) : sessionTransactions.length === 0 ? (
+                  <p className="text-xs text-gray-500 py-2">No transactions from this import remain.</p>
+                ) : (
+                  <div className="divide-y divide-gray-100">
+                    {sessionTransactions.map((transaction) => (
+                      <div key={transaction.id} className="flex justify-between items-center py-2 text-sm">
+                        <div className="min-w-0">
+                          <p className="text-gray-900 truncate">{transaction.description}</p>
+                          <div className="flex items-center gap-2 text-xs text-gray-500">
+                            <span>{formatDate(transaction.date)}</span>
+                            {transaction.category && (
+                              <span className={`inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium ${getCategoryColor(transaction.category)}`}>
+                                {transaction.category}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                        <span className={`font-medium ${transaction.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {formatCurrency(transaction.amount)}
+                        </span>
+                      </div>
+                    ))}
+                    {session.transactionCount > sessionTransactions.length && (
+                      <p className="text-xs text-gray-500 pt-2">
+                        Showing {sessionTransactions.length} of {session.transactionCount} transactions
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import type { CsvColumnField, DecimalSeparator, ImportProfile, SaveImportProfileRequest, SignConvention } from '../types';
+import { CSV_COLUMN_FIELDS, DATE_FORMAT_OPTIONS, DELIMITER_OPTIONS } from '../utils/csvPreview';
+
+interface ImportProfileEditorProps {
+  profile: ImportProfile;
+  onSave: (request: SaveImportProfileRequest) => Promise<void>;
+  onCancel: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50';
+const labelClassName = 'text-sm font-medium text-gray-700 block mb-2';
+
+export default function ImportProfileEditor({ profile, onSave, onCancel }: ImportProfileEditorProps) {
+  const [draft, setDraft] = useState<SaveImportProfileRequest>({
+    name: profile.name,
+    account: profile.account,
+    columnMappings: { ...profile.columnMappings },
+    delimiter: profile.delimiter,
+    decimalSeparator: profile.decimalSeparator,
+    dateFormat: profile.dateFormat,
+    signConvention: profile.signConvention,
+    defaultCategory: profile.defaultCategory,
+    headerSignature: profile.headerSignature
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = (changes: Partial<SaveImportProfileRequest>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const updateMapping = (field: CsvColumnField, header: string) => {
+    const columnMappings = { ...draft.columnMappings };
+    if (header.trim()) {
+      columnMappings[field] = header;
+    } else {
+      delete columnMappings[field];
+    }
+    update({ columnMappings });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave({
+        ...draft,
+        name: draft.name.trim(),
+        account: draft.account.trim(),
+        defaultCategory: draft.defaultCategory?.trim() || undefined
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor={`name-${profile.id}`} className={labelClassName}>Profile Name</label>
+          <input
+            id={`name-${profile.id}`}
+            type="text"
+            value={draft.name}
+            onChange={(e) => update({ name: e.target.value })}
+            disabled={isSaving}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor={`account-${profile.id}`} className={labelClassName}>Account Name</label>
+          <input
+            id={`account-${profile.id}`}
+            type="text"
+            value={draft.account}
+            onChange={(e) => update({ account: e.target.value })}
+            disabled={isSaving}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor={`delimiter-${profile.id}`} className={labelClassName}>Delimiter</label>
+          <select
+            id={`delimiter-${profile.id}`}
+            value={draft.delimiter}
+            onChange={(e) => update({ delimiter: e.target.value })}
+            disabled={isSaving}
+            className={inputClassName}
+          >
+            {DELIMITER_OPTIONS.map((option) => (
+              <option key={option.label} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor={`decimal-${profile.id}`} className={labelClassName}>Decimal Separator</label>
+          <select
+            id={`decimal-${profile.id}`}
+            value={draft.decimalSeparator}
+            onChange={(e) => update({ decimalSeparator: e.target.value as DecimalSeparator })}
+            disabled={isSaving}
+            className={inputClassName}
+          >
+            <option value=".">Dot (1,234.56)</option>
+            <option value=",">Comma (1.234,56)</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor={`date-format-${profile.id}`} className={labelClassName}>Date Format</label>
+          <select
+            id={`date-format-${profile.id}`}
+            value={draft.dateFormat ?? ''}
+            onChange={(e) => update({ dateFormat: e.target.value || undefined })}
+            disabled={isSaving}
+            className={inputClassName}
+          >
+            <option value="">Detect automatically</option>
+            {DATE_FORMAT_OPTIONS.map((format) => (
+              <option key={format} value={format}>{format}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor={`sign-${profile.id}`} className={labelClassName}>Amount Signs</label>
+          <select
+            id={`sign-${profile.id}`}
+            value={draft.signConvention}
+            onChange={(e) => update({ signConvention: e.target.value as SignConvention })}
+            disabled={isSaving}
+            className={inputClassName}
+          >
+            <option value="AsIs">Expenses are negative</option>
+            <option value="Inverted">Expenses are positive</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor={`category-${profile.id}`} className={labelClassName}>Default Category</label>
+          <input
+            id={`category-${profile.id}`}
+            type="text"
+            value={draft.defaultCategory ?? ''}
+            onChange={(e) => update({ defaultCategory: e.target.value })}
+            placeholder="Optional"
+            disabled={isSaving}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div>
+        <p className={labelClassName}>Column Mapping</p>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {CSV_COLUMN_FIELDS.map((field) => (
+            <div key={field}>
+              <label htmlFor={`mapping-${field}-${profile.id}`} className="text-xs text-gray-500 block mb-1">{field}</label>
+              <input
+                id={`mapping-${field}-${profile.id}`}
+                type="text"
+                value={draft.columnMappings[field] ?? ''}
+                onChange={(e) => updateMapping(field, e.target.value)}
+                placeholder="CSV header"
+                disabled={isSaving}
+                className={inputClassName}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end space-x-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isSaving}
+          className="cursor-pointer inline-flex items-center justify-center px-3 py-2 border border-gray-300 text-xs font-medium rounded-xl text-gray-700 bg-white hover:bg-gray-50 transition-all duration-200 ease-in-out disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving || !draft.name.trim() || !draft.account.trim()}
+          className="cursor-pointer inline-flex items-center justify-center px-3 py-2 border border-transparent text-xs font-medium rounded-xl text-white bg-blue-600 hover:bg-blue-700 transition-all duration-200 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : 'Save Changes'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { useLoaderData, useRevalidator } from 'react-router-dom';
+import EmptyState from '../../../shared/components/EmptyState';
+import { useToast } from '../../../shared/contexts/ToastContext';
+import { formatDate } from '../../../shared/utils/formatters';
+import { transactionsApi } from '../api';
+import type { ImportProfile, SaveImportProfileRequest } from '../types';
+import { CSV_COLUMN_FIELDS } from '../utils/csvPreview';
+import ImportProfileEditor from './ImportProfileEditor';
+
+export default function ImportProfileList() {
+  const { profiles } = useLoaderData() as { profiles: ImportProfile[] };
+  const revalidator = useRevalidator();
+  const { showSuccess, showError } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const handleSave = async (profileId: string, request: SaveImportProfileRequest) => {
+    try {
+      await transactionsApi.updateImportProfile(profileId, request);
+      showSuccess('Profile Updated', `Saved changes to "${request.name}"`);
+      setEditingId(null);
+      revalidator.revalidate();
+    } catch (error) {
+      console.error('Failed to update import profile:', error);
+      showError('Update Failed', 'Could not update the import profile');
+    }
+  };
+
+  const handleDelete = async (profile: ImportProfile) => {
+    try {
+      await transactionsApi.deleteImportProfile(profile.id);
+      showSuccess('Profile Deleted', `Removed "${profile.name}"`);
+      setConfirmDeleteId(null);
+      revalidator.revalidate();
+    } catch (error) {
+      console.error('Failed to delete import profile:', error);
+      showError('Delete Failed', 'Could not delete the import profile');
+    }
+  };
+
+  if (profiles.length === 0) {
+    return (
+      <EmptyState
+        title="No import profiles yet"
+        description="Save the settings of a CSV import as a profile and it will be suggested for matching files."
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {profiles.map((profile) => {
+        const mappedFields = CSV_COLUMN_FIELDS.filter(field => profile.columnMappings[field]);
+
+        return (
+          <div key={profile.id} className="bg-white rounded-lg border border-neutral-100 p-4">
+            {editingId === profile.id ? (
+              <ImportProfileEditor
+                profile={profile}
+                onSave={(request) => handleSave(profile.id, request)}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <div className="flex justify-between items-start gap-4">
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium text-gray-900">{profile.name}</p>
+                    <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-700">
+                      {profile.account}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {mappedFields.length > 0
+                      ? mappedFields.map(field => `${field}: ${profile.columnMappings[field]}`).join(' • ')
+                      : 'No column mapping'}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {profile.dateFormat ?? 'Auto date format'} • Decimal "{profile.decimalSeparator}"
+                    {profile.signConvention === 'Inverted' && ' • Expenses are positive'}
+                    {profile.defaultCategory && ` • Default category: ${profile.defaultCategory}`}
+                    {' • Updated '}{formatDate(profile.updatedAt)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  {confirmDeleteId === profile.id ? (
+                    <>
+                      <span className="text-xs text-gray-600">Delete this profile?</span>
+                      <button
+                        onClick={() => handleDelete(profile)}
+                        className="cursor-pointer text-red-600 hover:text-red-700 text-xs font-medium transition-colors"
+                      >
+                        Delete
+                      </button>
+                      <button
+                        onClick={() => setConfirmDeleteId(null)}
+                        className="cursor-pointer text-gray-600 hover:text-gray-900 text-xs font-medium transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => setEditingId(profile.id)}
+                        className="cursor-pointer text-indigo-600 hover:text-indigo-700 text-xs font-medium transition-colors"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => setConfirmDeleteId(profile.id)}
+                        className="cursor-pointer text-red-600 hover:text-red-700 text-xs font-medium transition-colors"
+                      >
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,472 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router';
+import { LoadingSpinner } from '../../../shared/components/LoadingSpinner';
+import { useToast } from '../../../shared/contexts/ToastContext';
+import { transactionsApi } from '../api';
+import type { ImportQueueState } from '../hooks/useImportQueue';
+import type {
+  DuplicateResolution,
+  EnhancementReview,
+  ImportProfile,
+  ImportQueueItem,
+  ImportQueueStatus
+} from '../types';
+import { createEnhancementReviews, getAcceptedEnhancements } from '../utils/enhancementReview';
+import { getImportJobPhaseLabel } from '../utils/importJobs';
+import { formatFileSize, getFileTypeIcon } from '../utils/importFiles';
+import DuplicateReview from './DuplicateReview';
+import EnhancementReviewTable from './EnhancementReviewTable';
+
+interface ImportQueueTableProps {
+  queue: ImportQueueState;
+  profiles: ImportProfile[];
+  onAddFiles: () => void;
+}
+
+type ReviewKind = 'duplicates' | 'enhancements';
+
+const STATUS_STYLES: Record<ImportQueueStatus, { label: string; className: string }> = {
+  pending: { label: 'Queued', className: 'bg-gray-100 text-gray-700' },
+  uploading: { label: 'Importing', className: 'bg-blue-100 text-blue-700' },
+  succeeded: { label: 'Imported', className: 'bg-green-100 text-green-700' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-700' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-100 text-gray-500' }
+};
+
+const inputClassName = 'w-full px-2 py-1 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50 disabled:bg-gray-50';
+
+export default function ImportQueueTable({ queue, profiles, onAddFiles }: ImportQueueTableProps) {
+  const { items, isRunning, updateItem, removeItem, clear, startImport, retryFailed, cancelItem } = queue;
+  const [isEnhancing, setIsEnhancing] = useState(false);
+  const [reviewing, setReviewing] = useState<{ id: string; kind: ReviewKind } | null>(null);
+  const [enhancementReviews, setEnhancementReviews] = useState<Record<string, Record<number, EnhancementReview>>>({});
+  const navigate = useNavigate();
+  const { showSuccess, showError } = useToast();
+
+  const pendingItems = items.filter(item => item.status === 'pending');
+  const succeededItems = items.filter(item => item.status === 'succeeded');
+  const failedItems = items.filter(item => item.status === 'failed');
+  const retryableItems = items.filter(item => item.status === 'failed' || item.status === 'cancelled');
+  const isFinished = !isRunning && pendingItems.length === 0 && items.length > 0;
+  const canStart = pendingItems.length > 0 && pendingItems.every(item => item.account.trim());
+
+  const importedCount = succeededItems.reduce((sum, item) => sum + (item.result?.importedCount ?? 0), 0);
+  const failedRowCount = succeededItems.reduce((sum, item) => sum + (item.result?.failedCount ?? 0), 0);
+  const skippedDuplicateCount = succeededItems.reduce((sum, item) => sum + (item.duplicateResult?.skippedCount ?? 0), 0);
+  const unreviewedItems = succeededItems.filter(item => (item.result?.duplicateCount ?? 0) > 0 && !item.duplicateResult);
+  const rowErrors = succeededItems.flatMap(item =>
+    (item.result?.errors ?? []).map(error => `${item.file.name}: ${error}`)
+  );
+  const skippedDuplicates = succeededItems.flatMap(item =>
+    (item.duplicateResult?.skippedRows ?? []).map(row => `${item.file.name}: ${row}`)
+  );
+  const enhancedCount = succeededItems.reduce((sum, item) => sum + (item.enhanceResult?.enhancedCount ?? 0), 0);
+  const reviewingItem = succeededItems.find(item => item.id === reviewing?.id);
+  const reviewingEnhancements = reviewingItem && enhancementReviews[reviewingItem.id];
+  const acceptedCount = Object.values(reviewingEnhancements ?? {}).filter(review => review.status === 'accepted').length;
+
+  const handleProfileChange = (id: string, profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    updateItem(id, {
+      profileId: profile?.id,
+      ...(profile ? { account: profile.account } : {})
+    });
+  };
+
+  const openReview = (item: ImportQueueItem, kind: ReviewKind) => {
+    if (kind === 'enhancements' && item.result && !enhancementReviews[item.id]) {
+      const reviews = createEnhancementReviews(item.result.enhancements);
+      setEnhancementReviews(prev => ({ ...prev, [item.id]: reviews }));
+    }
+    setReviewing({ id: item.id, kind });
+  };
+
+  const handleResolveDuplicates = async (item: ImportQueueItem, resolutions: DuplicateResolution[]) => {
+    if (!item.result) return;
+
+    try {
+      const duplicateResult = await transactionsApi.resolveDuplicates({
+        importSessionHash: item.result.importSessionHash,
+        resolutions
+      });
+
+      updateItem(item.id, {
+        duplicateResult,
+        result: { ...item.result, importedCount: item.result.importedCount + duplicateResult.keptCount }
+      });
+      setReviewing(null);
+
+      showSuccess(
+        `Reviewed duplicates in ${item.file.name}`,
+        `Kept ${duplicateResult.keptCount}, skipped ${duplicateResult.skippedCount}${duplicateResult.mergedCount > 0 ? ` and merged ${duplicateResult.mergedCount}` : ''}`
+      );
+    } catch (error) {
+      console.error('Duplicate resolution error:', error);
+      showError('Review Failed', 'Failed to save duplicate decisions');
+    }
+  };
+
+  // Only the rows accepted in the file's review table are sent, with the edits made there
+  const handleEnhance = async (item: ImportQueueItem, applyEnhancements: boolean) => {
+    if (!item.result) return;
+
+    setIsEnhancing(true);
+
+    try {
+      const enhanceResult = await transactionsApi.enhanceImport({
+        importSessionHash: item.result.importSessionHash,
+        enhancements: applyEnhancements
+          ? getAcceptedEnhancements(item.result.enhancements, enhancementReviews[item.id] ?? {})
+          : [],
+        applyEnhancements
+      });
+
+      updateItem(item.id, { enhanceResult });
+      setReviewing(null);
+
+      if (applyEnhancements) {
+        showSuccess(`Enhanced ${enhanceResult.enhancedCount} of ${item.result.enhancements.length} transactions in ${item.file.name}`);
+      }
+    } catch (error) {
+      console.error('Enhancement error:', error);
+      showError('Enhancement Failed', 'Failed to enhance transactions');
+    } finally {
+      setIsEnhancing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Import Queue</h3>
+          <span className="text-sm text-gray-600">
+            {items.length} {items.length === 1 ? 'file' : 'files'} • {succeededItems.length} imported • {failedItems.length} failed
+          </span>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700">File</th>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700">Import Profile</th>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700">Account</th>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700">Status</th>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700">Result</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 bg-white">
+              {items.map((item) => {
+                const isEditable = !isRunning && (item.status === 'pending' || item.status === 'failed' || item.status === 'cancelled');
+                const status = STATUS_STYLES[item.status];
+
+                return (
+                  <tr key={item.id} className="align-top">
+                    <td className="px-4 py-3">
+                      <div className="flex items-center space-x-2">
+                        <span>{getFileTypeIcon(item.file.name)}</span>
+                        <div className="min-w-0">
+                          <p className="font-medium text-gray-900 truncate max-w-[14rem]">{item.file.name}</p>
+                          <p className="text-xs text-gray-500">{formatFileSize(item.file.size)}</p>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 min-w-[10rem]">
+                      <select
+                        value={item.profileId ?? ''}
+                        onChange={(e) => handleProfileChange(item.id, e.target.value)}
+                        disabled={!isEditable}
+                        aria-label={`Import profile for ${item.file.name}`}
+                        className={inputClassName}
+                      >
+                        <option value="">No profile</option>
+                        {profiles.map((profile) => (
+                          <option key={profile.id} value={profile.id}>{profile.name}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-3 min-w-[10rem]">
+                      <input
+                        type="text"
+                        value={item.account}
+                        onChange={(e) => updateItem(item.id, { account: e.target.value })}
+                        disabled={!isEditable}
+                        placeholder="Account name"
+                        aria-label={`Account for ${item.file.name}`}
+                        className={inputClassName}
+                      />
+                    </td>
+                    <td className="px-4 py-3 min-w-[8rem]">
+                      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${status.className}`}>
+                        {status.label}
+                      </span>
+                      {item.status === 'uploading' && (
+                        <div className="mt-2 space-y-1">
+                          <div className="w-full bg-gray-200 rounded-full h-1.5 overflow-hidden">
+                            <div
+                              className="h-1.5 rounded-full transition-all duration-500 ease-out bg-blue-600"
+                              style={{ width: `${item.progress}%` }}
+                            />
+                          </div>
+                          <p className="text-xs text-gray-500">
+                            {item.job ? getImportJobPhaseLabel(item.job) : `Uploading... ${item.progress}%`}
+                          </p>
+                          {item.job && (
+                            <button
+                              onClick={() => cancelItem(item)}
+                              disabled={item.isCancelling}
+                              className="cursor-pointer text-xs font-medium text-red-600 hover:text-red-700 transition-colors disabled:opacity-50"
+                            >
+                              {item.isCancelling ? 'Cancelling...' : 'Cancel'}
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-xs">
+                      {item.result && (
+                        <div className="space-y-0.5">
+                          <p className="text-green-700">{item.result.importedCount} imported</p>
+                          {item.result.failedCount > 0 && (
+                            <p className="text-red-600">{item.result.failedCount} rows failed</p>
+                          )}
+                          {item.duplicateResult ? (
+                            <p className="text-gray-600">
+                              {item.duplicateResult.keptCount} duplicates kept • {item.duplicateResult.skippedCount} skipped
+                              {item.duplicateResult.mergedCount > 0 && ` • ${item.duplicateResult.mergedCount} merged`}
+                            </p>
+                          ) : item.result.duplicateCount > 0 && (
+                            <button
+                              onClick={() => openReview(item, 'duplicates')}
+                              disabled={isEnhancing}
+                              className="cursor-pointer font-medium text-yellow-700 hover:text-yellow-800 transition-colors disabled:opacity-50"
+                            >
+                              Review {item.result.duplicateCount} {item.result.duplicateCount === 1 ? 'duplicate' : 'duplicates'}
+                            </button>
+                          )}
+                          {item.enhanceResult ? (
+                            <p className="text-green-700">{item.enhanceResult.enhancedCount} enhanced</p>
+                          ) : item.result.enhancements.length > 0 && (
+                            <button
+                              onClick={() => openReview(item, 'enhancements')}
+                              disabled={isEnhancing}
+                              className="cursor-pointer block font-medium text-blue-600 hover:text-blue-700 transition-colors disabled:opacity-50"
+                            >
+                              Review {item.result.enhancements.length} AI {item.result.enhancements.length === 1 ? 'enhancement' : 'enhancements'}
+                            </button>
+                          )}
+                          {item.result.ruleCategorizedCount > 0 && (
+                            <p className="text-indigo-700">{item.result.ruleCategorizedCount} categorized by rules</p>
+                          )}
+                          {item.result.detectionMethod && (
+                            <p className="text-gray-500">{item.result.detectionMethod} detection</p>
+                          )}
+                        </div>
+                      )}
+                      {item.error && <p className="text-red-600">{item.error}</p>}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {isEditable && (
+                        <button
+                          onClick={() => removeItem(item.id)}
+                          className="cursor-pointer text-xs font-medium text-gray-500 hover:text-red-600 transition-colors"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {reviewing?.kind === 'duplicates' && reviewingItem?.result && !reviewingItem.duplicateResult && (
+        <DuplicateReview
+          key={reviewingItem.id}
+          duplicates={reviewingItem.result.duplicates}
+          fileName={reviewingItem.file.name}
+          onResolve={(resolutions) => handleResolveDuplicates(reviewingItem, resolutions)}
+          onCancel={() => setReviewing(null)}
+        />
+      )}
+
+      {reviewing?.kind === 'enhancements' && reviewingItem?.result && reviewingEnhancements && !reviewingItem.enhanceResult && (
+        <div className="space-y-6">
+          <div className="bg-white rounded-xl border border-gray-200 p-6">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-lg font-semibold text-gray-900">Review AI Enhancements</h3>
+              <span className="text-sm text-gray-600">
+                {reviewingItem.file.name} • <span className="text-blue-600">{acceptedCount} will be enhanced</span>
+              </span>
+            </div>
+
+            <EnhancementReviewTable
+              key={reviewingItem.id}
+              enhancements={reviewingItem.result.enhancements}
+              reviews={reviewingEnhancements}
+              onChange={(reviews) => setEnhancementReviews(prev => ({ ...prev, [reviewingItem.id]: reviews }))}
+              disabled={isEnhancing}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => setReviewing(null)}
+              disabled={isEnhancing}
+              className="cursor-pointer inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-xl text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all duration-200 ease-in-out disabled:opacity-50"
+            >
+              Back
+            </button>
+
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => handleEnhance(reviewingItem, false)}
+                disabled={isEnhancing}
+                className="cursor-pointer inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-xl text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all duration-200 ease-in-out disabled:opacity-50"
+              >
+                Skip Enhancement
+              </button>
+              <button
+                onClick={() => handleEnhance(reviewingItem, true)}
+                disabled={isEnhancing || acceptedCount === 0}
+                className="cursor-pointer inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-xl text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-all duration-200 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isEnhancing ? (
+                  <>
+                    <LoadingSpinner size="sm" />
+                    <span className="ml-2">Enhancing...</span>
+                  </>
+                ) : (
+                  `Apply ${acceptedCount} ${acceptedCount === 1 ? 'Enhancement' : 'Enhancements'}`
+                )}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isFinished && (
+        <div className="bg-white rounded-xl border border-gray-200 p-6 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900">Import Summary</h3>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <p className="text-xs text-gray-500">Files imported</p>
+              <p className="text-lg font-semibold text-gray-900">{succeededItems.length} / {items.length}</p>
+            </div>
+            <div className="p-3 bg-green-50 rounded-lg">
+              <p className="text-xs text-green-700">Transactions imported</p>
+              <p className="text-lg font-semibold text-green-800">{importedCount}</p>
+            </div>
+            <div className="p-3 bg-blue-50 rounded-lg">
+              <p className="text-xs text-blue-700">Enhanced with AI</p>
+              <p className="text-lg font-semibold text-blue-800">{enhancedCount}</p>
+            </div>
+            <div className="p-3 bg-yellow-50 rounded-lg">
+              <p className="text-xs text-yellow-700">Rows skipped</p>
+              <p className="text-lg font-semibold text-yellow-800">{failedRowCount}</p>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <p className="text-xs text-gray-500">Duplicates skipped</p>
+              <p className="text-lg font-semibold text-gray-900">{skippedDuplicateCount}</p>
+            </div>
+            <div className="p-3 bg-red-50 rounded-lg">
+              <p className="text-xs text-red-700">Files failed</p>
+              <p className="text-lg font-semibold text-red-800">{failedItems.length}</p>
+            </div>
+          </div>
+
+          {unreviewedItems.length > 0 && (
+            <p className="text-sm text-yellow-800">
+              {unreviewedItems.length} {unreviewedItems.length === 1 ? 'file has' : 'files have'} possible duplicates
+              waiting for review. They are not imported until you keep them.
+            </p>
+          )}
+
+          {rowErrors.length > 0 && (
+            <div className="max-h-40 overflow-y-auto p-3 bg-yellow-50 rounded-lg border border-yellow-200 text-xs text-yellow-800 space-y-1">
+              {rowErrors.map((error, index) => (
+                <p key={index}>{error}</p>
+              ))}
+            </div>
+          )}
+
+          {skippedDuplicates.length > 0 && (
+            <details className="p-3 bg-gray-50 rounded-lg border border-gray-200 text-sm text-gray-700">
+              <summary className="cursor-pointer font-medium">Skipped duplicate rows</summary>
+              <ul className="mt-2 max-h-40 overflow-y-auto space-y-1 text-xs text-gray-600">
+                {skippedDuplicates.map((row, index) => (
+                  <li key={index}>{row}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={clear}
+            disabled={isRunning || isEnhancing}
+            className="cursor-pointer inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-xl text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all duration-200 ease-in-out disabled:opacity-50"
+          >
+            {isFinished ? 'Start Over' : 'Clear Queue'}
+          </button>
+          <button
+            onClick={onAddFiles}
+            disabled={isRunning || isEnhancing}
+            className="cursor-pointer inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-xl text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all duration-200 ease-in-out disabled:opacity-50"
+          >
+            Add Files
+          </button>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          {retryableItems.length > 0 && (
+            <button
+              onClick={retryFailed}
+              disabled={isRunning || isEnhancing}
+              className="cursor-pointer inline-flex items-center justify-center px-4 py-2 border border-red-200 text-sm font-medium rounded-xl text-red-700 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-all duration-200 ease-in-out disabled:opacity-50"
+            >
+              Retry {retryableItems.length} {retryableItems.length === 1 ? 'File' : 'Files'}
+            </button>
+          )}
+
+          {pendingItems.length > 0 || isRunning ? (
+            <button
+              onClick={startImport}
+              disabled={isRunning || !canStart}
+              className="cursor-pointer inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-xl text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all duration-200 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isRunning ? (
+                <>
+                  <LoadingSpinner size="sm" />
+                  <span className="ml-2">Importing...</span>
+                </>
+              ) : (
+                `Import ${pendingItems.length} ${pendingItems.length === 1 ? 'File' : 'Files'}`
+              )}
+            </button>
+          ) : succeededItems.length > 0 && (
+            <button
+              onClick={() => navigate('/transactions')}
+              disabled={isEnhancing}
+              className="cursor-pointer inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-xl text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all duration-200 ease-in-out disabled:opacity-50"
+            >
+              View Transactions
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!canStart && pendingItems.length > 0 && !isRunning && (
+        <p className="text-xs text-gray-500 text-right">Enter an account for every queued file to start the import.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useRef, useState } from 'react';
+
+interface InlineEditFieldProps {
+  label: string;
+  value: string;
+  displayValue: string;
+  inputType: 'text' | 'date' | 'number';
+  originalDisplayValue?: string;
+  validate: (value: string) => string | undefined;
+  onSave: (value: string) => void;
+  onRevert: () => void;
+}
+
+export default function InlineEditField({
+  label,
+  value,
+  displayValue,
+  inputType,
+  originalDisplayValue,
+  validate,
+  onSave,
+  onRevert
+}: InlineEditFieldProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState<string>();
+  // Closing unmounts the input, which can still fire a blur with the stale draft
+  const isClosingRef = useRef(false);
+  const isEditing = draft !== null;
+
+  const cancel = () => {
+    isClosingRef.current = true;
+    setDraft(null);
+    setError(undefined);
+  };
+
+  const commit = () => {
+    if (draft === null || isClosingRef.current) return;
+
+    if (draft.trim() === value) {
+      cancel();
+      return;
+    }
+
+    const validationError = validate(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    onSave(draft);
+    cancel();
+  };
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-gray-500">{label}</p>
+
+      {isEditing ? (
+        <input
+          type={inputType}
+          step={inputType === 'number' ? '0.01' : undefined}
+          value={draft}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            setError(undefined);
+          }}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commit();
+            if (e.key === 'Escape') cancel();
+          }}
+          autoFocus
+          aria-label={label}
+          aria-invalid={!!error}
+          className={`w-full border rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 ${
+            error ? 'border-red-400 focus:ring-red-500' : 'border-neutral-300 focus:ring-indigo-500'
+          }`}
+        />
+      ) : (
+        <button
+          onClick={() => {
+            isClosingRef.current = false;
+            setDraft(value);
+          }}
+          title={`Edit ${label.toLowerCase()}`}
+          className="cursor-pointer w-full text-left text-sm text-gray-900 px-2 py-1 -mx-2 rounded-md hover:bg-neutral-100 transition-colors break-words"
+        >
+          {displayValue}
+        </button>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {originalDisplayValue !== undefined && (
+        <p className="text-xs text-amber-700">
+          Imported as <span className="font-medium">{originalDisplayValue}</span>
+          {' · '}
+          <button
+            onClick={onRevert}
+            className="cursor-pointer text-indigo-600 hover:text-indigo-700 font-medium underline transition-colors"
+          >
+            Revert
+          </button>
+        </p>
+      )}
+    </div>
+  );
+}
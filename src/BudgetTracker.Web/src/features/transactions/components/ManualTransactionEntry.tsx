@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { isCategoryArchived } from '../../../shared/utils/categoryAppearance';
+import { transactionsApi } from '../api';
+import ManualTransactionForm from './ManualTransactionForm';
+import QuickEntryTable from './QuickEntryTable';
+
+type EntryMode = 'single' | 'quick';
+
+interface ManualTransactionEntryProps {
+  onCreated: (count: number) => void;
+  onClose: () => void;
+}
+
+const ACCOUNT_LIST_ID = 'manual-transaction-accounts';
+const CATEGORY_LIST_ID = 'manual-transaction-categories';
+
+export default function ManualTransactionEntry({ onCreated, onClose }: ManualTransactionEntryProps) {
+  const [mode, setMode] = useState<EntryMode>('single');
+  const [accounts, setAccounts] = useState<string[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+
+  useEffect(() => {
+    const fetchFilters = async () => {
+      try {
+        const filters = await transactionsApi.getFilters();
+        setAccounts(filters.accounts);
+        setCategories(filters.categories.filter(category => !isCategoryArchived(category)));
+      } catch (error) {
+        console.error('Failed to fetch filters:', error);
+      }
+    };
+    fetchFilters();
+  }, []);
+
+  return (
+    <div className="bg-white rounded-lg border border-neutral-200 p-6 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Add Transactions</h2>
+          <p className="text-sm text-gray-600">Record cash spending and other items that aren't in an imported statement.</p>
+        </div>
+        <div className="inline-flex rounded-md border border-neutral-300 overflow-hidden shrink-0">
+          {(['single', 'quick'] as EntryMode[]).map((value) => (
+            <button
+              key={value}
+              onClick={() => setMode(value)}
+              aria-pressed={mode === value}
+              className={`cursor-pointer px-3 py-1.5 text-sm font-medium transition-colors ${
+                mode === value ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-neutral-50'
+              }`}
+            >
+              {value === 'single' ? 'Single' : 'Quick Entry'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <datalist id={ACCOUNT_LIST_ID}>
+        {accounts.map(account => <option key={account} value={account} />)}
+      </datalist>
+      <datalist id={CATEGORY_LIST_ID}>
+        {categories.map(category => <option key={category} value={category} />)}
+      </datalist>
+
+      {mode === 'single' ? (
+        <ManualTransactionForm
+          accountListId={ACCOUNT_LIST_ID}
+          availableCategories={categories}
+          onCreated={onCreated}
+          onCancel={onClose}
+        />
+      ) : (
+        <QuickEntryTable
+          accountListId={ACCOUNT_LIST_ID}
+          categoryListId={CATEGORY_LIST_ID}
+          onCreated={onCreated}
+          onCancel={onClose}
+        />
+      )}
+    </div>
+  );
+}
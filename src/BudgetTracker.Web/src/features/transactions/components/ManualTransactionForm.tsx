@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { useToast } from '../../../shared/contexts/ToastContext';
+import { transactionsApi } from '../api';
+import {
+  createManualDraft,
+  toCreateTransactionRequest,
+  validateManualDraft,
+  type ManualTransactionErrors
+} from '../utils/manualTransactions';
+import CategoryManager from './CategoryManager';
+
+interface ManualTransactionFormProps {
+  accountListId: string;
+  availableCategories: string[];
+  onCreated: (count: number) => void;
+  onCancel: () => void;
+}
+
+const inputClassName = (error?: string) =>
+  `w-full border rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 ${
+    error ? 'border-red-400 focus:ring-red-500' : 'border-neutral-300 focus:ring-indigo-500'
+  }`;
+
+export default function ManualTransactionForm({ accountListId, availableCategories, onCreated, onCancel }: ManualTransactionFormProps) {
+  const { showSuccess, showError } = useToast();
+  const [draft, setDraft] = useState(() => createManualDraft());
+  const [errors, setErrors] = useState<ManualTransactionErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = (changes: Partial<typeof draft>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setErrors(prev => {
+      const next = { ...prev };
+      Object.keys(changes).forEach(key => delete next[key as keyof ManualTransactionErrors]);
+      return next;
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationErrors = validateManualDraft(draft);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    setIsSaving(true);
+    try {
+      const created = await transactionsApi.createTransaction(toCreateTransactionRequest(draft));
+      showSuccess('Transaction added', created.description);
+      // Keep the date, account and direction so the next cash expense is quicker to enter
+      setDraft(createManualDraft({ date: draft.date, account: draft.account, isIncome: draft.isIncome }));
+      onCreated(1);
+    } catch {
+      showError('Failed to add transaction', 'Please check the details and try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="sm:col-span-2">
+          <label htmlFor="manual-description" className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+          <input
+            id="manual-description"
+            type="text"
+            value={draft.description}
+            onChange={(e) => update({ description: e.target.value })}
+            placeholder="e.g. Coffee at the market"
+            autoFocus
+            className={inputClassName(errors.description)}
+          />
+          {errors.description && <p className="mt-1 text-xs text-red-600">{errors.description}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="manual-date" className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+          <input
+            id="manual-date"
+            type="date"
+            value={draft.date}
+            onChange={(e) => update({ date: e.target.value })}
+            className={inputClassName(errors.date)}
+          />
+          {errors.date && <p className="mt-1 text-xs text-red-600">{errors.date}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="manual-amount" className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+          <div className="flex gap-2">
+            <div className="inline-flex rounded-md border border-neutral-300 overflow-hidden shrink-0">
+              {[false, true].map((isIncome) => (
+                <button
+                  key={String(isIncome)}
+                  type="button"
+                  onClick={() => update({ isIncome })}
+                  aria-pressed={draft.isIncome === isIncome}
+                  className={`cursor-pointer px-2.5 py-2 text-xs font-medium transition-colors ${
+                    draft.isIncome === isIncome
+                      ? isIncome ? 'bg-green-600 text-white' : 'bg-red-600 text-white'
+                      : 'bg-white text-gray-700 hover:bg-neutral-50'
+                  }`}
+                >
+                  {isIncome ? 'Income' : 'Expense'}
+                </button>
+              ))}
+            </div>
+            <input
+              id="manual-amount"
+              type="number"
+              min="0"
+              step="0.01"
+              value={draft.amount}
+              onChange={(e) => update({ amount: e.target.value })}
+              placeholder="0.00"
+              className={inputClassName(errors.amount)}
+            />
+          </div>
+          {errors.amount && <p className="mt-1 text-xs text-red-600">{errors.amount}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="manual-account" className="block text-sm font-medium text-gray-700 mb-1">Account</label>
+          <input
+            id="manual-account"
+            type="text"
+            list={accountListId}
+            value={draft.account}
+            onChange={(e) => update({ account: e.target.value })}
+            className={inputClassName(errors.account)}
+          />
+          {errors.account && <p className="mt-1 text-xs text-red-600">{errors.account}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="manual-labels" className="block text-sm font-medium text-gray-700 mb-1">Labels</label>
+          <input
+            id="manual-labels"
+            type="text"
+            value={draft.labels}
+            onChange={(e) => update({ labels: e.target.value })}
+            placeholder="Optional"
+            className={inputClassName(errors.labels)}
+          />
+          {errors.labels && <p className="mt-1 text-xs text-red-600">{errors.labels}</p>}
+        </div>
+
+        <div className="sm:col-span-2">
+          <p className="block text-sm font-medium text-gray-700 mb-1">Categories</p>
+          <CategoryManager
+            existingCategories={draft.categories}
+            availableCategories={availableCategories}
+            onAddCategory={(category) => update({ categories: [...draft.categories, category] })}
+            onRemoveCategory={(category) => update({ categories: draft.categories.filter(c => c !== category) })}
+            compact
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="cursor-pointer px-4 py-2 border border-neutral-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-neutral-50 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="cursor-pointer px-4 py-2 rounded-md bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isSaving ? 'Adding...' : 'Add Transaction'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import { useToast } from '../../../shared/contexts/ToastContext';
+import { transactionsApi } from '../api';
+import {
+  createManualDraft,
+  isBlankDraft,
+  toCreateTransactionRequest,
+  validateManualDraft,
+  type ManualTransactionDraft,
+  type ManualTransactionErrors
+} from '../utils/manualTransactions';
+
+interface QuickEntryTableProps {
+  accountListId: string;
+  categoryListId: string;
+  onCreated: (count: number) => void;
+  onCancel: () => void;
+}
+
+const cellInputClassName = (error?: string) =>
+  `w-full border rounded px-2 py-1.5 text-sm focus:outline-none focus:ring-2 ${
+    error ? 'border-red-400 focus:ring-red-500' : 'border-neutral-300 focus:ring-indigo-500'
+  }`;
+
+export default function QuickEntryTable({ accountListId, categoryListId, onCreated, onCancel }: QuickEntryTableProps) {
+  const { showSuccess, showError } = useToast();
+  const [rows, setRows] = useState<ManualTransactionDraft[]>(() => [createManualDraft()]);
+  const [errors, setErrors] = useState<Record<string, ManualTransactionErrors>>({});
+  const [focusKey, setFocusKey] = useState(rows[0].key);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateRow = (key: string, changes: Partial<ManualTransactionDraft>) => {
+    setRows(prev => prev.map(row => (row.key === key ? { ...row, ...changes } : row)));
+    setErrors(prev => {
+      if (!prev[key]) return prev;
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  };
+
+  // New rows start from the previous row's date and account, since a batch of receipts usually shares them
+  const addRow = () => {
+    const last = rows[rows.length - 1];
+    const row = createManualDraft({ date: last.date, account: last.account });
+    setRows(prev => [...prev, row]);
+    setFocusKey(row.key);
+  };
+
+  const removeRow = (key: string) => {
+    setRows(prev => (prev.length === 1 ? [createManualDraft()] : prev.filter(row => row.key !== key)));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, index: number) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+
+    if (index === rows.length - 1) {
+      addRow();
+    } else {
+      setFocusKey(rows[index + 1].key);
+    }
+  };
+
+  const filledRows = rows.filter(row => !isBlankDraft(row));
+
+  const handleSave = async () => {
+    const validationErrors = Object.fromEntries(
+      filledRows
+        .map(row => [row.key, validateManualDraft(row)] as const)
+        .filter(([, rowErrors]) => Object.keys(rowErrors).length > 0)
+    );
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    setIsSaving(true);
+    try {
+      const result = await transactionsApi.createTransactions(filledRows.map(toCreateTransactionRequest));
+      showSuccess(`Added ${result.createdCount} transaction${result.createdCount === 1 ? '' : 's'}`);
+      const nextRow = createManualDraft({ date: rows[rows.length - 1].date, account: rows[rows.length - 1].account });
+      setRows([nextRow]);
+      setFocusKey(nextRow.key);
+      onCreated(result.createdCount);
+    } catch {
+      showError('Failed to add transactions', 'None of the rows were saved. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">
+        Press Enter to move to the next row. Amounts are recorded as expenses unless the row is marked as income.
+        Empty rows are skipped.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs font-semibold text-gray-700">
+              <th className="px-1 py-2 w-36">Date</th>
+              <th className="px-1 py-2">Description</th>
+              <th className="px-1 py-2 w-28">Amount</th>
+              <th className="px-1 py-2 w-20">Income</th>
+              <th className="px-1 py-2 w-36">Account</th>
+              <th className="px-1 py-2 w-40">Category</th>
+              <th className="px-1 py-2 w-10" aria-label="Remove" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => {
+              const rowErrors = errors[row.key] ?? {};
+              const rowErrorMessages = Object.values(rowErrors);
+
+              return (
+                <tr key={row.key} className="align-top" onKeyDown={(e) => handleKeyDown(e, index)}>
+                  <td className="px-1 py-1">
+                    <input
+                      type="date"
+                      value={row.date}
+                      onChange={(e) => updateRow(row.key, { date: e.target.value })}
+                      aria-label={`Row ${index + 1} date`}
+                      className={cellInputClassName(rowErrors.date)}
+                    />
+                  </td>
+                  <td className="px-1 py-1">
+                    <input
+                      type="text"
+                      value={row.description}
+                      onChange={(e) => updateRow(row.key, { description: e.target.value })}
+                      autoFocus={row.key === focusKey}
+                      key={row.key === focusKey ? 'focused' : 'idle'}
+                      aria-label={`Row ${index + 1} description`}
+                      className={cellInputClassName(rowErrors.description)}
+                    />
+                    {rowErrorMessages.length > 0 && (
+                      <p className="mt-1 text-xs text-red-600">{rowErrorMessages.join(' · ')}</p>
+                    )}
+                  </td>
+                  <td className="px-1 py-1">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={row.amount}
+                      onChange={(e) => updateRow(row.key, { amount: e.target.value })}
+                      aria-label={`Row ${index + 1} amount`}
+                      className={cellInputClassName(rowErrors.amount)}
+                    />
+                  </td>
+                  <td className="px-1 py-1 text-center">
+                    <input
+                      type="checkbox"
+                      checked={row.isIncome}
+                      onChange={(e) => updateRow(row.key, { isIncome: e.target.checked })}
+                      aria-label={`Row ${index + 1} is income`}
+                      className="mt-2 w-4 h-4 text-indigo-600 border-neutral-300 rounded focus:ring-indigo-500 cursor-pointer"
+                    />
+                  </td>
+                  <td className="px-1 py-1">
+                    <input
+                      type="text"
+                      list={accountListId}
+                      value={row.account}
+                      onChange={(e) => updateRow(row.key, { account: e.target.value })}
+                      aria-label={`Row ${index + 1} account`}
+                      className={cellInputClassName(rowErrors.account)}
+                    />
+                  </td>
+                  <td className="px-1 py-1">
+                    <input
+                      type="text"
+                      list={categoryListId}
+                      value={row.categories[0] ?? ''}
+                      onChange={(e) => updateRow(row.key, { categories: e.target.value.trim() ? [e.target.value] : [] })}
+                      aria-label={`Row ${index + 1} category`}
+                      className={cellInputClassName()}
+                    />
+                  </td>
+                  <td className="px-1 py-1">
+                    <button
+                      type="button"
+                      onClick={() => removeRow(row.key)}
+                      aria-label={`Remove row ${index + 1}`}
+                      className="cursor-pointer mt-1 px-2 py-0.5 text-gray-400 hover:text-red-600 transition-colors"
+                    >
+                      ×
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <button
+          type="button"
+          onClick={addRow}
+          className="cursor-pointer text-sm text-indigo-600 hover:text-indigo-700 font-medium transition-colors"
+        >
+          + Add row
+        </button>
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="cursor-pointer px-4 py-2 border border-neutral-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-neutral-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving || filledRows.length === 0}
+            className="cursor-pointer px-4 py-2 rounded-md bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isSaving ? 'Saving...' : `Save ${filledRows.length} Transaction${filledRows.length === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
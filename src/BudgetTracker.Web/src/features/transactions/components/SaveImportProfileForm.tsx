@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { useToast } from '../../../shared/contexts/ToastContext';
+import { transactionsApi } from '../api';
+import type { CsvImportSettings, ImportProfile, SignConvention } from '../types';
+import { getHeaderSignature } from '../utils/csvPreview';
+
+interface SaveImportProfileFormProps {
+  account: string;
+  headers: string[];
+  settings: CsvImportSettings;
+  onSaved: (profile: ImportProfile) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50';
+
+export default function SaveImportProfileForm({ account, headers, settings, onSaved }: SaveImportProfileFormProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [signConvention, setSignConvention] = useState<SignConvention>('AsIs');
+  const [defaultCategory, setDefaultCategory] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { showError } = useToast();
+
+  const handleSave = async () => {
+    if (!name.trim() || !account) return;
+
+    setIsSaving(true);
+    try {
+      const profile = await transactionsApi.createImportProfile({
+        name: name.trim(),
+        account,
+        columnMappings: settings.columnMapping,
+        delimiter: settings.delimiter,
+        decimalSeparator: settings.decimalSeparator,
+        dateFormat: settings.dateFormat,
+        signConvention,
+        defaultCategory: defaultCategory.trim() || undefined,
+        headerSignature: getHeaderSignature(headers)
+      });
+      onSaved(profile);
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Failed to save import profile:', error);
+      showError('Save Failed', 'Could not save the import profile');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <div className="mt-4 flex justify-end">
+        <button
+          type="button"
+          onClick={() => setIsOpen(true)}
+          className="cursor-pointer text-sm font-medium text-blue-600 hover:text-blue-700 transition-colors"
+        >
+          Save these settings as a profile
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="profile-name" className="text-sm font-medium text-gray-700 block mb-2">
+            Profile Name
+          </label>
+          <input
+            type="text"
+            id="profile-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. ActivoBank Checking"
+            disabled={isSaving}
+            className={inputClassName}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="profile-sign" className="text-sm font-medium text-gray-700 block mb-2">
+            Amount Signs
+          </label>
+          <select
+            id="profile-sign"
+            value={signConvention}
+            onChange={(e) => setSignConvention(e.target.value as SignConvention)}
+            disabled={isSaving}
+            className={inputClassName}
+          >
+            <option value="AsIs">Expenses are negative</option>
+            <option value="Inverted">Expenses are positive</option>
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="profile-category" className="text-sm font-medium text-gray-700 block mb-2">
+            Default Category
+          </label>
+          <input
+            type="text"
+            id="profile-category"
+            value={defaultCategory}
+            onChange={(e) => setDefaultCategory(e.target.value)}
+            placeholder="Optional"
+            disabled={isSaving}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end space-x-3">
+        <button
+          type="button"
+          onClick={() => setIsOpen(false)}
+          disabled={isSaving}
+          className="cursor-pointer inline-flex items-center justify-center px-3 py-2 border border-gray-300 text-xs font-medium rounded-xl text-gray-700 bg-white hover:bg-gray-50 transition-all duration-200 ease-in-out disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving || !name.trim() || !account}
+          className="cursor-pointer inline-flex items-center justify-center px-3 py-2 border border-transparent text-xs font-medium rounded-xl text-white bg-blue-600 hover:bg-blue-700 transition-all duration-200 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : 'Save Profile'}
+        </button>
+      </div>
+    </div>
+  );
+}
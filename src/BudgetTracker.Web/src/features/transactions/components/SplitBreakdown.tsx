@@ -0,0 +1,41 @@
+import { formatCurrency, getCategoryColor } from '../../../shared/utils/formatters';
+import { getCategoryIcon } from '../../../shared/utils/categoryAppearance';
+import type { Transaction } from '../types';
+import { getSplitShare } from '../utils/transactionSplits';
+
+interface SplitBreakdownProps {
+  transaction: Transaction;
+  compact?: boolean;
+}
+
+export default function SplitBreakdown({ transaction, compact = false }: SplitBreakdownProps) {
+  const splits = transaction.splits ?? [];
+
+  return (
+    <div className="space-y-1.5">
+      {!compact && (
+        <div className="flex h-1.5 w-full max-w-xs overflow-hidden rounded-full bg-neutral-100" aria-hidden="true">
+          {splits.map((split, index) => (
+            <div
+              key={split.categoryName}
+              className={index % 2 === 0 ? 'bg-indigo-500' : 'bg-indigo-300'}
+              style={{ width: `${getSplitShare(transaction, split) * 100}%` }}
+            />
+          ))}
+        </div>
+      )}
+      <div className="flex flex-wrap gap-1">
+        {splits.map((split) => (
+          <span
+            key={split.categoryName}
+            className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${getCategoryColor(split.categoryName)}`}
+          >
+            {getCategoryIcon(split.categoryName) && <span aria-hidden="true">{getCategoryIcon(split.categoryName)}</span>}
+            {split.categoryName}
+            <span className="opacity-75">{formatCurrency(Math.abs(split.amount))}</span>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
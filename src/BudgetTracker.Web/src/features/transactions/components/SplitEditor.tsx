@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { formatCurrency } from '../../../shared/utils/formatters';
+import type { Transaction, TransactionSplit } from '../types';
+import {
+  addSplitDraft,
+  createSplitDrafts,
+  getRemainingCents,
+  hasSplits,
+  toTransactionSplits,
+  validateSplitDrafts,
+  type SplitDraft
+} from '../utils/transactionSplits';
+
+interface SplitEditorProps {
+  transaction: Transaction;
+  availableCategories: string[];
+  onSave: (splits: TransactionSplit[]) => void;
+  onRemove: () => void;
+}
+
+export default function SplitEditor({ transaction, availableCategories, onSave, onRemove }: SplitEditorProps) {
+  const [drafts, setDrafts] = useState<SplitDraft[] | null>(null);
+  const [error, setError] = useState<string>();
+  const categoryListId = `split-categories-${transaction.id}`;
+
+  if (drafts === null) {
+    return (
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => setDrafts(createSplitDrafts(transaction))}
+          className="cursor-pointer text-indigo-600 hover:text-indigo-700 text-xs font-medium transition-colors"
+        >
+          {hasSplits(transaction) ? 'Edit Split' : 'Split Across Categories'}
+        </button>
+        {hasSplits(transaction) && (
+          <button
+            onClick={onRemove}
+            className="cursor-pointer text-gray-600 hover:text-red-600 text-xs font-medium transition-colors"
+          >
+            Remove Split
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  const remaining = getRemainingCents(transaction, drafts);
+
+  const updateDraft = (key: string, changes: Partial<SplitDraft>) => {
+    setDrafts(drafts.map(draft => (draft.key === key ? { ...draft, ...changes } : draft)));
+    setError(undefined);
+  };
+
+  const assignRemainder = (draft: SplitDraft) => {
+    const cents = Math.round((Number(draft.amount) || 0) * 100) + remaining;
+    if (cents > 0) updateDraft(draft.key, { amount: (cents / 100).toFixed(2) });
+  };
+
+  const handleSave = () => {
+    const validationError = validateSplitDrafts(transaction, drafts);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    onSave(toTransactionSplits(transaction, drafts));
+    setDrafts(null);
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border border-neutral-200 p-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-gray-700">
+          Split {formatCurrency(Math.abs(transaction.amount))} across categories
+        </p>
+        <p className={`text-xs font-medium ${remaining === 0 ? 'text-green-600' : 'text-amber-700'}`}>
+          {remaining === 0
+            ? 'Fully allocated'
+            : remaining > 0
+              ? `${formatCurrency(remaining / 100)} left to allocate`
+              : `${formatCurrency(-remaining / 100)} over the total`}
+        </p>
+      </div>
+
+      <datalist id={categoryListId}>
+        {availableCategories.map(category => <option key={category} value={category} />)}
+      </datalist>
+
+      <div className="space-y-2">
+        {drafts.map((draft, index) => (
+          <div key={draft.key} className="flex items-center gap-2">
+            <input
+              type="text"
+              list={categoryListId}
+              value={draft.categoryName}
+              onChange={(e) => updateDraft(draft.key, { categoryName: e.target.value })}
+              placeholder="Category"
+              aria-label={`Allocation ${index + 1} category`}
+              className="flex-1 border border-neutral-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={draft.amount}
+              onChange={(e) => updateDraft(draft.key, { amount: e.target.value })}
+              placeholder="0.00"
+              aria-label={`Allocation ${index + 1} amount`}
+              className="w-28 border border-neutral-300 rounded-md px-2 py-1 text-sm text-right focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <button
+              onClick={() => assignRemainder(draft)}
+              disabled={remaining === 0}
+              title="Add the unallocated amount to this row"
+              className="cursor-pointer px-2 py-1 text-xs text-gray-600 hover:text-indigo-600 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+            >
+              Fill
+            </button>
+            <button
+              onClick={() => setDrafts(drafts.filter(d => d.key !== draft.key))}
+              disabled={drafts.length <= 2}
+              aria-label={`Remove allocation ${index + 1}`}
+              className="cursor-pointer px-2 py-1 text-gray-400 hover:text-red-600 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setDrafts(addSplitDraft(drafts))}
+          className="cursor-pointer text-xs text-indigo-600 hover:text-indigo-700 font-medium transition-colors"
+        >
+          + Add allocation
+        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={() => {
+              setDrafts(null);
+              setError(undefined);
+            }}
+            className="cursor-pointer px-3 py-1 border border-neutral-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-neutral-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={remaining !== 0}
+            className="cursor-pointer px-3 py-1 rounded-md bg-indigo-600 text-white text-xs font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Save Split
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
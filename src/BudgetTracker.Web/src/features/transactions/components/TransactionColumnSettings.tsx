@@ -0,0 +1,92 @@
+import { useEffect, useRef, useState } from 'react';
+import { TRANSACTION_COLUMNS, type TransactionColumnKey, type TransactionTablePreferences } from '../utils/transactionTable';
+
+interface TransactionColumnSettingsProps {
+  columns: TransactionTablePreferences['columns'];
+  onToggle: (key: TransactionColumnKey) => void;
+  onMove: (key: TransactionColumnKey, offset: -1 | 1) => void;
+  onReset: () => void;
+}
+
+const moveButtonClassName = 'cursor-pointer px-1.5 py-0.5 text-xs text-gray-500 hover:text-gray-900 rounded hover:bg-neutral-100 disabled:opacity-30 disabled:cursor-not-allowed';
+
+export default function TransactionColumnSettings({ columns, onToggle, onMove, onReset }: TransactionColumnSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen]);
+
+  const visibleCount = columns.filter(column => column.visible).length;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="cursor-pointer px-3 py-1.5 border border-neutral-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-neutral-50 transition-colors"
+      >
+        Columns ({visibleCount})
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-2 w-64 bg-white border border-neutral-200 rounded-lg shadow-lg p-3 space-y-1">
+          {columns.map((column, index) => {
+            const label = TRANSACTION_COLUMNS.find(c => c.key === column.key)?.label ?? column.key;
+
+            return (
+              <div key={column.key} className="flex items-center justify-between gap-2 py-1">
+                <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={column.visible}
+                    onChange={() => onToggle(column.key)}
+                    disabled={column.visible && visibleCount === 1}
+                    className="w-4 h-4 text-indigo-600 border-neutral-300 rounded focus:ring-indigo-500"
+                  />
+                  {label}
+                </label>
+                <div className="flex items-center">
+                  <button
+                    onClick={() => onMove(column.key, -1)}
+                    disabled={index === 0}
+                    aria-label={`Move ${label} left`}
+                    className={moveButtonClassName}
+                  >
+                    ▲
+                  </button>
+                  <button
+                    onClick={() => onMove(column.key, 1)}
+                    disabled={index === columns.length - 1}
+                    aria-label={`Move ${label} right`}
+                    className={moveButtonClassName}
+                  >
+                    ▼
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+          <div className="pt-2 border-t border-neutral-100">
+            <button
+              onClick={onReset}
+              className="cursor-pointer text-xs text-gray-600 hover:text-gray-900 font-medium underline transition-colors"
+            >
+              Reset columns
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import type { Transaction, TransactionEditableField } from '../types';
+import {
+  EDITABLE_FIELDS,
+  formatFieldValue,
+  getFieldInputValue,
+  getOriginalInputValue,
+  validateTransactionField
+} from '../utils/transactionEdits';
+import InlineEditField from './InlineEditField';
+
+interface TransactionDetailsEditorProps {
+  transaction: Transaction;
+  onUpdate: (field: TransactionEditableField, value: string) => void;
+  onRevert: (field: TransactionEditableField) => void;
+}
+
+export default function TransactionDetailsEditor({ transaction, onUpdate, onRevert }: TransactionDetailsEditorProps) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+      {EDITABLE_FIELDS.map(({ field, label, inputType }) => {
+        const value = getFieldInputValue(transaction, field);
+        const original = getOriginalInputValue(transaction, field);
+
+        return (
+          <div key={field} className={field === 'description' ? 'sm:col-span-2' : undefined}>
+            <InlineEditField
+              label={label}
+              value={value}
+              displayValue={formatFieldValue(field, field === 'date' ? transaction.date : value)}
+              inputType={inputType}
+              originalDisplayValue={original === undefined ? undefined : formatFieldValue(field, original)}
+              validate={(draft) => validateTransactionField(field, draft)}
+              onSave={(draft) => onUpdate(field, draft)}
+              onRevert={() => onRevert(field)}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,8 +1,24 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useState, type InputHTMLAttributes, type ReactNode } from 'react';
 import { useSearchParams } from 'react-router-dom';
-import { getCategoryColor } from '../../../shared/utils/formatters';
+import { formatCurrency, getCategoryColor } from '../../../shared/utils/formatters';
 import { transactionsApi } from '../api';
 import type { TransactionFilters as FilterData } from '../types';
+import FilterChipPicker from './FilterChipPicker';
+import {
+  DATE_RANGE_PRESETS,
+  TRANSACTION_FILTER_PARAMS,
+  TRANSACTION_TYPE_OPTIONS,
+  findDateRangePreset,
+  formatDateParam,
+  getDateRangePreset,
+  getTransactionParams,
+  hasTransactionFilters,
+  type DateRangePreset
+} from '../utils/transactionFilters';
+
+const INPUT_DEBOUNCE_MS = 400;
+
+const inputClassName = 'bg-white border border-neutral-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent hover:border-neutral-400 transition-colors';
 
 const FilterIcon = () => (
   <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -17,36 +33,59 @@ const XIcon = () => (
   </svg>
 );
 
-const TrashIcon = () => (
-  <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-    <path d="M3 6h18" />
-    <path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6" />
-    <path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2" />
-    <line x1="10" y1="11" x2="10" y2="17" />
-    <line x1="14" y1="11" x2="14" y2="17" />
-  </svg>
-);
+interface DebouncedInputProps extends Omit<InputHTMLAttributes<HTMLInputElement>, 'value' | 'onChange'> {
+  value: string;
+  onCommit: (value: string) => void;
+}
+
+/**
+ * Text input that writes to the URL once typing pauses, and follows the URL when it changes elsewhere
+ */
+function DebouncedInput({ value, onCommit, ...inputProps }: DebouncedInputProps) {
+  const [draft, setDraft] = useState(value);
+  const [committedValue, setCommittedValue] = useState(value);
+
+  if (value !== committedValue) {
+    setCommittedValue(value);
+    setDraft(value);
+  }
+
+  useEffect(() => {
+    if (draft === value) return;
+    const timer = window.setTimeout(() => onCommit(draft), INPUT_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [draft, value, onCommit]);
+
+  return <input {...inputProps} value={draft} onChange={(e) => setDraft(e.target.value)} />;
+}
 
 interface TransactionFiltersProps {
   selectedCount?: number;
   totalCount?: number;
   allSelected?: boolean;
   onSelectAll?: () => void;
-  onDelete?: () => void;
+  /** Shown in place of the filters while rows are selected */
+  selectionActions?: ReactNode;
 }
 
 export default function TransactionFilters({
   selectedCount = 0,
   allSelected = false,
   onSelectAll,
-  onDelete
+  selectionActions
 }: TransactionFiltersProps) {
   const [searchParams, setSearchParams] = useSearchParams();
   const [filters, setFilters] = useState<FilterData>({ categories: [], accounts: [] });
   const [isLoading, setIsLoading] = useState(true);
 
-  const selectedCategory = searchParams.get('category') || '';
-  const selectedAccount = searchParams.get('account') || '';
+  const includedCategories = searchParams.getAll('category');
+  const excludedCategories = searchParams.getAll('excludeCategory');
+  const includedAccounts = searchParams.getAll('account');
+  const excludedAccounts = searchParams.getAll('excludeAccount');
+  const activeFilters = getTransactionParams(searchParams);
+  const dateFrom = activeFilters.dateFrom ?? '';
+  const dateTo = activeFilters.dateTo ?? '';
+  const activePreset = dateFrom && dateTo ? findDateRangePreset(dateFrom, dateTo) : undefined;
 
   useEffect(() => {
     const loadFilters = async () => {
@@ -63,37 +102,78 @@ export default function TransactionFilters({
     loadFilters();
   }, []);
 
-  const handleCategoryChange = (category: string) => {
-    const newParams = new URLSearchParams(searchParams);
-    if (category) {
-      newParams.set('category', category);
-    } else {
-      newParams.delete('category');
-    }
-    newParams.delete('page'); // Reset to first page when filtering
-    setSearchParams(newParams);
+  const updateFilters = (changes: Record<string, string>) => {
+    setSearchParams(prev => {
+      const newParams = new URLSearchParams(prev);
+      for (const [key, value] of Object.entries(changes)) {
+        if (value) {
+          newParams.set(key, value);
+        } else {
+          newParams.delete(key);
+        }
+      }
+      newParams.delete('page'); // Reset to first page when filtering
+      return newParams;
+    });
+  };
+
+  const updateListFilters = (changes: Record<string, string[]>) => {
+    setSearchParams(prev => {
+      const newParams = new URLSearchParams(prev);
+      for (const [key, values] of Object.entries(changes)) {
+        newParams.delete(key);
+        values.forEach(value => newParams.append(key, value));
+      }
+      newParams.delete('page'); // Reset to first page when filtering
+      return newParams;
+    });
   };
 
-  const handleAccountChange = (account: string) => {
-    const newParams = new URLSearchParams(searchParams);
-    if (account) {
-      newParams.set('account', account);
-    } else {
-      newParams.delete('account');
-    }
-    newParams.delete('page'); // Reset to first page when filtering
-    setSearchParams(newParams);
+  const handleCategoriesChange = (included: string[], excluded: string[]) =>
+    updateListFilters({ category: included, excludeCategory: excluded });
+
+  const handleAccountsChange = (included: string[], excluded: string[]) =>
+    updateListFilters({ account: included, excludeAccount: excluded });
+
+  const removeListValue = (key: string, value: string) =>
+    updateListFilters({ [key]: searchParams.getAll(key).filter(current => current !== value) });
+
+  const handleSearchCommit = (search: string) => updateFilters({ search });
+
+  const handleMinAmountCommit = (minAmount: string) => updateFilters({ minAmount });
+
+  const handleMaxAmountCommit = (maxAmount: string) => updateFilters({ maxAmount });
+
+  const handlePresetChange = (preset: string) => {
+    updateFilters(preset
+      ? getDateRangePreset(preset as DateRangePreset)
+      : { dateFrom: '', dateTo: '' });
   };
 
   const clearFilters = () => {
-    const newParams = new URLSearchParams(searchParams);
-    newParams.delete('category');
-    newParams.delete('account');
-    newParams.delete('page');
-    setSearchParams(newParams);
+    setSearchParams(prev => {
+      const newParams = new URLSearchParams(prev);
+      TRANSACTION_FILTER_PARAMS.forEach(key => newParams.delete(key));
+      newParams.delete('page');
+      return newParams;
+    });
   };
 
-  const hasActiveFilters = selectedCategory || selectedAccount;
+  const hasActiveFilters = hasTransactionFilters(searchParams);
+
+  const getDateRangeLabel = () => {
+    if (activePreset) return DATE_RANGE_PRESETS.find(p => p.value === activePreset)?.label;
+    if (dateFrom && dateTo) return `${formatDateParam(dateFrom)} – ${formatDateParam(dateTo)}`;
+    if (dateFrom) return `From ${formatDateParam(dateFrom)}`;
+    return `Until ${formatDateParam(dateTo)}`;
+  };
+
+  const getAmountRangeLabel = () => {
+    const { minAmount, maxAmount } = activeFilters;
+    if (minAmount !== undefined && maxAmount !== undefined) return `${formatCurrency(minAmount)} – ${formatCurrency(maxAmount)}`;
+    if (minAmount !== undefined) return `At least ${formatCurrency(minAmount)}`;
+    return `Up to ${formatCurrency(maxAmount ?? 0)}`;
+  };
 
   if (isLoading) {
     return (
@@ -128,16 +208,8 @@ export default function TransactionFilters({
           </div>
         )}
 
-        {/* Delete Button */}
-        {hasSelection && onDelete && (
-          <button
-            onClick={onDelete}
-            className="cursor-pointer flex items-center gap-2 px-3 py-1.5 bg-red-600 text-white text-sm font-medium rounded-md hover:bg-red-700 transition-colors focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
-          >
-            <TrashIcon />
-            Delete {selectedCount} {selectedCount === 1 ? 'transaction' : 'transactions'}
-          </button>
-        )}
+        {/* Bulk Actions */}
+        {hasSelection && selectionActions}
 
         {/* Filters Section - only show if no items selected */}
         {!hasSelection && (
@@ -148,71 +220,123 @@ export default function TransactionFilters({
             </div>
 
         {/* Category Filter */}
-        <div className="relative">
-          <select
-            value={selectedCategory}
-            onChange={(e) => handleCategoryChange(e.target.value)}
-            className="appearance-none bg-white border border-neutral-300 rounded-md px-4 py-2 pr-10 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent hover:border-neutral-400 transition-colors cursor-pointer"
-          >
-            <option value="">All Categories</option>
-            {filters.categories.map((category) => (
-              <option key={category} value={category}>
-                {category}
-              </option>
-            ))}
-          </select>
-          <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-3 text-gray-500">
-            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-            </svg>
-          </div>
-        </div>
+        <FilterChipPicker
+          label="Categories"
+          options={filters.categories}
+          included={includedCategories}
+          excluded={excludedCategories}
+          onChange={handleCategoriesChange}
+          getIncludedClassName={getCategoryColor}
+        />
 
         {/* Account Filter */}
-        <div className="relative">
-          <select
-            value={selectedAccount}
-            onChange={(e) => handleAccountChange(e.target.value)}
-            className="appearance-none bg-white border border-neutral-300 rounded-md px-4 py-2 pr-10 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent hover:border-neutral-400 transition-colors cursor-pointer"
-          >
-            <option value="">All Accounts</option>
-            {filters.accounts.map((account) => (
-              <option key={account} value={account}>
-                {account}
-              </option>
-            ))}
-          </select>
-          <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-3 text-gray-500">
-            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-            </svg>
-          </div>
-        </div>
+        <FilterChipPicker
+          label="Accounts"
+          options={filters.accounts}
+          included={includedAccounts}
+          excluded={excludedAccounts}
+          onChange={handleAccountsChange}
+          getIncludedClassName={() => 'bg-blue-100 text-blue-700'}
+        />
 
         {/* Active Filters & Clear Button */}
         {hasActiveFilters && (
           <>
             <div className="flex-1" />
-            <div className="flex items-center gap-2">
-              {selectedCategory && (
-                <span className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium ${getCategoryColor(selectedCategory)}`}>
-                  {selectedCategory}
+            <div className="flex flex-wrap items-center gap-2">
+              {includedCategories.map((category) => (
+                <span key={`category-${category}`} className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium ${getCategoryColor(category)}`}>
+                  {category}
+                  <button
+                    onClick={() => removeListValue('category', category)}
+                    className="cursor-pointer hover:bg-black/10 rounded p-0.5 transition-colors"
+                    aria-label={`Remove category filter ${category}`}
+                  >
+                    <XIcon />
+                  </button>
+                </span>
+              ))}
+              {excludedCategories.map((category) => (
+                <span key={`exclude-category-${category}`} className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium bg-red-50 text-red-700 border border-red-200">
+                  Not {category}
+                  <button
+                    onClick={() => removeListValue('excludeCategory', category)}
+                    className="cursor-pointer hover:bg-black/10 rounded p-0.5 transition-colors"
+                    aria-label={`Remove excluded category ${category}`}
+                  >
+                    <XIcon />
+                  </button>
+                </span>
+              ))}
+              {includedAccounts.map((account) => (
+                <span key={`account-${account}`} className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium bg-blue-100 text-blue-700">
+                  {account}
+                  <button
+                    onClick={() => removeListValue('account', account)}
+                    className="cursor-pointer hover:bg-black/10 rounded p-0.5 transition-colors"
+                    aria-label={`Remove account filter ${account}`}
+                  >
+                    <XIcon />
+                  </button>
+                </span>
+              ))}
+              {excludedAccounts.map((account) => (
+                <span key={`exclude-account-${account}`} className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium bg-red-50 text-red-700 border border-red-200">
+                  Not {account}
                   <button
-                    onClick={() => handleCategoryChange('')}
+                    onClick={() => removeListValue('excludeAccount', account)}
                     className="cursor-pointer hover:bg-black/10 rounded p-0.5 transition-colors"
-                    aria-label="Clear category filter"
+                    aria-label={`Remove excluded account ${account}`}
+                  >
+                    <XIcon />
+                  </button>
+                </span>
+              ))}
+              {activeFilters.search && (
+                <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium bg-gray-100 text-gray-700">
+                  "{activeFilters.search}"
+                  <button
+                    onClick={() => handleSearchCommit('')}
+                    className="cursor-pointer hover:bg-black/10 rounded p-0.5 transition-colors"
+                    aria-label="Clear search"
                   >
                     <XIcon />
                   </button>
                 </span>
               )}
-              {selectedAccount && (
-                <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium bg-blue-100 text-blue-700">
-                  {selectedAccount}
+              {(dateFrom || dateTo) && (
+                <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium bg-purple-100 text-purple-700">
+                  {getDateRangeLabel()}
                   <button
-                    onClick={() => handleAccountChange('')}
+                    onClick={() => handlePresetChange('')}
                     className="cursor-pointer hover:bg-black/10 rounded p-0.5 transition-colors"
-                    aria-label="Clear account filter"
+                    aria-label="Clear date range"
+                  >
+                    <XIcon />
+                  </button>
+                </span>
+              )}
+              {(activeFilters.minAmount !== undefined || activeFilters.maxAmount !== undefined) && (
+                <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium bg-amber-100 text-amber-700">
+                  {getAmountRangeLabel()}
+                  <button
+                    onClick={() => updateFilters({ minAmount: '', maxAmount: '' })}
+                    className="cursor-pointer hover:bg-black/10 rounded p-0.5 transition-colors"
+                    aria-label="Clear amount range"
+                  >
+                    <XIcon />
+                  </button>
+                </span>
+              )}
+              {activeFilters.type && (
+                <span className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium ${
+                  activeFilters.type === 'income' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                }`}>
+                  {activeFilters.type === 'income' ? 'Income only' : 'Expenses only'}
+                  <button
+                    onClick={() => updateFilters({ type: '' })}
+                    className="cursor-pointer hover:bg-black/10 rounded p-0.5 transition-colors"
+                    aria-label="Clear income or expense filter"
                   >
                     <XIcon />
                   </button>
@@ -230,6 +354,92 @@ export default function TransactionFilters({
           </>
         )}
       </div>
+
+      {!hasSelection && (
+        <div className="flex flex-wrap items-center gap-3 mt-3 pt-3 border-t border-neutral-100">
+          <DebouncedInput
+            type="search"
+            value={searchParams.get('search') ?? ''}
+            onCommit={handleSearchCommit}
+            placeholder="Search descriptions"
+            aria-label="Search descriptions"
+            className={`${inputClassName} w-56`}
+          />
+
+          <div className="inline-flex rounded-md border border-neutral-300 overflow-hidden">
+            {TRANSACTION_TYPE_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => updateFilters({ type: option.value })}
+                className={`cursor-pointer px-3 py-2 text-sm font-medium transition-colors ${
+                  (activeFilters.type ?? '') === option.value
+                    ? 'bg-indigo-600 text-white'
+                    : 'bg-white text-gray-700 hover:bg-neutral-50'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <select
+              value={activePreset ?? ''}
+              onChange={(e) => handlePresetChange(e.target.value)}
+              aria-label="Date range preset"
+              className={`${inputClassName} cursor-pointer`}
+            >
+              <option value="">{dateFrom || dateTo ? 'Custom range' : 'Any date'}</option>
+              {DATE_RANGE_PRESETS.map((preset) => (
+                <option key={preset.value} value={preset.value}>
+                  {preset.label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={dateFrom}
+              max={dateTo || undefined}
+              onChange={(e) => updateFilters({ dateFrom: e.target.value })}
+              aria-label="From date"
+              className={inputClassName}
+            />
+            <span className="text-sm text-gray-500">to</span>
+            <input
+              type="date"
+              value={dateTo}
+              min={dateFrom || undefined}
+              onChange={(e) => updateFilters({ dateTo: e.target.value })}
+              aria-label="To date"
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <DebouncedInput
+              type="number"
+              min={0}
+              step="0.01"
+              value={searchParams.get('minAmount') ?? ''}
+              onCommit={handleMinAmountCommit}
+              placeholder="Min amount"
+              aria-label="Minimum amount"
+              className={`${inputClassName} w-32`}
+            />
+            <span className="text-sm text-gray-500">to</span>
+            <DebouncedInput
+              type="number"
+              min={0}
+              step="0.01"
+              value={searchParams.get('maxAmount') ?? ''}
+              onCommit={handleMaxAmountCommit}
+              placeholder="Max amount"
+              aria-label="Maximum amount"
+              className={`${inputClassName} w-32`}
+            />
+          </div>
+        </div>
+      )}
     </div>
   );
 }
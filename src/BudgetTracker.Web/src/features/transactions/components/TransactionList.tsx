@@ -1,25 +1,85 @@
-import { useEffect, useState } from 'react';
-import { useLoaderData, useNavigation, useRevalidator } from 'react-router-dom';
+import { useEffect, useLayoutEffect, useState } from 'react';
+import { Link, useLoaderData, useNavigation, useRevalidator, useSearchParams } from 'react-router-dom';
 import EmptyState from '../../../shared/components/EmptyState';
 import Pagination from '../../../shared/components/Pagination';
 import { SkeletonCardRow } from '../../../shared/components/Skeleton';
 import { useToast } from '../../../shared/contexts/ToastContext';
+import { useUndo } from '../../../shared/contexts/UndoContext';
+import { getCategoryIcon, isCategoryArchived } from '../../../shared/utils/categoryAppearance';
 import { formatDate, getCategoryColor } from '../../../shared/utils/formatters';
+import { RuleEditor, suggestDescriptionPattern } from '../../rules';
 import { transactionsApi } from '../api';
-import type { TransactionListDto } from '../types';
+import { useBulkActions, type BulkTarget } from '../hooks/useBulkActions';
+import { useTransactionEdits } from '../hooks/useTransactionEdits';
+import { useTransactionFeed } from '../hooks/useTransactionFeed';
+import { useTransactionTablePreferences } from '../hooks/useTransactionTablePreferences';
+import { useWindowVirtualizer } from '../hooks/useWindowVirtualizer';
+import type { BulkSelection, TransactionListDto } from '../types';
+import { isTransactionEdited } from '../utils/transactionEdits';
+import { getFeedKey, getSavedFeed } from '../utils/transactionFeed';
+import { hasSplits } from '../utils/transactionSplits';
+import { TRANSACTION_FILTER_PARAMS, getFilterCriteria, hasTransactionFilters } from '../utils/transactionFilters';
+import { TRANSACTION_COLUMNS, type TransactionPagingMode, type TransactionViewMode } from '../utils/transactionTable';
+import BulkActionsToolbar from './BulkActionsToolbar';
 import CategoryManager from './CategoryManager';
+import SplitBreakdown from './SplitBreakdown';
+import SplitEditor from './SplitEditor';
+import TransactionColumnSettings from './TransactionColumnSettings';
+import TransactionDetailsEditor from './TransactionDetailsEditor';
 import TransactionFilters from './TransactionFilters';
+import TransactionTable from './TransactionTable';
 
 export default function TransactionList() {
   const data = useLoaderData() as TransactionListDto;
   const navigation = useNavigation();
   const revalidator = useRevalidator();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { showToast } = useToast();
+  const { record } = useUndo();
   const isLoading = navigation.state === 'loading';
-  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
-  const [isDeleting, setIsDeleting] = useState(false);
+  const { preferences, setViewMode, setPaging, toggleColumn, moveColumn, resetColumns } = useTransactionTablePreferences();
+  const isInfinite = preferences.paging === 'infinite';
+  // Coming back to the infinite-scroll list picks up the selection it was left with
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set(
+    isInfinite ? getSavedFeed(getFeedKey(searchParams))?.selectedIds : undefined
+  ));
   const [availableCategories, setAvailableCategories] = useState<string[]>([]);
+  const [availableAccounts, setAvailableAccounts] = useState<string[]>([]);
   const [expandedTransactionId, setExpandedTransactionId] = useState<string | null>(null);
+  const [ruleTransactionId, setRuleTransactionId] = useState<string | null>(null);
+  // "Select all matching" covers every page of the current filter, so it ends when the list reloads
+  const [isAllMatching, setIsAllMatching] = useState(false);
+  const [previousData, setPreviousData] = useState(data);
+  const feed = useTransactionFeed({ enabled: isInfinite, data, selectedIds });
+  const { transactions, previewEdits, discardEdits, updateField, revertField, saveSplits, removeSplits } = useTransactionEdits(isInfinite ? feed.items : data.items);
+  const bulkActions = useBulkActions({ previewEdits, discardEdits });
+  const visibleTransactions = transactions.filter(transaction => !bulkActions.hiddenIds.has(transaction.id));
+  const selectedTransactions = visibleTransactions.filter(transaction => selectedIds.has(transaction.id));
+  const isPageSelected = selectedTransactions.length === visibleTransactions.length && visibleTransactions.length > 0;
+  const totalCount = isInfinite ? feed.totalCount : data.totalCount;
+  const selectedCount = isAllMatching ? totalCount : selectedTransactions.length;
+  const virtualizer = useWindowVirtualizer<HTMLDivElement>({
+    keys: visibleTransactions.map(transaction => transaction.id),
+    estimateSize: preferences.viewMode === 'table' ? 41 : 96,
+    sizes: feed.rowHeights
+  });
+  const renderedTransactions = isInfinite
+    ? visibleTransactions.slice(virtualizer.startIndex, virtualizer.endIndex)
+    : visibleTransactions;
+  const { loadMore, hasMore, trackVisibleRows } = feed;
+  const isNearEnd = virtualizer.endIndex >= visibleTransactions.length - 20;
+  const firstRenderedId = renderedTransactions[0]?.id;
+  const lastRenderedId = renderedTransactions[renderedTransactions.length - 1]?.id;
+
+  if (data !== previousData) {
+    setPreviousData(data);
+    setIsAllMatching(false);
+  }
+
+  const visibleColumns = preferences.columns
+    .filter(column => column.visible)
+    .map(column => TRANSACTION_COLUMNS.find(c => c.key === column.key))
+    .filter(column => column !== undefined);
 
   const formatAmount = (amount: number) => {
     const isPositive = amount >= 0;
@@ -33,14 +93,16 @@ export default function TransactionList() {
   };
 
   const handleSelectAll = () => {
-    if (selectedIds.size === data.items.length) {
+    setIsAllMatching(false);
+    if (selectedTransactions.length === visibleTransactions.length) {
       setSelectedIds(new Set());
     } else {
-      setSelectedIds(new Set(data.items.map(t => t.id)));
+      setSelectedIds(new Set(visibleTransactions.map(t => t.id)));
     }
   };
 
   const handleSelectTransaction = (id: string) => {
+    setIsAllMatching(false);
     const newSelected = new Set(selectedIds);
     if (newSelected.has(id)) {
       newSelected.delete(id);
@@ -50,31 +112,70 @@ export default function TransactionList() {
     setSelectedIds(newSelected);
   };
 
-  const handleDelete = async () => {
-    if (selectedIds.size === 0) return;
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setIsAllMatching(false);
+  };
 
-    setIsDeleting(true);
-    try {
-      const result = await transactionsApi.deleteTransactions({
-        transactionIds: Array.from(selectedIds)
-      });
+  const getBulkTarget = async (): Promise<BulkTarget | undefined> => {
+    if (!isAllMatching) {
+      return {
+        transactions: selectedTransactions,
+        selection: { transactionIds: selectedTransactions.map(t => t.id) },
+        count: selectedTransactions.length
+      };
+    }
 
-      showToast('success', `Successfully deleted ${result.deletedCount} transaction${result.deletedCount === 1 ? '' : 's'}`);
-      setSelectedIds(new Set());
-      revalidator.revalidate();
+    // The filter is resolved on the server, so ask it how many rows that is right now
+    const selection: BulkSelection = { filter: getFilterCriteria(searchParams) };
+    try {
+      const count = await transactionsApi.countBulkSelection(selection);
+      return { transactions: visibleTransactions, selection, count };
     } catch (error) {
-      console.error('Failed to delete transactions:', error);
-      showToast('error', 'Failed to delete transactions. Please try again.');
-    } finally {
-      setIsDeleting(false);
+      console.error('Failed to count matching transactions:', error);
+      showToast('error', 'Failed to count the matching transactions. Please try again.');
+      return undefined;
     }
   };
 
+  /**
+   * Runs a bulk action on the selection and clears it, unless the action returns false
+   */
+  const runBulkAction = async (action: (target: BulkTarget) => boolean | void | Promise<void>) => {
+    if (selectedTransactions.length === 0) return;
+
+    const target = await getBulkTarget();
+    if (target && action(target) !== false) {
+      clearSelection();
+    }
+  };
+
+  const handleBulkDelete = () => runBulkAction((target) => {
+    if (target.selection.filter && !window.confirm(
+      `Delete all ${target.count} transaction${target.count === 1 ? '' : 's'} matching the current filters?`
+    )) {
+      return false;
+    }
+
+    bulkActions.deleteTransactions(target);
+  });
+
+  useLayoutEffect(() => {
+    trackVisibleRows(firstRenderedId, lastRenderedId);
+  }, [trackVisibleRows, firstRenderedId, lastRenderedId]);
+
+  useEffect(() => {
+    if (isInfinite && isNearEnd && hasMore) {
+      loadMore();
+    }
+  }, [isInfinite, isNearEnd, hasMore, loadMore]);
+
   useEffect(() => {
     const fetchCategories = async () => {
       try {
         const filters = await transactionsApi.getFilters();
-        setAvailableCategories(filters.categories);
+        setAvailableCategories(filters.categories.filter(category => !isCategoryArchived(category)));
+        setAvailableAccounts(filters.accounts);
       } catch (error) {
         console.error('Failed to fetch categories:', error);
       }
@@ -85,8 +186,18 @@ export default function TransactionList() {
   const handleAddCategory = async (transactionId: string, categoryName: string) => {
     try {
       await transactionsApi.addCategory(transactionId, categoryName);
-      showToast('success', `Added category "${categoryName}"`);
       revalidator.revalidate();
+      record({
+        label: `Added category "${categoryName}"`,
+        undo: async () => {
+          await transactionsApi.removeCategory(transactionId, categoryName);
+          revalidator.revalidate();
+        },
+        redo: async () => {
+          await transactionsApi.addCategory(transactionId, categoryName);
+          revalidator.revalidate();
+        }
+      });
     } catch (error) {
       console.error('Failed to add category:', error);
       showToast('error', 'Failed to add category. Please try again.');
@@ -96,8 +207,18 @@ export default function TransactionList() {
   const handleRemoveCategory = async (transactionId: string, categoryName: string) => {
     try {
       await transactionsApi.removeCategory(transactionId, categoryName);
-      showToast('success', `Removed category "${categoryName}"`);
       revalidator.revalidate();
+      record({
+        label: `Removed category "${categoryName}"`,
+        undo: async () => {
+          await transactionsApi.addCategory(transactionId, categoryName);
+          revalidator.revalidate();
+        },
+        redo: async () => {
+          await transactionsApi.removeCategory(transactionId, categoryName);
+          revalidator.revalidate();
+        }
+      });
     } catch (error) {
       console.error('Failed to remove category:', error);
       showToast('error', 'Failed to remove category. Please try again.');
@@ -114,6 +235,27 @@ export default function TransactionList() {
     );
   }
 
+  if ((!data.items || data.items.length === 0) && hasTransactionFilters(searchParams)) {
+    return (
+      <div className="space-y-4">
+        <TransactionFilters />
+        <EmptyState
+          title="No matching transactions"
+          description="No transactions match the current filters. Try widening the date or amount range."
+          action={{
+            label: 'Clear Filters',
+            onClick: () => {
+              const newParams = new URLSearchParams(searchParams);
+              TRANSACTION_FILTER_PARAMS.forEach(key => newParams.delete(key));
+              newParams.delete('page');
+              setSearchParams(newParams);
+            }
+          }}
+        />
+      </div>
+    );
+  }
+
   if (!data.items || data.items.length === 0) {
     return (
       <EmptyState
@@ -132,102 +274,292 @@ export default function TransactionList() {
   return (
     <div className="space-y-4">
       <TransactionFilters
-        selectedCount={selectedIds.size}
-        totalCount={data.items.length}
-        allSelected={selectedIds.size === data.items.length && data.items.length > 0}
+        selectedCount={selectedCount}
+        totalCount={visibleTransactions.length}
+        allSelected={isPageSelected}
         onSelectAll={handleSelectAll}
-        onDelete={isDeleting ? undefined : handleDelete}
+        selectionActions={
+          <BulkActionsToolbar
+            selected={selectedTransactions}
+            count={selectedCount}
+            isAllMatching={isAllMatching}
+            availableCategories={availableCategories}
+            accounts={availableAccounts}
+            onAddCategories={(categories) => runBulkAction(target => bulkActions.addCategories(target, categories))}
+            onRemoveCategories={(categories) => runBulkAction(target => bulkActions.removeCategories(target, categories))}
+            onReplaceCategories={(categories) => runBulkAction(target => bulkActions.replaceCategories(target, categories))}
+            onChangeAccount={(account) => runBulkAction(target => bulkActions.changeAccount(target, account))}
+            onAddLabels={(labels) => runBulkAction(target => bulkActions.addLabels(target, labels))}
+            onSetReviewed={(isReviewed) => runBulkAction(target => bulkActions.setReviewed(target, isReviewed))}
+            onExport={() => runBulkAction((target) => {
+              bulkActions.exportTransactions(target);
+              return false;
+            })}
+            onDelete={handleBulkDelete}
+          />
+        }
       />
-      <div className="space-y-2">
-        {data.items.map((transaction) => {
-          const isSelected = selectedIds.has(transaction.id);
-          const isExpanded = expandedTransactionId === transaction.id;
-          const categories = (transaction?.categories ?? [])?.length > 1 ? transaction.categories?.filter((i) => i !== "Uncategorized") : transaction.categories;
-
-          const deletableCategories = transaction.categories?.filter((i) => i !== "Uncategorized");
-
-          return (
-            <div
-              key={transaction.id}
-              className={`bg-white rounded-lg border p-4 transition-all duration-200 ${
-                isSelected
-                  ? 'border-indigo-300 ring-2 ring-indigo-100'
-                  : 'border-neutral-100 hover:shadow-sm'
+      {isPageSelected && totalCount > visibleTransactions.length && (
+        <div className="flex flex-wrap items-center justify-center gap-2 px-4 py-2 bg-indigo-50 border border-indigo-100 rounded-lg text-sm text-indigo-900">
+          {isAllMatching ? (
+            <>
+              <span>All {totalCount} {hasTransactionFilters(searchParams) ? 'matching ' : ''}transactions are selected.</span>
+              <button
+                onClick={clearSelection}
+                className="cursor-pointer font-medium text-indigo-600 hover:text-indigo-700 underline transition-colors"
+              >
+                Clear selection
+              </button>
+            </>
+          ) : (
+            <>
+              <span>
+                All {visibleTransactions.length} {isInfinite ? 'loaded transactions' : 'transactions on this page'} are selected.
+              </span>
+              <button
+                onClick={() => setIsAllMatching(true)}
+                className="cursor-pointer font-medium text-indigo-600 hover:text-indigo-700 underline transition-colors"
+              >
+                {hasTransactionFilters(searchParams)
+                  ? `Select all ${totalCount} transactions matching this filter`
+                  : `Select all ${totalCount} transactions`}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+      <div className="flex items-center justify-end gap-2">
+        <Link to="/trash" className="mr-auto text-sm font-medium text-gray-500 hover:text-gray-700 transition-colors">
+          Trash
+        </Link>
+        {preferences.viewMode === 'table' && (
+          <TransactionColumnSettings
+            columns={preferences.columns}
+            onToggle={toggleColumn}
+            onMove={moveColumn}
+            onReset={resetColumns}
+          />
+        )}
+        <div className="inline-flex rounded-md border border-neutral-300 overflow-hidden">
+          {(['pages', 'infinite'] as TransactionPagingMode[]).map((paging) => (
+            <button
+              key={paging}
+              onClick={() => setPaging(paging)}
+              aria-pressed={preferences.paging === paging}
+              className={`cursor-pointer px-3 py-1.5 text-sm font-medium transition-colors ${
+                preferences.paging === paging ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-neutral-50'
               }`}
             >
-              <div className="flex items-start gap-3">
-                {/* Checkbox */}
-                <div className="flex items-center pt-0.5">
-                  <input
-                    type="checkbox"
-                    checked={isSelected}
-                    onChange={() => handleSelectTransaction(transaction.id)}
-                    className="w-4 h-4 text-indigo-600 border-neutral-300 rounded focus:ring-indigo-500 focus:ring-2 cursor-pointer"
-                    aria-label={`Select transaction: ${transaction.description}`}
-                  />
-                </div>
+              {paging === 'pages' ? 'Pages' : 'Scroll'}
+            </button>
+          ))}
+        </div>
+        <div className="inline-flex rounded-md border border-neutral-300 overflow-hidden">
+          {(['cards', 'table'] as TransactionViewMode[]).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => setViewMode(mode)}
+              aria-pressed={preferences.viewMode === mode}
+              className={`cursor-pointer px-3 py-1.5 text-sm font-medium transition-colors ${
+                preferences.viewMode === mode ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-neutral-50'
+              }`}
+            >
+              {mode === 'cards' ? 'Cards' : 'Table'}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div ref={virtualizer.containerRef}>
+        {isInfinite && feed.isLoading ? (
+          <div className="space-y-4">
+            {Array.from({ length: 8 }).map((_, index) => (
+              <SkeletonCardRow key={index} />
+            ))}
+          </div>
+        ) : preferences.viewMode === 'table' ? (
+          <TransactionTable
+            transactions={renderedTransactions}
+            columns={visibleColumns}
+            selectedIds={selectedIds}
+            onSelect={handleSelectTransaction}
+            spacing={isInfinite ? { top: virtualizer.paddingTop, bottom: virtualizer.paddingBottom } : undefined}
+            measureRow={isInfinite ? virtualizer.measureElement : undefined}
+          />
+        ) : (
+          <div style={isInfinite ? { paddingTop: virtualizer.paddingTop, paddingBottom: virtualizer.paddingBottom } : undefined}>
+            {renderedTransactions.map((transaction) => {
+              const isSelected = selectedIds.has(transaction.id);
+              const isExpanded = expandedTransactionId === transaction.id;
+              const categories = (transaction?.categories ?? [])?.length > 1 ? transaction.categories?.filter((i) => i !== "Uncategorized") : transaction.categories;
 
-                {/* Transaction Content */}
-                <div className="flex-1 min-w-0 space-y-2">
-                  <div className="flex justify-between items-start gap-4">
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-start gap-2">
-                        <p className="text-sm font-medium text-gray-900 truncate">
-                          {transaction.description}
-                        </p>
-                        {transaction.account && (
-                          <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-700">
-                            {transaction.account}
-                          </span>
-                        )}
+              const deletableCategories = transaction.categories?.filter((i) => i !== "Uncategorized");
+
+              return (
+                <div
+                  key={transaction.id}
+                  ref={isInfinite ? virtualizer.measureElement : undefined}
+                  data-row-key={transaction.id}
+                  className="pb-2"
+                >
+                  <div
+                    className={`bg-white rounded-lg border p-4 transition-all duration-200 ${
+                      isSelected
+                        ? 'border-indigo-300 ring-2 ring-indigo-100'
+                        : 'border-neutral-100 hover:shadow-sm'
+                    }`}
+                  >
+                    <div className="flex items-start gap-3">
+                      {/* Checkbox */}
+                      <div className="flex items-center pt-0.5">
+                        <input
+                          type="checkbox"
+                          checked={isSelected}
+                          onChange={() => handleSelectTransaction(transaction.id)}
+                          className="w-4 h-4 text-indigo-600 border-neutral-300 rounded focus:ring-indigo-500 focus:ring-2 cursor-pointer"
+                          aria-label={`Select transaction: ${transaction.description}`}
+                        />
                       </div>
-                      <p className="text-xs text-gray-500 mt-1">
-                        {formatDate(transaction.date)}
-                      </p>
-                    </div>
-                    <div className="flex items-center gap-3">
-                      <div className="text-sm">
-                        {formatAmount(transaction.amount)}
+
+                      {/* Transaction Content */}
+                      <div className="flex-1 min-w-0 space-y-2">
+                        <div className="flex justify-between items-start gap-4">
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-start gap-2">
+                              <p className="text-sm font-medium text-gray-900 truncate">
+                                {transaction.description}
+                              </p>
+                              {transaction.account && (
+                                <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-700">
+                                  {transaction.account}
+                                </span>
+                              )}
+                              {transaction.isManual && (
+                                <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-neutral-100 text-gray-700">
+                                  Manual
+                                </span>
+                              )}
+                              {isTransactionEdited(transaction) && (
+                                <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-700">
+                                  Edited
+                                </span>
+                              )}
+                              {transaction.isReviewed && (
+                                <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-700">
+                                  Reviewed
+                                </span>
+                              )}
+                            </div>
+                            <p className="text-xs text-gray-500 mt-1">
+                              {formatDate(transaction.date)}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-3">
+                            <div className="text-sm">
+                              {formatAmount(transaction.amount)}
+                            </div>
+                            <button
+                              onClick={() => setExpandedTransactionId(isExpanded ? null : transaction.id)}
+                              className="cursor-pointer text-indigo-600 hover:text-indigo-700 text-xs font-medium transition-colors"
+                            >
+                              {isExpanded ? 'Done' : 'Edit'}
+                            </button>
+                          </div>
+                        </div>
+
+                        {/* Categories Section */}
+                        {isExpanded ? (
+                          <div className="pt-2 border-t border-gray-100 space-y-4">
+                            <TransactionDetailsEditor
+                              transaction={transaction}
+                              onUpdate={(field, value) => updateField(transaction, field, value)}
+                              onRevert={(field) => revertField(transaction, field)}
+                            />
+                            <CategoryManager
+                              transactionId={transaction.id}
+                              existingCategories={deletableCategories}
+                              availableCategories={availableCategories}
+                              onAddCategory={(category) => handleAddCategory(transaction.id, category)}
+                              onRemoveCategory={(category) => handleRemoveCategory(transaction.id, category)}
+                              compact
+                            />
+                            {ruleTransactionId === transaction.id ? (
+                              <RuleEditor
+                                initialValues={{
+                                  name: suggestDescriptionPattern(transaction.description),
+                                  descriptionPattern: suggestDescriptionPattern(transaction.description),
+                                  matchType: 'Contains',
+                                  account: transaction.account,
+                                  categories: deletableCategories ?? []
+                                }}
+                                previewOnOpen
+                                availableCategories={availableCategories}
+                                accounts={[transaction.account]}
+                                onSaved={(_, appliedToHistory) => {
+                                  setRuleTransactionId(null);
+                                  if (appliedToHistory) revalidator.revalidate();
+                                }}
+                                onCancel={() => setRuleTransactionId(null)}
+                              />
+                            ) : (
+                              <button
+                                onClick={() => setRuleTransactionId(transaction.id)}
+                                className="cursor-pointer text-indigo-600 hover:text-indigo-700 text-xs font-medium transition-colors"
+                              >
+                                Create rule from this transaction
+                              </button>
+                            )}
+                            {hasSplits(transaction) && <SplitBreakdown transaction={transaction} />}
+                            <SplitEditor
+                              transaction={transaction}
+                              availableCategories={availableCategories}
+                              onSave={(splits) => saveSplits(transaction, splits)}
+                              onRemove={() => removeSplits(transaction)}
+                            />
+                          </div>
+                        ) : hasSplits(transaction) ? (
+                          <SplitBreakdown transaction={transaction} />
+                        ) : (
+                          <div className="flex flex-wrap gap-1">
+                            {(categories ?? []).map((cat, idx) => (
+                                <span key={idx} className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${getCategoryColor(cat)}`}>
+                                  {getCategoryIcon(cat) && <span className="mr-1" aria-hidden="true">{getCategoryIcon(cat)}</span>}
+                                  {cat}
+                                </span>
+                              ))}
+                          </div>
+                        )}
                       </div>
-                      <button
-                        onClick={() => setExpandedTransactionId(isExpanded ? null : transaction.id)}
-                        className="cursor-pointer text-indigo-600 hover:text-indigo-700 text-xs font-medium transition-colors"
-                      >
-                        {isExpanded ? 'Hide' : 'Edit'} Categories
-                      </button>
                     </div>
                   </div>
-
-                  {/* Categories Section */}
-                  {isExpanded ? (
-                    <div className="pt-2 border-t border-gray-100">
-                      <CategoryManager
-                        transactionId={transaction.id}
-                        existingCategories={deletableCategories}
-                        availableCategories={availableCategories}
-                        onAddCategory={(category) => handleAddCategory(transaction.id, category)}
-                        onRemoveCategory={(category) => handleRemoveCategory(transaction.id, category)}
-                        compact
-                      />
-                    </div>
-                  ) : (
-                    <div className="flex flex-wrap gap-1">
-                      {(categories ?? []).map((cat, idx) => (
-                          <span key={idx} className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${getCategoryColor(cat)}`}>
-                            {cat}
-                          </span>
-                        ))}
-                    </div>
-                  )}
                 </div>
-              </div>
-            </div>
-          );
-        })}
+              );
+            })}
+          </div>
+        )}
       </div>
 
+      {isInfinite && !feed.isLoading && (
+        <p className="text-center text-sm text-gray-500">
+          {feed.hasLoadError ? (
+            <>
+              {visibleTransactions.length > 0 ? "Couldn't load more transactions." : "Couldn't load transactions."}{' '}
+              <button
+                onClick={feed.retry}
+                className="cursor-pointer font-medium text-indigo-600 hover:text-indigo-700 transition-colors"
+              >
+                Try again
+              </button>
+            </>
+          ) : feed.isLoadingMore
+            ? 'Loading more transactions…'
+            : hasMore
+              ? `Showing ${visibleTransactions.length} of ${totalCount} transactions`
+              : `All ${totalCount} transactions loaded`}
+        </p>
+      )}
+
       {/* Pagination */}
-      {data.totalPages > 1 && (
+      {!isInfinite && data.totalPages > 1 && (
         <Pagination
           currentPage={data.page}
           totalPages={data.totalPages}
@@ -0,0 +1,170 @@
+import { useSearchParams } from 'react-router-dom';
+import { formatAmount, formatCurrency, formatDate, formatDateTime, getCategoryColor } from '../../../shared/utils/formatters';
+import { getCategoryIcon } from '../../../shared/utils/categoryAppearance';
+import type { SortDirection, Transaction, TransactionSortKey } from '../types';
+import { hasSplits } from '../utils/transactionSplits';
+import { parseSortDirection, parseSortKey, type TransactionColumn } from '../utils/transactionTable';
+import SplitBreakdown from './SplitBreakdown';
+
+interface TransactionTableProps {
+  transactions: Transaction[];
+  columns: TransactionColumn[];
+  selectedIds: Set<string>;
+  onSelect: (id: string) => void;
+  /** Space taken by rows left out above and below when the list is virtualized */
+  spacing?: { top: number; bottom: number };
+  /** Ref callback that measures rendered rows for the virtualized list */
+  measureRow?: (element: HTMLElement | null) => void;
+}
+
+// Text columns read naturally A-Z; dates and amounts are most useful largest or newest first
+const ASCENDING_BY_DEFAULT = new Set<TransactionSortKey>(['description', 'account', 'category', 'sourceFile']);
+
+function renderCell(transaction: Transaction, column: TransactionColumn) {
+  switch (column.key) {
+    case 'date':
+      return <span className="whitespace-nowrap">{formatDate(transaction.date)}</span>;
+    case 'description':
+      return (
+        <span className="flex items-center gap-2 max-w-md">
+          <span className="truncate text-gray-900" title={transaction.description}>{transaction.description}</span>
+          {transaction.isManual && (
+            <span className="shrink-0 px-1.5 py-0.5 rounded text-xs font-medium bg-neutral-100 text-gray-700">Manual</span>
+          )}
+          {transaction.isReviewed && (
+            <span className="shrink-0 px-1.5 py-0.5 rounded text-xs font-medium bg-green-100 text-green-700">Reviewed</span>
+          )}
+        </span>
+      );
+    case 'amount':
+      return (
+        <span className={`whitespace-nowrap font-medium ${transaction.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+          {formatAmount(transaction.amount)}
+        </span>
+      );
+    case 'balance':
+      return transaction.balance !== undefined && transaction.balance !== null
+        ? <span className="whitespace-nowrap text-gray-700">{formatCurrency(transaction.balance)}</span>
+        : <span className="text-gray-400">—</span>;
+    case 'account':
+      return (
+        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-700">
+          {transaction.account}
+        </span>
+      );
+    case 'categories': {
+      if (hasSplits(transaction)) {
+        return <SplitBreakdown transaction={transaction} compact />;
+      }
+      const categories = (transaction.categories ?? []).length > 1
+        ? transaction.categories?.filter(category => category !== 'Uncategorized')
+        : transaction.categories;
+      return (
+        <div className="flex flex-wrap gap-1">
+          {(categories ?? []).map((category) => (
+            <span key={category} className={`inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium ${getCategoryColor(category)}`}>
+              {getCategoryIcon(category) && <span className="mr-1" aria-hidden="true">{getCategoryIcon(category)}</span>}
+              {category}
+            </span>
+          ))}
+        </div>
+      );
+    }
+    case 'importedAt':
+      return <span className="whitespace-nowrap text-gray-500">{formatDateTime(transaction.importedAt)}</span>;
+    case 'sourceFile':
+      if (transaction.isManual) {
+        return <span className="italic text-gray-500">Manual entry</span>;
+      }
+      return transaction.sourceFile
+        ? <span className="block max-w-[12rem] truncate text-gray-500" title={transaction.sourceFile}>{transaction.sourceFile}</span>
+        : <span className="text-gray-400">—</span>;
+  }
+}
+
+export default function TransactionTable({ transactions, columns, selectedIds, onSelect, spacing, measureRow }: TransactionTableProps) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const sortBy = parseSortKey(searchParams.get('sortBy')) ?? 'date';
+  const sortDirection = parseSortDirection(searchParams.get('sortDirection'))
+    ?? (ASCENDING_BY_DEFAULT.has(sortBy) ? 'asc' : 'desc');
+
+  const handleSort = (key: TransactionSortKey) => {
+    const direction: SortDirection = key === sortBy
+      ? (sortDirection === 'asc' ? 'desc' : 'asc')
+      : (ASCENDING_BY_DEFAULT.has(key) ? 'asc' : 'desc');
+
+    setSearchParams(prev => {
+      const newParams = new URLSearchParams(prev);
+      newParams.set('sortBy', key);
+      newParams.set('sortDirection', direction);
+      newParams.delete('page');
+      return newParams;
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-neutral-200 overflow-x-auto">
+      <table className="min-w-full divide-y divide-neutral-200 text-sm">
+        <thead className="bg-neutral-50">
+          <tr>
+            <th className="w-10 px-3 py-2" aria-label="Selection" />
+            {columns.map((column) => (
+              <th
+                key={column.key}
+                aria-sort={sortBy === column.sortKey ? (sortDirection === 'asc' ? 'ascending' : 'descending') : undefined}
+                className={`px-3 py-2 ${column.align === 'right' ? 'text-right' : 'text-left'}`}
+              >
+                <button
+                  onClick={() => handleSort(column.sortKey)}
+                  className="cursor-pointer inline-flex items-center gap-1 text-xs font-semibold text-gray-700 hover:text-gray-900"
+                >
+                  {column.label}
+                  {sortBy === column.sortKey && <span>{sortDirection === 'asc' ? '▲' : '▼'}</span>}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-neutral-100">
+          {spacing && spacing.top > 0 && (
+            <tr aria-hidden="true">
+              <td colSpan={columns.length + 1} style={{ height: spacing.top, padding: 0 }} />
+            </tr>
+          )}
+          {transactions.map((transaction) => {
+            const isSelected = selectedIds.has(transaction.id);
+
+            return (
+              <tr
+                key={transaction.id}
+                ref={measureRow}
+                data-row-key={transaction.id}
+                className={isSelected ? 'bg-indigo-50' : 'hover:bg-neutral-50'}
+              >
+                <td className="px-3 py-2">
+                  <input
+                    type="checkbox"
+                    checked={isSelected}
+                    onChange={() => onSelect(transaction.id)}
+                    className="w-4 h-4 text-indigo-600 border-neutral-300 rounded focus:ring-indigo-500 focus:ring-2 cursor-pointer"
+                    aria-label={`Select transaction: ${transaction.description}`}
+                  />
+                </td>
+                {columns.map((column) => (
+                  <td key={column.key} className={`px-3 py-2 ${column.align === 'right' ? 'text-right' : ''}`}>
+                    {renderCell(transaction, column)}
+                  </td>
+                ))}
+              </tr>
+            );
+          })}
+          {spacing && spacing.bottom > 0 && (
+            <tr aria-hidden="true">
+              <td colSpan={columns.length + 1} style={{ height: spacing.bottom, padding: 0 }} />
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
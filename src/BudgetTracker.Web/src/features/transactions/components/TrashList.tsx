@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { useLoaderData, useRevalidator } from 'react-router-dom';
+import EmptyState from '../../../shared/components/EmptyState';
+import Pagination from '../../../shared/components/Pagination';
+import { useToast } from '../../../shared/contexts/ToastContext';
+import { formatCurrency, formatDate, formatDateTime, getCategoryColor } from '../../../shared/utils/formatters';
+import { getCategoryIcon } from '../../../shared/utils/categoryAppearance';
+import { transactionsApi } from '../api';
+import type { TransactionListDto } from '../types';
+
+export default function TrashList() {
+  const data = useLoaderData() as TransactionListDto;
+  const revalidator = useRevalidator();
+  const { showSuccess, showError } = useToast();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isWorking, setIsWorking] = useState(false);
+
+  const selected = data.items.filter(transaction => selectedIds.has(transaction.id));
+  const allSelected = selected.length === data.items.length && data.items.length > 0;
+
+  const toggle = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelectedIds(next);
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    try {
+      await action();
+      setSelectedIds(new Set());
+      revalidator.revalidate();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestore = () => runAction(async () => {
+    try {
+      const result = await transactionsApi.restoreFromTrash(selected.map(t => t.id));
+      showSuccess('Restored', `${result.restoredCount} transaction${result.restoredCount === 1 ? '' : 's'} moved back to your list`);
+    } catch (error) {
+      console.error('Failed to restore transactions:', error);
+      showError('Restore Failed', 'Please try again.');
+    }
+  });
+
+  const handlePurge = () => {
+    if (!window.confirm(`Permanently delete ${selected.length} transaction${selected.length === 1 ? '' : 's'}? This cannot be undone.`)) return;
+
+    runAction(async () => {
+      try {
+        const result = await transactionsApi.purgeFromTrash(selected.map(t => t.id));
+        showSuccess('Deleted Forever', `${result.purgedCount} transaction${result.purgedCount === 1 ? '' : 's'} removed`);
+      } catch (error) {
+        console.error('Failed to purge transactions:', error);
+        showError('Delete Failed', 'Please try again.');
+      }
+    });
+  };
+
+  const handleEmptyTrash = () => {
+    if (!window.confirm(`Permanently delete all ${data.totalCount} transactions in the trash? This cannot be undone.`)) return;
+
+    runAction(async () => {
+      try {
+        const result = await transactionsApi.emptyTrash();
+        showSuccess('Trash Emptied', `${result.purgedCount} transaction${result.purgedCount === 1 ? '' : 's'} removed`);
+      } catch (error) {
+        console.error('Failed to empty trash:', error);
+        showError('Empty Trash Failed', 'Please try again.');
+      }
+    });
+  };
+
+  if (data.items.length === 0) {
+    return (
+      <EmptyState
+        title="The trash is empty"
+        description="Deleted transactions land here, where you can restore them or delete them for good."
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-lg border border-neutral-200 p-4 shadow-sm flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 pr-3 border-r border-neutral-200 text-sm font-medium text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            onChange={() => setSelectedIds(allSelected ? new Set() : new Set(data.items.map(t => t.id)))}
+            className="w-4 h-4 text-indigo-600 border-neutral-300 rounded focus:ring-indigo-500 focus:ring-2 cursor-pointer"
+            aria-label="Select all transactions in the trash"
+          />
+          {selected.length > 0 ? `${selected.length} selected` : 'Select all'}
+        </label>
+
+        {selected.length > 0 ? (
+          <>
+            <button
+              onClick={handleRestore}
+              disabled={isWorking}
+              className="cursor-pointer px-3 py-1.5 bg-indigo-600 text-white text-sm font-medium rounded-md hover:bg-indigo-700 transition-colors disabled:opacity-50"
+            >
+              Restore
+            </button>
+            <button
+              onClick={handlePurge}
+              disabled={isWorking}
+              className="cursor-pointer px-3 py-1.5 bg-red-600 text-white text-sm font-medium rounded-md hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              Delete forever
+            </button>
+          </>
+        ) : (
+          <span className="text-sm text-gray-500">
+            {data.totalCount} transaction{data.totalCount === 1 ? '' : 's'} in the trash, left out of your lists and insights
+          </span>
+        )}
+
+        <div className="flex-1" />
+        <button
+          onClick={handleEmptyTrash}
+          disabled={isWorking}
+          className="cursor-pointer text-sm text-red-600 hover:text-red-700 font-medium transition-colors disabled:opacity-50"
+        >
+          Empty trash
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg border border-neutral-100 divide-y divide-gray-100">
+        {data.items.map((transaction) => (
+          <label key={transaction.id} className="flex items-center gap-4 p-4 cursor-pointer hover:bg-neutral-50 transition-colors">
+            <input
+              type="checkbox"
+              checked={selectedIds.has(transaction.id)}
+              onChange={() => toggle(transaction.id)}
+              className="w-4 h-4 text-indigo-600 border-neutral-300 rounded focus:ring-indigo-500 focus:ring-2 cursor-pointer"
+            />
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <p className="text-sm font-medium text-gray-900 truncate">{transaction.description}</p>
+                <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-700">
+                  {transaction.account}
+                </span>
+                {transaction.category && (
+                  <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${getCategoryColor(transaction.category)}`}>
+                    {getCategoryIcon(transaction.category) && (
+                      <span className="mr-1" aria-hidden="true">{getCategoryIcon(transaction.category)}</span>
+                    )}
+                    {transaction.category}
+                  </span>
+                )}
+              </div>
+              <p className="text-xs text-gray-500">
+                {formatDate(transaction.date)}
+                {transaction.deletedAt && ` • Deleted ${formatDateTime(transaction.deletedAt)}`}
+              </p>
+            </div>
+            <span className={`text-sm font-medium ${transaction.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatCurrency(transaction.amount)}
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {data.totalPages > 1 && (
+        <Pagination
+          currentPage={data.page}
+          totalPages={data.totalPages}
+          totalCount={data.totalCount}
+          pageSize={data.pageSize}
+          className="mt-6"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useCallback, useState } from 'react';
+import { useRevalidator } from 'react-router-dom';
+import { useToast } from '../../../shared/contexts/ToastContext';
+import { useUndo } from '../../../shared/contexts/UndoContext';
+import { transactionsApi } from '../api';
+import type { BulkSelection, BulkUpdateResult, Transaction } from '../types';
+import {
+  addCategories,
+  addLabels,
+  buildTransactionsCsv,
+  downloadCsv,
+  isSplit,
+  MAX_UNDOABLE_COUNT,
+  removeCategories,
+  withAccount,
+  withCategories,
+  withReviewed
+} from '../utils/bulkActions';
+
+/**
+ * What a bulk action applies to. With "select all matching" the selection is the filter and
+ * only the rows on this page can be previewed.
+ */
+export interface BulkTarget {
+  transactions: Transaction[];
+  selection: BulkSelection;
+  count: number;
+}
+
+interface BulkActionsOptions {
+  previewEdits: (updated: Transaction[]) => void;
+  discardEdits: (ids: string[]) => void;
+}
+
+function pluralize(count: number): string {
+  return `${count} transaction${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Bulk changes are shown straight away and saved, then recorded on the undo stack. Updates are
+ * undone from the snapshots the server returns with the change; deletes are undone by restoring
+ * from the trash.
+ */
+export function useBulkActions({ previewEdits, discardEdits }: BulkActionsOptions) {
+  const revalidator = useRevalidator();
+  const { showError, showWarning } = useToast();
+  const { record } = useUndo();
+  const [hiddenIds, setHiddenIds] = useState<Set<string>>(new Set());
+
+  const runUpdate = useCallback(async (
+    target: BulkTarget,
+    label: string,
+    update: (transaction: Transaction) => Transaction,
+    apply: (selection: BulkSelection) => Promise<Omit<BulkUpdateResult, 'updatedCount'>>,
+    skippedReason = ''
+  ) => {
+    const isUndoable = target.count <= MAX_UNDOABLE_COUNT;
+    if (!isUndoable && !window.confirm(
+      `${label}? Changes to more than ${MAX_UNDOABLE_COUNT} transactions cannot be undone.`
+    )) {
+      return;
+    }
+
+    const ids = target.transactions.map(transaction => transaction.id);
+    previewEdits(target.transactions.map(update));
+
+    try {
+      const result = await apply(target.selection);
+
+      if (result.skippedCount) {
+        showWarning(`${pluralize(result.skippedCount)} skipped`, skippedReason);
+      }
+      revalidator.revalidate();
+
+      // Taken by the server in the same request as the change, so they match exactly the rows it changed
+      const snapshots = result.snapshots;
+      if (!snapshots) return;
+
+      // Redo goes by id, so it touches the same rows even if the filter now matches others
+      record({
+        label,
+        undo: async () => {
+          await transactionsApi.restoreSnapshots(snapshots);
+          revalidator.revalidate();
+        },
+        redo: async () => {
+          await apply({ transactionIds: snapshots.map(snapshot => snapshot.id) });
+          revalidator.revalidate();
+        }
+      });
+    } catch {
+      discardEdits(ids);
+      showError('Bulk update failed', 'Your change was not saved. Please try again.');
+    }
+  }, [previewEdits, discardEdits, record, showError, showWarning, revalidator]);
+
+  const addCategoriesTo = useCallback((target: BulkTarget, names: string[]) =>
+    runUpdate(
+      target,
+      `Added ${names.join(', ')} to ${pluralize(target.count)}`,
+      transaction => addCategories(transaction, names),
+      selection => transactionsApi.addBulkCategories(selection, names),
+      'They are split across categories. Change their splits instead.'
+    ), [runUpdate]);
+
+  const removeCategoriesFrom = useCallback((target: BulkTarget, names: string[]) =>
+    runUpdate(
+      target,
+      `Removed ${names.join(', ')} from ${pluralize(target.count)}`,
+      transaction => isSplit(transaction) ? transaction : removeCategories(transaction, names),
+      selection => transactionsApi.removeBulkCategories(selection, names),
+      'They are split across categories. Change their splits instead.'
+    ), [runUpdate]);
+
+  const replaceCategories = useCallback((target: BulkTarget, names: string[]) =>
+    runUpdate(
+      target,
+      `Filed ${pluralize(target.count)} under ${names.join(', ')}`,
+      transaction => isSplit(transaction) ? transaction : withCategories(transaction, names),
+      selection => transactionsApi.replaceBulkCategories(selection, names),
+      'They are split across categories. Change their splits instead.'
+    ), [runUpdate]);
+
+  const changeAccount = useCallback((target: BulkTarget, account: string) =>
+    runUpdate(
+      target,
+      `Moved ${pluralize(target.count)} to ${account}`,
+      transaction => withAccount(transaction, account),
+      selection => transactionsApi.setBulkAccount(selection, account)
+    ), [runUpdate]);
+
+  const addLabelsTo = useCallback((target: BulkTarget, labels: string) =>
+    runUpdate(
+      target,
+      `Labelled ${pluralize(target.count)}`,
+      transaction => addLabels(transaction, labels),
+      selection => transactionsApi.addBulkLabels(selection, labels),
+      'Their labels would have been longer than 200 characters.'
+    ), [runUpdate]);
+
+  const setReviewed = useCallback((target: BulkTarget, isReviewed: boolean) =>
+    runUpdate(
+      target,
+      `Marked ${pluralize(target.count)} as ${isReviewed ? 'reviewed' : 'not reviewed'}`,
+      transaction => withReviewed(transaction, isReviewed),
+      selection => transactionsApi.setBulkReviewed(selection, isReviewed)
+    ), [runUpdate]);
+
+  const deleteTransactions = useCallback(async (target: BulkTarget) => {
+    const ids = target.transactions.map(transaction => transaction.id);
+    const showRows = (rowIds: string[]) =>
+      setHiddenIds(prev => new Set([...prev].filter(id => !rowIds.includes(id))));
+
+    setHiddenIds(prev => new Set([...prev, ...ids]));
+
+    try {
+      const result = await transactionsApi.deleteTransactions(target.selection);
+      revalidator.revalidate();
+
+      record({
+        label: `Moved ${pluralize(result.deletedCount)} to the trash`,
+        undo: async () => {
+          await transactionsApi.restoreFromTrash(result.transactionIds);
+          showRows(result.transactionIds);
+          revalidator.revalidate();
+        },
+        redo: async () => {
+          await transactionsApi.deleteTransactions({ transactionIds: result.transactionIds });
+          revalidator.revalidate();
+        }
+      });
+    } catch {
+      showRows(ids);
+      showError('Failed to delete transactions', 'Please try again.');
+    }
+  }, [record, showError, revalidator]);
+
+  const exportTransactions = useCallback(async (target: BulkTarget) => {
+    try {
+      const transactions = target.selection.filter
+        ? await transactionsApi.getAllTransactions(target.selection.filter)
+        : target.transactions;
+
+      downloadCsv(`transactions-${new Date().toISOString().slice(0, 10)}.csv`, buildTransactionsCsv(transactions));
+    } catch {
+      showError('Export failed', 'The selected transactions could not be loaded. Please try again.');
+    }
+  }, [showError]);
+
+  return {
+    hiddenIds,
+    addCategories: addCategoriesTo,
+    removeCategories: removeCategoriesFrom,
+    replaceCategories,
+    changeAccount,
+    addLabels: addLabelsTo,
+    setReviewed,
+    deleteTransactions,
+    exportTransactions
+  };
+}
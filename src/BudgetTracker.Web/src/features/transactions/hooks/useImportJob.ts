@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { importJobClient } from '../api';
+import type { ImportJob, ImportTransactionsParams } from '../types';
+import { ACTIVE_IMPORT_JOB_STORAGE_KEY, isImportJobFinished } from '../utils/importJobs';
+
+interface UseImportJobOptions {
+  onFinished: (job: ImportJob) => void;
+  onError: (error: unknown) => void;
+}
+
+/**
+ * Start an import job and follow it until it finishes. The running job's id is kept in
+ * localStorage so a refreshed page picks the job back up instead of losing it.
+ */
+export function useImportJob({ onFinished, onError }: UseImportJobOptions) {
+  const [job, setJob] = useState<ImportJob | null>(null);
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const stopWatchingRef = useRef<(() => void) | null>(null);
+  const callbacksRef = useRef({ onFinished, onError });
+
+  useEffect(() => {
+    callbacksRef.current = { onFinished, onError };
+  }, [onFinished, onError]);
+
+  const stopWatching = useCallback(() => {
+    stopWatchingRef.current?.();
+    stopWatchingRef.current = null;
+  }, []);
+
+  const finish = useCallback((finished: ImportJob) => {
+    stopWatching();
+    localStorage.removeItem(ACTIVE_IMPORT_JOB_STORAGE_KEY);
+    setJob(null);
+    setIsCancelling(false);
+    callbacksRef.current.onFinished(finished);
+  }, [stopWatching]);
+
+  const watch = useCallback((started: ImportJob) => {
+    stopWatching();
+    localStorage.setItem(ACTIVE_IMPORT_JOB_STORAGE_KEY, started.id);
+    setJob(started);
+
+    stopWatchingRef.current = importJobClient.watch(
+      started.id,
+      (update) => {
+        if (isImportJobFinished(update)) {
+          finish(update);
+        } else {
+          setJob(update);
+        }
+      },
+      (error) => {
+        stopWatching();
+        localStorage.removeItem(ACTIVE_IMPORT_JOB_STORAGE_KEY);
+        setJob(null);
+        callbacksRef.current.onError(error);
+      }
+    );
+  }, [stopWatching, finish]);
+
+  const start = useCallback(async (params: Omit<ImportTransactionsParams, 'onUploadProgress'>) => {
+    setIsStarting(true);
+    setUploadProgress(0);
+
+    try {
+      const started = await importJobClient.start({
+        ...params,
+        onUploadProgress: (progressEvent) => {
+          if (progressEvent.total) {
+            setUploadProgress(Math.round((progressEvent.loaded * 100) / progressEvent.total));
+          }
+        }
+      });
+
+      if (isImportJobFinished(started)) {
+        finish(started);
+      } else {
+        watch(started);
+      }
+    } finally {
+      setIsStarting(false);
+      setUploadProgress(0);
+    }
+  }, [watch, finish]);
+
+  const cancel = useCallback(async () => {
+    if (!job) return;
+
+    setIsCancelling(true);
+    try {
+      await importJobClient.cancel(job.id);
+    } catch (error) {
+      setIsCancelling(false);
+      callbacksRef.current.onError(error);
+    }
+  }, [job]);
+
+  useEffect(() => {
+    const jobId = localStorage.getItem(ACTIVE_IMPORT_JOB_STORAGE_KEY);
+    if (jobId) {
+      importJobClient.get(jobId)
+        .then((found) => {
+          if (isImportJobFinished(found)) {
+            finish(found);
+          } else {
+            watch(found);
+          }
+        })
+        .catch((error) => {
+          console.error('Failed to resume import job:', error);
+          localStorage.removeItem(ACTIVE_IMPORT_JOB_STORAGE_KEY);
+        });
+    }
+
+    return stopWatching;
+  }, [watch, finish, stopWatching]);
+
+  return {
+    job,
+    uploadProgress,
+    isStarting,
+    isCancelling,
+    isActive: isStarting || job !== null,
+    start,
+    cancel
+  };
+}
@@ -0,0 +1,205 @@
+import { useCallback, useRef, useState } from 'react';
+import { importJobClient } from '../api';
+import type { ImportJob, ImportProfile, ImportQueueItem } from '../types';
+import { buildCsvPreview, findMatchingProfile } from '../utils/csvPreview';
+import { getImportJobProgress, isImportJobFinished } from '../utils/importJobs';
+import { isCsvFile } from '../utils/importFiles';
+
+const IMPORT_CONCURRENCY = 2;
+
+/**
+ * Follow a started job, reporting each update, until it completes, fails or is cancelled
+ */
+function waitForImportJob(job: ImportJob, onUpdate: (job: ImportJob) => void): Promise<ImportJob> {
+  return new Promise((resolve, reject) => {
+    let isDone = false;
+    const watcher: { stop?: () => void } = {};
+
+    const stop = () => {
+      isDone = true;
+      watcher.stop?.();
+    };
+
+    watcher.stop = importJobClient.watch(
+      job.id,
+      (update) => {
+        if (isDone) return;
+        if (isImportJobFinished(update)) {
+          stop();
+          resolve(update);
+        } else {
+          onUpdate(update);
+        }
+      },
+      (error) => {
+        if (isDone) return;
+        stop();
+        reject(error);
+      }
+    );
+
+    // The watcher may report a finished job before returning its stop function
+    if (isDone) watcher.stop();
+  });
+}
+
+export type ImportQueueState = ReturnType<typeof useImportQueue>;
+
+export function useImportQueue(profiles: ImportProfile[]) {
+  const [items, setItems] = useState<ImportQueueItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const nextId = useRef(0);
+
+  const updateItem = useCallback((id: string, changes: Partial<ImportQueueItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const addFiles = useCallback((files: File[], defaultAccount = '') => {
+    const newItems: ImportQueueItem[] = files.map(file => ({
+      id: `import-${nextId.current++}`,
+      file,
+      account: defaultAccount,
+      status: 'pending',
+      progress: 0
+    }));
+
+    setItems(prev => [...prev, ...newItems]);
+
+    for (const item of newItems) {
+      if (!isCsvFile(item.file.name)) continue;
+
+      item.file.text()
+        .then((text) => {
+          const profile = findMatchingProfile(profiles, buildCsvPreview(text, { rowLimit: 0 }).headers);
+          if (!profile) return;
+
+          setItems(prev => prev.map(current => (
+            current.id === item.id && !current.profileId
+              ? { ...current, profileId: profile.id, account: current.account || profile.account }
+              : current
+          )));
+        })
+        .catch((error) => {
+          console.error('Failed to read CSV headers:', error);
+        });
+    }
+  }, [profiles]);
+
+  const removeItem = useCallback((id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id));
+  }, []);
+
+  const clear = useCallback(() => {
+    setItems([]);
+  }, []);
+
+  const uploadItem = useCallback(async (item: ImportQueueItem) => {
+    updateItem(item.id, {
+      status: 'uploading',
+      progress: 0,
+      job: undefined,
+      isCancelling: false,
+      result: undefined,
+      duplicateResult: undefined,
+      enhanceResult: undefined,
+      error: undefined
+    });
+
+    try {
+      const formData = new FormData();
+      formData.append('file', item.file);
+      formData.append('account', item.account.trim());
+
+      // Progress shows the upload until the job exists, then the job's own phases and row counts
+      const started = await importJobClient.start({
+        formData,
+        profileId: item.profileId,
+        onUploadProgress: (progressEvent) => {
+          if (progressEvent.total) {
+            updateItem(item.id, { progress: Math.round((progressEvent.loaded * 100) / progressEvent.total) });
+          }
+        }
+      });
+      updateItem(item.id, { job: started, progress: getImportJobProgress(started) });
+
+      const job = isImportJobFinished(started)
+        ? started
+        : await waitForImportJob(started, update => updateItem(item.id, { job: update, progress: getImportJobProgress(update) }));
+
+      if (job.status === 'Completed' && job.result) {
+        updateItem(item.id, { status: 'succeeded', progress: 100, job, result: job.result, isCancelling: false });
+      } else if (job.status === 'Cancelled') {
+        updateItem(item.id, { status: 'cancelled', progress: 0, job, isCancelling: false });
+      } else {
+        updateItem(item.id, {
+          status: 'failed',
+          progress: 0,
+          job,
+          isCancelling: false,
+          error: job.error ?? 'Failed to import the file'
+        });
+      }
+    } catch (error) {
+      updateItem(item.id, {
+        status: 'failed',
+        progress: 0,
+        isCancelling: false,
+        error: error instanceof Error ? error.message : 'Failed to import the file'
+      });
+    }
+  }, [updateItem]);
+
+  const runQueue = useCallback(async (queued: ImportQueueItem[]) => {
+    if (queued.length === 0) return;
+
+    setIsRunning(true);
+    let nextIndex = 0;
+
+    const worker = async () => {
+      while (nextIndex < queued.length) {
+        await uploadItem(queued[nextIndex++]);
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: Math.min(IMPORT_CONCURRENCY, queued.length) }, worker));
+    } finally {
+      setIsRunning(false);
+    }
+  }, [uploadItem]);
+
+  const startImport = useCallback(
+    () => runQueue(items.filter(item => item.status === 'pending')),
+    [items, runQueue]
+  );
+
+  const retryFailed = useCallback(
+    () => runQueue(items.filter(item => item.status === 'failed' || item.status === 'cancelled')),
+    [items, runQueue]
+  );
+
+  // The job reports itself cancelled through the watcher, which settles the item
+  const cancelItem = useCallback(async (item: ImportQueueItem) => {
+    if (!item.job) return;
+
+    updateItem(item.id, { isCancelling: true });
+    try {
+      await importJobClient.cancel(item.job.id);
+    } catch (error) {
+      console.error('Failed to cancel import job:', error);
+      updateItem(item.id, { isCancelling: false });
+    }
+  }, [updateItem]);
+
+  return {
+    items,
+    isRunning,
+    addFiles,
+    updateItem,
+    removeItem,
+    clear,
+    startImport,
+    retryFailed,
+    cancelItem
+  };
+}
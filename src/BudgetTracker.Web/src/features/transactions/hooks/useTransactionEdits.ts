@@ -0,0 +1,117 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useToast } from '../../../shared/contexts/ToastContext';
+import { transactionsApi } from '../api';
+import type { Transaction, TransactionEditableField, TransactionSplit } from '../types';
+import { applyUpdate, buildUpdateRequest, getOriginalInputValue } from '../utils/transactionEdits';
+
+// The edit endpoints don't resolve the source file, so it's carried over from the listed row
+function keepSourceFile(updated: Transaction, current: Transaction): Transaction {
+  return { ...updated, sourceFile: current.sourceFile };
+}
+
+/**
+ * Layers optimistic edits over the listed transactions. An edit is dropped once its row is
+ * reloaded, since the new row already contains it. Rows kept as they were, such as those above
+ * a newly appended infinite-scroll batch, keep their edits.
+ */
+export function useTransactionEdits(items: Transaction[]) {
+  const { showError } = useToast();
+  const [edited, setEdited] = useState<Record<string, Transaction>>({});
+  const [previousItems, setPreviousItems] = useState(items);
+
+  if (items !== previousItems) {
+    const current = new Set(items);
+    const unchanged = new Set(previousItems.filter(transaction => current.has(transaction)).map(t => t.id));
+    setPreviousItems(items);
+    setEdited(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => unchanged.has(id))));
+  }
+
+  const transactions = useMemo(
+    () => items.map(transaction => edited[transaction.id] ?? transaction),
+    [items, edited]
+  );
+
+  const setTransaction = useCallback((transaction: Transaction) => {
+    setEdited(prev => ({ ...prev, [transaction.id]: transaction }));
+  }, []);
+
+  /**
+   * Shows changes that are not saved yet, such as a bulk action waiting out its undo toast
+   */
+  const previewEdits = useCallback((updated: Transaction[]) => {
+    setEdited(prev => ({ ...prev, ...Object.fromEntries(updated.map(transaction => [transaction.id, transaction])) }));
+  }, []);
+
+  const discardEdits = useCallback((ids: string[]) => {
+    setEdited(prev => {
+      const next = { ...prev };
+      for (const id of ids) delete next[id];
+      return next;
+    });
+  }, []);
+
+  const updateField = useCallback(async (
+    transaction: Transaction,
+    field: TransactionEditableField,
+    value: string
+  ) => {
+    setTransaction(applyUpdate(transaction, field, value));
+
+    try {
+      const updated = await transactionsApi.updateTransaction(transaction.id, buildUpdateRequest(transaction, field, value));
+      setTransaction(keepSourceFile(updated, transaction));
+    } catch {
+      setTransaction(transaction);
+      showError('Failed to update transaction', 'Your change was not saved. Please try again.');
+    }
+  }, [setTransaction, showError]);
+
+  const revertField = useCallback(async (transaction: Transaction, field: TransactionEditableField) => {
+    const original = getOriginalInputValue(transaction, field);
+    if (original === undefined) return;
+
+    setTransaction(applyUpdate(transaction, field, original));
+
+    try {
+      const updated = await transactionsApi.revertTransactionField(transaction.id, field);
+      setTransaction(keepSourceFile(updated, transaction));
+    } catch {
+      setTransaction(transaction);
+      showError('Failed to revert transaction', 'The original value could not be restored. Please try again.');
+    }
+  }, [setTransaction, showError]);
+
+  const saveSplits = useCallback(async (transaction: Transaction, splits: TransactionSplit[]) => {
+    setTransaction({ ...transaction, splits });
+
+    try {
+      const updated = await transactionsApi.saveTransactionSplits(transaction.id, splits);
+      setTransaction(keepSourceFile(updated, transaction));
+    } catch {
+      setTransaction(transaction);
+      showError('Failed to save split', 'The allocations were not saved. Please try again.');
+    }
+  }, [setTransaction, showError]);
+
+  const removeSplits = useCallback(async (transaction: Transaction) => {
+    setTransaction({ ...transaction, splits: [] });
+
+    try {
+      const updated = await transactionsApi.removeTransactionSplits(transaction.id);
+      setTransaction(keepSourceFile(updated, transaction));
+    } catch {
+      setTransaction(transaction);
+      showError('Failed to remove split', 'Please try again.');
+    }
+  }, [setTransaction, showError]);
+
+  return {
+    transactions,
+    previewEdits,
+    discardEdits,
+    updateField,
+    revertField,
+    saveSplits,
+    removeSplits
+  };
+}
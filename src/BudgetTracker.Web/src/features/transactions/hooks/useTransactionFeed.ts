@@ -0,0 +1,230 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { transactionsApi } from '../api';
+import type { Transaction, TransactionListDto } from '../types';
+import {
+  getFeedKey,
+  getRefreshWindow,
+  getSavedFeed,
+  mergeRefreshedRows,
+  rememberFeedSearch,
+  saveFeed,
+  type FeedAnchor
+} from '../utils/transactionFeed';
+import { getTransactionBatchParams } from '../utils/transactionFilters';
+
+const BATCH_SIZE = 100;
+// The API's largest batch, which caps how many rows on screen one refresh reloads
+const REFRESH_BATCH_SIZE = 200;
+
+interface FeedState {
+  key: string;
+  items: Transaction[];
+  totalCount: number;
+  nextCursor: string | null;
+  anchors: FeedAnchor[];
+  rowHeights: Map<string, number>;
+  status: 'idle' | 'loaded' | 'error';
+}
+
+function createFeed(key: string): FeedState {
+  const saved = getSavedFeed(key);
+  return saved
+    ? { key, items: saved.items, totalCount: saved.totalCount, nextCursor: saved.nextCursor, anchors: saved.anchors, rowHeights: saved.rowHeights, status: 'loaded' }
+    : { key, items: [], totalCount: 0, nextCursor: null, anchors: [], rowHeights: new Map(), status: 'idle' };
+}
+
+function appendUnique(items: Transaction[], batch: Transaction[]): Transaction[] {
+  const ids = new Set(items.map(transaction => transaction.id));
+  return [...items, ...batch.filter(transaction => !ids.has(transaction.id))];
+}
+
+interface TransactionFeedOptions {
+  enabled: boolean;
+  /** The loader's data. When it reloads, the rows on screen are fetched again. */
+  data: TransactionListDto;
+  selectedIds: Set<string>;
+}
+
+/**
+ * The rows of the infinite-scroll list, loaded a batch at a time with the API's cursor. The list,
+ * selection and scroll position are saved when the page unmounts and picked up again on return.
+ */
+export function useTransactionFeed({ enabled, data, selectedIds }: TransactionFeedOptions) {
+  const [searchParams] = useSearchParams();
+  const key = getFeedKey(searchParams);
+  const [feed, setFeed] = useState(() => createFeed(key));
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // A failed batch isn't retried on its own, or a broken connection would retry in a loop
+  const [hasLoadError, setHasLoadError] = useState(false);
+  const [previousData, setPreviousData] = useState(data);
+  // A restored list may be stale, so it is reloaded in place as soon as it's shown
+  const [needsRefresh, setNeedsRefresh] = useState(feed.status === 'loaded');
+  const [restoredScrollY] = useState(() => getSavedFeed(key)?.scrollY);
+  const requestRef = useRef(0);
+  const visibleRowsRef = useRef<{ firstId?: string; lastId?: string }>({});
+  const hasRestoredScroll = useRef(false);
+  const latest = useRef({ feed, selectedIds });
+  const search = searchParams.toString();
+
+  if (feed.key !== key) {
+    setFeed(createFeed(key));
+    setHasLoadError(false);
+    setNeedsRefresh(getSavedFeed(key) !== undefined);
+  } else if (data !== previousData) {
+    setPreviousData(data);
+    if (feed.status === 'loaded') setNeedsRefresh(true);
+  }
+
+  useEffect(() => {
+    latest.current = { feed, selectedIds };
+  });
+
+  useEffect(() => {
+    rememberFeedSearch(enabled && search ? `?${search}` : '');
+  }, [enabled, search]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    return () => {
+      const { feed: current, selectedIds: selection } = latest.current;
+      if (current.status !== 'loaded') return;
+
+      saveFeed({
+        key: current.key,
+        items: current.items,
+        totalCount: current.totalCount,
+        nextCursor: current.nextCursor,
+        anchors: current.anchors,
+        rowHeights: current.rowHeights,
+        scrollY: window.scrollY,
+        selectedIds: [...selection]
+      });
+    };
+  }, [enabled]);
+
+  // Only on arrival: later changes to the list keep the reader's own scroll position
+  useLayoutEffect(() => {
+    if (!enabled || restoredScrollY === undefined || hasRestoredScroll.current) return;
+
+    hasRestoredScroll.current = true;
+    window.scrollTo(0, restoredScrollY);
+  }, [enabled, restoredScrollY]);
+
+  useEffect(() => {
+    if (!enabled || feed.status !== 'idle') return;
+
+    const request = ++requestRef.current;
+    transactionsApi.getTransactionBatch({ ...getTransactionBatchParams(searchParams), limit: BATCH_SIZE })
+      .then((batch) => {
+        if (request !== requestRef.current) return;
+        setFeed(prev => ({
+          ...prev,
+          items: batch.items,
+          totalCount: batch.totalCount,
+          nextCursor: batch.nextCursor,
+          anchors: batch.items.length > 0 ? [{ id: batch.items[0].id, cursor: null }] : [],
+          status: 'loaded'
+        }));
+      })
+      .catch((error) => {
+        console.error('Failed to load transactions:', error);
+        if (request !== requestRef.current) return;
+        setFeed(prev => ({ ...prev, status: 'error' }));
+      });
+  }, [enabled, feed.status, feed.key, searchParams]);
+
+  // Reloads only the rows on screen; rows scrolled past are refreshed when the list is next reloaded
+  useEffect(() => {
+    if (!enabled || !needsRefresh || feed.status !== 'loaded') return;
+
+    const request = ++requestRef.current;
+    const range = getRefreshWindow(feed.items, feed.anchors, visibleRowsRef.current, { min: BATCH_SIZE, max: REFRESH_BATCH_SIZE });
+    const reachesLoadedEnd = range.start + range.count >= feed.items.length;
+    setNeedsRefresh(false);
+
+    transactionsApi.getTransactionBatch({
+      ...getTransactionBatchParams(searchParams),
+      cursor: range.cursor ?? undefined,
+      limit: range.count
+    })
+      .then((batch) => {
+        if (request !== requestRef.current) return;
+
+        const isEnd = batch.nextCursor === null;
+        setFeed(prev => {
+          const items = mergeRefreshedRows(prev.items, range, batch.items, isEnd);
+          const ids = new Set(items.map(transaction => transaction.id));
+
+          return {
+            ...prev,
+            items,
+            totalCount: batch.totalCount,
+            nextCursor: isEnd || reachesLoadedEnd ? batch.nextCursor : prev.nextCursor,
+            anchors: [
+              ...(batch.items.length > 0 ? [{ id: batch.items[0].id, cursor: range.cursor }] : []),
+              ...prev.anchors.filter(anchor => anchor.cursor !== range.cursor && ids.has(anchor.id))
+            ]
+          };
+        });
+      })
+      .catch((error) => {
+        console.error('Failed to refresh transactions:', error);
+      });
+  }, [enabled, needsRefresh, feed.status, feed.items, feed.anchors, searchParams]);
+
+  const loadMore = useCallback(async () => {
+    if (!enabled || isLoadingMore || hasLoadError || feed.status !== 'loaded' || !feed.nextCursor) return;
+
+    const request = ++requestRef.current;
+    const cursor = feed.nextCursor;
+    setIsLoadingMore(true);
+    try {
+      const batch = await transactionsApi.getTransactionBatch({ ...getTransactionBatchParams(searchParams), cursor, limit: BATCH_SIZE });
+      if (request !== requestRef.current) return;
+      setFeed(prev => {
+        const items = appendUnique(prev.items, batch.items);
+        const firstNew = items[prev.items.length];
+
+        return {
+          ...prev,
+          items,
+          totalCount: batch.totalCount,
+          nextCursor: batch.nextCursor,
+          anchors: firstNew ? [...prev.anchors, { id: firstNew.id, cursor }] : prev.anchors
+        };
+      });
+    } catch (error) {
+      console.error('Failed to load more transactions:', error);
+      setHasLoadError(true);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [enabled, isLoadingMore, hasLoadError, feed.status, feed.nextCursor, searchParams]);
+
+  const retry = useCallback(() => {
+    setHasLoadError(false);
+    setFeed(prev => prev.status === 'error' ? { ...prev, status: 'idle' } : prev);
+  }, []);
+
+  /**
+   * Records the first and last rows on screen, which is the part of the list a refresh reloads
+   */
+  const trackVisibleRows = useCallback((firstId: string | undefined, lastId: string | undefined) => {
+    visibleRowsRef.current = { firstId, lastId };
+  }, []);
+
+  return {
+    items: feed.items,
+    totalCount: feed.totalCount,
+    rowHeights: feed.rowHeights,
+    hasMore: feed.nextCursor !== null,
+    isLoading: feed.status === 'idle',
+    isLoadingMore,
+    hasLoadError: hasLoadError || feed.status === 'error',
+    loadMore,
+    retry,
+    trackVisibleRows
+  };
+}
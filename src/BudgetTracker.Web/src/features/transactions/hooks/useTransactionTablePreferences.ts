@@ -0,0 +1,61 @@
+import { useCallback, useState } from 'react';
+import { authApi } from '../../auth';
+import {
+  DEFAULT_TABLE_PREFERENCES,
+  loadTablePreferences,
+  saveTablePreferences,
+  type TransactionColumnKey,
+  type TransactionPagingMode,
+  type TransactionTablePreferences,
+  type TransactionViewMode
+} from '../utils/transactionTable';
+
+export function useTransactionTablePreferences() {
+  const userKey = authApi.getCurrentUser()?.email ?? 'anonymous';
+  const [preferences, setPreferences] = useState(() => loadTablePreferences(userKey));
+
+  const update = useCallback((next: TransactionTablePreferences) => {
+    setPreferences(next);
+    saveTablePreferences(userKey, next);
+  }, [userKey]);
+
+  const setViewMode = useCallback((viewMode: TransactionViewMode) => {
+    update({ ...preferences, viewMode });
+  }, [preferences, update]);
+
+  const setPaging = useCallback((paging: TransactionPagingMode) => {
+    update({ ...preferences, paging });
+  }, [preferences, update]);
+
+  const toggleColumn = useCallback((key: TransactionColumnKey) => {
+    update({
+      ...preferences,
+      columns: preferences.columns.map(column => (
+        column.key === key ? { ...column, visible: !column.visible } : column
+      ))
+    });
+  }, [preferences, update]);
+
+  const moveColumn = useCallback((key: TransactionColumnKey, offset: -1 | 1) => {
+    const index = preferences.columns.findIndex(column => column.key === key);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= preferences.columns.length) return;
+
+    const columns = [...preferences.columns];
+    [columns[index], columns[target]] = [columns[target], columns[index]];
+    update({ ...preferences, columns });
+  }, [preferences, update]);
+
+  const resetColumns = useCallback(() => {
+    update({ ...preferences, columns: DEFAULT_TABLE_PREFERENCES.columns });
+  }, [preferences, update]);
+
+  return {
+    preferences,
+    setViewMode,
+    setPaging,
+    toggleColumn,
+    moveColumn,
+    resetColumns
+  };
+}
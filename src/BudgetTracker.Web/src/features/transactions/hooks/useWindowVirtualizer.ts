@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+interface WindowVirtualizerOptions {
+  /** Row keys in display order */
+  keys: string[];
+  /** Height used for rows that haven't been rendered yet */
+  estimateSize: number;
+  /** Measured heights by key. The caller owns the map so measurements outlive the component. */
+  sizes: Map<string, number>;
+  /** Extra pixels rendered above and below the viewport */
+  overscan?: number;
+}
+
+function findIndex(offsets: number[], position: number): number {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= position) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Renders only the rows near the viewport of a list that scrolls with the page. Rows keep their
+ * normal layout; the space of the rows left out is made up with padding above and below.
+ */
+export function useWindowVirtualizer<T extends HTMLElement>({ keys, estimateSize, sizes, overscan = 800 }: WindowVirtualizerOptions) {
+  const containerRef = useRef<T>(null);
+  const observerRef = useRef<ResizeObserver>(null);
+  const sizesRef = useRef(sizes);
+  const [viewport, setViewport] = useState({ top: 0, height: window.innerHeight });
+  const [, setMeasureVersion] = useState(0);
+
+  const updateViewport = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const top = -container.getBoundingClientRect().top;
+    const height = window.innerHeight;
+    setViewport(prev => (prev.top === top && prev.height === height ? prev : { top, height }));
+  }, []);
+
+  useEffect(() => {
+    let frame = 0;
+    const handleChange = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(updateViewport);
+    };
+
+    window.addEventListener('scroll', handleChange, { passive: true });
+    window.addEventListener('resize', handleChange);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', handleChange);
+      window.removeEventListener('resize', handleChange);
+    };
+  }, [updateViewport]);
+
+  // Content above the list, such as the selection banner, can move it without a scroll
+  useLayoutEffect(() => {
+    updateViewport();
+  }, [keys.length, updateViewport]);
+
+  useLayoutEffect(() => {
+    sizesRef.current = sizes;
+  }, [sizes]);
+
+  useEffect(() => () => {
+    observerRef.current?.disconnect();
+    observerRef.current = null;
+  }, []);
+
+  /**
+   * Ref callback for rendered rows, which must carry their key in a data-row-key attribute.
+   * Rows are measured when they first render and again whenever their height changes.
+   */
+  const measureElement = useCallback((element: HTMLElement | null) => {
+    if (!element) return;
+
+    // Ref callbacks run before effects, so the observer is created on first use
+    observerRef.current ??= new ResizeObserver((entries) => {
+      let changed = false;
+      for (const entry of entries) {
+        const row = entry.target as HTMLElement;
+        const key = row.dataset.rowKey;
+        const height = entry.borderBoxSize[0]?.blockSize ?? row.getBoundingClientRect().height;
+        if (key && sizesRef.current.get(key) !== height) {
+          sizesRef.current.set(key, height);
+          changed = true;
+        }
+      }
+      if (changed) setMeasureVersion(version => version + 1);
+    });
+
+    const observer = observerRef.current;
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, []);
+
+  const offsets: number[] = [];
+  let totalSize = 0;
+  for (const key of keys) {
+    offsets.push(totalSize);
+    totalSize += sizes.get(key) ?? estimateSize;
+  }
+
+  const start = keys.length > 0 ? findIndex(offsets, viewport.top - overscan) : 0;
+  const end = keys.length > 0 ? findIndex(offsets, viewport.top + viewport.height + overscan) + 1 : 0;
+
+  return {
+    containerRef,
+    measureElement,
+    startIndex: start,
+    endIndex: end,
+    paddingTop: offsets[start] ?? 0,
+    paddingBottom: totalSize - (offsets[end] ?? totalSize)
+  };
+}
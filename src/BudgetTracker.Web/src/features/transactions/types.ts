@@ -10,6 +10,55 @@ export interface Transaction {
   importedAt: string;
   sourceFile?: string;
   account: string;
+  isManual?: boolean;
+  isReviewed?: boolean;
+  deletedAt?: string | null;
+  splits?: TransactionSplit[];
+  originalValues?: TransactionOriginalValues | null;
+}
+
+/**
+ * A share of a transaction's amount allocated to one category, signed like the transaction
+ */
+export interface TransactionSplit {
+  categoryName: string;
+  amount: number;
+}
+
+/**
+ * Imported values of fields that have since been edited. An empty labels string means
+ * the transaction was imported without labels.
+ */
+export interface TransactionOriginalValues {
+  date?: string | null;
+  description?: string | null;
+  amount?: number | null;
+  account?: string | null;
+  labels?: string | null;
+}
+
+export type TransactionEditableField = keyof TransactionOriginalValues;
+
+export interface UpdateTransactionRequest {
+  date: string;
+  description: string;
+  amount: number;
+  account: string;
+  labels?: string;
+}
+
+export interface CreateTransactionRequest {
+  date: string;
+  description: string;
+  amount: number;
+  account: string;
+  categories?: string[];
+  labels?: string;
+}
+
+export interface CreateTransactionsResult {
+  createdCount: number;
+  transactions: Transaction[];
 }
 
 export interface TransactionListDto {
@@ -22,11 +71,46 @@ export interface TransactionListDto {
   hasPreviousPage: boolean;
 }
 
+/**
+ * One batch of the infinite-scroll list. Pass nextCursor back to get the rows that follow.
+ */
+export interface TransactionBatch {
+  items: Transaction[];
+  totalCount: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export type TransactionTypeFilter = 'income' | 'expense';
+
+export type TransactionSortKey =
+  | 'date'
+  | 'description'
+  | 'amount'
+  | 'balance'
+  | 'account'
+  | 'category'
+  | 'importedAt'
+  | 'sourceFile';
+
+export type SortDirection = 'asc' | 'desc';
+
 export interface GetTransactionsParams {
   page?: number;
   pageSize?: number;
-  category?: string;
-  account?: string;
+  categories?: string[];
+  excludeCategories?: string[];
+  accounts?: string[];
+  excludeAccounts?: string[];
+  importSessionHash?: string;
+  search?: string;
+  dateFrom?: string; // yyyy-MM-dd, inclusive
+  dateTo?: string; // yyyy-MM-dd, inclusive
+  minAmount?: number;
+  maxAmount?: number;
+  type?: TransactionTypeFilter;
+  sortBy?: TransactionSortKey;
+  sortDirection?: SortDirection;
 }
 
 export interface TransactionFilters {
@@ -34,27 +118,208 @@ export interface TransactionFilters {
   accounts: string[];
 }
 
-export interface DeleteTransactionsRequest {
-  transactionIds: string[];
+export interface BulkUpdateResult {
+  updatedCount: number;
+  /** Rows left unchanged, e.g. labels over the length limit or split rows in a category change */
+  skippedCount?: number;
+  /** The selected rows as they were before the change, or null when too many were changed to undo */
+  snapshots?: TransactionSnapshot[] | null;
 }
 
+/**
+ * The list criteria without paging or sorting, used to select every matching transaction
+ */
+export type TransactionFilterCriteria = Omit<GetTransactionsParams, 'page' | 'pageSize' | 'sortBy' | 'sortDirection'>;
+
+export type GetTransactionBatchParams = Omit<GetTransactionsParams, 'page' | 'pageSize'> & {
+  cursor?: string;
+  limit?: number;
+};
+
+/**
+ * Rows a bulk action applies to: picked one by one, or everything matching the filter
+ */
+export type BulkSelection =
+  | { transactionIds: string[]; filter?: never }
+  | { filter: TransactionFilterCriteria; transactionIds?: never };
+
+export type DeleteTransactionsRequest = BulkSelection;
+
 export interface DeleteTransactionsResult {
   deletedCount: number;
+  /** The rows moved to the trash, so the delete can be undone */
+  transactionIds: string[];
+}
+
+/**
+ * The state bulk actions can change, as it was before one ran so it can be undone
+ */
+export interface TransactionSnapshot {
+  id: string;
+  categories: string[];
+  account: string;
+  labels?: string | null;
+  isReviewed: boolean;
 }
 
 export interface ImportTransactionsParams {
   formData: FormData;
+  profileId?: string;
   onUploadProgress?: (progressEvent: any) => void;
 }
 
+export type CsvColumnField = 'Date' | 'Description' | 'Amount' | 'Balance';
+
+export type CsvColumnMapping = Partial<Record<CsvColumnField, string>>;
+
+export type DecimalSeparator = '.' | ',';
+
+export interface CsvImportSettings {
+  delimiter: string;
+  decimalSeparator: DecimalSeparator;
+  dateFormat: string;
+  columnMapping: CsvColumnMapping;
+}
+
+export interface CsvPreview extends CsvImportSettings {
+  headers: string[];
+  rows: string[][];
+  totalRows: number;
+}
+
+export type SignConvention = 'AsIs' | 'Inverted';
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  account: string;
+  columnMappings: CsvColumnMapping;
+  delimiter: string;
+  decimalSeparator: DecimalSeparator;
+  dateFormat?: string;
+  signConvention: SignConvention;
+  defaultCategory?: string;
+  headerSignature?: string;
+  updatedAt: string;
+}
+
+export type SaveImportProfileRequest = Omit<ImportProfile, 'id' | 'updatedAt'>;
+
 export interface ImportResult {
   importedCount: number;
   failedCount: number;
   errors: string[];
   importSessionHash: string;
   enhancements: TransactionEnhancementResult[];
-  detectionMethod?: string; // "RuleBased" | "AI"
+  detectionMethod?: string; // "RuleBased" | "AI" | "Manual"
   detectionConfidence?: number; // 0-100
+  duplicateCount: number;
+  duplicates: DuplicateTransaction[];
+  ruleCategorizedCount: number;
+}
+
+export interface ImportSession {
+  importSessionHash: string;
+  sourceFile?: string;
+  account: string;
+  importedAt: string;
+  totalRows?: number;
+  importedCount: number;
+  failedCount: number;
+  duplicateCount: number;
+  transactionCount: number;
+  detectionMethod?: string;
+  detectionConfidence?: number;
+  enhancementsApplied: boolean;
+  enhancedCount: number;
+  rolledBackAt?: string;
+}
+
+export type DuplicateAction = 'Skip' | 'KeepBoth' | 'Merge';
+
+export interface DuplicateTransaction {
+  rowIndex: number;
+  date: string;
+  description: string;
+  amount: number;
+  balance?: number;
+  category?: string;
+  existingTransactionId: string;
+  existingDate: string;
+  existingDescription: string;
+  existingAmount: number;
+  isExactMatch: boolean;
+}
+
+export interface DuplicateResolution {
+  rowIndex: number;
+  action: DuplicateAction;
+}
+
+export interface ResolveDuplicatesRequest {
+  importSessionHash: string;
+  resolutions: DuplicateResolution[];
+}
+
+export interface ResolveDuplicatesResult {
+  importSessionHash: string;
+  keptCount: number;
+  mergedCount: number;
+  skippedCount: number;
+  skippedRows: string[];
+}
+
+export type ImportQueueStatus = 'pending' | 'uploading' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface ImportQueueItem {
+  id: string;
+  file: File;
+  account: string;
+  profileId?: string;
+  status: ImportQueueStatus;
+  progress: number;
+  job?: ImportJob;
+  isCancelling?: boolean;
+  result?: ImportResult;
+  duplicateResult?: ResolveDuplicatesResult;
+  enhanceResult?: EnhanceImportResult;
+  error?: string;
+}
+
+export type ImportJobStatus = 'Queued' | 'Running' | 'Completed' | 'Failed' | 'Cancelled';
+
+export type ImportJobPhase =
+  | 'Queued'
+  | 'Detecting'
+  | 'Parsing'
+  | 'Extracting'
+  | 'CheckingDuplicates'
+  | 'Enhancing'
+  | 'Saving'
+  | 'Complete';
+
+export interface ImportJob {
+  id: string;
+  fileName: string;
+  account: string;
+  status: ImportJobStatus;
+  phase: ImportJobPhase;
+  processedRows: number;
+  totalRows?: number;
+  result?: ImportResult;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Starts and follows server-side import jobs. `watch` returns a function that stops watching.
+ */
+export interface ImportJobClient {
+  start(params: ImportTransactionsParams): Promise<ImportJob>;
+  get(jobId: string): Promise<ImportJob>;
+  cancel(jobId: string): Promise<ImportJob>;
+  watch(jobId: string, onUpdate: (job: ImportJob) => void, onError: (error: unknown) => void): () => void;
 }
 
 export interface TransactionEnhancementResult {
@@ -67,10 +332,17 @@ export interface TransactionEnhancementResult {
   confidenceScore: number;
 }
 
+export type EnhancementReviewStatus = 'accepted' | 'rejected';
+
+export interface EnhancementReview {
+  status: EnhancementReviewStatus;
+  description: string;
+  category?: string;
+}
+
 export interface EnhanceImportRequest {
   importSessionHash: string;
   enhancements: TransactionEnhancementResult[];
-  minConfidenceScore: number;
   applyEnhancements: boolean;
 }
 
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { Transaction } from '../types';
+import { addCategories, buildTransactionsCsv } from './bulkActions';
+
+function transaction(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: '1',
+    date: '2025-03-14T00:00:00Z',
+    description: 'Supermarket',
+    amount: -42.5,
+    importedAt: '2025-03-15T08:00:00Z',
+    account: 'Checking',
+    categories: ['Groceries'],
+    ...overrides
+  };
+}
+
+describe('buildTransactionsCsv', () => {
+  it('marks manual and imported rows in the Source column', () => {
+    const csv = buildTransactionsCsv([
+      transaction({ isManual: true }),
+      transaction({ id: '2', isManual: false })
+    ]);
+
+    expect(csv.split('\r\n')).toEqual([
+      'Date,Description,Amount,Account,Source,Categories,Labels',
+      '2025-03-14,Supermarket,-42.50,Checking,Manual,Groceries,',
+      '2025-03-14,Supermarket,-42.50,Checking,Imported,Groceries,'
+    ]);
+  });
+
+  it('lists split allocations as the categories and quotes fields with commas', () => {
+    const csv = buildTransactionsCsv([
+      transaction({
+        description: 'Market, downtown',
+        splits: [{ categoryName: 'Groceries', amount: -30 }, { categoryName: 'Household', amount: -12.5 }]
+      })
+    ]);
+
+    expect(csv.split('\r\n')[1]).toBe('2025-03-14,"Market, downtown",-42.50,Checking,Imported,Groceries; Household,');
+  });
+});
+
+describe('addCategories', () => {
+  it('adds the missing categories after the current ones', () => {
+    const updated = addCategories(transaction({ category: 'Groceries', categories: ['Groceries'] }), ['Household', 'Groceries']);
+
+    expect(updated.categories).toEqual(['Groceries', 'Household']);
+    expect(updated.category).toBe('Groceries');
+  });
+
+  it('leaves split transactions unchanged', () => {
+    const split = transaction({
+      splits: [{ categoryName: 'Groceries', amount: -30 }, { categoryName: 'Household', amount: -12.5 }]
+    });
+
+    expect(addCategories(split, ['Dining'])).toBe(split);
+  });
+});
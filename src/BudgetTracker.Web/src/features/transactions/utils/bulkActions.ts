@@ -0,0 +1,103 @@
+import type { Transaction } from '../types';
+import { applyUpdate } from './transactionEdits';
+
+export const MAX_LABELS_LENGTH = 200;
+
+/** The API only snapshots this many rows, so larger bulk changes can't be undone */
+export const MAX_UNDOABLE_COUNT = 5000;
+
+/**
+ * Client mirrors of the bulk endpoints, shown while the undo toast is open
+ */
+export function withCategories(transaction: Transaction, categories: string[]): Transaction {
+  return { ...transaction, category: categories[0], categories };
+}
+
+export function addCategories(transaction: Transaction, names: string[]): Transaction {
+  if (isSplit(transaction)) return transaction;
+
+  const current = transaction.categories ?? [];
+  return withCategories(transaction, [...current, ...names.filter(name => !current.includes(name))]);
+}
+
+export function removeCategories(transaction: Transaction, names: string[]): Transaction {
+  const remaining = (transaction.categories ?? []).filter(category => !names.includes(category));
+  return withCategories(transaction, remaining.length > 0 ? remaining : ['Uncategorized']);
+}
+
+/**
+ * Bulk category changes skip split transactions, whose categories come from their allocations
+ */
+export function isSplit(transaction: Transaction): boolean {
+  return (transaction.splits?.length ?? 0) > 0;
+}
+
+export function splitLabels(labels: string | undefined): string[] {
+  const seen = new Set<string>();
+
+  return (labels ?? '')
+    .split(',')
+    .map(label => label.trim())
+    .filter(label => {
+      const key = label.toLowerCase();
+      if (!label || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Appends the labels that are not there yet. Returns undefined when the result would not fit,
+ * matching the server, which skips those rows.
+ */
+export function combineLabels(existing: string | undefined, labels: string): string | undefined {
+  const current = splitLabels(existing).map(label => label.toLowerCase());
+  const missing = splitLabels(labels).filter(label => !current.includes(label.toLowerCase()));
+
+  if (missing.length === 0) return existing ?? '';
+
+  const combined = existing?.trim() ? `${existing.trim()}, ${missing.join(', ')}` : missing.join(', ');
+  return combined.length > MAX_LABELS_LENGTH ? undefined : combined;
+}
+
+export function addLabels(transaction: Transaction, labels: string): Transaction {
+  const combined = combineLabels(transaction.labels, labels);
+  return combined === undefined ? transaction : applyUpdate(transaction, 'labels', combined);
+}
+
+export function withAccount(transaction: Transaction, account: string): Transaction {
+  return applyUpdate(transaction, 'account', account);
+}
+
+export function withReviewed(transaction: Transaction, isReviewed: boolean): Transaction {
+  return { ...transaction, isReviewed };
+}
+
+function toCsvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function buildTransactionsCsv(transactions: Transaction[]): string {
+  const header = ['Date', 'Description', 'Amount', 'Account', 'Source', 'Categories', 'Labels'];
+  const rows = transactions.map(transaction => [
+    transaction.date.slice(0, 10),
+    transaction.description,
+    transaction.amount.toFixed(2),
+    transaction.account,
+    transaction.isManual ? 'Manual' : 'Imported',
+    (transaction.splits?.length ? transaction.splits.map(split => split.categoryName) : transaction.categories ?? []).join('; '),
+    transaction.labels
+  ]);
+
+  return [header, ...rows].map(row => row.map(toCsvField).join(',')).join('\r\n');
+}
+
+export function downloadCsv(fileName: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,253 @@
+import { isValid, parse } from 'date-fns';
+import type { CsvColumnField, CsvColumnMapping, CsvImportSettings, CsvPreview, DecimalSeparator, ImportProfile } from '../types';
+
+export const CSV_COLUMN_FIELDS: CsvColumnField[] = ['Date', 'Description', 'Amount', 'Balance'];
+
+export const REQUIRED_CSV_COLUMN_FIELDS: CsvColumnField[] = ['Date', 'Description', 'Amount'];
+
+export const DELIMITER_OPTIONS = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' }
+];
+
+export const DATE_FORMAT_OPTIONS = [
+  'yyyy-MM-dd',
+  'MM/dd/yyyy',
+  'dd/MM/yyyy',
+  'dd.MM.yyyy',
+  'dd-MM-yyyy',
+  'yyyy/MM/dd',
+  'MM/dd/yy',
+  'dd/MM/yy'
+];
+
+const COLUMN_KEYWORDS: Record<CsvColumnField, string[]> = {
+  Date: ['date', 'transaction date', 'posting date', 'value date', 'txn date', 'data', 'data lanc', 'fecha', 'datum'],
+  Description: ['description', 'memo', 'details', 'transaction description', 'reference', 'descricao', 'descripcion', 'beschreibung', 'payee'],
+  Amount: ['amount', 'transaction amount', 'value', 'valor', 'importe', 'betrag', 'montant'],
+  Balance: ['balance', 'running balance', 'account balance', 'saldo', 'kontostand', 'solde']
+};
+
+const PREVIEW_ROW_LIMIT = 10;
+
+/**
+ * Split a single CSV line into fields, honouring double-quoted values
+ */
+export function splitCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  fields.push(current.trim());
+  return fields;
+}
+
+/**
+ * Pick the delimiter that splits the sample lines into the same, largest number of columns
+ */
+export function detectDelimiter(lines: string[]): string {
+  let best = ',';
+  let bestScore = 0;
+
+  for (const { value } of DELIMITER_OPTIONS) {
+    const counts = lines.map(line => splitCsvLine(line, value).length);
+    const columns = counts[0] ?? 1;
+    if (columns < 2) continue;
+
+    const consistent = counts.filter(count => count === columns).length;
+    const score = consistent * columns;
+    if (score > bestScore) {
+      best = value;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Guess whether amounts use "1,234.56" or "1.234,56" style notation
+ */
+export function detectDecimalSeparator(values: string[]): DecimalSeparator {
+  let commaVotes = 0;
+  let dotVotes = 0;
+
+  for (const value of values) {
+    const cleaned = value.replace(/[^\d.,-]/g, '');
+    if (/,\d{1,2}$/.test(cleaned)) commaVotes++;
+    else if (/\.\d{1,2}$/.test(cleaned)) dotVotes++;
+  }
+
+  return commaVotes > dotVotes ? ',' : '.';
+}
+
+/**
+ * Find the first date format that parses every sample value
+ */
+export function detectDateFormat(values: string[]): string {
+  const samples = values.filter(v => v.trim().length > 0);
+  if (samples.length === 0) return DATE_FORMAT_OPTIONS[0];
+
+  const matches = DATE_FORMAT_OPTIONS.filter(format =>
+    samples.every(value => parseDate(value, format) !== null)
+  );
+
+  return matches[0] ?? DATE_FORMAT_OPTIONS[0];
+}
+
+/**
+ * Parse a date string with an explicit format, returning null when it does not match
+ */
+export function parseDate(value: string, format: string): Date | null {
+  const trimmed = value.trim();
+  if (trimmed.length !== format.length) return null;
+
+  const date = parse(trimmed, format, new Date());
+  return isValid(date) ? date : null;
+}
+
+/**
+ * Parse an amount string using the given decimal separator, ignoring currency symbols and grouping
+ */
+export function parseAmount(value: string, decimalSeparator: DecimalSeparator): number | null {
+  const groupSeparator = decimalSeparator === ',' ? '.' : ',';
+  const normalized = value
+    .replace(/[\s$€£¥]/g, '')
+    .split(groupSeparator).join('')
+    .replace(decimalSeparator, '.');
+
+  if (!/^[-+]?\d+(\.\d+)?$/.test(normalized)) return null;
+  return Number(normalized);
+}
+
+function normalizeHeader(header: string): string {
+  return header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, '')
+    .trim();
+}
+
+/**
+ * Check that every column the importer needs has been mapped
+ */
+export function getMissingColumnFields(mapping: CsvColumnMapping): CsvColumnField[] {
+  return REQUIRED_CSV_COLUMN_FIELDS.filter(field => !mapping[field]);
+}
+
+/**
+ * Map headers to transaction fields, preferring exact keyword matches over partial ones
+ */
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+  const mapping: CsvColumnMapping = {};
+  const used = new Set<string>();
+  const normalized = headers.map(normalizeHeader);
+
+  const assign = (matches: (header: string, keyword: string) => boolean) => {
+    for (const field of CSV_COLUMN_FIELDS) {
+      if (mapping[field]) continue;
+
+      const index = normalized.findIndex((header, i) =>
+        !used.has(headers[i]) && COLUMN_KEYWORDS[field].some(keyword => matches(header, keyword))
+      );
+
+      if (index >= 0) {
+        mapping[field] = headers[index];
+        used.add(headers[index]);
+      }
+    }
+  };
+
+  assign((header, keyword) => header === keyword);
+  assign((header, keyword) => header.startsWith(keyword));
+
+  return mapping;
+}
+
+/**
+ * Build a stable fingerprint of a header row so files from the same bank export can be recognised
+ */
+export function getHeaderSignature(headers: string[]): string {
+  return headers.map(normalizeHeader).join('|');
+}
+
+/**
+ * Find the saved import profile whose header fingerprint matches the given headers
+ */
+export function findMatchingProfile(profiles: ImportProfile[], headers: string[]): ImportProfile | undefined {
+  const signature = getHeaderSignature(headers);
+  return profiles.find(profile => profile.headerSignature === signature);
+}
+
+/**
+ * Resolve the CSV settings a profile implies, keeping detected values for anything the profile leaves blank
+ */
+export function getProfileSettings(profile: ImportProfile, preview: CsvPreview): CsvImportSettings {
+  const hasMapping = Object.keys(profile.columnMappings).length > 0;
+  return {
+    delimiter: profile.delimiter,
+    decimalSeparator: profile.decimalSeparator,
+    dateFormat: profile.dateFormat ?? preview.dateFormat,
+    columnMapping: hasMapping ? profile.columnMappings : preview.columnMapping
+  };
+}
+
+interface CsvPreviewOptions {
+  delimiter?: string;
+  rowLimit?: number;
+}
+
+/**
+ * Parse the start of a CSV file and guess its delimiter, number format, date format and column mapping
+ */
+export function buildCsvPreview(text: string, { delimiter: forcedDelimiter, rowLimit = PREVIEW_ROW_LIMIT }: CsvPreviewOptions = {}): CsvPreview {
+  const lines = text
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter(line => line.trim().length > 0);
+
+  const delimiter = forcedDelimiter ?? detectDelimiter(lines.slice(0, 20));
+  const headers = lines.length > 0 ? splitCsvLine(lines[0], delimiter) : [];
+  const dataLines = lines.slice(1);
+  const rows = dataLines.slice(0, rowLimit).map(line => splitCsvLine(line, delimiter));
+  const columnMapping = guessColumnMapping(headers);
+
+  const columnValues = (column?: string) => {
+    const index = column ? headers.indexOf(column) : -1;
+    return index >= 0 ? rows.map(row => row[index] ?? '') : [];
+  };
+
+  return {
+    headers,
+    rows,
+    totalRows: dataLines.length,
+    delimiter,
+    decimalSeparator: detectDecimalSeparator([
+      ...columnValues(columnMapping.Amount),
+      ...columnValues(columnMapping.Balance)
+    ]),
+    dateFormat: detectDateFormat(columnValues(columnMapping.Date)),
+    columnMapping
+  };
+}
@@ -0,0 +1,56 @@
+import type { EnhancementReview, TransactionEnhancementResult } from '../types';
+
+export type ConfidenceBand = 'high' | 'medium' | 'low';
+
+export const CONFIDENCE_BANDS: { value: ConfidenceBand; label: string }[] = [
+  { value: 'high', label: 'High (80%+)' },
+  { value: 'medium', label: 'Medium (60-79%)' },
+  { value: 'low', label: 'Low (<60%)' }
+];
+
+export function getConfidenceBand(confidenceScore: number): ConfidenceBand {
+  if (confidenceScore >= 0.8) return 'high';
+  if (confidenceScore >= 0.6) return 'medium';
+  return 'low';
+}
+
+/**
+ * Build the initial review state, accepting the high-confidence suggestions. Only rows left accepted
+ * after review are sent to the server.
+ */
+export function createEnhancementReviews(
+  enhancements: TransactionEnhancementResult[]
+): Record<number, EnhancementReview> {
+  return Object.fromEntries(enhancements.map(enhancement => [
+    enhancement.transactionIndex,
+    {
+      status: getConfidenceBand(enhancement.confidenceScore) === 'high' ? 'accepted' : 'rejected',
+      description: enhancement.enhancedDescription,
+      category: enhancement.suggestedCategory
+    }
+  ]));
+}
+
+export function isEditedReview(enhancement: TransactionEnhancementResult, review: EnhancementReview): boolean {
+  return review.description !== enhancement.enhancedDescription ||
+    (review.category ?? '') !== (enhancement.suggestedCategory ?? '');
+}
+
+/**
+ * The accepted suggestions, with inline edits applied, ready to send in an enhance request
+ */
+export function getAcceptedEnhancements(
+  enhancements: TransactionEnhancementResult[],
+  reviews: Record<number, EnhancementReview>
+): TransactionEnhancementResult[] {
+  return enhancements
+    .filter(enhancement => reviews[enhancement.transactionIndex]?.status === 'accepted')
+    .map(enhancement => {
+      const review = reviews[enhancement.transactionIndex];
+      return {
+        ...enhancement,
+        enhancedDescription: review.description.trim() || enhancement.originalDescription,
+        suggestedCategory: review.category?.trim() || undefined
+      };
+    });
+}
@@ -0,0 +1,43 @@
+const VALID_EXTENSIONS = ['.csv', '.png', '.jpg', '.jpeg'];
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+
+/** Whether the file is a CSV export rather than a statement image. */
+export function isCsvFile(fileName: string): boolean {
+  return fileName.toLowerCase().endsWith('.csv');
+}
+
+/** Whether the file is a bank statement image that goes through AI extraction. */
+export function isImageFile(fileName: string): boolean {
+  return /\.(png|jpg|jpeg)$/.test(fileName.toLowerCase());
+}
+
+/** Returns a user-facing error when the file can't be imported, otherwise null. */
+export function validateImportFile(file: File): string | null {
+  const fileName = file.name.toLowerCase();
+
+  if (!VALID_EXTENSIONS.some(ext => fileName.endsWith(ext))) {
+    return 'Please select a CSV file or bank statement image (PNG, JPG, JPEG)';
+  }
+
+  if (file.size > MAX_FILE_SIZE) {
+    return 'File size must be less than 10MB';
+  }
+
+  return null;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+}
+
+export function getFileTypeIcon(fileName: string): string {
+  return isImageFile(fileName) ? '🖼️' : '📊';
+}
+
+export function getFileTypeLabel(fileName: string): string {
+  return isImageFile(fileName) ? 'Bank Statement Image' : 'CSV Bank Statement';
+}
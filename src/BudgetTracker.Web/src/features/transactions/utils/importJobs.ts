@@ -0,0 +1,56 @@
+import type { ImportJob, ImportJobPhase } from '../types';
+import { isImageFile } from './importFiles';
+
+export const ACTIVE_IMPORT_JOB_STORAGE_KEY = 'budget-tracker:import-job';
+
+// Progress bar position at the start of each phase; parsing fills the gap up to checking duplicates
+const PHASE_PROGRESS: Record<ImportJobPhase, number> = {
+  Queued: 0,
+  Detecting: 5,
+  Parsing: 10,
+  Extracting: 10,
+  CheckingDuplicates: 65,
+  Enhancing: 75,
+  Saving: 90,
+  Complete: 100
+};
+
+export function isImportJobFinished(job: ImportJob): boolean {
+  return job.status === 'Completed' || job.status === 'Failed' || job.status === 'Cancelled';
+}
+
+export function getImportJobProgress(job: ImportJob): number {
+  if (job.phase === 'Parsing' && job.totalRows) {
+    const parsed = Math.min(job.processedRows / job.totalRows, 1);
+    return Math.round(PHASE_PROGRESS.Parsing + parsed * (PHASE_PROGRESS.CheckingDuplicates - PHASE_PROGRESS.Parsing));
+  }
+
+  return PHASE_PROGRESS[job.phase];
+}
+
+export function getImportJobPhaseLabel(job: ImportJob): string {
+  const isImage = isImageFile(job.fileName);
+
+  switch (job.phase) {
+    case 'Queued':
+      return 'Waiting to start...';
+    case 'Detecting':
+      return 'Detecting CSV structure...';
+    case 'Parsing':
+      return job.totalRows
+        ? `Parsing rows (${Math.min(job.processedRows, job.totalRows)} of ${job.totalRows})...`
+        : `Parsing rows (${job.processedRows})...`;
+    case 'Extracting':
+      return 'Extracting transactions from image using AI...';
+    case 'CheckingDuplicates':
+      return 'Checking for duplicate transactions...';
+    case 'Enhancing':
+      return 'Enhancing transaction descriptions with AI...';
+    case 'Saving':
+      return `Saving ${job.processedRows} ${isImage ? 'extracted' : 'parsed'} rows...`;
+    case 'Complete':
+      return 'Import completed successfully!';
+    default:
+      return 'Processing...';
+  }
+}
@@ -0,0 +1,72 @@
+import { format } from 'date-fns';
+import type { CreateTransactionRequest } from '../types';
+import { validateTransactionField } from './transactionEdits';
+
+export const DEFAULT_MANUAL_ACCOUNT = 'Cash';
+
+/**
+ * A manual row as typed into the form. The amount is entered without a sign and
+ * `isIncome` decides the direction, since most hand-entered rows are cash spending.
+ */
+export interface ManualTransactionDraft {
+  key: string;
+  date: string;
+  description: string;
+  amount: string;
+  isIncome: boolean;
+  account: string;
+  categories: string[];
+  labels: string;
+}
+
+export type ManualTransactionErrors = Partial<Record<'date' | 'description' | 'amount' | 'account' | 'labels', string>>;
+
+let draftCounter = 0;
+
+export function createManualDraft(defaults: Partial<ManualTransactionDraft> = {}): ManualTransactionDraft {
+  draftCounter += 1;
+
+  return {
+    date: format(new Date(), 'yyyy-MM-dd'),
+    description: '',
+    amount: '',
+    isIncome: false,
+    account: DEFAULT_MANUAL_ACCOUNT,
+    categories: [],
+    labels: '',
+    ...defaults,
+    key: `draft-${draftCounter}`
+  };
+}
+
+export function isBlankDraft(draft: ManualTransactionDraft): boolean {
+  return !draft.description.trim() && !draft.amount.trim();
+}
+
+export function validateManualDraft(draft: ManualTransactionDraft): ManualTransactionErrors {
+  const errors: ManualTransactionErrors = {};
+
+  for (const field of ['date', 'description', 'amount', 'account', 'labels'] as const) {
+    const error = validateTransactionField(field, draft[field]);
+    if (error) errors[field] = error;
+  }
+
+  if (!errors.amount && Number(draft.amount) <= 0) {
+    errors.amount = 'Enter an amount greater than zero';
+  }
+
+  return errors;
+}
+
+export function toCreateTransactionRequest(draft: ManualTransactionDraft): CreateTransactionRequest {
+  const amount = Number(draft.amount.trim());
+
+  return {
+    date: draft.date,
+    description: draft.description.trim(),
+    amount: draft.isIncome ? amount : -amount,
+    account: draft.account.trim(),
+    categories: draft.categories.length > 0 ? draft.categories : undefined,
+    labels: draft.labels.trim() || undefined
+  };
+}
@@ -0,0 +1,197 @@
+import type { ImportJob, ImportJobClient, ImportJobPhase, ImportResult } from '../types';
+import { buildCsvPreview } from './csvPreview';
+import { isImageFile } from './importFiles';
+import { isImportJobFinished } from './importJobs';
+
+/**
+ * Local stand-in for the import job endpoints, enabled with VITE_MOCK_IMPORT_JOBS=true.
+ * Job state is derived from the time since it started, so watching resumes after a refresh.
+ * Names containing "fail" fail while parsing. Results are not saved anywhere, so the
+ * duplicate and enhancement steps that follow still need the real API.
+ */
+
+const STORAGE_PREFIX = 'budget-tracker:mock-import-job:';
+const WATCH_INTERVAL = 300;
+const IMAGE_ROW_COUNT = 12;
+const MAX_MOCK_ROWS = 200;
+
+interface MockJobRecord {
+  id: string;
+  fileName: string;
+  account: string;
+  startedAt: number;
+  cancelledAt?: number;
+  descriptions: string[];
+  totalRows: number;
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function loadRecord(jobId: string): MockJobRecord {
+  const stored = sessionStorage.getItem(`${STORAGE_PREFIX}${jobId}`);
+  if (!stored) {
+    throw new Error('Import job not found');
+  }
+  return JSON.parse(stored) as MockJobRecord;
+}
+
+function saveRecord(record: MockJobRecord) {
+  sessionStorage.setItem(`${STORAGE_PREFIX}${record.id}`, JSON.stringify(record));
+}
+
+function getTimeline(record: MockJobRecord): { phase: ImportJobPhase; duration: number }[] {
+  const firstPhase: ImportJobPhase = isImageFile(record.fileName) ? 'Extracting' : 'Detecting';
+
+  return [
+    { phase: 'Queued', duration: 500 },
+    { phase: firstPhase, duration: firstPhase === 'Extracting' ? 4000 : 1000 },
+    ...(firstPhase === 'Detecting'
+      ? [{ phase: 'Parsing' as ImportJobPhase, duration: Math.min(record.totalRows * 40, 4000) }]
+      : []),
+    { phase: 'CheckingDuplicates', duration: 800 },
+    { phase: 'Enhancing', duration: 2000 },
+    { phase: 'Saving', duration: 800 }
+  ];
+}
+
+function createResult(record: MockJobRecord): ImportResult {
+  const importSessionHash = `MOCK${record.id.slice(0, 8).toUpperCase()}`;
+
+  return {
+    importedCount: record.totalRows,
+    failedCount: 0,
+    errors: [],
+    importSessionHash,
+    detectionMethod: isImageFile(record.fileName) ? undefined : 'RuleBased',
+    detectionConfidence: isImageFile(record.fileName) ? undefined : 95,
+    duplicateCount: 0,
+    duplicates: [],
+    ruleCategorizedCount: 0,
+    enhancements: record.descriptions.map((description, index) => ({
+      transactionId: `${record.id}-${index}`,
+      importSessionHash,
+      transactionIndex: index,
+      originalDescription: description,
+      enhancedDescription: description
+        .toLowerCase()
+        .replace(/\b\w/g, letter => letter.toUpperCase()),
+      suggestedCategory: undefined,
+      confidenceScore: [0.95, 0.75, 0.45][index % 3]
+    }))
+  };
+}
+
+function toJob(record: MockJobRecord): ImportJob {
+  const now = record.cancelledAt ?? Date.now();
+  const job: ImportJob = {
+    id: record.id,
+    fileName: record.fileName,
+    account: record.account,
+    status: 'Running',
+    phase: 'Queued',
+    processedRows: 0,
+    totalRows: record.totalRows,
+    createdAt: new Date(record.startedAt).toISOString(),
+    updatedAt: new Date(now).toISOString()
+  };
+
+  let elapsed = now - record.startedAt;
+  for (const { phase, duration } of getTimeline(record)) {
+    job.phase = phase;
+
+    if (phase === 'Parsing') {
+      job.processedRows = duration > 0
+        ? Math.min(Math.floor((elapsed / duration) * record.totalRows), record.totalRows)
+        : record.totalRows;
+
+      if (/fail/i.test(record.fileName) && job.processedRows >= record.totalRows / 2) {
+        return { ...job, status: 'Failed', error: `Row ${job.processedRows}: Failed to parse transaction` };
+      }
+    } else if (phase !== 'Queued' && phase !== 'Detecting' && phase !== 'Extracting') {
+      job.processedRows = record.totalRows;
+    }
+
+    if (elapsed < duration) {
+      return record.cancelledAt ? { ...job, status: 'Cancelled' } : job;
+    }
+    elapsed -= duration;
+  }
+
+  return {
+    ...job,
+    status: 'Completed',
+    phase: 'Complete',
+    processedRows: record.totalRows,
+    result: createResult(record)
+  };
+}
+
+export const mockImportJobClient: ImportJobClient = {
+  async start({ formData, onUploadProgress }) {
+    const file = formData.get('file') as File;
+    let descriptions: string[];
+
+    if (isImageFile(file.name)) {
+      descriptions = Array.from({ length: IMAGE_ROW_COUNT }, (_, index) => `CARD PURCHASE ${index + 1}`);
+    } else {
+      const preview = buildCsvPreview(await file.text(), { rowLimit: MAX_MOCK_ROWS });
+      const descriptionIndex = preview.columnMapping.Description
+        ? preview.headers.indexOf(preview.columnMapping.Description)
+        : -1;
+      descriptions = preview.rows.map((row, index) => row[descriptionIndex] ?? `Row ${index + 1}`);
+    }
+
+    onUploadProgress?.({ loaded: file.size, total: file.size });
+    await delay(200);
+
+    const record: MockJobRecord = {
+      id: crypto.randomUUID(),
+      fileName: file.name,
+      account: String(formData.get('account') ?? ''),
+      startedAt: Date.now(),
+      descriptions,
+      totalRows: descriptions.length
+    };
+    saveRecord(record);
+
+    return toJob(record);
+  },
+
+  async get(jobId) {
+    return toJob(loadRecord(jobId));
+  },
+
+  async cancel(jobId) {
+    const record = loadRecord(jobId);
+    if (!isImportJobFinished(toJob(record))) {
+      saveRecord({ ...record, cancelledAt: Date.now() });
+    }
+    return toJob(loadRecord(jobId));
+  },
+
+  watch(jobId, onUpdate, onError) {
+    let lastUpdate = '';
+
+    const tick = () => {
+      try {
+        const job = toJob(loadRecord(jobId));
+        const update = `${job.status}:${job.phase}:${job.processedRows}`;
+        if (update !== lastUpdate) {
+          lastUpdate = update;
+          onUpdate(job);
+        }
+        if (isImportJobFinished(job)) {
+          window.clearInterval(timer);
+        }
+      } catch (error) {
+        window.clearInterval(timer);
+        onError(error);
+      }
+    };
+
+    const timer = window.setInterval(tick, WATCH_INTERVAL);
+    tick();
+
+    return () => window.clearInterval(timer);
+  }
+};
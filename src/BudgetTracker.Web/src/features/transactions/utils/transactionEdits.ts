@@ -0,0 +1,149 @@
+import { formatAmount, formatDate } from '../../../shared/utils/formatters';
+import type { Transaction, TransactionEditableField, UpdateTransactionRequest } from '../types';
+
+export const EDITABLE_FIELDS: { field: TransactionEditableField; label: string; inputType: 'text' | 'date' | 'number' }[] = [
+  { field: 'description', label: 'Description', inputType: 'text' },
+  { field: 'date', label: 'Date', inputType: 'date' },
+  { field: 'amount', label: 'Amount', inputType: 'number' },
+  { field: 'account', label: 'Account', inputType: 'text' },
+  { field: 'labels', label: 'Labels', inputType: 'text' }
+];
+
+const MAX_LENGTHS: Partial<Record<TransactionEditableField, number>> = {
+  description: 500,
+  account: 100,
+  labels: 200
+};
+
+/**
+ * Dates are stored as UTC midnight, so the calendar day is read straight from the ISO string
+ * rather than through the local timezone
+ */
+function toDateInputValue(date: string): string {
+  return date.slice(0, 10);
+}
+
+export function getFieldInputValue(transaction: Transaction, field: TransactionEditableField): string {
+  switch (field) {
+    case 'date':
+      return toDateInputValue(transaction.date);
+    case 'amount':
+      return transaction.amount.toFixed(2);
+    case 'labels':
+      return transaction.labels ?? '';
+    default:
+      return transaction[field];
+  }
+}
+
+export function getOriginalInputValue(transaction: Transaction, field: TransactionEditableField): string | undefined {
+  const original = transaction.originalValues?.[field];
+  if (original === null || original === undefined) return undefined;
+
+  switch (field) {
+    case 'date':
+      return toDateInputValue(String(original));
+    case 'amount':
+      return Number(original).toFixed(2);
+    default:
+      return String(original);
+  }
+}
+
+export function formatFieldValue(field: TransactionEditableField, value: string | number | null | undefined): string {
+  if (value === null || value === undefined || value === '') return '—';
+
+  switch (field) {
+    case 'date':
+      return formatDate(String(value));
+    case 'amount':
+      return formatAmount(Number(value));
+    default:
+      return String(value);
+  }
+}
+
+export function isFieldEdited(transaction: Transaction, field: TransactionEditableField): boolean {
+  const original = transaction.originalValues?.[field];
+  return original !== null && original !== undefined;
+}
+
+export function isTransactionEdited(transaction: Transaction): boolean {
+  return EDITABLE_FIELDS.some(({ field }) => isFieldEdited(transaction, field));
+}
+
+export function validateTransactionField(field: TransactionEditableField, value: string): string | undefined {
+  const trimmed = value.trim();
+
+  if ((field === 'description' || field === 'account') && !trimmed) {
+    return `${field === 'description' ? 'Description' : 'Account'} is required`;
+  }
+
+  const maxLength = MAX_LENGTHS[field];
+  if (maxLength && trimmed.length > maxLength) {
+    return `Must be ${maxLength} characters or fewer`;
+  }
+
+  if (field === 'amount') {
+    if (!/^-?\d+(\.\d{1,2})?$/.test(trimmed)) {
+      return 'Enter an amount with up to two decimal places';
+    }
+    if (Math.abs(Number(trimmed)) >= 1e16) {
+      return 'Amount is too large';
+    }
+  }
+
+  if (field === 'date') {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(trimmed) || Number.isNaN(new Date(trimmed).getTime())) {
+      return 'Enter a valid date';
+    }
+  }
+
+  return undefined;
+}
+
+export function buildUpdateRequest(
+  transaction: Transaction,
+  field: TransactionEditableField,
+  value: string
+): UpdateTransactionRequest {
+  const trimmed = value.trim();
+
+  return {
+    date: field === 'date' ? trimmed : toDateInputValue(transaction.date),
+    description: field === 'description' ? trimmed : transaction.description,
+    amount: field === 'amount' ? Number(trimmed) : transaction.amount,
+    account: field === 'account' ? trimmed : transaction.account,
+    labels: field === 'labels' ? trimmed || undefined : transaction.labels
+  };
+}
+
+/**
+ * Mirror of the server's update so the row changes before the request completes.
+ * The imported value is kept on the first edit and dropped when the field is set back to it.
+ */
+export function applyUpdate(transaction: Transaction, field: TransactionEditableField, value: string): Transaction {
+  const request = buildUpdateRequest(transaction, field, value);
+  const current = getFieldInputValue(transaction, field);
+  const next = field === 'amount' ? request.amount.toFixed(2) : String(request[field] ?? '');
+
+  let original = transaction.originalValues?.[field] ?? null;
+  if (current !== next && original === null) {
+    original = field === 'amount' ? transaction.amount : field === 'date' ? transaction.date : current;
+  }
+
+  const originalValues = { ...transaction.originalValues, [field]: original };
+  if (getOriginalInputValue({ ...transaction, originalValues }, field) === next) {
+    originalValues[field] = null;
+  }
+
+  return {
+    ...transaction,
+    date: field === 'date' ? `${request.date}T00:00:00Z` : transaction.date,
+    description: request.description,
+    amount: request.amount,
+    account: request.account,
+    labels: request.labels,
+    originalValues
+  };
+}
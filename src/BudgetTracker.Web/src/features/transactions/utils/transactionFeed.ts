@@ -0,0 +1,107 @@
+import type { Transaction } from '../types';
+
+/**
+ * The first row of a loaded batch and the cursor it was requested with, so rows further down
+ * the list can be reloaded without starting again from the top
+ */
+export interface FeedAnchor {
+  id: string;
+  cursor: string | null;
+}
+
+/**
+ * The rows to reload: from the nearest batch start at or above the first row on screen, through
+ * the last one. Without an anchor above it, the reload starts from the top.
+ */
+export interface RefreshWindow {
+  cursor: string | null;
+  start: number;
+  count: number;
+}
+
+/**
+ * The infinite-scroll list as it was when the user left the page, so coming back shows the same
+ * rows, selection and scroll position instead of starting over at the top
+ */
+export interface SavedTransactionFeed {
+  key: string;
+  items: Transaction[];
+  totalCount: number;
+  nextCursor: string | null;
+  anchors: FeedAnchor[];
+  rowHeights: Map<string, number>;
+  scrollY: number;
+  selectedIds: string[];
+}
+
+// Kept in memory only, so a reload starts a fresh list
+let savedFeed: SavedTransactionFeed | undefined;
+let feedSearch = '';
+
+/**
+ * Identifies the rows a feed holds: its filters and sort order. The page number doesn't apply.
+ */
+export function getFeedKey(searchParams: URLSearchParams): string {
+  const params = new URLSearchParams(searchParams);
+  params.delete('page');
+  params.delete('pageSize');
+  params.sort();
+  return params.toString();
+}
+
+export function getSavedFeed(key: string): SavedTransactionFeed | undefined {
+  return savedFeed?.key === key ? savedFeed : undefined;
+}
+
+export function saveFeed(feed: SavedTransactionFeed) {
+  savedFeed = feed;
+}
+
+export function getRefreshWindow(
+  items: Transaction[],
+  anchors: FeedAnchor[],
+  visible: { firstId?: string; lastId?: string },
+  limits: { min: number; max: number }
+): RefreshWindow {
+  const first = Math.max(items.findIndex(transaction => transaction.id === visible.firstId), 0);
+  const last = Math.max(items.findIndex(transaction => transaction.id === visible.lastId), first);
+
+  let range: RefreshWindow = { cursor: null, start: 0, count: 0 };
+  for (const anchor of anchors) {
+    const start = items.findIndex(transaction => transaction.id === anchor.id);
+    if (start > range.start && start <= first) {
+      range = { cursor: anchor.cursor, start, count: 0 };
+    }
+  }
+
+  return { ...range, count: Math.min(Math.max(last + 1 - range.start, limits.min), limits.max) };
+}
+
+/**
+ * Swaps the reloaded rows in for the ones the window covered. Rows outside it keep their objects,
+ * so edits layered over them stay. When the reload reached the end of the list, the rows after the
+ * window are gone.
+ */
+export function mergeRefreshedRows(
+  items: Transaction[],
+  range: RefreshWindow,
+  refreshed: Transaction[],
+  isEnd: boolean
+): Transaction[] {
+  const ids = new Set(refreshed.map(transaction => transaction.id));
+  const before = items.slice(0, range.start).filter(transaction => !ids.has(transaction.id));
+  const after = isEnd ? [] : items.slice(range.start + range.count).filter(transaction => !ids.has(transaction.id));
+
+  return [...before, ...refreshed, ...after];
+}
+
+export function rememberFeedSearch(search: string) {
+  feedSearch = search;
+}
+
+/**
+ * The filters of the infinite-scroll list, for links back to the transactions page
+ */
+export function getFeedSearch(): string {
+  return feedSearch;
+}
@@ -0,0 +1,115 @@
+import { format, parseISO, startOfMonth, startOfYear, subDays } from 'date-fns';
+import type { GetTransactionBatchParams, GetTransactionsParams, TransactionFilterCriteria, TransactionTypeFilter } from '../types';
+import { parseSortDirection, parseSortKey } from './transactionTable';
+
+export type DateRangePreset = 'this-month' | 'last-90-days' | 'this-year';
+
+export const DATE_RANGE_PRESETS: { value: DateRangePreset; label: string }[] = [
+  { value: 'this-month', label: 'This month' },
+  { value: 'last-90-days', label: 'Last 90 days' },
+  { value: 'this-year', label: 'This year' }
+];
+
+export const TRANSACTION_TYPE_OPTIONS: { value: TransactionTypeFilter | ''; label: string }[] = [
+  { value: '', label: 'All' },
+  { value: 'income', label: 'Income' },
+  { value: 'expense', label: 'Expenses' }
+];
+
+/**
+ * Search params that narrow the transaction list; paging and sorting params are not filters
+ */
+export const TRANSACTION_FILTER_PARAMS = [
+  'search',
+  'category',
+  'excludeCategory',
+  'account',
+  'excludeAccount',
+  'dateFrom',
+  'dateTo',
+  'minAmount',
+  'maxAmount',
+  'type'
+] as const;
+
+const toDateParam = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Presets resolve to fixed dates so a bookmarked or shared link keeps showing the same period
+ */
+export function getDateRangePreset(preset: DateRangePreset, today = new Date()): { dateFrom: string; dateTo: string } {
+  switch (preset) {
+    case 'this-month':
+      return { dateFrom: toDateParam(startOfMonth(today)), dateTo: toDateParam(today) };
+    case 'last-90-days':
+      return { dateFrom: toDateParam(subDays(today, 89)), dateTo: toDateParam(today) };
+    case 'this-year':
+      return { dateFrom: toDateParam(startOfYear(today)), dateTo: toDateParam(today) };
+  }
+}
+
+export function formatDateParam(value: string): string {
+  return format(parseISO(value), 'MMM dd, yyyy');
+}
+
+export function findDateRangePreset(dateFrom: string, dateTo: string, today = new Date()): DateRangePreset | undefined {
+  return DATE_RANGE_PRESETS.find(({ value }) => {
+    const range = getDateRangePreset(value, today);
+    return range.dateFrom === dateFrom && range.dateTo === dateTo;
+  })?.value;
+}
+
+function parseAmountParam(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+}
+
+function parseDateParam(value: string | null): string | undefined {
+  return value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined;
+}
+
+function getListParam(searchParams: URLSearchParams, key: string): string[] | undefined {
+  const values = searchParams.getAll(key).filter(Boolean);
+  return values.length > 0 ? values : undefined;
+}
+
+export function getTransactionParams(searchParams: URLSearchParams): GetTransactionsParams {
+  return {
+    page: parseInt(searchParams.get('page') || '1', 10),
+    pageSize: parseInt(searchParams.get('pageSize') || '20', 10),
+    ...getTransactionBatchParams(searchParams)
+  };
+}
+
+/**
+ * The list criteria and sort order, without paging, as used by the infinite-scroll list
+ */
+export function getTransactionBatchParams(searchParams: URLSearchParams): GetTransactionBatchParams {
+  return {
+    ...getFilterCriteria(searchParams),
+    sortBy: parseSortKey(searchParams.get('sortBy')),
+    sortDirection: parseSortDirection(searchParams.get('sortDirection'))
+  };
+}
+
+export function getFilterCriteria(searchParams: URLSearchParams): TransactionFilterCriteria {
+  const type = searchParams.get('type');
+
+  return {
+    search: searchParams.get('search')?.trim() || undefined,
+    categories: getListParam(searchParams, 'category'),
+    excludeCategories: getListParam(searchParams, 'excludeCategory'),
+    accounts: getListParam(searchParams, 'account'),
+    excludeAccounts: getListParam(searchParams, 'excludeAccount'),
+    dateFrom: parseDateParam(searchParams.get('dateFrom')),
+    dateTo: parseDateParam(searchParams.get('dateTo')),
+    minAmount: parseAmountParam(searchParams.get('minAmount')),
+    maxAmount: parseAmountParam(searchParams.get('maxAmount')),
+    type: type === 'income' || type === 'expense' ? type : undefined
+  };
+}
+
+export function hasTransactionFilters(searchParams: URLSearchParams): boolean {
+  return TRANSACTION_FILTER_PARAMS.some(key => searchParams.has(key));
+}
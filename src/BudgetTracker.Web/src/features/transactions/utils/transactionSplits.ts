@@ -0,0 +1,94 @@
+import type { Transaction, TransactionSplit } from '../types';
+
+/**
+ * A split row as typed into the editor. Amounts are entered unsigned and take the
+ * transaction's sign when saved.
+ */
+export interface SplitDraft {
+  key: string;
+  categoryName: string;
+  amount: string;
+}
+
+let splitDraftCounter = 0;
+
+function createSplitDraft(categoryName = '', amount = ''): SplitDraft {
+  splitDraftCounter += 1;
+  return { key: `split-${splitDraftCounter}`, categoryName, amount };
+}
+
+// Work in cents so allocations like 33.33 + 33.33 + 33.34 add up exactly
+function toCents(value: number): number {
+  return Math.round(value * 100);
+}
+
+export function hasSplits(transaction: Transaction): boolean {
+  return (transaction.splits ?? []).length > 0;
+}
+
+export function createSplitDrafts(transaction: Transaction): SplitDraft[] {
+  if (hasSplits(transaction)) {
+    return transaction.splits!.map(split => createSplitDraft(split.categoryName, Math.abs(split.amount).toFixed(2)));
+  }
+
+  const primary = transaction.categories?.find(category => category !== 'Uncategorized') ?? '';
+  return [
+    createSplitDraft(primary, Math.abs(transaction.amount).toFixed(2)),
+    createSplitDraft()
+  ];
+}
+
+export function addSplitDraft(drafts: SplitDraft[]): SplitDraft[] {
+  return [...drafts, createSplitDraft()];
+}
+
+/**
+ * Unallocated amount in cents; negative when the rows add up to more than the transaction
+ */
+export function getRemainingCents(transaction: Transaction, drafts: SplitDraft[]): number {
+  const allocated = drafts.reduce((sum, draft) => sum + toCents(Number(draft.amount) || 0), 0);
+  return toCents(Math.abs(transaction.amount)) - allocated;
+}
+
+export function validateSplitDrafts(transaction: Transaction, drafts: SplitDraft[]): string | undefined {
+  if (drafts.length < 2) {
+    return 'A split needs at least two allocations';
+  }
+
+  if (drafts.some(draft => !draft.categoryName.trim())) {
+    return 'Each allocation needs a category';
+  }
+
+  const names = drafts.map(draft => draft.categoryName.trim().toLowerCase());
+  if (new Set(names).size !== names.length) {
+    return 'Each category can only be used once';
+  }
+
+  if (drafts.some(draft => !/^\d+(\.\d{1,2})?$/.test(draft.amount.trim()) || Number(draft.amount) <= 0)) {
+    return 'Each allocation needs an amount greater than zero';
+  }
+
+  const remaining = getRemainingCents(transaction, drafts);
+  if (remaining !== 0) {
+    return remaining > 0
+      ? `${(remaining / 100).toFixed(2)} is still unallocated`
+      : `Allocations exceed the total by ${(-remaining / 100).toFixed(2)}`;
+  }
+
+  return undefined;
+}
+
+export function toTransactionSplits(transaction: Transaction, drafts: SplitDraft[]): TransactionSplit[] {
+  const sign = transaction.amount < 0 ? -1 : 1;
+  return drafts.map(draft => ({
+    categoryName: draft.categoryName.trim(),
+    amount: sign * toCents(Number(draft.amount)) / 100
+  }));
+}
+
+/**
+ * Share of the transaction each split covers, for drawing the breakdown bar
+ */
+export function getSplitShare(transaction: Transaction, split: TransactionSplit): number {
+  return transaction.amount === 0 ? 0 : Math.abs(split.amount) / Math.abs(transaction.amount);
+}
@@ -0,0 +1,92 @@
+import type { SortDirection, TransactionSortKey } from '../types';
+
+export type TransactionColumnKey =
+  | 'date'
+  | 'description'
+  | 'amount'
+  | 'balance'
+  | 'account'
+  | 'categories'
+  | 'importedAt'
+  | 'sourceFile';
+
+export type TransactionViewMode = 'cards' | 'table';
+
+export type TransactionPagingMode = 'pages' | 'infinite';
+
+export interface TransactionColumn {
+  key: TransactionColumnKey;
+  label: string;
+  sortKey: TransactionSortKey;
+  align?: 'right';
+}
+
+export interface TransactionTablePreferences {
+  viewMode: TransactionViewMode;
+  paging: TransactionPagingMode;
+  columns: { key: TransactionColumnKey; visible: boolean }[];
+}
+
+export const TRANSACTION_COLUMNS: TransactionColumn[] = [
+  { key: 'date', label: 'Date', sortKey: 'date' },
+  { key: 'description', label: 'Description', sortKey: 'description' },
+  { key: 'amount', label: 'Amount', sortKey: 'amount', align: 'right' },
+  { key: 'balance', label: 'Balance', sortKey: 'balance', align: 'right' },
+  { key: 'account', label: 'Account', sortKey: 'account' },
+  { key: 'categories', label: 'Categories', sortKey: 'category' },
+  { key: 'importedAt', label: 'Imported', sortKey: 'importedAt' },
+  { key: 'sourceFile', label: 'Source File', sortKey: 'sourceFile' }
+];
+
+const TRANSACTION_SORT_KEYS = new Set<string>(TRANSACTION_COLUMNS.map(column => column.sortKey));
+
+const HIDDEN_BY_DEFAULT = new Set<TransactionColumnKey>(['importedAt', 'sourceFile']);
+
+const STORAGE_KEY_PREFIX = 'budget-tracker:transaction-table:';
+
+export const DEFAULT_TABLE_PREFERENCES: TransactionTablePreferences = {
+  viewMode: 'cards',
+  paging: 'pages',
+  columns: TRANSACTION_COLUMNS.map(column => ({ key: column.key, visible: !HIDDEN_BY_DEFAULT.has(column.key) }))
+};
+
+export function parseSortKey(value: string | null): TransactionSortKey | undefined {
+  return value && TRANSACTION_SORT_KEYS.has(value) ? value as TransactionSortKey : undefined;
+}
+
+export function parseSortDirection(value: string | null): SortDirection | undefined {
+  return value === 'asc' || value === 'desc' ? value : undefined;
+}
+
+/**
+ * Preferences are kept per signed-in user, so people sharing a browser keep their own layout
+ */
+export function loadTablePreferences(userKey: string): TransactionTablePreferences {
+  try {
+    const stored = localStorage.getItem(`${STORAGE_KEY_PREFIX}${userKey}`);
+    if (!stored) return DEFAULT_TABLE_PREFERENCES;
+
+    const parsed = JSON.parse(stored) as Partial<TransactionTablePreferences>;
+    const knownKeys = new Set(TRANSACTION_COLUMNS.map(column => column.key));
+    const columns = (parsed.columns ?? []).filter(column => knownKeys.has(column.key));
+
+    // Columns added after the preferences were saved are appended with their default visibility
+    for (const column of DEFAULT_TABLE_PREFERENCES.columns) {
+      if (!columns.some(saved => saved.key === column.key)) {
+        columns.push(column);
+      }
+    }
+
+    return {
+      viewMode: parsed.viewMode === 'table' ? 'table' : 'cards',
+      paging: parsed.paging === 'infinite' ? 'infinite' : 'pages',
+      columns
+    };
+  } catch {
+    return DEFAULT_TABLE_PREFERENCES;
+  }
+}
+
+export function saveTablePreferences(userKey: string, preferences: TransactionTablePreferences) {
+  localStorage.setItem(`${STORAGE_KEY_PREFIX}${userKey}`, JSON.stringify(preferences));
+}
@@ -5,12 +5,20 @@ import { Login, Register } from './features/auth'
 import ErrorBoundary from './shared/components/ErrorBoundary'
 import ToastContainer from './shared/components/ToastContainer'
 import { ToastProvider } from './shared/contexts/ToastContext'
+import { UndoProvider } from './shared/contexts/UndoContext'
 import './index.css'
 import { authLoader } from './routes/authLoader'
+import Budgets, { loader as budgetsLoader } from './routes/budgets'
+import Recurring, { loader as recurringLoader } from './routes/recurring'
+import Categories, { loader as categoriesLoader } from './routes/categories'
 import Dashboard, { loader as dashboardLoader } from './routes/dashboard'
 import Import from './routes/import'
+import Imports, { loader as importsLoader } from './routes/imports'
 import Root from './routes/root'
+import Rules, { loader as rulesLoader } from './routes/rules'
+import Settings, { loader as settingsLoader } from './routes/settings'
 import Transactions, { loader as transactionsLoader } from './routes/transactions'
+import Trash, { loader as trashLoader } from './routes/trash'
 
 const router = createBrowserRouter([
   {
@@ -42,10 +50,45 @@ const router = createBrowserRouter([
         element: <Transactions />,
         loader: transactionsLoader,
       },
+      {
+        path: 'trash',
+        element: <Trash />,
+        loader: trashLoader,
+      },
+      {
+        path: 'budgets',
+        element: <Budgets />,
+        loader: budgetsLoader,
+      },
+      {
+        path: 'recurring',
+        element: <Recurring />,
+        loader: recurringLoader,
+      },
+      {
+        path: 'categories',
+        element: <Categories />,
+        loader: categoriesLoader,
+      },
+      {
+        path: 'rules',
+        element: <Rules />,
+        loader: rulesLoader,
+      },
       {
         path: 'import',
         element: <Import />,
       },
+      {
+        path: 'imports',
+        element: <Imports />,
+        loader: importsLoader,
+      },
+      {
+        path: 'settings',
+        element: <Settings />,
+        loader: settingsLoader,
+      },
     ],
   },
 ], {
@@ -57,7 +100,9 @@ const router = createBrowserRouter([
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <ToastProvider>
-      <RouterProvider router={router} />
+      <UndoProvider>
+        <RouterProvider router={router} />
+      </UndoProvider>
       <ToastContainer />
     </ToastProvider>
   </StrictMode>,
@@ -1,5 +1,9 @@
 import { redirect } from 'react-router-dom';
 import { authApi } from '../features/auth';
+import { categoriesApi } from '../features/categories';
+
+// Whose category colors and icons are loaded. Edits on the categories page keep them current after that.
+let appearancesLoadedFor: string | null = null;
 
 export async function authLoader() {
   try {
@@ -7,6 +11,18 @@ export async function authLoader() {
     if (!isAuthenticated) {
       return redirect('/login');
     }
+
+    // Category colors and icons are used by chips on every page; without them the chips fall back to hashed colors
+    const email = authApi.getCurrentUser()?.email ?? null;
+    if (appearancesLoadedFor !== email) {
+      try {
+        await categoriesApi.getAppearances();
+        appearancesLoadedFor = email;
+      } catch (error) {
+        console.error('Failed to load category settings:', error);
+      }
+    }
+
     return null;
   } catch (error) {
     console.error('Auth loader error:', error);
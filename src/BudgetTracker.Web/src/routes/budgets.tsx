@@ -0,0 +1,23 @@
+import type { LoaderFunctionArgs } from 'react-router-dom';
+import { budgetsApi, BudgetList } from '../features/budgets';
+import Header from '../shared/components/layout/Header';
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const month = new URL(request.url).searchParams.get('month') ?? undefined;
+  return await budgetsApi.getBudgets(month);
+}
+
+export default function Budgets() {
+  return (
+    <div className="px-4 py-6 sm:px-0">
+      <Header
+        title="Budgets"
+        subtitle="Monthly spending limits by category"
+      />
+
+      <div className="mt-6">
+        <BudgetList />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { categoriesApi, CategoryList } from '../features/categories';
+import Header from '../shared/components/layout/Header';
+
+export async function loader() {
+  return await categoriesApi.getCategories();
+}
+
+export default function Categories() {
+  return (
+    <div className="px-4 py-6 sm:px-0">
+      <Header
+        title="Categories"
+        subtitle="Rename, merge and organize the categories your transactions are filed under"
+      />
+
+      <div className="mt-6">
+        <CategoryList />
+      </div>
+    </div>
+  );
+}
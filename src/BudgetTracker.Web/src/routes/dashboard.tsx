@@ -1,18 +1,25 @@
-import { useLoaderData, useNavigation, type LoaderFunctionArgs } from 'react-router';
-import { InsightsCard, analyticsApi } from '../features/analytics';
+import { useLoaderData, useLocation, useNavigation, type LoaderFunctionArgs } from 'react-router';
+import { ChartsPanel, InsightsCard, PeriodSelector, analyticsApi, getInsightsParams } from '../features/analytics';
+import { BudgetsAtRiskCard, budgetsApi } from '../features/budgets';
 import Header from '../shared/components/layout/Header';
 import { QueryAssistant, RecommendationsCard, intelligenceApi } from '../features/intelligence';
-import type { BudgetInsights } from '../features/analytics';
+import type { BudgetInsights, SpendingCharts } from '../features/analytics';
+import type { BudgetMonth } from '../features/budgets';
 import type { ProactiveRecommendation } from '../features/intelligence';
 
 
-export async function loader({ }: LoaderFunctionArgs) {
+export async function loader({ request }: LoaderFunctionArgs) {
   try {
-    const [insights, recommendations] = await Promise.all([
-      analyticsApi.getInsights().catch(() => null),
-      intelligenceApi.getRecommendations().catch(() => [])
+    const searchParams = new URL(request.url).searchParams;
+    const insightsParams = getInsightsParams(searchParams);
+    const { dateFrom, dateTo, account } = insightsParams;
+    const [insights, charts, recommendations, budgetMonth] = await Promise.all([
+      analyticsApi.getInsights(insightsParams).catch(() => null),
+      analyticsApi.getCharts({ dateFrom, dateTo, account }).catch(() => null),
+      intelligenceApi.getRecommendations().catch(() => []),
+      budgetsApi.getBudgets().catch(() => null)
     ]);
-    return { insights, recommendations };
+    return { insights, charts, period: { dateFrom, dateTo, account }, recommendations, budgetMonth };
   } catch (error) {
     console.error('Failed to load dashboard data:', error);
     throw new Error('Failed to load dashboard data');
@@ -22,11 +29,17 @@ export async function loader({ }: LoaderFunctionArgs) {
 export default function Dashboard() {
   const data = useLoaderData() as {
     insights: BudgetInsights | null;
+    charts: SpendingCharts | null;
+    period: { dateFrom?: string; dateTo?: string; account?: string };
     recommendations: ProactiveRecommendation[];
+    budgetMonth: BudgetMonth | null;
   };
-  const { insights, recommendations } = data;
+  const { insights, charts, period, recommendations, budgetMonth } = data;
   const navigation = useNavigation();
-  const isLoading = navigation.state === 'loading';
+  const location = useLocation();
+  // A new period keeps the page in place; only arriving from elsewhere shows the skeleton
+  const isLoading = navigation.state === 'loading' && navigation.location.pathname !== location.pathname;
+  const isChangingPeriod = navigation.state === 'loading' && !isLoading;
 
   if (isLoading) {
     return (
@@ -57,10 +70,25 @@ export default function Dashboard() {
         </div>
       )}
 
+      <div className="mb-6">
+        <PeriodSelector />
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {insights && <InsightsCard insights={insights} />}
+        {insights && (
+          <div className={`transition-opacity ${isChangingPeriod ? 'opacity-60' : ''}`}>
+            <InsightsCard insights={insights} />
+          </div>
+        )}
+        {budgetMonth && budgetMonth.budgets.length > 0 && <BudgetsAtRiskCard budgetMonth={budgetMonth} />}
         <QueryAssistant />
       </div>
+
+      {charts && (
+        <div className={`mt-6 transition-opacity ${isChangingPeriod ? 'opacity-60' : ''}`}>
+          <ChartsPanel charts={charts} period={period} />
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -6,7 +6,7 @@ export default function Import() {
     <div className="px-4 py-6 sm:px-0">
       <Header
         title="Import Transactions"
-        subtitle="Upload your bank statement CSV file or image to import transactions with AI-powered enhancements."
+        subtitle="Upload one or more bank statement CSV files or images to import transactions with AI-powered enhancements."
       />
 
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
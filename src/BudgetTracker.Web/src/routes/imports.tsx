@@ -0,0 +1,22 @@
+import { transactionsApi } from '../features/transactions/api';
+import ImportHistoryList from '../features/transactions/components/ImportHistoryList';
+import Header from '../shared/components/layout/Header';
+
+export async function loader() {
+  return await transactionsApi.getImportSessions();
+}
+
+export default function Imports() {
+  return (
+    <div className="px-4 py-6 sm:px-0">
+      <Header
+        title="Import History"
+        subtitle="Review past imports and undo the ones that went wrong"
+      />
+
+      <div className="mt-6">
+        <ImportHistoryList />
+      </div>
+    </div>
+  );
+}
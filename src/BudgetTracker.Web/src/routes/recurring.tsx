@@ -0,0 +1,21 @@
+import { recurringApi, RecurringList } from '../features/recurring';
+import Header from '../shared/components/layout/Header';
+
+export async function loader() {
+  return await recurringApi.getRecurringPayments();
+}
+
+export default function Recurring() {
+  return (
+    <div className="px-4 py-6 sm:px-0">
+      <Header
+        title="Recurring"
+        subtitle="Subscriptions and other repeating charges"
+      />
+
+      <div className="mt-6">
+        <RecurringList />
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { NavLink, Outlet, useNavigate } from 'react-router-dom';
 import { authApi } from '../features/auth';
+import { getFeedSearch } from '../features/transactions/utils/transactionFeed';
 import { useToast } from '../shared/contexts/ToastContext';
 
 const WalletIcon = () => (
@@ -48,6 +49,14 @@ export default function Root() {
               </NavLink>
               <NavLink
                 to="/transactions"
+                onClick={(e) => {
+                  // The infinite-scroll list returns to the filters it was left with
+                  const search = getFeedSearch();
+                  if (search) {
+                    e.preventDefault();
+                    navigate(`/transactions${search}`);
+                  }
+                }}
                 className={({ isActive }: { isActive: boolean }) =>
                   `px-4 py-2.5 rounded-xl text-sm font-medium transition-all duration-200 ${isActive
                     ? 'bg-blue-100 text-blue-700 shadow-soft'
@@ -57,6 +66,50 @@ export default function Root() {
               >
                 Transactions
               </NavLink>
+              <NavLink
+                to="/budgets"
+                className={({ isActive }: { isActive: boolean }) =>
+                  `px-4 py-2.5 rounded-xl text-sm font-medium transition-all duration-200 ${isActive
+                    ? 'bg-blue-100 text-blue-700 shadow-soft'
+                    : 'text-primary-600 hover:text-gray-900 hover:bg-gray-50'
+                  }`
+                }
+              >
+                Budgets
+              </NavLink>
+              <NavLink
+                to="/recurring"
+                className={({ isActive }: { isActive: boolean }) =>
+                  `px-4 py-2.5 rounded-xl text-sm font-medium transition-all duration-200 ${isActive
+                    ? 'bg-blue-100 text-blue-700 shadow-soft'
+                    : 'text-primary-600 hover:text-gray-900 hover:bg-gray-50'
+                  }`
+                }
+              >
+                Recurring
+              </NavLink>
+              <NavLink
+                to="/categories"
+                className={({ isActive }: { isActive: boolean }) =>
+                  `px-4 py-2.5 rounded-xl text-sm font-medium transition-all duration-200 ${isActive
+                    ? 'bg-blue-100 text-blue-700 shadow-soft'
+                    : 'text-primary-600 hover:text-gray-900 hover:bg-gray-50'
+                  }`
+                }
+              >
+                Categories
+              </NavLink>
+              <NavLink
+                to="/rules"
+                className={({ isActive }: { isActive: boolean }) =>
+                  `px-4 py-2.5 rounded-xl text-sm font-medium transition-all duration-200 ${isActive
+                    ? 'bg-blue-100 text-blue-700 shadow-soft'
+                    : 'text-primary-600 hover:text-gray-900 hover:bg-gray-50'
+                  }`
+                }
+              >
+                Rules
+              </NavLink>
               <NavLink
                 to="/import"
                 className={({ isActive }: { isActive: boolean }) =>
@@ -68,6 +121,28 @@ export default function Root() {
               >
                 Import
               </NavLink>
+              <NavLink
+                to="/imports"
+                className={({ isActive }: { isActive: boolean }) =>
+                  `px-4 py-2.5 rounded-xl text-sm font-medium transition-all duration-200 ${isActive
+                    ? 'bg-blue-100 text-blue-700 shadow-soft'
+                    : 'text-primary-600 hover:text-gray-900 hover:bg-gray-50'
+                  }`
+                }
+              >
+                History
+              </NavLink>
+              <NavLink
+                to="/settings"
+                className={({ isActive }: { isActive: boolean }) =>
+                  `px-4 py-2.5 rounded-xl text-sm font-medium transition-all duration-200 ${isActive
+                    ? 'bg-blue-100 text-blue-700 shadow-soft'
+                    : 'text-primary-600 hover:text-gray-900 hover:bg-gray-50'
+                  }`
+                }
+              >
+                Settings
+              </NavLink>
               <button
                 onClick={handleLogout}
                 className="cursor-pointer px-4 py-2.5 rounded-xl text-sm font-medium text-red-600 hover:text-red-700 hover:bg-red-50 transition-all duration-200"
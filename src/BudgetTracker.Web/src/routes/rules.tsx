@@ -0,0 +1,21 @@
+import { rulesApi, RuleList } from '../features/rules';
+import Header from '../shared/components/layout/Header';
+
+export async function loader() {
+  return await rulesApi.getRules();
+}
+
+export default function Rules() {
+  return (
+    <div className="px-4 py-6 sm:px-0">
+      <Header
+        title="Categorization Rules"
+        subtitle="Categorize transactions automatically as they are imported"
+      />
+
+      <div className="mt-6">
+        <RuleList />
+      </div>
+    </div>
+  );
+}
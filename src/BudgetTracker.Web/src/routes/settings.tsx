@@ -0,0 +1,37 @@
+import { useLoaderData } from 'react-router-dom';
+import { analyticsApi, BudgetTargetsSettings } from '../features/analytics';
+import type { InsightsSettings } from '../features/analytics';
+import { transactionsApi } from '../features/transactions/api';
+import ImportProfileList from '../features/transactions/components/ImportProfileList';
+import Header from '../shared/components/layout/Header';
+
+export async function loader() {
+  const [profiles, insightsSettings] = await Promise.all([
+    transactionsApi.getImportProfiles(),
+    analyticsApi.getSettings()
+  ]);
+  return { profiles, insightsSettings };
+}
+
+export default function Settings() {
+  const { insightsSettings } = useLoaderData() as { insightsSettings: InsightsSettings };
+
+  return (
+    <div className="px-4 py-6 sm:px-0">
+      <Header
+        title="Settings"
+        subtitle="Manage your spending targets and the import profiles saved for your bank exports"
+      />
+
+      <section className="mt-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-3">Spending Targets</h2>
+        <BudgetTargetsSettings settings={insightsSettings} />
+      </section>
+
+      <section className="mt-8">
+        <h2 className="text-lg font-semibold text-gray-900 mb-3">Import Profiles</h2>
+        <ImportProfileList />
+      </section>
+    </div>
+  );
+}
@@ -1,26 +1,35 @@
-import { type LoaderFunctionArgs } from 'react-router-dom';
+import { useState } from 'react';
+import { type LoaderFunctionArgs, useRevalidator } from 'react-router-dom';
 import { transactionsApi } from '../features/transactions/api';
+import ManualTransactionEntry from '../features/transactions/components/ManualTransactionEntry';
 import TransactionList from '../features/transactions/components/TransactionList';
+import { getTransactionParams } from '../features/transactions/utils/transactionFilters';
 import Header from '../shared/components/layout/Header';
 
 export async function loader({ request }: LoaderFunctionArgs) {
   const url = new URL(request.url);
-  const page = parseInt(url.searchParams.get('page') || '1', 10);
-  const pageSize = parseInt(url.searchParams.get('pageSize') || '20', 10);
-  const category = url.searchParams.get('category') || undefined;
-  const account = url.searchParams.get('account') || undefined;
-
-  return await transactionsApi.getTransactions({ page, pageSize, category, account });
+  return await transactionsApi.getTransactions(getTransactionParams(url.searchParams));
 }
 
 export default function Transactions() {
+  const revalidator = useRevalidator();
+  const [isAdding, setIsAdding] = useState(false);
+
   return (
     <div className="px-4 py-6 sm:px-0">
       <Header
         title="Transactions"
         subtitle="View and manage your imported transactions"
+        action={isAdding ? undefined : { label: 'Add Transaction', onClick: () => setIsAdding(true) }}
       />
 
+      {isAdding && (
+        <ManualTransactionEntry
+          onCreated={() => revalidator.revalidate()}
+          onClose={() => setIsAdding(false)}
+        />
+      )}
+
       <div className="mt-6">
         <TransactionList />
       </div>
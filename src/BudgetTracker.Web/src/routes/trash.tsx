@@ -0,0 +1,25 @@
+import type { LoaderFunctionArgs } from 'react-router-dom';
+import { transactionsApi } from '../features/transactions/api';
+import TrashList from '../features/transactions/components/TrashList';
+import Header from '../shared/components/layout/Header';
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const url = new URL(request.url);
+  const page = parseInt(url.searchParams.get('page') || '1', 10);
+  return await transactionsApi.getTrash(page);
+}
+
+export default function Trash() {
+  return (
+    <div className="px-4 py-6 sm:px-0">
+      <Header
+        title="Trash"
+        subtitle="Deleted transactions stay here until you restore them or delete them for good"
+      />
+
+      <div className="mt-6">
+        <TrashList />
+      </div>
+    </div>
+  );
+}
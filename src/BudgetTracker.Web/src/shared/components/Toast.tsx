@@ -8,6 +8,10 @@ export interface Toast {
   title: string;
   message?: string;
   duration?: number;
+  action?: {
+    label: string;
+    onClick: () => void;
+  };
 }
 
 interface ToastProps {
@@ -72,7 +76,18 @@ export default function ToastComponent({ toast, onDismiss }: ToastProps) {
               </p>
             )}
           </div>
-          <div className="ml-4 flex-shrink-0 flex">
+          <div className="ml-4 flex-shrink-0 flex items-center gap-3">
+            {toast.action && (
+              <button
+                onClick={() => {
+                  toast.action!.onClick();
+                  onDismiss(toast.id);
+                }}
+                className="cursor-pointer text-sm font-semibold underline hover:opacity-80 transition-opacity"
+              >
+                {toast.action.label}
+              </button>
+            )}
             <button
               onClick={() => onDismiss(toast.id)}
               className="cursor-pointer inline-flex text-gray-400 hover:text-gray-600 focus:outline-none focus:text-gray-600 transition ease-in-out duration-150"
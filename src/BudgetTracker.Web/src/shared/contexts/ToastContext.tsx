@@ -1,6 +1,14 @@
 import { createContext, useContext, useState, useCallback, type ReactNode } from 'react';
 import type { Toast, ToastType } from '../components/Toast';
 
+const UNDO_TOAST_DURATION = 6000;
+
+interface UndoToastOptions {
+  message?: string;
+  duration?: number;
+  onUndo: () => void;
+}
+
 interface ToastContextType {
   toasts: Toast[];
   showToast: (type: ToastType, title: string, message?: string, duration?: number) => void;
@@ -9,6 +17,7 @@ interface ToastContextType {
   showError: (title: string, message?: string) => void;
   showWarning: (title: string, message?: string) => void;
   showInfo: (title: string, message?: string) => void;
+  showUndoToast: (title: string, options: UndoToastOptions) => void;
 }
 
 const ToastContext = createContext<ToastContextType | undefined>(undefined);
@@ -66,6 +75,19 @@ export function ToastProvider({ children }: ToastProviderProps) {
     showToast('info', title, message);
   }, [showToast]);
 
+  const showUndoToast = useCallback((title: string, options: UndoToastOptions) => {
+    const id = Math.random().toString(36).substr(2, 9);
+
+    setToasts(prev => [...prev, {
+      id,
+      type: 'info',
+      title,
+      message: options.message,
+      duration: options.duration ?? UNDO_TOAST_DURATION,
+      action: { label: 'Undo', onClick: options.onUndo }
+    }]);
+  }, []);
+
   const value: ToastContextType = {
     toasts,
     showToast,
@@ -73,7 +95,8 @@ export function ToastProvider({ children }: ToastProviderProps) {
     showSuccess,
     showError,
     showWarning,
-    showInfo
+    showInfo,
+    showUndoToast
   };
 
   return (
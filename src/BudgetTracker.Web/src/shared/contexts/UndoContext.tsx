@@ -0,0 +1,117 @@
+import { createContext, useCallback, useContext, useEffect, useRef, type ReactNode } from 'react';
+import { useToast } from './ToastContext';
+
+const MAX_UNDO_ENTRIES = 50;
+
+/**
+ * A change that has already been saved, with the calls that take it back and apply it again
+ */
+export interface UndoEntry {
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+interface UndoContextType {
+  /** Adds a saved change to the stack and offers to undo it in a toast */
+  record: (entry: UndoEntry) => void;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+const UndoContext = createContext<UndoContextType | undefined>(undefined);
+
+export function useUndo() {
+  const context = useContext(UndoContext);
+  if (context === undefined) {
+    throw new Error('useUndo must be used within an UndoProvider');
+  }
+  return context;
+}
+
+// Text fields keep the browser's own undo
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+interface UndoProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Session undo stack for transaction changes. It lives in memory, so a reload starts a new one.
+ */
+export function UndoProvider({ children }: UndoProviderProps) {
+  const { showUndoToast, showSuccess, showError, showWarning } = useToast();
+  const undoStack = useRef<UndoEntry[]>([]);
+  const redoStack = useRef<UndoEntry[]>([]);
+  const isRunning = useRef(false);
+
+  const run = useCallback(async (from: UndoEntry[], to: UndoEntry[], direction: 'undo' | 'redo') => {
+    const entry = from[from.length - 1];
+    if (!entry || isRunning.current) return;
+
+    isRunning.current = true;
+    try {
+      await entry[direction]();
+      from.pop();
+      to.push(entry);
+      showSuccess(`${direction === 'undo' ? 'Undone' : 'Redone'}: ${entry.label}`);
+    } catch {
+      showError(`Could not ${direction} "${entry.label}"`, 'Please try again.');
+    } finally {
+      isRunning.current = false;
+    }
+  }, [showSuccess, showError]);
+
+  const undo = useCallback(() => run(undoStack.current, redoStack.current, 'undo'), [run]);
+
+  const redo = useCallback(() => run(redoStack.current, undoStack.current, 'redo'), [run]);
+
+  const record = useCallback((entry: UndoEntry) => {
+    undoStack.current = [...undoStack.current, entry].slice(-MAX_UNDO_ENTRIES);
+    redoStack.current = [];
+
+    showUndoToast(entry.label, {
+      onUndo: () => {
+        // Changes are undone newest first, so an older toast can't jump the queue
+        if (undoStack.current[undoStack.current.length - 1] !== entry) {
+          showWarning('Undo the newer changes first', 'Press Ctrl+Z to step back one change at a time.');
+          return;
+        }
+        undo();
+      }
+    });
+  }, [showUndoToast, showWarning, undo]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isEditableTarget(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const value: UndoContextType = {
+    record,
+    undo,
+    redo
+  };
+
+  return (
+    <UndoContext.Provider value={value}>
+      {children}
+    </UndoContext.Provider>
+  );
+}
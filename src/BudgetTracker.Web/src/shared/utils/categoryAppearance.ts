@@ -0,0 +1,66 @@
+export interface CategoryColor {
+  key: string;
+  label: string;
+  chipClassName: string;
+  swatchClassName: string;
+  /** For SVG shapes such as chart segments */
+  fillClassName: string;
+}
+
+export interface CategoryAppearance {
+  name: string;
+  color?: string | null;
+  icon?: string | null;
+  isArchived?: boolean;
+}
+
+/**
+ * Colors a category can be given. The first sixteen are also the palette
+ * categories without a chosen color are hashed into, so the order matters.
+ */
+export const CATEGORY_COLORS: CategoryColor[] = [
+  { key: 'blue', label: 'Blue', chipClassName: 'bg-blue-100 text-blue-700', swatchClassName: 'bg-blue-500', fillClassName: 'fill-blue-500' },
+  { key: 'green', label: 'Green', chipClassName: 'bg-green-100 text-green-700', swatchClassName: 'bg-green-500', fillClassName: 'fill-green-500' },
+  { key: 'purple', label: 'Purple', chipClassName: 'bg-purple-100 text-purple-700', swatchClassName: 'bg-purple-500', fillClassName: 'fill-purple-500' },
+  { key: 'yellow', label: 'Yellow', chipClassName: 'bg-yellow-100 text-yellow-700', swatchClassName: 'bg-yellow-500', fillClassName: 'fill-yellow-500' },
+  { key: 'pink', label: 'Pink', chipClassName: 'bg-pink-100 text-pink-700', swatchClassName: 'bg-pink-500', fillClassName: 'fill-pink-500' },
+  { key: 'indigo', label: 'Indigo', chipClassName: 'bg-indigo-100 text-indigo-700', swatchClassName: 'bg-indigo-500', fillClassName: 'fill-indigo-500' },
+  { key: 'orange', label: 'Orange', chipClassName: 'bg-orange-100 text-orange-700', swatchClassName: 'bg-orange-500', fillClassName: 'fill-orange-500' },
+  { key: 'teal', label: 'Teal', chipClassName: 'bg-teal-100 text-teal-700', swatchClassName: 'bg-teal-500', fillClassName: 'fill-teal-500' },
+  { key: 'cyan', label: 'Cyan', chipClassName: 'bg-cyan-100 text-cyan-700', swatchClassName: 'bg-cyan-500', fillClassName: 'fill-cyan-500' },
+  { key: 'lime', label: 'Lime', chipClassName: 'bg-lime-100 text-lime-700', swatchClassName: 'bg-lime-500', fillClassName: 'fill-lime-500' },
+  { key: 'emerald', label: 'Emerald', chipClassName: 'bg-emerald-100 text-emerald-700', swatchClassName: 'bg-emerald-500', fillClassName: 'fill-emerald-500' },
+  { key: 'violet', label: 'Violet', chipClassName: 'bg-violet-100 text-violet-700', swatchClassName: 'bg-violet-500', fillClassName: 'fill-violet-500' },
+  { key: 'fuchsia', label: 'Fuchsia', chipClassName: 'bg-fuchsia-100 text-fuchsia-700', swatchClassName: 'bg-fuchsia-500', fillClassName: 'fill-fuchsia-500' },
+  { key: 'rose', label: 'Rose', chipClassName: 'bg-rose-100 text-rose-700', swatchClassName: 'bg-rose-500', fillClassName: 'fill-rose-500' },
+  { key: 'sky', label: 'Sky', chipClassName: 'bg-sky-100 text-sky-700', swatchClassName: 'bg-sky-500', fillClassName: 'fill-sky-500' },
+  { key: 'amber', label: 'Amber', chipClassName: 'bg-amber-100 text-amber-700', swatchClassName: 'bg-amber-500', fillClassName: 'fill-amber-500' },
+  { key: 'red', label: 'Red', chipClassName: 'bg-red-100 text-red-700', swatchClassName: 'bg-red-500', fillClassName: 'fill-red-500' },
+  { key: 'gray', label: 'Gray', chipClassName: 'bg-gray-100 text-gray-700', swatchClassName: 'bg-gray-500', fillClassName: 'fill-gray-500' }
+];
+
+export const HASHED_CATEGORY_COLOR_COUNT = 16;
+
+// Filled from the user's category settings so chip colors can be resolved without a hook at every call site
+const appearances = new Map<string, CategoryAppearance>();
+
+export function setCategoryAppearances(categories: CategoryAppearance[]) {
+  appearances.clear();
+  categories.forEach(category => appearances.set(category.name, category));
+}
+
+export function getCategoryAppearance(category: string): CategoryAppearance | undefined {
+  return appearances.get(category);
+}
+
+export function findCategoryColor(key: string | null | undefined): CategoryColor | undefined {
+  return key ? CATEGORY_COLORS.find(color => color.key === key) : undefined;
+}
+
+export function getCategoryIcon(category: string): string | undefined {
+  return appearances.get(category)?.icon ?? undefined;
+}
+
+export function isCategoryArchived(category: string): boolean {
+  return appearances.get(category)?.isArchived ?? false;
+}
@@ -1,4 +1,5 @@
 import { format } from 'date-fns';
+import { CATEGORY_COLORS, HASHED_CATEGORY_COLOR_COUNT, findCategoryColor, getCategoryAppearance, type CategoryColor } from './categoryAppearance';
 
 /**
  * Format currency amounts with proper sign and locale formatting
@@ -68,33 +69,32 @@ export function formatDateForInput(dateString: string): string {
 
 /**
  * Get consistent color classes for category tags based on category name
- * Same category will always return the same color
+ * A color picked on the categories page wins, otherwise the same category always hashes to the same color
  */
 export function getCategoryColor(category: string): string {
+  return resolveCategoryColor(category).chipClassName;
+}
+
+/**
+ * SVG fill class for a category's chart segments, in the same color as its tags
+ */
+export function getCategoryFillColor(category: string): string {
+  return resolveCategoryColor(category).fillClassName;
+}
+
+function resolveCategoryColor(category: string): CategoryColor {
+  const chosenColor = findCategoryColor(getCategoryAppearance(category)?.color);
+  if (chosenColor) {
+    return chosenColor;
+  }
+
   // Special case for Uncategorized
   if (category === 'Uncategorized') {
-    return 'bg-red-100 text-red-700';
+    return findCategoryColor('red') ?? CATEGORY_COLORS[0];
   }
 
   // Define color palette for categories
-  const colors = [
-    'bg-blue-100 text-blue-700',
-    'bg-green-100 text-green-700',
-    'bg-purple-100 text-purple-700',
-    'bg-yellow-100 text-yellow-700',
-    'bg-pink-100 text-pink-700',
-    'bg-indigo-100 text-indigo-700',
-    'bg-orange-100 text-orange-700',
-    'bg-teal-100 text-teal-700',
-    'bg-cyan-100 text-cyan-700',
-    'bg-lime-100 text-lime-700',
-    'bg-emerald-100 text-emerald-700',
-    'bg-violet-100 text-violet-700',
-    'bg-fuchsia-100 text-fuchsia-700',
-    'bg-rose-100 text-rose-700',
-    'bg-sky-100 text-sky-700',
-    'bg-amber-100 text-amber-700',
-  ];
+  const colors = CATEGORY_COLORS.slice(0, HASHED_CATEGORY_COLOR_COUNT);
 
   // Generate consistent hash from category name
   let hash = 0;
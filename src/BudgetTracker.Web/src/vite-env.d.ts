@@ -2,6 +2,7 @@
 
 interface ImportMetaEnv {
   readonly VITE_API_BASE_URL: string;
+  readonly VITE_MOCK_IMPORT_JOBS?: string;
 }
 
 interface ImportMeta {
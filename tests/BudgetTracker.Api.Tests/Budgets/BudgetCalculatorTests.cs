@@ -0,0 +1,124 @@
+using BudgetTracker.Api.Features.Budgets;
+using BudgetTracker.Api.Tests.Fixtures;
+
+namespace BudgetTracker.Api.Tests.Budgets;
+
+[Collection("Database")]
+public class BudgetCalculatorTests
+{
+    private static readonly DateTime June = new(2025, 6, 1, 0, 0, 0, DateTimeKind.Utc);
+    private static readonly DateTime Now = new(2025, 6, 10, 12, 0, 0, DateTimeKind.Utc);
+
+    private readonly ApiFixture _fixture;
+
+    public BudgetCalculatorTests(ApiFixture databaseFixture)
+    {
+        _fixture = databaseFixture;
+    }
+
+    [Fact]
+    public async Task Should_carry_unspent_amount_forward_when_budget_rolls_over()
+    {
+        var userId = await SeedAsync(rollover: true, createdAt: June.AddMonths(-2),
+            (June.AddMonths(-2), -60m), (June.AddMonths(-1), -70m), (June, -30m));
+
+        var progress = await GetProgressAsync(userId, Now);
+
+        Assert.Equal(70m, progress.RolloverAmount);
+        Assert.Equal(170m, progress.Available);
+        Assert.Equal(30m, progress.Spent);
+        Assert.Equal(140m, progress.Remaining);
+    }
+
+    [Fact]
+    public async Task Should_start_from_the_plain_limit_when_a_month_was_overspent()
+    {
+        var userId = await SeedAsync(rollover: true, createdAt: June.AddMonths(-2),
+            (June.AddMonths(-2), -150m), (June.AddMonths(-1), -80m));
+
+        var progress = await GetProgressAsync(userId, Now);
+
+        Assert.Equal(20m, progress.RolloverAmount);
+        Assert.Equal(120m, progress.Available);
+    }
+
+    [Fact]
+    public async Task Should_not_carry_anything_forward_when_budget_does_not_roll_over()
+    {
+        var userId = await SeedAsync(rollover: false, createdAt: June.AddMonths(-2),
+            (June.AddMonths(-1), -10m));
+
+        var progress = await GetProgressAsync(userId, Now);
+
+        Assert.Equal(0m, progress.RolloverAmount);
+        Assert.Equal(100m, progress.Available);
+    }
+
+    [Fact]
+    public async Task Should_ignore_months_before_the_budget_was_created_when_rolling_over()
+    {
+        var userId = await SeedAsync(rollover: true, createdAt: June.AddMonths(-1),
+            (June.AddMonths(-2), -10m), (June.AddMonths(-1), -90m));
+
+        var progress = await GetProgressAsync(userId, Now);
+
+        Assert.Equal(10m, progress.RolloverAmount);
+    }
+
+    [Theory]
+    [InlineData(20, 60, BudgetStatus.OnTrack)]
+    [InlineData(50, 150, BudgetStatus.AtRisk)]
+    [InlineData(120, 360, BudgetStatus.Over)]
+    public async Task Should_project_month_end_spend_from_the_pace_so_far(int spent, int expectedProjection,
+        BudgetStatus expectedStatus)
+    {
+        var userId = await SeedAsync(rollover: false, createdAt: June, (June.AddDays(2), (decimal)-spent));
+
+        var progress = await GetProgressAsync(userId, Now);
+
+        Assert.Equal((decimal)expectedProjection, progress.ProjectedSpend);
+        Assert.Equal(expectedStatus, progress.Status);
+    }
+
+    [Fact]
+    public async Task Should_project_the_actual_spend_when_month_is_over()
+    {
+        var userId = await SeedAsync(rollover: false, createdAt: June, (June.AddDays(2), -50m));
+
+        var progress = await GetProgressAsync(userId, June.AddMonths(1).AddDays(3));
+
+        Assert.Equal(50m, progress.ProjectedSpend);
+        Assert.Equal(BudgetStatus.OnTrack, progress.Status);
+    }
+
+    private async Task<string> SeedAsync(bool rollover, DateTime createdAt,
+        params (DateTime Date, decimal Amount)[] expenses)
+    {
+        var user = await _fixture.CreateTestUserAsync($"budgets_{Guid.NewGuid():N}@example.com");
+
+        await using var db = _fixture.CreateBudgetTrackerDbContext();
+        db.CategoryBudgets.Add(new CategoryBudget
+        {
+            Id = Guid.NewGuid(),
+            UserId = user.Id,
+            CategoryName = "Groceries",
+            MonthlyLimit = 100m,
+            Rollover = rollover,
+            CreatedAt = createdAt,
+            UpdatedAt = createdAt
+        });
+        db.Transactions.AddRange(expenses.Select(e =>
+            TestTransactions.Create(user.Id, e.Date, "Supermarket", e.Amount, category: "Groceries")));
+        await db.SaveChangesAsync(TestContext.Current.CancellationToken);
+
+        return user.Id;
+    }
+
+    private async Task<BudgetProgressDto> GetProgressAsync(string userId, DateTime now)
+    {
+        await using var db = _fixture.CreateBudgetTrackerDbContext();
+        var month = await BudgetCalculator.GetMonthAsync(db, userId, June, now);
+
+        return Assert.Single(month.Budgets);
+    }
+}
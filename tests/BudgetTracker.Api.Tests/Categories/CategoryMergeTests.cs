@@ -0,0 +1,92 @@
+using System.Net;
+using BudgetTracker.Api.Features.Categories;
+using BudgetTracker.Api.Tests.Extensions;
+using BudgetTracker.Api.Tests.Fixtures;
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Tests.Categories;
+
+[Collection("Database")]
+public class CategoryMergeTests
+{
+    private readonly ApiFixture _fixture;
+    private readonly HttpClient _client;
+
+    public CategoryMergeTests(ApiFixture databaseFixture)
+    {
+        _fixture = databaseFixture;
+        _client = databaseFixture.CreateClient();
+    }
+
+    [Fact]
+    public async Task Should_return_bad_request_when_merging_a_parent_into_a_subcategory()
+    {
+        var userId = await SeedAsync(("Food", null), ("Groceries", "Food"), ("Treats", null), ("Snacks", "Treats"));
+
+        var response = await MergeAsync("Food", "Snacks");
+
+        Assert.Equal(HttpStatusCode.BadRequest, response.StatusCode);
+        Assert.Equal("Food", (await GetParentsAsync(userId))["Groceries"]);
+    }
+
+    [Fact]
+    public async Task Should_move_subcategories_when_merging_a_parent_into_a_top_level_category()
+    {
+        var userId = await SeedAsync(("Food", null), ("Groceries", "Food"), ("Treats", null));
+
+        var response = await MergeAsync("Food", "Treats");
+
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+
+        var parents = await GetParentsAsync(userId);
+        Assert.False(parents.ContainsKey("Food"));
+        Assert.Equal("Treats", parents["Groceries"]);
+    }
+
+    [Fact]
+    public async Task Should_make_child_top_level_when_merging_a_parent_into_its_own_child()
+    {
+        var userId = await SeedAsync(("Food", null), ("Groceries", "Food"), ("Fruit", "Food"));
+
+        var response = await MergeAsync("Food", "Groceries");
+
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+
+        var parents = await GetParentsAsync(userId);
+        Assert.Null(parents["Groceries"]);
+        Assert.Equal("Groceries", parents["Fruit"]);
+    }
+
+    private async Task<string> SeedAsync(params (string Name, string? ParentName)[] categories)
+    {
+        var user = await _fixture.CreateTestUserAsync($"merge_{Guid.NewGuid():N}@example.com");
+        _fixture.AuthenticateClient(_client, user.Id, user.Email!);
+
+        await using var db = _fixture.CreateBudgetTrackerDbContext();
+        db.CategoryDefinitions.AddRange(categories.Select(c => new CategoryDefinition
+        {
+            Id = Guid.NewGuid(),
+            UserId = user.Id,
+            Name = c.Name,
+            ParentName = c.ParentName,
+            CreatedAt = DateTime.UtcNow
+        }));
+        await db.SaveChangesAsync(TestContext.Current.CancellationToken);
+
+        return user.Id;
+    }
+
+    private Task<HttpResponseMessage> MergeAsync(string source, string target)
+    {
+        return _client.PostAsync("/api/categories/merge", new { source, target }.AsJsonContent(),
+            TestContext.Current.CancellationToken);
+    }
+
+    private async Task<Dictionary<string, string?>> GetParentsAsync(string userId)
+    {
+        await using var db = _fixture.CreateBudgetTrackerDbContext();
+        return await db.CategoryDefinitions
+            .Where(d => d.UserId == userId)
+            .ToDictionaryAsync(d => d.Name, d => d.ParentName, TestContext.Current.CancellationToken);
+    }
+}
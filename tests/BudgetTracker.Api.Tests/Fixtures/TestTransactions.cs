@@ -0,0 +1,22 @@
+using BudgetTracker.Api.Features.Transactions;
+
+namespace BudgetTracker.Api.Tests.Fixtures;
+
+public static class TestTransactions
+{
+    public static Transaction Create(string userId, DateTime date, string description, decimal amount,
+        string account = "Checking", string? category = "Uncategorized")
+    {
+        return new Transaction
+        {
+            Id = Guid.NewGuid(),
+            Date = DateTime.SpecifyKind(date, DateTimeKind.Utc),
+            Description = description,
+            Amount = amount,
+            Category = category,
+            Account = account,
+            UserId = userId,
+            ImportedAt = DateTime.UtcNow
+        };
+    }
+}
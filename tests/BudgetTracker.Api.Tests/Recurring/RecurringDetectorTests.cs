@@ -0,0 +1,165 @@
+using BudgetTracker.Api.Features.Recurring;
+using BudgetTracker.Api.Tests.Fixtures;
+
+namespace BudgetTracker.Api.Tests.Recurring;
+
+[Collection("Database")]
+public class RecurringDetectorTests
+{
+    private static readonly DateTime Start = new(2025, 1, 5, 0, 0, 0, DateTimeKind.Utc);
+
+    private readonly ApiFixture _fixture;
+
+    public RecurringDetectorTests(ApiFixture databaseFixture)
+    {
+        _fixture = databaseFixture;
+    }
+
+    [Fact]
+    public async Task Should_detect_monthly_series_when_charges_are_a_month_apart()
+    {
+        var userId = await SeedAsync(Monthly("NETFLIX.COM", 10.99m, 10.99m, 10.99m, 10.99m));
+
+        var payment = await DetectSingleAsync(userId);
+
+        Assert.Equal(RecurringFrequency.Monthly, payment.Frequency);
+        Assert.Equal(4, payment.Occurrences);
+        Assert.Equal(new DateOnly(2025, 5, 5), payment.NextExpectedDate);
+        Assert.Equal(10.99m * 12, payment.AnnualizedCost);
+        Assert.False(payment.IsMissed);
+        Assert.Null(payment.AmountChangePercentage);
+    }
+
+    [Fact]
+    public async Task Should_detect_weekly_series_when_charges_are_a_week_apart()
+    {
+        var userId = await SeedAsync(Enumerable.Range(0, 5)
+            .Select(i => (Start.AddDays(7 * i), "Gym Class", 12m))
+            .ToArray());
+
+        var payment = await DetectSingleAsync(userId);
+
+        Assert.Equal(RecurringFrequency.Weekly, payment.Frequency);
+        Assert.Equal(5, payment.Occurrences);
+    }
+
+    [Fact]
+    public async Task Should_detect_yearly_series_when_charges_are_a_year_apart()
+    {
+        var userId = await SeedAsync((Start, "Domain Renewal", 15m), (Start.AddYears(1), "Domain Renewal", 15m));
+
+        var payment = await DetectSingleAsync(userId);
+
+        Assert.Equal(RecurringFrequency.Yearly, payment.Frequency);
+        Assert.Equal(new DateOnly(2027, 1, 5), payment.NextExpectedDate);
+    }
+
+    [Fact]
+    public async Task Should_not_detect_series_when_gaps_are_irregular()
+    {
+        var userId = await SeedAsync(
+            (Start, "Corner Bakery", 8m),
+            (Start.AddDays(3), "Corner Bakery", 8m),
+            (Start.AddDays(40), "Corner Bakery", 8m),
+            (Start.AddDays(48), "Corner Bakery", 8m));
+
+        var result = await DetectAsync(userId);
+
+        Assert.Empty(result.Payments);
+    }
+
+    [Fact]
+    public async Task Should_flag_missed_charge_when_next_one_is_overdue_past_the_grace_period()
+    {
+        var userId = await SeedAsync(Monthly("Spotify", 9.99m, 9.99m, 9.99m)
+            .Append((new DateTime(2025, 4, 20, 0, 0, 0, DateTimeKind.Utc), "Supermarket", 50m))
+            .ToArray());
+
+        var payment = await DetectSingleAsync(userId, "spotify");
+
+        Assert.Equal(new DateOnly(2025, 4, 5), payment.NextExpectedDate);
+        Assert.True(payment.IsMissed);
+    }
+
+    [Fact]
+    public async Task Should_leave_series_out_when_it_stopped_several_periods_ago()
+    {
+        var userId = await SeedAsync(Monthly("Spotify", 9.99m, 9.99m, 9.99m)
+            .Append((new DateTime(2025, 7, 1, 0, 0, 0, DateTimeKind.Utc), "Supermarket", 50m))
+            .ToArray());
+
+        var result = await DetectAsync(userId);
+
+        Assert.DoesNotContain(result.Payments, p => p.MerchantKey == "spotify");
+    }
+
+    [Fact]
+    public async Task Should_flag_jump_when_latest_charge_rose_within_the_tolerance()
+    {
+        var userId = await SeedAsync(Monthly("NETFLIX.COM", 10.99m, 10.99m, 10.99m, 12.99m));
+
+        var payment = await DetectSingleAsync(userId);
+
+        Assert.Equal(18.2m, payment.AmountChangePercentage);
+        Assert.Equal(12.99m, payment.Amount);
+    }
+
+    [Fact]
+    public async Task Should_flag_jump_when_latest_charge_rose_beyond_the_tolerance()
+    {
+        var userId = await SeedAsync(Monthly("NETFLIX.COM", 10.99m, 10.99m, 10.99m, 15.99m));
+
+        var payment = await DetectSingleAsync(userId);
+
+        Assert.Equal(4, payment.Occurrences);
+        Assert.Equal(15.99m, payment.Amount);
+        Assert.Equal(45.5m, payment.AmountChangePercentage);
+
+        var change = Assert.Single(payment.PriceHistory);
+        Assert.Equal(new DateOnly(2025, 4, 5), change.Date);
+        Assert.Equal(10.99m, change.PreviousAmount);
+    }
+
+    [Fact]
+    public async Task Should_leave_one_off_purchase_out_when_it_is_off_schedule()
+    {
+        var userId = await SeedAsync(Monthly("Amazon Prime", 8.99m, 8.99m, 8.99m)
+            .Append((Start.AddDays(45), "Amazon Prime", 120m))
+            .ToArray());
+
+        var payment = await DetectSingleAsync(userId);
+
+        Assert.Equal(3, payment.Occurrences);
+        Assert.Equal(8.99m, payment.Amount);
+        Assert.Empty(payment.PriceHistory);
+    }
+
+    private static (DateTime Date, string Description, decimal Amount)[] Monthly(string description,
+        params decimal[] amounts)
+    {
+        return amounts.Select((amount, i) => (Start.AddMonths(i), description, amount)).ToArray();
+    }
+
+    private async Task<string> SeedAsync(params (DateTime Date, string Description, decimal Amount)[] expenses)
+    {
+        var user = await _fixture.CreateTestUserAsync($"recurring_{Guid.NewGuid():N}@example.com");
+
+        await using var db = _fixture.CreateBudgetTrackerDbContext();
+        db.Transactions.AddRange(expenses.Select(e => TestTransactions.Create(user.Id, e.Date, e.Description, -e.Amount)));
+        await db.SaveChangesAsync(TestContext.Current.CancellationToken);
+
+        return user.Id;
+    }
+
+    private async Task<RecurringPaymentsDto> DetectAsync(string userId)
+    {
+        await using var db = _fixture.CreateBudgetTrackerDbContext();
+        return await RecurringDetector.DetectAsync(db, userId);
+    }
+
+    private async Task<RecurringPaymentDto> DetectSingleAsync(string userId, string? merchantKey = null)
+    {
+        var result = await DetectAsync(userId);
+        return Assert.Single(result.Payments, p => merchantKey == null || p.MerchantKey == merchantKey);
+    }
+}
@@ -0,0 +1,90 @@
+using System.Diagnostics;
+using BudgetTracker.Api.Features.Rules;
+using BudgetTracker.Api.Features.Transactions;
+using BudgetTracker.Api.Tests.Fixtures;
+
+namespace BudgetTracker.Api.Tests.Rules;
+
+public class CategorizationRuleEngineTests
+{
+    private static readonly DateTime Date = new(2025, 6, 1, 0, 0, 0, DateTimeKind.Utc);
+
+    [Theory]
+    [InlineData(RuleMatchType.Contains, "netflix", "NETFLIX.COM 4821", true)]
+    [InlineData(RuleMatchType.Contains, "spotify", "NETFLIX.COM 4821", false)]
+    [InlineData(RuleMatchType.StartsWith, "netflix", "Netflix.com 4821", true)]
+    [InlineData(RuleMatchType.StartsWith, "4821", "Netflix.com 4821", false)]
+    [InlineData(RuleMatchType.Equals, "netflix.com", "  NETFLIX.COM ", true)]
+    [InlineData(RuleMatchType.Equals, "netflix", "NETFLIX.COM", false)]
+    [InlineData(RuleMatchType.Regex, @"^netflix\.com \d+$", "NETFLIX.COM 4821", true)]
+    [InlineData(RuleMatchType.Regex, @"^netflix\.com$", "NETFLIX.COM 4821", false)]
+    public void Should_match_description_when_pattern_fits_the_match_type(RuleMatchType matchType, string pattern,
+        string description, bool expected)
+    {
+        var rule = new CategorizationRule { DescriptionPattern = pattern, MatchType = matchType };
+
+        Assert.Equal(expected, CategorizationRuleEngine.Matches(rule, CreateTransaction(description, -15.99m)));
+    }
+
+    [Theory]
+    [InlineData(RuleAmountSign.Negative, -15.99, true)]
+    [InlineData(RuleAmountSign.Negative, 15.99, false)]
+    [InlineData(RuleAmountSign.Positive, 15.99, true)]
+    [InlineData(RuleAmountSign.Positive, -15.99, false)]
+    [InlineData(RuleAmountSign.Any, 15.99, true)]
+    public void Should_match_amount_sign_when_rule_limits_it(RuleAmountSign sign, double amount, bool expected)
+    {
+        var rule = new CategorizationRule { AmountSign = sign };
+
+        Assert.Equal(expected, CategorizationRuleEngine.Matches(rule, CreateTransaction("Payment", (decimal)amount)));
+    }
+
+    [Theory]
+    [InlineData(-9.99, false)]
+    [InlineData(-10.0, true)]
+    [InlineData(-50.0, true)]
+    [InlineData(-50.01, false)]
+    public void Should_compare_amount_size_with_range_when_rule_has_limits(double amount, bool expected)
+    {
+        var rule = new CategorizationRule { MinAmount = 10m, MaxAmount = 50m };
+
+        Assert.Equal(expected, CategorizationRuleEngine.Matches(rule, CreateTransaction("Payment", (decimal)amount)));
+    }
+
+    [Fact]
+    public void Should_not_match_when_account_differs()
+    {
+        var rule = new CategorizationRule { Account = "savings" };
+
+        Assert.True(CategorizationRuleEngine.Matches(rule, CreateTransaction("Payment", -10m, "Savings")));
+        Assert.False(CategorizationRuleEngine.Matches(rule, CreateTransaction("Payment", -10m, "Checking")));
+    }
+
+    [Fact]
+    public void Should_not_match_when_regex_takes_too_long()
+    {
+        var rule = new CategorizationRule { DescriptionPattern = "^(a+)+$", MatchType = RuleMatchType.Regex };
+        var transaction = CreateTransaction(new string('a', 40) + "!", -10m);
+
+        var stopwatch = Stopwatch.StartNew();
+        var matches = CategorizationRuleEngine.Matches(rule, transaction);
+
+        Assert.False(matches);
+        Assert.True(stopwatch.Elapsed < TimeSpan.FromSeconds(5));
+    }
+
+    [Theory]
+    [InlineData(RuleMatchType.Regex, "(unclosed", false)]
+    [InlineData(RuleMatchType.Regex, @"^netflix\.com", true)]
+    [InlineData(RuleMatchType.Contains, "(unclosed", true)]
+    public void Should_only_reject_invalid_regex_when_validating_patterns(RuleMatchType matchType, string pattern,
+        bool expected)
+    {
+        Assert.Equal(expected, CategorizationRuleEngine.IsValidPattern(matchType, pattern));
+    }
+
+    private static Transaction CreateTransaction(string description, decimal amount, string account = "Checking")
+    {
+        return TestTransactions.Create("rules-user", Date, description, amount, account);
+    }
+}
@@ -0,0 +1,202 @@
+using System.Net;
+using BudgetTracker.Api.Features.Transactions;
+using BudgetTracker.Api.Features.Transactions.Split;
+using BudgetTracker.Api.Tests.Extensions;
+using BudgetTracker.Api.Tests.Fixtures;
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Tests.Transactions;
+
+[Collection("Database")]
+public class BulkSelectionTests
+{
+    private static readonly DateTime Date = new(2025, 4, 15, 0, 0, 0, DateTimeKind.Utc);
+
+    private readonly ApiFixture _fixture;
+    private readonly HttpClient _client;
+
+    public BulkSelectionTests(ApiFixture databaseFixture)
+    {
+        _fixture = databaseFixture;
+        _client = databaseFixture.CreateClient();
+    }
+
+    [Fact]
+    public async Task Should_select_matching_transactions_of_the_user_when_filter_is_sent()
+    {
+        var otherUserId = await AuthenticateAsync();
+        await SeedAsync(TestTransactions.Create(otherUserId, Date, "Coffee shop", -4m));
+
+        var userId = await AuthenticateAsync();
+        await SeedAsync(
+            TestTransactions.Create(userId, Date, "Coffee shop", -4m),
+            TestTransactions.Create(userId, Date.AddDays(1), "Coffee shop", -5m),
+            TestTransactions.Create(userId, Date, "Coffee shop", -6m, account: "Savings"),
+            TestTransactions.Create(userId, Date, "Bakery", -3m));
+
+        var count = await CountAsync(new { filter = new { search = "coffee", accounts = new[] { "Checking" } } });
+
+        Assert.Equal(2, count);
+    }
+
+    [Fact]
+    public async Task Should_select_only_listed_transactions_when_ids_and_filter_are_sent()
+    {
+        var userId = await AuthenticateAsync();
+        var listed = TestTransactions.Create(userId, Date, "Bakery", -3m);
+        await SeedAsync(
+            listed,
+            TestTransactions.Create(userId, Date, "Coffee shop", -4m),
+            TestTransactions.Create(userId, Date, "Coffee shop", -5m));
+
+        var count = await CountAsync(new { transactionIds = new[] { listed.Id }, filter = new { search = "coffee" } });
+
+        Assert.Equal(1, count);
+    }
+
+    [Fact]
+    public async Task Should_update_transactions_matching_filter_when_no_ids_are_sent()
+    {
+        var userId = await AuthenticateAsync();
+        var income = TestTransactions.Create(userId, Date, "Salary", 2500m);
+        var expense = TestTransactions.Create(userId, Date, "Rent", -900m);
+        await SeedAsync(income, expense);
+
+        var response = await _client.PutAsync("/api/transactions/bulk-reviewed",
+            new { isReviewed = true, filter = new { type = "expense" } }.AsJsonContent(),
+            TestContext.Current.CancellationToken);
+
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+
+        await using var db = _fixture.CreateBudgetTrackerDbContext();
+        var reviewed = await db.Transactions
+            .Where(t => t.UserId == userId)
+            .ToDictionaryAsync(t => t.Id, t => t.IsReviewed, TestContext.Current.CancellationToken);
+        Assert.False(reviewed[income.Id]);
+        Assert.True(reviewed[expense.Id]);
+    }
+
+    [Fact]
+    public async Task Should_return_rows_as_they_were_when_changing_them_so_the_change_can_be_undone()
+    {
+        var userId = await AuthenticateAsync();
+        var checking = TestTransactions.Create(userId, Date, "Coffee shop", -4m);
+        var savings = TestTransactions.Create(userId, Date, "Coffee shop", -5m, account: "Savings");
+        await SeedAsync(checking, savings);
+
+        var response = await _client.PutAsync("/api/transactions/bulk-account",
+            new { account = "Credit card", filter = new { search = "coffee" } }.AsJsonContent(),
+            TestContext.Current.CancellationToken);
+
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+
+        var result = await response.ToAsync<BulkUpdateResponse>();
+        Assert.Equal(2, result!.UpdatedCount);
+        Assert.Equal(
+            new[] { (checking.Id, "Checking"), (savings.Id, "Savings") }.Order(),
+            result.Snapshots!.Select(s => (s.Id, s.Account)).Order());
+
+        var restore = await _client.PutAsync("/api/transactions/bulk/restore",
+            new { snapshots = result.Snapshots }.AsJsonContent(), TestContext.Current.CancellationToken);
+
+        Assert.Equal(HttpStatusCode.OK, restore.StatusCode);
+
+        await using var db = _fixture.CreateBudgetTrackerDbContext();
+        var accounts = await db.Transactions
+            .Where(t => t.UserId == userId)
+            .ToDictionaryAsync(t => t.Id, t => t.Account, TestContext.Current.CancellationToken);
+        Assert.Equal("Checking", accounts[checking.Id]);
+        Assert.Equal("Savings", accounts[savings.Id]);
+    }
+
+    [Fact]
+    public async Task Should_skip_split_transactions_when_adding_categories()
+    {
+        var userId = await AuthenticateAsync();
+        var plain = TestTransactions.Create(userId, Date, "Supermarket", -40m, category: "Groceries");
+        var split = TestTransactions.Create(userId, Date, "Supermarket", -100m, category: "Groceries");
+        split.Splits.Add(new TransactionSplit { Id = Guid.NewGuid(), CategoryName = "Groceries", Amount = -60m, UserId = userId });
+        split.Splits.Add(new TransactionSplit { Id = Guid.NewGuid(), CategoryName = "Household", Amount = -40m, UserId = userId });
+        await SeedAsync(plain, split);
+
+        var response = await _client.PostAsync("/api/transactions/bulk-categories",
+            new { categoryNames = new[] { "Weekly shop" }, filter = new { search = "supermarket" } }.AsJsonContent(),
+            TestContext.Current.CancellationToken);
+
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+
+        var result = await response.ToAsync<AddCategoriesResponse>();
+        Assert.Equal(1, result!.AddedCount);
+        Assert.Equal(1, result.SkippedCount);
+
+        await using var db = _fixture.CreateBudgetTrackerDbContext();
+        var tagged = await db.TransactionCategories
+            .Where(tc => tc.CategoryName == "Weekly shop" && tc.UserId == userId)
+            .Select(tc => tc.TransactionId)
+            .ToListAsync(TestContext.Current.CancellationToken);
+        Assert.Equal(new[] { plain.Id }, tagged);
+    }
+
+    [Fact]
+    public async Task Should_return_bad_request_when_listed_ids_belong_to_another_user()
+    {
+        var otherUserId = await AuthenticateAsync();
+        var foreign = TestTransactions.Create(otherUserId, Date, "Coffee shop", -4m);
+        await SeedAsync(foreign);
+
+        var userId = await AuthenticateAsync();
+        var own = TestTransactions.Create(userId, Date, "Coffee shop", -4m);
+        await SeedAsync(own);
+
+        var response = await _client.PutAsync("/api/transactions/bulk-reviewed",
+            new { transactionIds = new[] { own.Id, foreign.Id }, isReviewed = true }.AsJsonContent(),
+            TestContext.Current.CancellationToken);
+
+        Assert.Equal(HttpStatusCode.BadRequest, response.StatusCode);
+
+        await using var db = _fixture.CreateBudgetTrackerDbContext();
+        Assert.False(await db.Transactions.AnyAsync(t => t.Id == foreign.Id && t.IsReviewed,
+            TestContext.Current.CancellationToken));
+    }
+
+    [Fact]
+    public async Task Should_return_bad_request_when_neither_ids_nor_filter_are_sent()
+    {
+        await AuthenticateAsync();
+
+        var response = await _client.PostAsync("/api/transactions/bulk/count",
+            new { transactionIds = Array.Empty<Guid>() }.AsJsonContent(), TestContext.Current.CancellationToken);
+
+        Assert.Equal(HttpStatusCode.BadRequest, response.StatusCode);
+    }
+
+    private async Task<string> AuthenticateAsync()
+    {
+        var user = await _fixture.CreateTestUserAsync($"bulk_{Guid.NewGuid():N}@example.com");
+        _fixture.AuthenticateClient(_client, user.Id, user.Email!);
+        return user.Id;
+    }
+
+    private async Task SeedAsync(params Transaction[] transactions)
+    {
+        await using var db = _fixture.CreateBudgetTrackerDbContext();
+        db.Transactions.AddRange(transactions);
+        await db.SaveChangesAsync(TestContext.Current.CancellationToken);
+    }
+
+    private async Task<int> CountAsync(object request)
+    {
+        var response = await _client.PostAsync("/api/transactions/bulk/count", request.AsJsonContent(),
+            TestContext.Current.CancellationToken);
+
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+
+        var result = await response.ToAsync<CountResponse>();
+        return result!.Count;
+    }
+
+    private record CountResponse(int Count);
+    private record AddCategoriesResponse(int AddedCount, int SkippedCount);
+    private record SnapshotResponse(Guid Id, List<string> Categories, string Account, string? Labels, bool IsReviewed);
+    private record BulkUpdateResponse(int UpdatedCount, List<SnapshotResponse>? Snapshots);
+}
@@ -0,0 +1,107 @@
+using BudgetTracker.Api.Features.Transactions;
+using BudgetTracker.Api.Features.Transactions.Import.Duplicates;
+using BudgetTracker.Api.Tests.Fixtures;
+
+namespace BudgetTracker.Api.Tests.Transactions;
+
+[Collection("Database")]
+public class DuplicateDetectorTests
+{
+    private static readonly DateTime Date = new(2025, 3, 14, 0, 0, 0, DateTimeKind.Utc);
+
+    private readonly ApiFixture _fixture;
+
+    public DuplicateDetectorTests(ApiFixture databaseFixture)
+    {
+        _fixture = databaseFixture;
+    }
+
+    [Fact]
+    public async Task Should_flag_exact_match_when_descriptions_differ_only_in_case_and_punctuation()
+    {
+        var userId = await SeedAsync("NETFLIX.COM 4821");
+
+        var duplicates = await FindDuplicatesAsync(userId, TestTransactions.Create(userId, Date, "Netflix com - 4821", -15.99m));
+
+        var duplicate = Assert.Single(duplicates);
+        Assert.True(duplicate.IsExactMatch);
+        Assert.Equal(0, duplicate.RowIndex);
+    }
+
+    [Fact]
+    public async Task Should_flag_likely_match_when_one_description_contains_the_other()
+    {
+        var userId = await SeedAsync("SPOTIFY");
+
+        var duplicates = await FindDuplicatesAsync(userId, TestTransactions.Create(userId, Date, "Spotify Stockholm", -15.99m));
+
+        var duplicate = Assert.Single(duplicates);
+        Assert.False(duplicate.IsExactMatch);
+    }
+
+    [Fact]
+    public async Task Should_flag_match_when_shared_words_reach_the_threshold()
+    {
+        var userId = await SeedAsync("Coffee Shop Main Street");
+
+        var duplicates = await FindDuplicatesAsync(userId, TestTransactions.Create(userId, Date, "Coffee Shop Main Avenue", -15.99m));
+
+        Assert.Single(duplicates);
+    }
+
+    [Fact]
+    public async Task Should_not_flag_match_when_shared_words_are_below_the_threshold()
+    {
+        var userId = await SeedAsync("Amazon Marketplace");
+
+        var duplicates = await FindDuplicatesAsync(userId, TestTransactions.Create(userId, Date, "Amazon Prime Video", -15.99m));
+
+        Assert.Empty(duplicates);
+    }
+
+    [Fact]
+    public async Task Should_not_flag_match_when_amount_date_or_account_differ()
+    {
+        var userId = await SeedAsync("NETFLIX.COM 4821");
+
+        var duplicates = await FindDuplicatesAsync(userId,
+            TestTransactions.Create(userId, Date, "NETFLIX.COM 4821", -16.99m),
+            TestTransactions.Create(userId, Date.AddDays(1), "NETFLIX.COM 4821", -15.99m),
+            TestTransactions.Create(userId, Date, "NETFLIX.COM 4821", -15.99m, account: "Savings"));
+
+        Assert.Empty(duplicates);
+    }
+
+    [Fact]
+    public async Task Should_match_each_existing_transaction_once_when_imported_rows_repeat()
+    {
+        var userId = await SeedAsync("NETFLIX.COM 4821");
+
+        var duplicates = await FindDuplicatesAsync(userId,
+            TestTransactions.Create(userId, Date, "NETFLIX.COM 4821", -15.99m),
+            TestTransactions.Create(userId, Date, "NETFLIX.COM 4821", -15.99m));
+
+        var duplicate = Assert.Single(duplicates);
+        Assert.Equal(0, duplicate.RowIndex);
+    }
+
+    private async Task<string> SeedAsync(string existingDescription)
+    {
+        var user = await _fixture.CreateTestUserAsync($"duplicates_{Guid.NewGuid():N}@example.com");
+
+        await using var db = _fixture.CreateBudgetTrackerDbContext();
+        db.Transactions.Add(TestTransactions.Create(user.Id, Date, existingDescription, -15.99m));
+        await db.SaveChangesAsync(TestContext.Current.CancellationToken);
+
+        return user.Id;
+    }
+
+    private async Task<List<DuplicateTransactionResult>> FindDuplicatesAsync(string userId,
+        params Transaction[] transactions)
+    {
+        await using var db = _fixture.CreateBudgetTrackerDbContext();
+        var detector = new DuplicateDetector(db);
+
+        return await detector.FindDuplicatesAsync(transactions.ToList(), userId, "Checking");
+    }
+}
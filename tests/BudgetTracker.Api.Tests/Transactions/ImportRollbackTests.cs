@@ -0,0 +1,172 @@
+using System.Net;
+using BudgetTracker.Api.Features.Transactions;
+using BudgetTracker.Api.Features.Transactions.Import.Duplicates;
+using BudgetTracker.Api.Features.Transactions.Import.History;
+using BudgetTracker.Api.Tests.Fixtures;
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Tests.Transactions;
+
+[Collection("Database")]
+public class ImportRollbackTests
+{
+    private static readonly DateTime Date = new(2025, 4, 1, 0, 0, 0, DateTimeKind.Utc);
+
+    private readonly ApiFixture _fixture;
+    private readonly HttpClient _client;
+
+    public ImportRollbackTests(ApiFixture databaseFixture)
+    {
+        _fixture = databaseFixture;
+        _client = databaseFixture.CreateClient();
+    }
+
+    [Fact]
+    public async Task Should_remove_imported_rows_including_trashed_ones_when_import_is_rolled_back()
+    {
+        var userId = await AuthenticateAsync();
+        var hash = NewHash();
+        var earlier = TestTransactions.Create(userId, Date, "Rent", -1200m);
+
+        await using (var db = _fixture.CreateBudgetTrackerDbContext())
+        {
+            var imported = TestTransactions.Create(userId, Date, "Groceries", -54.20m);
+            var trashed = TestTransactions.Create(userId, Date, "Coffee", -3.50m);
+            imported.ImportSessionHash = hash;
+            trashed.ImportSessionHash = hash;
+            trashed.DeletedAt = DateTime.UtcNow;
+
+            db.Transactions.AddRange(earlier, imported, trashed);
+            db.ImportSessions.Add(CreateSession(userId, hash));
+            await db.SaveChangesAsync(TestContext.Current.CancellationToken);
+        }
+
+        var response = await _client.DeleteAsync($"/api/transactions/imports/{hash}", TestContext.Current.CancellationToken);
+
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+
+        await using var verify = _fixture.CreateBudgetTrackerDbContext();
+        var remaining = await verify.Transactions
+            .IgnoreQueryFilters()
+            .Where(t => t.UserId == userId)
+            .ToListAsync(TestContext.Current.CancellationToken);
+        var session = await verify.ImportSessions
+            .SingleAsync(s => s.ImportSessionHash == hash, TestContext.Current.CancellationToken);
+
+        Assert.Equal(earlier.Id, Assert.Single(remaining).Id);
+        Assert.NotNull(session.RolledBackAt);
+    }
+
+    [Fact]
+    public async Task Should_revert_merged_details_when_import_is_rolled_back()
+    {
+        var userId = await AuthenticateAsync();
+        var hash = NewHash();
+        var merged = TestTransactions.Create(userId, Date, "Electricity", -80m, category: "Utilities");
+        merged.Balance = 920m;
+        var edited = TestTransactions.Create(userId, Date, "Water", -30m, category: "Bills");
+
+        await using (var db = _fixture.CreateBudgetTrackerDbContext())
+        {
+            db.Transactions.AddRange(merged, edited);
+            db.ImportSessions.Add(CreateSession(userId, hash));
+            db.PendingDuplicates.AddRange(
+                CreateMerge(userId, hash, 0, merged, balance: 920m, category: "Utilities"),
+                // Changed by the user after the merge, so the rollback leaves it alone
+                CreateMerge(userId, hash, 1, edited, balance: null, category: "Utilities"));
+            await db.SaveChangesAsync(TestContext.Current.CancellationToken);
+        }
+
+        var response = await _client.DeleteAsync($"/api/transactions/imports/{hash}", TestContext.Current.CancellationToken);
+
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+
+        await using var verify = _fixture.CreateBudgetTrackerDbContext();
+        var reverted = await verify.Transactions.SingleAsync(t => t.Id == merged.Id, TestContext.Current.CancellationToken);
+        var kept = await verify.Transactions.SingleAsync(t => t.Id == edited.Id, TestContext.Current.CancellationToken);
+
+        Assert.Null(reverted.Balance);
+        Assert.Equal("Uncategorized", reverted.Category);
+        Assert.Equal("Bills", kept.Category);
+        Assert.False(await verify.PendingDuplicates.AnyAsync(p => p.ImportSessionHash == hash,
+            TestContext.Current.CancellationToken));
+    }
+
+    [Fact]
+    public async Task Should_return_bad_request_when_import_was_already_rolled_back()
+    {
+        var userId = await AuthenticateAsync();
+        var hash = NewHash();
+
+        await using (var db = _fixture.CreateBudgetTrackerDbContext())
+        {
+            db.ImportSessions.Add(CreateSession(userId, hash));
+            await db.SaveChangesAsync(TestContext.Current.CancellationToken);
+        }
+
+        var first = await _client.DeleteAsync($"/api/transactions/imports/{hash}", TestContext.Current.CancellationToken);
+        var second = await _client.DeleteAsync($"/api/transactions/imports/{hash}", TestContext.Current.CancellationToken);
+
+        Assert.Equal(HttpStatusCode.OK, first.StatusCode);
+        Assert.Equal(HttpStatusCode.BadRequest, second.StatusCode);
+    }
+
+    [Fact]
+    public async Task Should_return_not_found_when_import_does_not_exist()
+    {
+        await AuthenticateAsync();
+
+        var response = await _client.DeleteAsync($"/api/transactions/imports/{NewHash()}", TestContext.Current.CancellationToken);
+
+        Assert.Equal(HttpStatusCode.NotFound, response.StatusCode);
+    }
+
+    private async Task<string> AuthenticateAsync()
+    {
+        var user = await _fixture.CreateTestUserAsync($"rollback_{Guid.NewGuid():N}@example.com");
+        _fixture.AuthenticateClient(_client, user.Id, user.Email!);
+        return user.Id;
+    }
+
+    private static string NewHash() => Guid.NewGuid().ToString("N").ToUpperInvariant();
+
+    private static ImportSession CreateSession(string userId, string hash)
+    {
+        return new ImportSession
+        {
+            Id = Guid.NewGuid(),
+            UserId = userId,
+            ImportSessionHash = hash,
+            SourceFile = "statement.csv",
+            Account = "Checking",
+            ImportedAt = DateTime.UtcNow
+        };
+    }
+
+    /// <summary>
+    /// A held-back row that was merged into <paramref name="existing"/>, filling in what it was missing
+    /// </summary>
+    private static PendingDuplicate CreateMerge(string userId, string hash, int rowIndex,
+        Transaction existing, decimal? balance, string category)
+    {
+        return new PendingDuplicate
+        {
+            Id = Guid.NewGuid(),
+            UserId = userId,
+            ImportSessionHash = hash,
+            RowIndex = rowIndex,
+            Date = existing.Date,
+            Description = existing.Description,
+            Amount = existing.Amount,
+            Balance = balance,
+            Category = category,
+            Account = existing.Account,
+            ExistingTransactionId = existing.Id,
+            Resolution = DuplicateAction.Merge,
+            ResolvedAt = DateTime.UtcNow,
+            MergedBalance = balance != null,
+            MergedCategory = true,
+            CategoryBeforeMerge = "Uncategorized"
+        };
+    }
+}
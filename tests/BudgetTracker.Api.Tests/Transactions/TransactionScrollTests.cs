@@ -0,0 +1,124 @@
+using System.Net;
+using BudgetTracker.Api.Features.Transactions;
+using BudgetTracker.Api.Tests.Extensions;
+using BudgetTracker.Api.Tests.Fixtures;
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Tests.Transactions;
+
+[Collection("Database")]
+public class TransactionScrollTests
+{
+    private static readonly DateTime Date = new(2025, 2, 20, 0, 0, 0, DateTimeKind.Utc);
+    private static readonly DateTime ImportedAt = new(2025, 2, 21, 8, 30, 0, DateTimeKind.Utc);
+
+    private readonly ApiFixture _fixture;
+    private readonly HttpClient _client;
+
+    public TransactionScrollTests(ApiFixture databaseFixture)
+    {
+        _fixture = databaseFixture;
+        _client = databaseFixture.CreateClient();
+    }
+
+    [Fact]
+    public async Task Should_return_every_row_once_when_paging_across_equal_dates()
+    {
+        var userId = await AuthenticateAsync();
+        var newer = Enumerable.Range(0, 2).Select(i => Create(userId, Date.AddDays(1), i)).ToList();
+        var older = Enumerable.Range(0, 3).Select(i => Create(userId, Date, i)).ToList();
+        await SeedAsync(newer.Concat(older).ToArray());
+
+        var pages = new List<ScrollResponse>();
+        string? cursor = null;
+        do
+        {
+            var page = await ScrollAsync(cursor, limit: 2);
+            pages.Add(page);
+            cursor = page.NextCursor;
+        } while (cursor != null && pages.Count < 10);
+
+        Assert.Equal(3, pages.Count);
+        Assert.All(pages, p => Assert.Equal(5, p.TotalCount));
+
+        var ids = pages.SelectMany(p => p.Items.Select(t => t.Id)).ToList();
+        Assert.Equal(5, ids.Distinct().Count());
+        Assert.Equal(newer.Select(t => t.Id).Order(), ids.Take(2).Order());
+        Assert.Equal(older.Select(t => t.Id).Order(), ids.Skip(2).Order());
+    }
+
+    [Fact]
+    public async Task Should_continue_after_the_last_row_when_rows_are_added_or_trashed_meanwhile()
+    {
+        var userId = await AuthenticateAsync();
+        var transactions = Enumerable.Range(0, 4).Select(i => Create(userId, Date.AddDays(-i), i)).ToList();
+        await SeedAsync(transactions.ToArray());
+
+        var first = await ScrollAsync(null, limit: 2);
+        Assert.Equal(transactions.Take(2).Select(t => t.Id), first.Items.Select(t => t.Id));
+
+        await SeedAsync(Create(userId, Date.AddDays(1), 9));
+        await using (var db = _fixture.CreateBudgetTrackerDbContext())
+        {
+            var trashed = await db.Transactions.SingleAsync(t => t.Id == transactions[0].Id,
+                TestContext.Current.CancellationToken);
+            trashed.DeletedAt = DateTime.UtcNow;
+            await db.SaveChangesAsync(TestContext.Current.CancellationToken);
+        }
+
+        var second = await ScrollAsync(first.NextCursor, limit: 2);
+
+        Assert.Equal(transactions.Skip(2).Select(t => t.Id), second.Items.Select(t => t.Id));
+        Assert.Null(second.NextCursor);
+    }
+
+    [Fact]
+    public async Task Should_return_bad_request_when_cursor_is_invalid()
+    {
+        await AuthenticateAsync();
+
+        var response = await _client.GetAsync("/api/transactions/scroll?cursor=not-a-cursor",
+            TestContext.Current.CancellationToken);
+
+        Assert.Equal(HttpStatusCode.BadRequest, response.StatusCode);
+    }
+
+    private async Task<string> AuthenticateAsync()
+    {
+        var user = await _fixture.CreateTestUserAsync($"scroll_{Guid.NewGuid():N}@example.com");
+        _fixture.AuthenticateClient(_client, user.Id, user.Email!);
+        return user.Id;
+    }
+
+    // A fixed import time so rows on the same day tie on both sort keys
+    private static Transaction Create(string userId, DateTime date, int index)
+    {
+        var transaction = TestTransactions.Create(userId, date, $"Payment {index}", -10m - index);
+        transaction.ImportedAt = ImportedAt;
+        return transaction;
+    }
+
+    private async Task SeedAsync(params Transaction[] transactions)
+    {
+        await using var db = _fixture.CreateBudgetTrackerDbContext();
+        db.Transactions.AddRange(transactions);
+        await db.SaveChangesAsync(TestContext.Current.CancellationToken);
+    }
+
+    private async Task<ScrollResponse> ScrollAsync(string? cursor, int limit)
+    {
+        var url = $"/api/transactions/scroll?limit={limit}";
+        if (cursor != null)
+        {
+            url += $"&cursor={Uri.EscapeDataString(cursor)}";
+        }
+
+        var response = await _client.GetAsync(url, TestContext.Current.CancellationToken);
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+
+        return (await response.ToAsync<ScrollResponse>())!;
+    }
+
+    private record TransactionResponse(Guid Id);
+    private record ScrollResponse(List<TransactionResponse> Items, int TotalCount, string? NextCursor);
+}
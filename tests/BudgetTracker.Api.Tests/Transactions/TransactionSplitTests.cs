@@ -0,0 +1,153 @@
+using System.Net;
+using BudgetTracker.Api.Features.Transactions;
+using BudgetTracker.Api.Tests.Extensions;
+using BudgetTracker.Api.Tests.Fixtures;
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Tests.Transactions;
+
+[Collection("Database")]
+public class TransactionSplitTests
+{
+    private static readonly DateTime Date = new(2025, 5, 10, 0, 0, 0, DateTimeKind.Utc);
+
+    private readonly ApiFixture _fixture;
+    private readonly HttpClient _client;
+
+    public TransactionSplitTests(ApiFixture databaseFixture)
+    {
+        _fixture = databaseFixture;
+        _client = databaseFixture.CreateClient();
+    }
+
+    [Fact]
+    public async Task Should_save_split_when_allocations_add_up_to_the_amount()
+    {
+        var transaction = await SeedAsync(-100m);
+
+        var response = await SaveSplitsAsync(transaction.Id, ("Groceries", -60m), ("Household", -40m));
+
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+
+        await using var db = _fixture.CreateBudgetTrackerDbContext();
+        var splits = await db.TransactionSplits
+            .Where(s => s.TransactionId == transaction.Id)
+            .ToListAsync(TestContext.Current.CancellationToken);
+        Assert.Equal(2, splits.Count);
+        Assert.Equal(-100m, splits.Sum(s => s.Amount));
+    }
+
+    [Fact]
+    public async Task Should_return_bad_request_when_split_has_a_single_allocation()
+    {
+        var transaction = await SeedAsync(-100m);
+
+        var response = await SaveSplitsAsync(transaction.Id, ("Groceries", -100m));
+
+        await AssertBadRequestAsync(response, "at least two allocations");
+    }
+
+    [Fact]
+    public async Task Should_return_bad_request_when_category_is_used_twice_in_any_case()
+    {
+        var transaction = await SeedAsync(-100m);
+
+        var response = await SaveSplitsAsync(transaction.Id, ("Groceries", -60m), ("groceries ", -40m));
+
+        await AssertBadRequestAsync(response, "only be used once");
+    }
+
+    [Fact]
+    public async Task Should_return_bad_request_when_allocation_sign_differs_from_the_amount()
+    {
+        var transaction = await SeedAsync(-100m);
+
+        var response = await SaveSplitsAsync(transaction.Id, ("Groceries", -120m), ("Refund", 20m));
+
+        await AssertBadRequestAsync(response, "must be negative amounts");
+    }
+
+    [Fact]
+    public async Task Should_return_bad_request_when_allocations_do_not_add_up_to_the_amount()
+    {
+        var transaction = await SeedAsync(-100m);
+
+        var response = await SaveSplitsAsync(transaction.Id, ("Groceries", -60m), ("Household", -30m));
+
+        await AssertBadRequestAsync(response, "add up to -90.00");
+    }
+
+    [Fact]
+    public async Task Should_return_not_found_when_transaction_belongs_to_another_user()
+    {
+        var transaction = await SeedAsync(-100m);
+        await AuthenticateAsync();
+
+        var response = await SaveSplitsAsync(transaction.Id, ("Groceries", -60m), ("Household", -40m));
+
+        Assert.Equal(HttpStatusCode.NotFound, response.StatusCode);
+    }
+
+    [Fact]
+    public async Task Should_remove_split_when_the_amount_is_edited()
+    {
+        var transaction = await SeedAsync(-100m);
+        await SaveSplitsAsync(transaction.Id, ("Groceries", -60m), ("Household", -40m));
+
+        var update = new
+        {
+            date = DateOnly.FromDateTime(transaction.Date),
+            description = transaction.Description,
+            amount = -110m,
+            account = transaction.Account
+        };
+        var response = await _client.PutAsync($"/api/transactions/{transaction.Id}", update.AsJsonContent(),
+            TestContext.Current.CancellationToken);
+
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+
+        await using var db = _fixture.CreateBudgetTrackerDbContext();
+        Assert.False(await db.TransactionSplits.AnyAsync(s => s.TransactionId == transaction.Id,
+            TestContext.Current.CancellationToken));
+    }
+
+    private async Task<string> AuthenticateAsync()
+    {
+        var user = await _fixture.CreateTestUserAsync($"splits_{Guid.NewGuid():N}@example.com");
+        _fixture.AuthenticateClient(_client, user.Id, user.Email!);
+        return user.Id;
+    }
+
+    private async Task<Transaction> SeedAsync(decimal amount)
+    {
+        var userId = await AuthenticateAsync();
+        var transaction = TestTransactions.Create(userId, Date, "Supermarket", amount);
+
+        await using var db = _fixture.CreateBudgetTrackerDbContext();
+        db.Transactions.Add(transaction);
+        await db.SaveChangesAsync(TestContext.Current.CancellationToken);
+
+        return transaction;
+    }
+
+    private Task<HttpResponseMessage> SaveSplitsAsync(Guid transactionId, params (string Category, decimal Amount)[] splits)
+    {
+        var request = new
+        {
+            splits = splits.Select(s => new { categoryName = s.Category, amount = s.Amount })
+        };
+
+        return _client.PutAsync($"/api/transactions/{transactionId}/splits", request.AsJsonContent(),
+            TestContext.Current.CancellationToken);
+    }
+
+    private static async Task AssertBadRequestAsync(HttpResponseMessage response, string expectedError)
+    {
+        Assert.Equal(HttpStatusCode.BadRequest, response.StatusCode);
+
+        var error = await response.ToAsync<ErrorResponse>();
+        Assert.Contains(expectedError, error!.Error);
+    }
+
+    private record ErrorResponse(string Error);
+}
@@ -0,0 +1,167 @@
+using System.Net;
+using BudgetTracker.Api.Features.Transactions;
+using BudgetTracker.Api.Tests.Extensions;
+using BudgetTracker.Api.Tests.Fixtures;
+using Microsoft.EntityFrameworkCore;
+
+namespace BudgetTracker.Api.Tests.Transactions;
+
+[Collection("Database")]
+public class TransactionTrashTests
+{
+    private static readonly DateTime Date = new(2025, 3, 12, 0, 0, 0, DateTimeKind.Utc);
+
+    private readonly ApiFixture _fixture;
+    private readonly HttpClient _client;
+
+    public TransactionTrashTests(ApiFixture databaseFixture)
+    {
+        _fixture = databaseFixture;
+        _client = databaseFixture.CreateClient();
+    }
+
+    [Fact]
+    public async Task Should_hide_transaction_from_list_and_charts_when_deleted()
+    {
+        var (kept, deleted) = await SeedAsync();
+
+        var response = await DeleteAsync(deleted.Id);
+
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+
+        var list = await GetListAsync();
+        Assert.Equal(new[] { kept.Id }, list.Items.Select(t => t.Id));
+        Assert.Equal(1, list.TotalCount);
+
+        var charts = await GetChartsAsync();
+        Assert.Equal(new[] { ("Groceries", 40m) }, charts.Categories.Select(c => (c.Category, c.Amount)));
+
+        var trash = await GetAsync<PagedResponse>("/api/transactions/trash");
+        Assert.Equal(new[] { deleted.Id }, trash.Items.Select(t => t.Id));
+
+        await using var db = _fixture.CreateBudgetTrackerDbContext();
+        var trashed = await db.Transactions
+            .IgnoreQueryFilters()
+            .SingleAsync(t => t.Id == deleted.Id, TestContext.Current.CancellationToken);
+        Assert.NotNull(trashed.DeletedAt);
+    }
+
+    [Fact]
+    public async Task Should_show_transaction_again_when_restored()
+    {
+        var (_, deleted) = await SeedAsync();
+        await DeleteAsync(deleted.Id);
+
+        var response = await _client.PostAsync("/api/transactions/trash/restore",
+            new { transactionIds = new[] { deleted.Id } }.AsJsonContent(), TestContext.Current.CancellationToken);
+
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+
+        var list = await GetListAsync();
+        Assert.Equal(2, list.TotalCount);
+        Assert.Contains(deleted.Id, list.Items.Select(t => t.Id));
+
+        var charts = await GetChartsAsync();
+        Assert.Contains(charts.Categories, c => c is { Category: "Dining", Amount: 25m });
+
+        var trash = await GetAsync<PagedResponse>("/api/transactions/trash");
+        Assert.Empty(trash.Items);
+    }
+
+    [Fact]
+    public async Task Should_remove_transaction_for_good_when_purged()
+    {
+        var (kept, deleted) = await SeedAsync();
+        await DeleteAsync(deleted.Id);
+
+        var response = await _client.PostAsync("/api/transactions/trash/purge",
+            new { transactionIds = new[] { kept.Id, deleted.Id } }.AsJsonContent(),
+            TestContext.Current.CancellationToken);
+
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+
+        var result = await response.ToAsync<PurgeResponse>();
+        Assert.Equal(1, result!.PurgedCount);
+
+        // Only trashed rows are purged, so the row that was never deleted stays
+        await using var db = _fixture.CreateBudgetTrackerDbContext();
+        var remaining = await db.Transactions
+            .IgnoreQueryFilters()
+            .Where(t => t.Id == kept.Id || t.Id == deleted.Id)
+            .Select(t => t.Id)
+            .ToListAsync(TestContext.Current.CancellationToken);
+        Assert.Equal(new[] { kept.Id }, remaining);
+    }
+
+    [Fact]
+    public async Task Should_not_restore_transaction_when_it_belongs_to_another_user()
+    {
+        var (_, deleted) = await SeedAsync();
+        await DeleteAsync(deleted.Id);
+        await AuthenticateAsync();
+
+        var response = await _client.PostAsync("/api/transactions/trash/restore",
+            new { transactionIds = new[] { deleted.Id } }.AsJsonContent(), TestContext.Current.CancellationToken);
+
+        var result = await response.ToAsync<RestoreResponse>();
+        Assert.Equal(0, result!.RestoredCount);
+
+        await using var db = _fixture.CreateBudgetTrackerDbContext();
+        Assert.False(await db.Transactions.AnyAsync(t => t.Id == deleted.Id, TestContext.Current.CancellationToken));
+    }
+
+    private async Task<string> AuthenticateAsync()
+    {
+        var user = await _fixture.CreateTestUserAsync($"trash_{Guid.NewGuid():N}@example.com");
+        _fixture.AuthenticateClient(_client, user.Id, user.Email!);
+        return user.Id;
+    }
+
+    private async Task<(Transaction Kept, Transaction Deleted)> SeedAsync()
+    {
+        var userId = await AuthenticateAsync();
+        var kept = TestTransactions.Create(userId, Date, "Supermarket", -40m, category: "Groceries");
+        var deleted = TestTransactions.Create(userId, Date.AddDays(1), "Pizzeria", -25m, category: "Dining");
+
+        await using var db = _fixture.CreateBudgetTrackerDbContext();
+        db.Transactions.AddRange(kept, deleted);
+        await db.SaveChangesAsync(TestContext.Current.CancellationToken);
+
+        return (kept, deleted);
+    }
+
+    private Task<HttpResponseMessage> DeleteAsync(Guid transactionId)
+    {
+        var request = new HttpRequestMessage(HttpMethod.Delete, "/api/transactions/bulk")
+        {
+            Content = new { transactionIds = new[] { transactionId } }.AsJsonContent()
+        };
+
+        return _client.SendAsync(request, TestContext.Current.CancellationToken);
+    }
+
+    private Task<PagedResponse> GetListAsync()
+    {
+        return GetAsync<PagedResponse>("/api/transactions");
+    }
+
+    private Task<ChartsResponse> GetChartsAsync()
+    {
+        return GetAsync<ChartsResponse>("/api/insights/charts");
+    }
+
+    private async Task<T> GetAsync<T>(string url)
+    {
+        var response = await _client.GetAsync(url, TestContext.Current.CancellationToken);
+        Assert.Equal(HttpStatusCode.OK, response.StatusCode);
+
+        return (await response.ToAsync<T>())!;
+    }
+
+    private record TransactionResponse(Guid Id);
+    private record PagedResponse(List<TransactionResponse> Items, int TotalCount);
+    private record CategoryAmountResponse(string? Category, decimal Amount);
+    private record ChartsResponse(List<CategoryAmountResponse> Categories);
+    private record PurgeResponse(int PurgedCount);
+    private record RestoreResponse(int RestoredCount);
+}